@@ -21,3 +21,27 @@ export function getDefaultValue<K extends keyof typeof DEFAULT_AGENT_CONFIG>(
 ): (typeof DEFAULT_AGENT_CONFIG)[K] {
   return DEFAULT_AGENT_CONFIG[key];
 }
+
+/**
+ * Stored config fields captured by agent revisions, in the order diffs list them
+ */
+export const AGENT_REVISION_FIELDS = [
+  'name',
+  'description',
+  'model',
+  'embeddingModel',
+  'visionModel',
+  'temperature',
+  'maxTokens',
+  'systemPrompt',
+  'memory',
+  'knowledge',
+  'vision',
+  'useTools',
+  'autoContextCompression',
+  'maxContextLength',
+  'preserveLastN',
+  'compressionRatio',
+  'compressionStrategy',
+  'debug',
+] as const;
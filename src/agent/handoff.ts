@@ -0,0 +1,130 @@
+import { HandoffOptions, HandoffRecord, IAgent } from './types';
+import { ContextMessage } from '../context/types';
+import { getLLM } from '../llm';
+import { Tool, ToolCall } from '../llm/types';
+import { BudgetTracker } from '../budget';
+import { MetadataObject } from '../types';
+
+const SUMMARY_MAX_TOKENS = 800;
+
+function toToolName(agentName: string): string {
+  const slug = agentName
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `transfer_to_${slug || 'agent'}`;
+}
+
+/**
+ * Handoff targets with their tool names, keyed by tool name
+ * @throws Error when two targets end up with the same tool name
+ */
+export function resolveHandoffs(
+  handoffs: Array<IAgent | HandoffOptions>
+): Map<string, HandoffOptions> {
+  const targets = new Map<string, HandoffOptions>();
+  for (const handoff of handoffs) {
+    const options = 'agent' in handoff ? handoff : { agent: handoff };
+    const toolName = options.toolName ?? toToolName(options.agent.name);
+    if (targets.has(toolName)) {
+      throw new Error(`Duplicate handoff tool name: ${toolName}`);
+    }
+    targets.set(toolName, { ...options, toolName });
+  }
+  return targets;
+}
+
+/**
+ * Tool the LLM calls to hand the conversation over to the target
+ */
+export function createHandoffTool(target: HandoffOptions): Tool {
+  const description =
+    target.description ?? target.agent.config.description ?? `the ${target.agent.name} agent`;
+  return {
+    type: 'function',
+    function: {
+      name: target.toolName ?? toToolName(target.agent.name),
+      description: `Transfer the conversation to ${target.agent.name}, who answers the user from then on. Use for: ${description}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'Why the conversation is transferred, for the receiving agent',
+          },
+        },
+        required: [],
+      },
+    },
+  };
+}
+
+/**
+ * First transfer call among the tool calls; other calls of the same response are dropped
+ */
+export function findHandoffCall(
+  toolCalls: ToolCall[] | undefined,
+  targets: Map<string, HandoffOptions>
+): { toolCall: ToolCall; target: HandoffOptions } | null {
+  for (const toolCall of toolCalls ?? []) {
+    const target = targets.get(toolCall.function?.name ?? '');
+    if (target) {
+      return { toolCall, target };
+    }
+  }
+  return null;
+}
+
+/**
+ * Reason argument of a transfer call, if the LLM gave one
+ */
+export function parseHandoffReason(toolCall: ToolCall): string | undefined {
+  try {
+    const args: unknown =
+      typeof toolCall.function.arguments === 'string'
+        ? JSON.parse(toolCall.function.arguments)
+        : toolCall.function.arguments;
+    const reason = (args as { reason?: unknown } | null)?.reason;
+    return typeof reason === 'string' && reason.trim() !== '' ? reason.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Summarize a conversation for the agent taking it over
+ */
+export async function summarizeConversation(
+  messages: ContextMessage[],
+  options: { model: string; signal?: AbortSignal; budget?: BudgetTracker }
+): Promise<string> {
+  const transcript = messages.map((message) => `${message.role}: ${message.content}`).join('\n\n');
+  const response = await getLLM().generateResponse({
+    model: options.model,
+    systemPrompt:
+      'Summarize this conversation for the agent taking it over. Keep what the user wants, facts and decisions so far, and open questions. Answer with the summary only.',
+    messages: [{ role: 'user', content: transcript }],
+    temperature: 0,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    signal: options.signal,
+    budget: options.budget,
+  });
+  return response.content;
+}
+
+/**
+ * Memory metadata recording how a conversation reached its current agent
+ */
+export function handoffMetadata(chain: HandoffRecord[]): MetadataObject {
+  const last = chain[chain.length - 1];
+  return {
+    handoff: {
+      from: last.fromAgentId,
+      to: last.toAgentId,
+      ...(last.reason !== undefined && { reason: last.reason }),
+      summarized: last.summarized,
+      chain: [chain[0].fromAgentName, ...chain.map((record) => record.toAgentName)],
+      chainIds: [chain[0].fromAgentId, ...chain.map((record) => record.toAgentId)],
+    },
+  };
+}
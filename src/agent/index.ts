@@ -5,8 +5,27 @@ import {
   IAgentWithModules,
   RunOptions,
   AskOptions,
+  AgentStreamEvent,
+  StreamOptions,
+  ToolReviewOptions,
+  AgentToolOptions,
+  AgentRevision,
+  AgentRevisionChange,
+  AgentRevisionDiff,
+  AgentRevisionInfo,
+  HandoffOptions,
+  HandoffRecord,
 } from './types';
-import { DEFAULT_AGENT_CONFIG } from './defaults';
+import { createAgentTool } from './tool';
+import {
+  createHandoffTool,
+  findHandoffCall,
+  handoffMetadata,
+  parseHandoffReason,
+  resolveHandoffs,
+  summarizeConversation,
+} from './handoff';
+import { DEFAULT_AGENT_CONFIG, AGENT_REVISION_FIELDS } from './defaults';
 import { Task as TaskType, TaskRequest, TaskSearchOptions, TaskResponse } from '../task/types';
 import { Memory as MemoryType, MemorySearchOptions } from '../memory/types';
 import { MCPServerDefinition, MCPValue, MCPTool } from '../mcp/types';
@@ -18,9 +37,39 @@ import {
   ToolParameterValue,
   PluginConfig,
   ToolCallResult,
+  ToolApprovalOutcome,
+  ToolApprovalRequest,
+  ToolApprovalSettings,
 } from '../plugin/types';
 import { convertToolParametersToJsonSchema, cleanupPlugin } from '../plugin';
-import { ToolError } from '../errors';
+import {
+  formatDeniedToolResult,
+  mergeToolApprovalSettings,
+  resolveToolApproval,
+} from '../plugin/approval';
+import {
+  OperationCancelledError,
+  ToolError,
+  isBudgetExceededError,
+  isGuardrailViolationError,
+  isOperationCancelledError,
+  throwIfAborted,
+} from '../errors';
+import { BudgetLimits, BudgetTracker, attachPartialResult, resolveBudget } from '../budget';
+import { GuardrailChain } from '../guardrail';
+import { GuardrailCheckOptions, GuardrailResult, GuardrailStage } from '../guardrail/types';
+import { cacheKeyFromRequest, getResponseCache, resolveCacheOptions } from '../cache';
+import { CacheStats, CachedResponse } from '../cache/types';
+import {
+  buildReflectionPrompt,
+  collectToolUses,
+  formatReflection,
+  generateReflection,
+  reflectionMetadata,
+  resolveReflectionOptions,
+} from '../reflection';
+import { DEFAULT_REFLECTION_CONFIG } from '../reflection/defaults';
+import { ReflectionInput } from '../reflection/types';
 
 import { Task } from '../task';
 import { Memory } from '../memory';
@@ -31,6 +80,8 @@ import { Knowledge } from '../knowledge';
 import { Vision } from '../vision';
 import { cleanupVision } from '../vision/tools';
 import { SubAgent } from '../sub-agent';
+import { Goal } from '../goal';
+import { GoalProgress, GoalResult, PursueOptions } from '../goal/types';
 import { ContextManager } from '../context';
 import {
   ContextMessage,
@@ -39,10 +90,29 @@ import {
   ContextSummary,
   CompressionResult,
 } from '../context/types';
+import { ContextStorage } from '../context/storage';
+import { SessionStorage, DEFAULT_SESSION_CONFIG } from '../session';
+import { Session, SessionListOptions } from '../session/types';
+import { resolvePrompt } from '../template';
+import { PromptInput } from '../template/types';
 import { getDatabase } from '../database';
 import { getProviderForModel } from '../llm/models';
+import { getContextBudget } from '../llm/registry';
 import { getLLM } from '../llm';
-import { LLMRequestOptions, Tool, ToolCall } from '../llm/types';
+import {
+  addSchemaInstruction,
+  buildSchemaInstruction,
+  parseStructuredContent,
+  resolveStructuredOutput,
+} from '../llm/structured';
+import {
+  LLMRequestOptions,
+  LLMUsage,
+  ResponseSchema,
+  Tool,
+  ToolCall,
+  mergeUsage,
+} from '../llm/types';
 import { Logger, getLogger } from '../logger';
 import * as fs from 'fs/promises';
 import path from 'path';
@@ -107,9 +177,82 @@ function isValidRole(role: unknown): role is 'user' | 'assistant' | 'system' {
   return role === 'user' || role === 'assistant' || role === 'system';
 }
 
+/**
+ * Message shape used while building the ask() conversation
+ */
+type AskMessage = {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  tool_call_id?: string;
+  tool_calls?: ToolCall[];
+};
+
+/**
+ * Run state shared with the tool calls of one ask() round
+ */
+type AskToolRun = {
+  onEvent?: (event: AgentStreamEvent) => void;
+  signal?: AbortSignal;
+  budget?: BudgetTracker;
+  approval?: ToolReviewOptions;
+  recordUsage?: (model: string, usage?: LLMUsage) => void; // Usage reported by tools (e.g. agent tools)
+};
+
+/**
+ * Best-effort parse of tool call arguments for event reporting.
+ * Tool execution does its own strict parsing.
+ */
+function parseToolCallArguments(args: unknown): Record<string, unknown> {
+  if (typeof args === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(args);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+  return args && typeof args === 'object' ? (args as Record<string, unknown>) : {};
+}
+
 // Maximum session messages to prevent unbounded memory growth
 const MAX_SESSION_MESSAGES = 1000;
 
+/**
+ * Queued mutex: the holder's promise plus waiters in arrival order
+ */
+interface OperationLock {
+  current: Promise<void> | null;
+  queue: Array<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }>;
+}
+
+/**
+ * Shared/exclusive gate over the agent's MCP and plugin registries: asks that register
+ * per-call servers or plugins hold it alone, all other asks share it
+ */
+interface ToolRegistryGate {
+  shared: number;
+  exclusive: Promise<void> | null;
+  onIdle: (() => void) | null; // Wakes the exclusive ask waiting for shared holders to finish
+}
+
+/**
+ * Open conversation session (AskOptions.sessionId)
+ * Has its own context window and lock, so asks in different sessions run in parallel
+ */
+interface ConversationSession {
+  id: string;
+  context: ContextManager;
+  messages: ContextMessage[]; // Session-only messages when memory is disabled
+  lock: OperationLock;
+  eventHandler: ((event: AgentStreamEvent) => void) | null; // Listener of the ask holding the lock
+  lastUsed: number;
+}
+
 /**
  * Abstract base class for all agents
  * Provides core functionality and database operations
@@ -136,12 +279,20 @@ export abstract class BaseAgent implements IAgent {
   /**
    * Abstract method that must be implemented by concrete agent classes
    */
+  abstract run<T = unknown>(
+    prompt: string,
+    options: RunOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
   abstract run(prompt: string, options?: RunOptions): Promise<string>;
 
   /**
    * Abstract method that must be implemented by concrete agent classes
    */
-  abstract ask(prompt: string, options?: AskOptions): Promise<string>;
+  abstract ask<T = unknown>(
+    prompt: PromptInput,
+    options: AskOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
+  abstract ask(prompt: PromptInput, options?: AskOptions): Promise<string>;
 
   /**
    * Abstract context methods that must be implemented by concrete agent classes
@@ -190,18 +341,32 @@ export abstract class BaseAgent implements IAgent {
   }
 
   // Instance methods
-  async update(updates: Partial<AgentConfig>): Promise<void> {
+  async update(
+    updates: Partial<AgentConfig>,
+    revision?: AgentRevisionInfo & { rollbackOf?: string }
+  ): Promise<void> {
     if (!this.data.id) {
       throw new Error('Cannot update agent: agent has no ID');
     }
 
     const db = await getDatabase();
-    const updatedData = await db.updateAgent(this.data.id, updates);
+    const updatedData = await db.updateAgent(this.data.id, updates, revision);
     if (!updatedData) {
       throw new Error(`Failed to update agent ${this.data.name}: database returned null`);
     }
 
-    this.data = updatedData;
+    // Approval hooks, budgets, guardrails, cache, handoffs, reflection and fallbacks are runtime only
+    this.data = {
+      ...updatedData,
+      approveToolCall: updates.approveToolCall ?? this.data.approveToolCall,
+      toolApproval: updates.toolApproval ?? this.data.toolApproval,
+      budget: updates.budget ?? this.data.budget,
+      guardrails: updates.guardrails ?? this.data.guardrails,
+      cache: updates.cache ?? this.data.cache,
+      handoffs: updates.handoffs ?? this.data.handoffs,
+      reflection: updates.reflection ?? this.data.reflection,
+      fallbackModels: updates.fallbackModels ?? this.data.fallbackModels,
+    };
 
     // Update logger debug mode if changed
     if (updates.debug !== undefined) {
@@ -266,17 +431,45 @@ export abstract class BaseAgent implements IAgent {
   /**
    * Protected helper for concrete implementations
    */
-  protected async callLLM(prompt: string, options?: RunOptions): Promise<string> {
+  protected async callLLM(prompt: string, options?: RunOptions): Promise<unknown> {
     const llm = getLLM(this.logger);
+    const budget = resolveBudget(options?.budget, this.config.budget);
 
-    const response = await llm.generateResponse({
+    const request: LLMRequestOptions = {
       model: options?.model ?? this.getModel(),
       messages: [{ role: 'user', content: prompt }],
       temperature: options?.temperature ?? this.getTemperature(),
       maxTokens: options?.maxTokens ?? this.getMaxTokens(),
       systemPrompt: this.getSystemPrompt() || undefined,
       stream: options?.stream,
-    });
+      signal: options?.signal,
+      budget,
+      fallbackModels: this.config.fallbackModels,
+    };
+
+    if (options?.responseSchema) {
+      // Providers read systemPrompt before system messages, so fold the instruction into it
+      request.systemPrompt = [request.systemPrompt, buildSchemaInstruction(options.responseSchema)]
+        .filter(Boolean)
+        .join('\n\n');
+      request.responseFormat = { type: 'json', schema: options.responseSchema };
+    }
+
+    const response = await llm.generateResponse(request);
+
+    if (options?.responseSchema) {
+      try {
+        const structured = await resolveStructuredOutput(llm, request, response.content, {
+          schema: options.responseSchema,
+          maxRetries: options.schemaRetries,
+          logger: this.logger,
+        });
+        return structured.data;
+      } catch (error) {
+        attachPartialResult(error, response.content);
+        throw error;
+      }
+    }
 
     return response.content;
   }
@@ -291,14 +484,33 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
   // Instance-level operation lock to prevent concurrent chat/run operations
   // This prevents state corruption when multiple calls happen simultaneously
-  private operationLock: Promise<void> | null = null;
-  private operationQueue: Array<{
-    resolve: () => void;
-    reject: (error: Error) => void;
-  }> = [];
+  private operationLock: OperationLock = { current: null, queue: [] };
+
+  // Per-call MCP servers and plugins are registered on the shared modules, so asks that bring
+  // them must not run beside asks in other sessions, which would see and lose those tools
+  private toolRegistryGate: ToolRegistryGate = { shared: 0, exclusive: null, onIdle: null };
+
+  // Event listener of the ask() currently holding the operation lock
+  // Lets module callbacks (e.g. context compression) report into the active run
+  private activeEventHandler: ((event: AgentStreamEvent) => void) | null = null;
+
+  // Open conversation sessions, and loads in progress so concurrent asks share one
+  private sessions = new Map<string, ConversationSession>();
+  private sessionLoads = new Map<string, Promise<ConversationSession>>();
+  // Asks per session id from before its session is opened until they release its lock; pinned
+  // sessions are not closed as idle
+  private sessionPins = new Map<string, number>();
+  // Agent each handed-over conversation was transferred to, by session id ('' without a session);
+  // a session's route ends when the session is closed or deleted
+  private handoffRoutes = new Map<string, IAgent>();
+  private sessionStorage: SessionStorage;
+
+  // Config revision this instance runs; undefined until looked up
+  private currentRevision: AgentRevision | null | undefined;
 
   private modules: {
     task: Task;
+    goal: Goal;
     memory?: Memory;
     graph?: Graph;
     plugin?: Plugin;
@@ -315,6 +527,7 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     // Initialize modules
     this.modules = {
       task: new Task(this),
+      goal: new Goal(this),
     };
 
     if (data.memory) {
@@ -338,17 +551,39 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     this.modules.subAgent = new SubAgent(this.logger);
 
     // Always initialize context manager (core component)
+    this.modules.context = this.createContextManager();
+
+    this.sessionStorage = new SessionStorage(this.logger);
+
+    // Module methods are now directly implemented in the class
+  }
+
+  /**
+   * Create a context window with the agent's compression settings
+   */
+  private createContextManager(): ContextManager {
     // Use nullish coalescing (??) to properly handle 0 values for numeric fields
-    this.modules.context = new ContextManager({
-      maxContextLength: data.maxContextLength ?? data.maxTokens ?? 8000,
-      autoCompress: data.autoContextCompression ?? false,
+    return new ContextManager({
+      maxContextLength: this.getContextLength(),
+      autoCompress: this.data.autoContextCompression ?? false,
       model: this.getModel(), // Use agent's effective model
-      preserveLastN: data.preserveLastN,
-      compressionRatio: data.compressionRatio,
-      compressionStrategy: data.compressionStrategy,
+      preserveLastN: this.data.preserveLastN,
+      compressionRatio: this.data.compressionRatio,
+      compressionStrategy: this.data.compressionStrategy,
     });
+  }
 
-    // Module methods are now directly implemented in the class
+  /**
+   * Context window size: the configured maxContextLength, else sized from the model registry
+   * with room left for the completion
+   */
+  private getContextLength(): number {
+    return (
+      this.data.maxContextLength ??
+      getContextBudget(this.getModel(), this.getMaxTokens()) ??
+      this.data.maxTokens ??
+      8000
+    );
   }
 
   // ===== TASK MODULE METHODS (always available) =====
@@ -379,14 +614,46 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
   async executeTask(
     taskId: string,
-    options?: { model?: string; stream?: boolean }
+    options?: {
+      model?: string;
+      stream?: boolean;
+      signal?: AbortSignal;
+      budget?: BudgetLimits | BudgetTracker;
+    } & ToolApprovalSettings
   ): Promise<TaskResponse> {
     return this.modules.task.executeTask(taskId, options);
   }
 
+  // ===== GOAL MODE (always available) =====
+
+  /**
+   * Pursue a goal autonomously: plan steps, run each as a task, replan when one fails.
+   * The goal and every step are stored as tasks, so progress survives a crash.
+   */
+  async pursue(goal: string, options?: PursueOptions): Promise<GoalResult> {
+    return this.modules.goal.pursue(goal, options);
+  }
+
+  /**
+   * Continue a goal from its last checkpoint, e.g. after a crash or cancellation
+   */
+  async resumeGoal(goalId: string, options?: PursueOptions): Promise<GoalResult> {
+    return this.modules.goal.resume(goalId, options);
+  }
+
+  async getGoalProgress(goalId: string): Promise<GoalProgress | null> {
+    return this.modules.goal.getProgress(goalId);
+  }
+
   // ===== MEMORY MODULE METHODS (when memory enabled) =====
 
   async addMemory(content: string, metadata?: MetadataObject): Promise<MemoryType> {
+    // Messages of a session go to that session's context window
+    const session = metadata?.sessionId
+      ? await this.openSession(String(metadata.sessionId))
+      : undefined;
+    const contextModule = session ? session.context : this.modules.context;
+
     if (this.modules.memory) {
       // Extract context fields from metadata for proper DB storage
       const context: { graphId?: string; taskId?: string; sessionId?: string } = {};
@@ -409,7 +676,7 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
       // Also add to context manager (for non-memory-fed scenarios)
       // Mark as 'memory' source so saveContextToMemory won't re-save it
-      if (this.modules.context) {
+      if (contextModule) {
         const contextMessage: ContextMessage = {
           role: isValidRole(metadata?.role) ? metadata.role : 'user',
           content,
@@ -420,7 +687,11 @@ export class Agent extends BaseAgent implements IAgentWithModules {
             memory_id: memory.id,
           },
         };
-        await this.modules.context.addMessage(contextMessage);
+        await contextModule.addMessage(contextMessage);
+      }
+
+      if (session) {
+        await this.recordSessionActivity(session.id);
       }
 
       return memory;
@@ -434,16 +705,24 @@ export class Agent extends BaseAgent implements IAgentWithModules {
       };
 
       // Enforce session messages size limit to prevent unbounded memory growth
-      if (this.sessionMessages.length >= MAX_SESSION_MESSAGES) {
+      let messages = session ? session.messages : this.sessionMessages;
+      if (messages.length >= MAX_SESSION_MESSAGES) {
         // Remove oldest messages from the beginning (not from the middle)
         const removeCount = Math.floor(MAX_SESSION_MESSAGES / 2);
-        this.sessionMessages = this.sessionMessages.slice(removeCount);
+        messages = messages.slice(removeCount);
         this.logger.debug('Truncated session messages', {
           removed: removeCount,
-          remaining: this.sessionMessages.length,
+          remaining: messages.length,
         });
       }
-      this.sessionMessages.push(contextMessage);
+      messages.push(contextMessage);
+
+      if (session) {
+        session.messages = messages;
+        await this.recordSessionActivity(session.id);
+      } else {
+        this.sessionMessages = messages;
+      }
 
       // Return mock memory object with proper UUID
       return {
@@ -539,16 +818,25 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     // Clear session messages
     this.sessionMessages = [];
 
-    // Clear operation queue - reject pending operations
-    while (this.operationQueue.length > 0) {
-      const pending = this.operationQueue.shift();
-      if (pending) {
-        pending.reject(new Error('Agent destroyed while operation was pending'));
+    // Clear operation queues - reject pending operations
+    for (const lock of [this.operationLock, ...[...this.sessions.values()].map((s) => s.lock)]) {
+      while (lock.queue.length > 0) {
+        const pending = lock.queue.shift();
+        if (pending) {
+          pending.reject(new Error('Agent destroyed while operation was pending'));
+        }
       }
     }
 
     // Clear operation lock
-    this.operationLock = null;
+    this.operationLock = { current: null, queue: [] };
+
+    // Save and close open sessions; they stay resumable
+    for (const session of this.sessions.values()) {
+      await this.closeSession(session);
+    }
+    this.sessions.clear();
+    this.handoffRoutes.clear();
 
     // Clear context if available
     if (this.modules.context) {
@@ -833,9 +1121,26 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     return this.modules.plugin.getTools();
   }
 
-  async executeTool(toolCall: import('../plugin/types').ToolCall): Promise<ToolCallResult> {
+  async executeTool(
+    toolCall: import('../plugin/types').ToolCall,
+    signal?: AbortSignal,
+    budget?: BudgetTracker
+  ): Promise<ToolCallResult> {
     if (!this.modules.plugin) throw new Error('Plugin module not enabled');
-    return this.modules.plugin.executeTool(toolCall, { agentId: this.id, agent: this });
+    return this.modules.plugin.executeTool(toolCall, {
+      agentId: this.id,
+      agent: this,
+      signal,
+      budget,
+    });
+  }
+
+  /**
+   * Expose this agent as a tool other agents can register and call like a function.
+   * The tool result carries this agent's usage so it is counted in the caller's usage.
+   */
+  asTool(options?: AgentToolOptions): ToolDefinition {
+    return createAgentTool(this, options);
   }
 
   // ===== MCP MODULE METHODS (when useTools enabled) =====
@@ -857,10 +1162,11 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
   async callMCPTool(
     toolName: string,
-    args: Record<string, MCPValue>
+    args: Record<string, MCPValue>,
+    signal?: AbortSignal
   ): Promise<{ content: Array<{ type: string; text?: string }>; isError?: boolean }> {
     if (!this.modules.mcp) throw new Error('MCP module not enabled');
-    return this.modules.mcp.callMCPTool(toolName, args);
+    return this.modules.mcp.callMCPTool(toolName, args, signal);
   }
 
   getMCPTools(): MCPTool[] {
@@ -868,6 +1174,348 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     return this.modules.mcp.getMCPTools();
   }
 
+  // ===== TOOL APPROVAL =====
+
+  /**
+   * Check a tool call requested by the LLM against the approval policy and hook.
+   * Per-call settings in `options` are merged over the agent's own.
+   */
+  async reviewToolCall(
+    toolCall: ToolCall,
+    options?: ToolReviewOptions
+  ): Promise<ToolApprovalOutcome> {
+    const settings = mergeToolApprovalSettings(this.config, options);
+    const toolName = toolCall.function?.name;
+    if ((!settings.approveToolCall && !settings.toolApproval) || !toolName) {
+      return { approved: true };
+    }
+
+    let request: ToolApprovalRequest;
+    if (toolName.startsWith('mcp_')) {
+      const mcpToolName = toolName.substring(4);
+      request = {
+        id: toolCall.id,
+        name: mcpToolName,
+        source: 'mcp',
+        server: this.modules.mcp?.getToolServer(mcpToolName),
+        arguments: parseToolCallArguments(toolCall.function.arguments),
+      };
+    } else if (toolName.startsWith('plugin_')) {
+      const pluginToolName = toolName.substring(7);
+      request = {
+        id: toolCall.id,
+        name: pluginToolName,
+        source: 'plugin',
+        plugin: this.modules.plugin?.getToolPlugin(pluginToolName),
+        arguments: parseToolCallArguments(toolCall.function.arguments),
+      };
+    } else {
+      // Unknown tool types are never executed, nothing to approve
+      return { approved: true };
+    }
+
+    const outcome = await resolveToolApproval(
+      request,
+      { agentId: this.id, agentName: this.name, taskId: options?.taskId, prompt: options?.prompt },
+      settings,
+      this.logger
+    );
+
+    if (!outcome.approved) {
+      this.logger.info(`Tool call denied: ${request.name}`);
+      this.logger.debug('Tool call denied', {
+        toolName: request.name,
+        toolCallId: toolCall.id,
+        reason: outcome.reason,
+      });
+    } else if (outcome.arguments) {
+      this.logger.debug('Tool call arguments edited by approval hook', {
+        toolName: request.name,
+        toolCallId: toolCall.id,
+      });
+    }
+
+    return outcome;
+  }
+
+  // ===== GUARDRAILS =====
+
+  /**
+   * Run the agent's guardrails on content for one stage of a run.
+   * Content is returned unchanged when the agent has no guardrails.
+   * @throws GuardrailViolationError when a guardrail rejects the content
+   */
+  async applyGuardrails(
+    content: string,
+    stage: GuardrailStage,
+    options?: GuardrailCheckOptions
+  ): Promise<GuardrailResult> {
+    const guardrails = this.config.guardrails;
+    if (!guardrails || guardrails.length === 0) {
+      return { content, violations: [] };
+    }
+
+    const { onViolation, ...context } = options ?? {};
+    try {
+      const result = await new GuardrailChain(guardrails, this.logger).run(
+        content,
+        { ...context, stage, agentId: this.id, agentName: this.name, model: this.getModel() },
+        onViolation
+      );
+      if (result.violations.length > 0) {
+        this.logger.info(
+          `Guardrails changed the ${stage}: ${result.violations.map((v) => v.guardrail).join(', ')}`
+        );
+      }
+      return result;
+    } catch (error) {
+      if (isGuardrailViolationError(error)) {
+        this.logger.info(`Guardrail ${error.guardrail} rejected the ${stage}`);
+      }
+      throw error;
+    }
+  }
+
+  private hasGuardrails(stage: GuardrailStage): boolean {
+    return (this.config.guardrails ?? []).some(
+      (guardrail) => !guardrail.stages || guardrail.stages.includes(stage)
+    );
+  }
+
+  // ===== RESPONSE CACHE =====
+
+  /**
+   * Hit/miss counters of this agent's response cache since start
+   */
+  getCacheStats(): CacheStats {
+    return getResponseCache().getStats(this.getCacheScope());
+  }
+
+  /**
+   * Delete this agent's cached responses
+   * @returns Number of entries deleted
+   */
+  async clearCache(): Promise<number> {
+    const deleted = await getResponseCache().clear(this.getCacheScope());
+    this.logger.info(`Cleared ${deleted} cached responses`);
+    return deleted;
+  }
+
+  private getCacheScope(): string {
+    const setting = this.config.cache;
+    return typeof setting === 'object' && setting.scope ? setting.scope : this.id;
+  }
+
+  /**
+   * Whether a tool call may change state outside the run; plugin tools must opt out with
+   * sideEffects: false, MCP tools with the readOnlyHint annotation
+   */
+  private toolHasSideEffects(toolName: string): boolean {
+    if (toolName.startsWith('plugin_')) {
+      return this.modules.plugin?.getTool(toolName.slice('plugin_'.length))?.sideEffects !== false;
+    }
+    if (toolName.startsWith('mcp_')) {
+      const name = toolName.slice('mcp_'.length);
+      const tool = this.modules.mcp
+        ?.getMCPTools()
+        .find((mcpTool) => mcpTool.name === name || name.endsWith(`:${mcpTool.name}`));
+      return tool?.annotations?.readOnlyHint !== true;
+    }
+    return true;
+  }
+
+  // ===== HANDOFFS =====
+
+  /**
+   * Agent answering a conversation: the last one it was handed over to, or this agent.
+   * Routes live in memory; after a restart conversations start at this agent again.
+   */
+  getActiveAgent(sessionId?: string): IAgent {
+    const target = this.handoffRoutes.get(sessionId ?? '');
+    if (!target) {
+      return this;
+    }
+    return target.getActiveAgent?.(sessionId) ?? target;
+  }
+
+  /**
+   * Take a handed-over conversation back, so this agent answers the next asks again
+   * @returns false if the conversation was not handed over
+   */
+  endHandoff(sessionId?: string): boolean {
+    return this.handoffRoutes.delete(sessionId ?? '');
+  }
+
+  /**
+   * Hand the conversation over: copy its context (or a summary) to the target, route the
+   * session's next asks to it and let it answer the current prompt
+   */
+  private async handOff(
+    target: HandoffOptions,
+    toolCall: ToolCall,
+    prompt: string,
+    context: ContextMessage[],
+    options?: AskOptions
+  ): Promise<{ response: string; data?: unknown }> {
+    const sessionId = options?.sessionId;
+    const budget = options?.budget instanceof BudgetTracker ? options.budget : undefined;
+    const record: HandoffRecord = {
+      fromAgentId: this.id,
+      fromAgentName: this.name,
+      toAgentId: target.agent.id,
+      toAgentName: target.agent.name,
+      reason: parseHandoffReason(toolCall),
+      summarized: !!target.summarize && context.length > 0,
+      ...(sessionId !== undefined && { sessionId }),
+      timestamp: new Date(),
+    };
+    const chain = [...(options?.handoffChain ?? []), record];
+    const metadata: MetadataObject = {
+      ...handoffMetadata(chain),
+      source: 'handoff',
+      ...(sessionId !== undefined && { sessionId }),
+    };
+
+    // User-facing info log
+    this.logger.info(`Handing conversation over to ${target.agent.name}`);
+
+    this.logger.debug('Agent handoff', {
+      toAgentId: target.agent.id,
+      sessionId: sessionId ?? null,
+      reason: record.reason ?? null,
+      summarized: record.summarized,
+      contextMessages: context.length,
+      chainLength: chain.length,
+    });
+    options?.onEvent?.({ type: 'handoff', handoff: record });
+
+    // The target gets the conversation before the prompt; its own ask adds the prompt
+    if (record.summarized) {
+      const summary = await summarizeConversation(context, {
+        model: this.getModel(),
+        signal: options?.signal,
+        budget,
+      });
+      await target.agent.addMemory?.(`Summary of the conversation so far:\n${summary}`, {
+        ...metadata,
+        role: 'system',
+      });
+    } else {
+      for (const message of context) {
+        await target.agent.addMemory?.(message.content, { ...metadata, role: message.role });
+      }
+    }
+    const notice = `Conversation transferred from ${this.name} to ${target.agent.name}`;
+    await target.agent.addMemory?.(record.reason ? `${notice}: ${record.reason}` : notice, {
+      ...metadata,
+      role: 'system',
+    });
+    await this.addMemory(notice, { ...metadata, role: 'system' });
+
+    this.handoffRoutes.set(sessionId ?? '', target.agent);
+
+    // The target's final event is replaced by this run's, everything else passes through
+    let final: { response: string; data?: unknown } | undefined;
+    const result: unknown = await target.agent.ask(prompt, {
+      stream: options?.stream,
+      onChunk: options?.onChunk,
+      responseSchema: options?.responseSchema,
+      schemaRetries: options?.schemaRetries,
+      signal: options?.signal,
+      budget: options?.budget,
+      sessionId,
+      handoffChain: chain,
+      onEvent: (event) => {
+        if (event.type === 'final') {
+          final = { response: event.response, data: event.data };
+        } else {
+          options?.onEvent?.(event);
+        }
+      },
+    });
+
+    return (
+      final ?? {
+        response: typeof result === 'string' ? result : JSON.stringify(result),
+        data: options?.responseSchema ? result : undefined,
+      }
+    );
+  }
+
+  // ===== REFLECTIONS =====
+
+  /**
+   * Stored reflections most similar to a query, up to the agent's reflection limit.
+   * Empty when reflection is off or the agent has no memory.
+   */
+  async findReflections(query: string): Promise<MemoryType[]> {
+    const settings = resolveReflectionOptions(this.config.reflection);
+    if (!settings || settings.limit === 0 || !this.modules.memory) {
+      return [];
+    }
+
+    try {
+      const reflections = await this.modules.memory.searchMemoriesBySimilarity(query, {
+        type: DEFAULT_REFLECTION_CONFIG.memoryType,
+        limit: settings.limit,
+        similarityThreshold: settings.similarityThreshold,
+      });
+      this.logger.debug('Recalled reflections', { count: reflections.length });
+      return reflections;
+    } catch (error) {
+      this.logger.warn('Failed to recall reflections', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Have the model reflect on a completed run and store the result as a reflection memory.
+   * The run already succeeded, so failures are logged and null is returned.
+   */
+  async reflect(
+    run: ReflectionInput,
+    options?: { signal?: AbortSignal; budget?: BudgetTracker }
+  ): Promise<MemoryType | null> {
+    const settings = resolveReflectionOptions(this.config.reflection);
+    if (!settings) {
+      return null;
+    }
+    if (!this.modules.memory) {
+      this.logger.debug('Reflection skipped: memory is not enabled');
+      return null;
+    }
+
+    try {
+      const reflection = await generateReflection(run, {
+        model: settings.model,
+        signal: options?.signal,
+        budget: options?.budget,
+        logger: this.logger,
+      });
+      const memory = await this.modules.memory.addMemory(
+        formatReflection(run, reflection),
+        reflectionMetadata(run, reflection),
+        run.taskId !== undefined ? { taskId: run.taskId } : undefined
+      );
+
+      this.logger.debug('Reflection stored', {
+        memoryId: memory.id,
+        source: run.source,
+        toolCalls: run.tools.length,
+        usefulTools: reflection.usefulTools,
+      });
+      return memory;
+    } catch (error) {
+      this.logger.warn('Failed to write reflection', {
+        source: run.source,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
   // ===== VISION MODULE METHODS (when vision enabled) =====
 
   async analyzeImage(imagePath: string, options?: AnalysisOptions): Promise<string> {
@@ -1023,8 +1671,14 @@ export class Agent extends BaseAgent implements IAgentWithModules {
   /**
    * Get conversation context messages based on memory configuration
    * This is the central method that all modules use to get conversation history
+   * @param sessionId - Messages of this session; a session that is not open has none
    */
-  getContext(): ContextMessage[] {
+  getContext(sessionId?: string): ContextMessage[] {
+    if (sessionId !== undefined) {
+      const session = this.sessions.get(sessionId);
+      return session ? this.getSessionContext(session) : [];
+    }
+
     if (this.hasMemory() && this.modules.memory) {
       // Memory enabled: Get from context manager (fed by memory)
       return this.getContextModule().getMessages();
@@ -1034,21 +1688,29 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     }
   }
 
+  private getSessionContext(session: ConversationSession): ContextMessage[] {
+    return this.hasMemory() && this.modules.memory
+      ? session.context.getMessages()
+      : [...session.messages];
+  }
+
   /**
    * Save current context to memory
+   * @param session - Save this session's window instead of the default one
    */
-  private async saveContextToMemory(): Promise<void> {
+  private async saveContextToMemory(session?: ConversationSession): Promise<void> {
     if (!this.hasMemory() || !this.modules.memory) {
       return;
     }
 
-    if (!this.modules.context) {
+    const contextModule = session ? session.context : this.modules.context;
+    if (!contextModule) {
       this.logger.warn('Context module not available for saving to memory');
       return;
     }
 
     try {
-      await this.modules.context.saveToMemory(this.modules.memory);
+      await contextModule.saveToMemory(this.modules.memory);
     } catch (error) {
       this.logger.warn('Failed to save context to memory', {
         error: error instanceof Error ? error.message : String(error),
@@ -1062,54 +1724,338 @@ export class Agent extends BaseAgent implements IAgentWithModules {
   updateModel(model: string): void {
     this.data.model = model;
 
-    // Update context manager's model
-    if (this.modules.context) {
-      this.modules.context.updateModel(model);
+    // Update context managers' model; windows sized from the registry follow the new model
+    const maxContextLength = this.getContextLength();
+    for (const contextModule of this.getContextManagers()) {
+      contextModule.updateModel(model);
+      contextModule.updateCompressorOptions({ maxContextLength });
     }
 
     this.logger.info(`Agent model updated to: ${model}`);
   }
 
+  // ===== SESSION METHODS (always available) =====
+
   /**
-   * Load conversation history from memory for a specific graph
-   * @param graphId - The graph ID to load context for
-   * @param limit - Maximum number of messages to load
-   * @param isolated - If true, only load graph-specific memories (default: false)
-   *                   If false, load both general agent memories + graph-specific memories
+   * List conversation sessions, most recently active first
    */
-  async loadGraphContext(
-    graphId: string,
-    limit: number = 100,
-    isolated: boolean = false
-  ): Promise<void> {
-    if (!this.hasMemory() || !this.modules.memory || !this.modules.context) {
-      this.logger.debug('Memory or context module not available, skipping graph context load');
-      return;
-    }
+  async listSessions(options?: SessionListOptions): Promise<Session[]> {
+    return this.sessionStorage.listSessions(this.id, options);
+  }
 
-    try {
-      // Clear existing context
-      await this.clearContext();
+  async getSession(sessionId: string): Promise<Session | null> {
+    return this.sessionStorage.getSession(this.id, sessionId);
+  }
 
-      let allMemories: MemoryType[] = [];
+  /**
+   * Open a stored session so its context window is loaded before the next ask
+   * @returns null if the agent has no session with this id
+   */
+  async resumeSession(sessionId: string): Promise<Session | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    await this.openSession(sessionId);
+    this.logger.info(`Resumed session: ${session.name || sessionId}`);
+    this.logger.debug('Session resumed', {
+      sessionId,
+      messageCount: session.messageCount,
+      contextMessages: this.getContext(sessionId).length,
+    });
+    return session;
+  }
 
-      if (isolated) {
-        // ISOLATED MODE: Only load graph-specific memories
-        allMemories = await this.listMemories({
-          graphId,
-          orderBy: 'createdAt',
-          order: 'asc',
-          limit,
-        });
+  async renameSession(sessionId: string, name: string): Promise<Session | null> {
+    if (name.trim() === '') {
+      throw new Error('Session name must not be empty');
+    }
+    return this.sessionStorage.renameSession(this.id, sessionId, name.trim());
+  }
 
-        this.logger.debug(
-          `Loaded ${allMemories.length} isolated graph-specific memories for graph ${graphId}`
-        );
-      } else {
-        // HYBRID MODE: Load both general + graph-specific memories
-        // 1. Load agent's general memories (not tied to any graph)
-        const generalMemories = await this.modules.memory.listMemories({
-          orderBy: 'createdAt',
+  /**
+   * Delete a session with its context window and memories
+   * Waits for the session's running ask; queued asks are rejected
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    this.handoffRoutes.delete(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      const release = await this.acquireOperationLock(undefined, undefined, session.lock);
+      try {
+        this.sessions.delete(sessionId);
+        while (session.lock.queue.length > 0) {
+          session.lock.queue
+            .shift()
+            ?.reject(new Error('Session deleted while operation was pending'));
+        }
+        await session.context.dispose();
+      } finally {
+        release();
+      }
+    }
+
+    let deleted = false;
+    if (this.modules.memory) {
+      const memoriesCleared = await this.modules.memory.clearMemories({
+        sessionId,
+        syncWithContext: false,
+      });
+      deleted = memoriesCleared > 0;
+    }
+
+    const db = await getDatabase();
+    const contextStorage = new ContextStorage(db.getKnex(), this.logger);
+    deleted = (await contextStorage.deleteContext(this.id, sessionId)) || deleted;
+    deleted = (await this.sessionStorage.deleteSession(this.id, sessionId)) || deleted;
+
+    if (deleted) {
+      this.logger.info(`Deleted session: ${sessionId}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Get an open session, loading its context window from storage on first use
+   */
+  private async openSession(sessionId: string): Promise<ConversationSession> {
+    const open = this.sessions.get(sessionId);
+    if (open) {
+      open.lastUsed = Date.now();
+      return open;
+    }
+
+    if (sessionId.trim() === '' || sessionId.length > DEFAULT_SESSION_CONFIG.maxSessionIdLength) {
+      throw new Error(
+        `Invalid session id: expected 1-${DEFAULT_SESSION_CONFIG.maxSessionIdLength} characters`
+      );
+    }
+
+    // Concurrent first asks of a session share one load
+    let load = this.sessionLoads.get(sessionId);
+    if (!load) {
+      load = this.loadSession(sessionId).finally(() => this.sessionLoads.delete(sessionId));
+      this.sessionLoads.set(sessionId, load);
+    }
+    return load;
+  }
+
+  private async loadSession(sessionId: string): Promise<ConversationSession> {
+    const session: ConversationSession = {
+      id: sessionId,
+      context: this.createContextManager(),
+      messages: [],
+      lock: { current: null, queue: [] },
+      eventHandler: null,
+      lastUsed: Date.now(),
+    };
+
+    // Clearing a session's window clears only that session's memories
+    session.context.onContextClear(async () => {
+      if (this.modules.memory) {
+        await this.modules.memory.clearMemories({ sessionId, syncWithContext: false });
+      }
+    });
+
+    session.context.onCompression((info) => {
+      this.logger.debug('Session context compressed', { sessionId, ...info });
+      session.eventHandler?.({ type: 'context_compression', ...info });
+    });
+
+    if (this.data.id) {
+      await session.context.initializeForAgent(this.data.id, sessionId);
+    }
+
+    await this.closeIdleSessions();
+    this.sessions.set(sessionId, session);
+
+    this.logger.debug('Session opened', {
+      sessionId,
+      contextMessages: session.context.getMessages().length,
+      openSessions: this.sessions.size,
+    });
+    return session;
+  }
+
+  /**
+   * Save and close the least recently used sessions over the open session limit
+   * Sessions with a running, queued or starting ask stay open
+   */
+  private async closeIdleSessions(): Promise<void> {
+    const excess = this.sessions.size + 1 - DEFAULT_SESSION_CONFIG.maxOpenSessions;
+    if (excess <= 0) {
+      return;
+    }
+
+    const idle = [...this.sessions.values()]
+      .filter(
+        (session) =>
+          !this.sessionPins.has(session.id) &&
+          !session.lock.current &&
+          session.lock.queue.length === 0
+      )
+      .sort((a, b) => a.lastUsed - b.lastUsed)
+      .slice(0, excess);
+
+    for (const session of idle) {
+      this.sessions.delete(session.id);
+      await this.closeSession(session);
+    }
+  }
+
+  private async closeSession(session: ConversationSession): Promise<void> {
+    this.handoffRoutes.delete(session.id);
+    try {
+      await session.context.saveToStorage();
+      await session.context.dispose();
+    } catch (error) {
+      this.logger.warn('Failed to close session', {
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async recordSessionActivity(sessionId: string): Promise<void> {
+    try {
+      await this.sessionStorage.recordActivity(this.id, sessionId);
+    } catch (error) {
+      // The conversation itself is already stored; only the session listing is affected
+      this.logger.warn('Failed to record session activity', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Context windows to keep in sync with memory: the default one and every open session's
+   * @param sessionId - Only this session's window (if open)
+   */
+  private getContextManagers(sessionId?: string): ContextManager[] {
+    if (sessionId !== undefined) {
+      const session = this.sessions.get(sessionId);
+      return session ? [session.context] : [];
+    }
+
+    const contexts = [...this.sessions.values()].map((session) => session.context);
+    return this.modules.context ? [this.modules.context, ...contexts] : contexts;
+  }
+
+  // ===== REVISION METHODS (always available) =====
+
+  /**
+   * Config revisions of this agent, newest first
+   */
+  async getRevisions(): Promise<AgentRevision[]> {
+    const db = await getDatabase();
+    return db.listAgentRevisions(this.id);
+  }
+
+  /**
+   * Revision of the config this instance runs
+   */
+  async getCurrentRevision(): Promise<AgentRevision | null> {
+    if (this.currentRevision === undefined) {
+      const db = await getDatabase();
+      this.currentRevision = await db.getLatestAgentRevision(this.id);
+    }
+    return this.currentRevision;
+  }
+
+  /**
+   * Fields that changed from revision a to revision b
+   * @param a - Revision id or version number
+   * @param b - Revision id or version number
+   */
+  async diffRevisions(a: string | number, b: string | number): Promise<AgentRevisionDiff> {
+    const [from, to] = await Promise.all([this.requireRevision(a), this.requireRevision(b)]);
+
+    const changes: AgentRevisionChange[] = [];
+    for (const field of AGENT_REVISION_FIELDS) {
+      const before = from.config[field];
+      const after = to.config[field];
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ field, before, after });
+      }
+    }
+
+    return {
+      from: { id: from.id, version: from.version },
+      to: { id: to.id, version: to.version },
+      changes,
+    };
+  }
+
+  /**
+   * Restore the config of an earlier revision; the restored config becomes a new revision
+   * @param revision - Revision id or version number
+   */
+  async rollback(revision: string | number, info?: AgentRevisionInfo): Promise<AgentRevision> {
+    const target = await this.requireRevision(revision);
+
+    // Fields the revision left unset are cleared
+    const updates: Record<string, unknown> = {};
+    for (const field of AGENT_REVISION_FIELDS) {
+      updates[field] = target.config[field] ?? null;
+    }
+    await this.update(updates as Partial<AgentConfig>, { ...info, rollbackOf: target.id });
+
+    this.logger.info(`Rolled back agent ${this.data.name} to revision ${target.version}`);
+
+    return (await this.getCurrentRevision()) ?? target;
+  }
+
+  private async requireRevision(revision: string | number): Promise<AgentRevision> {
+    const db = await getDatabase();
+    const found = await db.getAgentRevision(this.id, revision);
+    if (!found) {
+      throw new Error(`Revision ${revision} not found for agent ${this.data.name}`);
+    }
+    return found;
+  }
+
+  /**
+   * Load conversation history from memory for a specific graph
+   * @param graphId - The graph ID to load context for
+   * @param limit - Maximum number of messages to load
+   * @param isolated - If true, only load graph-specific memories (default: false)
+   *                   If false, load both general agent memories + graph-specific memories
+   */
+  async loadGraphContext(
+    graphId: string,
+    limit: number = 100,
+    isolated: boolean = false
+  ): Promise<void> {
+    if (!this.hasMemory() || !this.modules.memory || !this.modules.context) {
+      this.logger.debug('Memory or context module not available, skipping graph context load');
+      return;
+    }
+
+    try {
+      // Clear existing context
+      await this.clearContext();
+
+      let allMemories: MemoryType[] = [];
+
+      if (isolated) {
+        // ISOLATED MODE: Only load graph-specific memories
+        allMemories = await this.listMemories({
+          graphId,
+          orderBy: 'createdAt',
+          order: 'asc',
+          limit,
+        });
+
+        this.logger.debug(
+          `Loaded ${allMemories.length} isolated graph-specific memories for graph ${graphId}`
+        );
+      } else {
+        // HYBRID MODE: Load both general + graph-specific memories
+        // 1. Load agent's general memories (not tied to any graph)
+        const generalMemories = await this.modules.memory.listMemories({
+          orderBy: 'createdAt',
           order: 'asc',
           limit: Math.floor(limit / 2), // Use half of limit for general memories
         });
@@ -1208,31 +2154,37 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
       // Register callback for Memory-Context synchronization (Memory -> Context)
       // Note: Callback is async and must await all async operations to prevent race conditions
+      // Open session windows are kept in sync as well as the default one
       this.modules.memory.onMemoryChange(async (event, data) => {
-        if (!this.modules.context) return;
-
         try {
           switch (event) {
             case 'update':
               if (data.memoryId) {
-                // updateMessageByMemoryId may be async - await it
-                await Promise.resolve(
-                  this.modules.context.updateMessageByMemoryId(data.memoryId, {
-                    content: data.content,
-                    metadata: data.metadata,
-                  })
-                );
+                for (const contextModule of this.getContextManagers()) {
+                  // updateMessageByMemoryId may be async - await it
+                  await Promise.resolve(
+                    contextModule.updateMessageByMemoryId(data.memoryId, {
+                      content: data.content,
+                      metadata: data.metadata,
+                    })
+                  );
+                }
               }
               break;
             case 'delete':
               if (data.memoryId) {
-                // removeMessageByMemoryId may be async - await it
-                await Promise.resolve(this.modules.context.removeMessageByMemoryId(data.memoryId));
+                for (const contextModule of this.getContextManagers()) {
+                  // removeMessageByMemoryId may be async - await it
+                  await Promise.resolve(contextModule.removeMessageByMemoryId(data.memoryId));
+                }
               }
               break;
             case 'clear':
               // Memory cleared, also clear context (use syncWithMemory: false to prevent infinite loop)
-              await this.modules.context.clearContext({ syncWithMemory: false });
+              // Clearing one session's memories only clears that session's window
+              for (const contextModule of this.getContextManagers(data.sessionId)) {
+                await contextModule.clearContext({ syncWithMemory: false });
+              }
               break;
           }
         } catch (error) {
@@ -1266,6 +2218,8 @@ export class Agent extends BaseAgent implements IAgentWithModules {
           strategy: info.strategy,
         });
 
+        this.activeEventHandler?.({ type: 'context_compression', ...info });
+
         // Note: Memory archiving could be implemented here if needed
         // For now, we just log the compression event
         // Future enhancement: Mark old memories as archived or move to cold storage
@@ -1399,6 +2353,20 @@ export class Agent extends BaseAgent implements IAgentWithModules {
       ...config,
     };
 
+    // Render the system prompt template now, so missing variables fail the creation
+    const systemPromptSource = config.systemPromptTemplate ?? config.systemPrompt;
+    if (config.systemPromptTemplate || config.systemPromptVariables) {
+      if (systemPromptSource === undefined) {
+        throw new Error(
+          'systemPromptVariables given without a systemPrompt or systemPromptTemplate'
+        );
+      }
+      fullConfig.systemPrompt = await resolvePrompt(
+        systemPromptSource,
+        config.systemPromptVariables ?? {}
+      );
+    }
+
     // Check if agent with this name already exists
     const existingAgent = await db.getAgentByName(fullConfig.name);
 
@@ -1415,7 +2383,18 @@ export class Agent extends BaseAgent implements IAgentWithModules {
       agentData = await db.createAgent(fullConfig);
     }
 
-    const agent = new Agent(agentData);
+    // Approval hooks, budgets, guardrails, cache, handoffs, reflection and fallbacks are runtime only
+    const agent = new Agent({
+      ...agentData,
+      approveToolCall: config.approveToolCall,
+      toolApproval: config.toolApproval,
+      budget: config.budget,
+      guardrails: config.guardrails,
+      cache: config.cache,
+      handoffs: config.handoffs,
+      reflection: config.reflection,
+      fallbackModels: config.fallbackModels,
+    });
 
     // Initialize all modules
     await agent.initializeModules();
@@ -1526,34 +2505,58 @@ export class Agent extends BaseAgent implements IAgentWithModules {
    * Operations are queued and executed sequentially to prevent state corruption
    * Uses a proper async queue instead of busy-wait loop for efficiency
    * @param timeout - Maximum time to wait for lock acquisition (default: 60000ms)
+   * @param signal - Aborting removes a queued waiter without ever taking the lock
+   * @param lock - Lock to take: the agent's own, or a conversation session's
    * @returns A release function to be called when operation completes
    */
-  private async acquireOperationLock(timeout = 60000): Promise<() => void> {
+  private async acquireOperationLock(
+    timeout = 60000,
+    signal?: AbortSignal,
+    lock: OperationLock = this.operationLock
+  ): Promise<() => void> {
+    throwIfAborted(signal, 'Agent operation');
+
     // If there's an existing operation, queue this one
-    if (this.operationLock) {
+    if (lock.current) {
       // Create a promise that will resolve when it's our turn
       const waitPromise = new Promise<void>((resolve, reject) => {
-        // Set up timeout
-        const timeoutId = setTimeout(() => {
-          // Remove ourselves from queue on timeout
-          const index = this.operationQueue.findIndex((item) => item.resolve === resolve);
-          if (index !== -1) {
-            this.operationQueue.splice(index, 1);
-          }
-          reject(new Error(`Operation lock acquisition timeout after ${timeout}ms`));
-        }, timeout);
-
-        // Add to queue with timeout cleanup
-        this.operationQueue.push({
+        const entry = {
           resolve: () => {
             clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
             resolve();
           },
           reject: (error: Error) => {
             clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
             reject(error);
           },
-        });
+        };
+
+        // Remove ourselves from queue on timeout or abort
+        const leaveQueue = (error: Error) => {
+          const index = lock.queue.indexOf(entry);
+          if (index === -1) {
+            // Already dequeued and handed the lock; the operation itself observes the signal
+            return;
+          }
+          lock.queue.splice(index, 1);
+          entry.reject(error);
+        };
+
+        const onAbort = () => {
+          leaveQueue(new OperationCancelledError('Agent operation was cancelled', signal?.reason));
+        };
+
+        // Set up timeout
+        const timeoutId = setTimeout(() => {
+          leaveQueue(new Error(`Operation lock acquisition timeout after ${timeout}ms`));
+        }, timeout);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        // Add to queue with timeout cleanup
+        lock.queue.push(entry);
       });
 
       // Wait for our turn
@@ -1562,14 +2565,14 @@ export class Agent extends BaseAgent implements IAgentWithModules {
 
     // Create new lock - we now own the lock
     let releaseFunction: (() => void) | null = null;
-    this.operationLock = new Promise<void>((resolve) => {
+    lock.current = new Promise<void>((resolve) => {
       releaseFunction = () => {
         // Release our lock first
-        this.operationLock = null;
+        lock.current = null;
         resolve();
 
         // Then notify next in queue (if any) that it's their turn
-        const next = this.operationQueue.shift();
+        const next = lock.queue.shift();
         if (next) {
           // Use setImmediate/nextTick pattern to avoid stack overflow on long queues
           Promise.resolve().then(() => next.resolve());
@@ -1587,8 +2590,13 @@ export class Agent extends BaseAgent implements IAgentWithModules {
   /**
    * Main run method - protected by operation lock to prevent concurrent state corruption
    */
-  async run(prompt: string, options?: RunOptions): Promise<string> {
-    const release = await this.acquireOperationLock();
+  run<T = unknown>(
+    prompt: string,
+    options: RunOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
+  run(prompt: string, options?: RunOptions): Promise<string>;
+  async run(prompt: string, options?: RunOptions): Promise<unknown> {
+    const release = await this.acquireOperationLock(undefined, options?.signal);
 
     try {
       // Add context processing here if needed
@@ -1611,21 +2619,222 @@ export class Agent extends BaseAgent implements IAgentWithModules {
   /**
    * Ask method - direct conversation with the agent (task-independent)
    * Protected by operation lock to prevent concurrent state corruption
+   * Each session (options.sessionId) has its own lock, so different sessions run in parallel
    */
-  async ask(prompt: string, options?: AskOptions): Promise<string> {
-    const release = await this.acquireOperationLock();
+  ask<T = unknown>(
+    prompt: PromptInput,
+    options: AskOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
+  ask(prompt: PromptInput, options?: AskOptions): Promise<string>;
+  async ask(prompt: PromptInput, options?: AskOptions): Promise<unknown> {
+    // Render templates before queueing, so a missing variable fails without waiting for the lock.
+    // Variables are dropped afterwards: sub-agents get the rendered text, not a template.
+    const text = await resolvePrompt(prompt, options?.variables);
+    if (options?.variables) {
+      options = { ...options, variables: undefined };
+    }
+
+    // A handed-over conversation is answered by the agent it was transferred to, unless it is
+    // being handed back to this one
+    const routeKey = options?.sessionId ?? '';
+    if (options?.handoffChain?.[options.handoffChain.length - 1]?.toAgentId === this.id) {
+      this.handoffRoutes.delete(routeKey);
+    } else if (this.handoffRoutes.has(routeKey)) {
+      // Routed asks keep the session open here, so its route is not closed as idle
+      const session = this.sessions.get(routeKey);
+      if (session) {
+        session.lastUsed = Date.now();
+      }
+      const active = this.getActiveAgent(options?.sessionId);
+      this.logger.debug('Routing ask to handoff target', {
+        sessionId: options?.sessionId ?? null,
+        targetAgentId: active.id,
+      });
+      return active.ask(text, options);
+    }
 
+    const unpin = options?.sessionId !== undefined ? this.pinSession(options.sessionId) : null;
     try {
-      return await this._askInternal(prompt, options);
+      const session =
+        options?.sessionId !== undefined ? await this.openSession(options.sessionId) : undefined;
+      const release = await this.acquireOperationLock(undefined, options?.signal, session?.lock);
+      const leaveToolGate = await this.enterToolRegistryGate(
+        !!(options?.mcpServers?.length || options?.plugins?.length)
+      );
+      if (session) {
+        session.eventHandler = options?.onEvent ?? null;
+      } else {
+        this.activeEventHandler = options?.onEvent ?? null;
+      }
+
+      try {
+        return await this._askInternal(text, options, session);
+      } finally {
+        if (session) {
+          session.eventHandler = null;
+        } else {
+          this.activeEventHandler = null;
+        }
+        leaveToolGate();
+        release();
+      }
     } finally {
-      release();
+      unpin?.();
+    }
+  }
+
+  /**
+   * Keep a session open until the returned function is called
+   */
+  private pinSession(sessionId: string): () => void {
+    this.sessionPins.set(sessionId, (this.sessionPins.get(sessionId) ?? 0) + 1);
+    return () => {
+      const pins = (this.sessionPins.get(sessionId) ?? 1) - 1;
+      if (pins > 0) {
+        this.sessionPins.set(sessionId, pins);
+      } else {
+        this.sessionPins.delete(sessionId);
+      }
+    };
+  }
+
+  /**
+   * Enter the tool registry gate; returns the function that leaves it.
+   * Exclusive entries wait for every shared holder, shared entries wait for the exclusive one.
+   */
+  private async enterToolRegistryGate(exclusive: boolean): Promise<() => void> {
+    const gate = this.toolRegistryGate;
+    while (gate.exclusive) {
+      await gate.exclusive;
+    }
+
+    if (!exclusive) {
+      gate.shared++;
+      return () => {
+        gate.shared--;
+        if (gate.shared === 0) {
+          gate.onIdle?.();
+        }
+      };
+    }
+
+    let open!: () => void;
+    gate.exclusive = new Promise<void>((resolve) => {
+      open = resolve;
+    });
+    while (gate.shared > 0) {
+      await new Promise<void>((resolve) => {
+        gate.onIdle = resolve;
+      });
+    }
+    gate.onIdle = null;
+    return () => {
+      gate.exclusive = null;
+      open();
+    };
+  }
+
+  /**
+   * Stream a conversation turn as typed events (text deltas, tool calls, usage, final...)
+   * Runs through ask(), so it shares the operation lock, memory and tool handling.
+   * Leaving the loop early (break, return or throw) cancels the underlying run
+   */
+  async *stream(prompt: PromptInput, options?: StreamOptions): AsyncGenerator<AgentStreamEvent> {
+    const queue: AgentStreamEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    let failure: unknown;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    // Own controller so the run can be cancelled when the consumer stops iterating
+    const controller = new AbortController();
+    const parentSignal = options?.signal;
+    const onParentAbort = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) {
+      onParentAbort();
+    } else {
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+    }
+
+    const run = this.ask(prompt, {
+      ...options,
+      signal: controller.signal,
+      stream: true,
+      onChunk: () => {}, // Text is delivered as text_delta events instead of stdout
+      onEvent: (event) => {
+        queue.push(event);
+        options?.onEvent?.(event);
+        notify();
+      },
+    })
+      .catch((error: unknown) => {
+        failure = error;
+      })
+      .finally(() => {
+        finished = true;
+        notify();
+      });
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        if (finished) {
+          break;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    } finally {
+      parentSignal?.removeEventListener('abort', onParentAbort);
+      if (!finished) {
+        // The consumer stopped early; wait for the cancelled run to release the lock
+        controller.abort();
+        await run;
+      }
+    }
+
+    await run;
+    if (failure !== undefined) {
+      throw failure;
     }
   }
 
   /**
    * Internal ask implementation - do not call directly, use ask() instead
+   * @param session - Open session of options.sessionId, kept open by ask() for the whole run
    */
-  private async _askInternal(prompt: string, options?: AskOptions): Promise<string> {
+  private async _askInternal(
+    prompt: string,
+    options?: AskOptions,
+    session?: ConversationSession
+  ): Promise<unknown> {
+    // Every LLM call of this run, sub-agents included, is charged to one budget
+    const budget = resolveBudget(options?.budget, this.config.budget);
+    if (budget) {
+      options = { ...options, budget };
+    }
+
+    // Guardrail violations are reported as events; a rejection ends the run
+    const guard = async (content: string, stage: GuardrailStage) =>
+      (
+        await this.applyGuardrails(content, stage, {
+          sessionId: options?.sessionId,
+          signal: options?.signal,
+          budget,
+          onViolation: (violation) => options?.onEvent?.({ type: 'guardrail', violation }),
+        })
+      ).content;
+    prompt = await guard(prompt, 'input');
+
     // Check if sub-agents should be used
     if (options?.useSubAgents && this.config.subAgents && this.config.subAgents.length > 0) {
       if (!this.modules.subAgent) {
@@ -1636,15 +2845,69 @@ export class Agent extends BaseAgent implements IAgentWithModules {
           delegation: options.delegation || 'auto',
         });
 
+        options.onEvent?.({
+          type: 'sub_agent_delegation',
+          subAgents: this.config.subAgents.map((subAgent) => ({
+            id: subAgent.id,
+            name: subAgent.name,
+          })),
+          delegation: options.delegation || 'auto',
+          coordination: options.coordination || 'sequential',
+        });
+
         try {
-          const result = await this.modules.subAgent.executeWithSubAgents(
-            prompt,
-            this.config.subAgents,
-            options,
-            this.getModel() // Pass main agent's model for delegation
+          const result = await guard(
+            await this.modules.subAgent.executeWithSubAgents(
+              prompt,
+              this.config.subAgents,
+              options,
+              this.getModel() // Pass main agent's model for delegation
+            ),
+            'output'
           );
+
+          if (options.responseSchema) {
+            // Sub-agents answer in free text; coerce the combined answer into the schema
+            const structured = await resolveStructuredOutput(
+              getLLM(this.logger),
+              {
+                model: options.model ?? this.getModel(),
+                messages: [
+                  { role: 'user', content: prompt },
+                  { role: 'assistant', content: result },
+                ],
+                systemPrompt: this.getSystemPrompt() || undefined,
+                temperature: options.temperature ?? this.getTemperature(),
+                maxTokens: options.maxTokens ?? this.getMaxTokens(),
+                signal: options.signal,
+                budget,
+              },
+              result,
+              {
+                schema: options.responseSchema,
+                maxRetries: options.schemaRetries,
+                logger: this.logger,
+              }
+            );
+            options.onEvent?.({
+              type: 'final',
+              response: structured.content,
+              data: structured.data,
+              usage: structured.usage,
+            });
+            return structured.data;
+          }
+          options.onEvent?.({ type: 'final', response: result });
           return result;
         } catch (error) {
+          // A cancelled, over-budget or rejected run must not be retried by the main agent
+          if (
+            isOperationCancelledError(error) ||
+            isBudgetExceededError(error) ||
+            isGuardrailViolationError(error)
+          ) {
+            throw error;
+          }
           this.logger.warn('Sub-agent execution failed, falling back to main agent', {
             error: error instanceof Error ? error.message : String(error),
           });
@@ -1653,15 +2916,16 @@ export class Agent extends BaseAgent implements IAgentWithModules {
       }
     }
     let enhancedPrompt = prompt;
-    const messages: Array<{
-      role: 'user' | 'assistant' | 'system' | 'tool';
-      content: string;
-      tool_call_id?: string;
-      tool_calls?: ToolCall[];
-    }> = [];
-
-    // Add system prompt if available
-    const systemPrompt = this.getSystemPrompt();
+    const messages: AskMessage[] = [];
+
+    // Add system prompt if available, with lessons from similar earlier runs
+    const reflections = await this.findReflections(prompt);
+    const systemPrompt = [
+      this.getSystemPrompt(),
+      reflections.length > 0 ? buildReflectionPrompt(reflections) : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
     if (systemPrompt) {
       messages.push({ role: 'system', content: systemPrompt });
     }
@@ -1761,7 +3025,7 @@ export class Agent extends BaseAgent implements IAgentWithModules {
     }
 
     // Add conversation context (handles memory integration internally)
-    const contextMessages = this.getContext();
+    const contextMessages = session ? this.getSessionContext(session) : this.getContext();
     for (const contextMsg of contextMessages) {
       messages.push({
         role: contextMsg.role,
@@ -1769,7 +3033,7 @@ export class Agent extends BaseAgent implements IAgentWithModules {
       });
     }
 
-    // Track added servers and plugins for cleanup on error
+    // Servers and plugins added for this call, removed again however the run ends
     const addedMcpServers: string[] = [];
     const addedPlugins: string[] = [];
 
@@ -1825,528 +3089,812 @@ export class Agent extends BaseAgent implements IAgentWithModules {
           }
         }
       }
-    } catch (error) {
-      // Cleanup on error: remove any successfully added servers and plugins
-      // Log cleanup errors for debugging instead of silently ignoring
-      for (const serverName of addedMcpServers) {
-        try {
-          (this.modules.mcp as MCP)?.removeMCPServer(serverName);
-        } catch (cleanupError) {
-          this.logger.debug('Failed to cleanup MCP server on error', {
-            serverName,
-            error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
-          });
-        }
-      }
-      for (const pluginName of addedPlugins) {
-        try {
-          await (this.modules.plugin as Plugin)?.unregisterPlugin(pluginName);
-        } catch (cleanupError) {
-          this.logger.debug('Failed to cleanup plugin on error', {
-            pluginName,
-            error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError),
-          });
-        }
-      }
-      throw error;
-    }
 
-    // Add current user prompt
-    messages.push({ role: 'user', content: enhancedPrompt });
+      // Add current user prompt
+      messages.push({ role: 'user', content: enhancedPrompt });
 
-    // Add user message to conversation (memory/context)
-    await this.addMemory(enhancedPrompt, { role: 'user' });
+      // Add user message to conversation (memory/context)
+      const handoffChain = options?.handoffChain ?? [];
+      await this.addMemory(enhancedPrompt, {
+        role: 'user',
+        ...(options?.sessionId !== undefined && { sessionId: options.sessionId }),
+        ...(handoffChain.length > 0 && handoffMetadata(handoffChain)),
+      });
 
-    // Check if we should use tools
-    const shouldUseTools =
-      options?.useTools !== undefined
-        ? options.useTools
-        : (options?.attachments && options.attachments.length > 0) || this.canUseTools();
+      // Check if we should use tools
+      const shouldUseTools =
+        options?.useTools !== undefined
+          ? options.useTools
+          : (options?.attachments && options.attachments.length > 0) || this.canUseTools();
+
+      // Get LLM instance
+      const llm = getLLM(this.logger);
+
+      // Collect all available tools
+      const tools: Tool[] = [];
+
+      if (shouldUseTools) {
+        // Add MCP tools
+        if (this.modules.mcp) {
+          const mcpTools = this.modules.mcp.getMCPTools();
+          for (const mcpTool of mcpTools) {
+            tools.push({
+              type: 'function',
+              function: {
+                name: `mcp_${mcpTool.name}`,
+                description: mcpTool.description,
+                parameters: mcpTool.inputSchema as Tool['function']['parameters'],
+              },
+            });
+          }
+        }
 
-    // Get LLM instance
-    const llm = getLLM(this.logger);
+        // Add plugin tools
+        if (this.modules.plugin) {
+          const pluginTools = this.modules.plugin.getTools();
+          for (const pluginTool of pluginTools) {
+            tools.push({
+              type: 'function',
+              function: {
+                name: `plugin_${pluginTool.name}`,
+                description: pluginTool.description,
+                parameters: convertToolParametersToJsonSchema(pluginTool.parameters),
+              },
+            });
+          }
+        }
 
-    // Collect all available tools
-    const tools: Tool[] = [];
+        this.logger.info(
+          `Prepared ${tools.length} tools for LLM: ${tools.map((t) => t.function.name).join(', ')}`
+        );
+        this.logger.debug('Tools prepared for LLM', {
+          toolCount: tools.length,
+          toolNames: tools.map((t) => t.function.name),
+        });
+      }
 
-    if (shouldUseTools) {
-      // Add MCP tools
-      if (this.modules.mcp) {
-        const mcpTools = this.modules.mcp.getMCPTools();
-        for (const mcpTool of mcpTools) {
-          tools.push({
-            type: 'function',
-            function: {
-              name: `mcp_${mcpTool.name}`,
-              description: mcpTool.description,
-              parameters: mcpTool.inputSchema as Tool['function']['parameters'],
-            },
-          });
+      // Transfer tools; agents already handing this turn over wait on it and are left out
+      const handoffTargets = resolveHandoffs(this.config.handoffs ?? []);
+      for (const [toolName, target] of handoffTargets) {
+        if (
+          options?.useTools === false ||
+          target.agent.id === this.id ||
+          handoffChain.some((record) => record.fromAgentId === target.agent.id)
+        ) {
+          handoffTargets.delete(toolName);
+        } else {
+          tools.push(createHandoffTool(target));
         }
       }
 
-      // Add plugin tools
-      if (this.modules.plugin) {
-        const pluginTools = this.modules.plugin.getTools();
-        for (const pluginTool of pluginTools) {
-          tools.push({
-            type: 'function',
-            function: {
-              name: `plugin_${pluginTool.name}`,
-              description: pluginTool.description,
-              parameters: convertToolParametersToJsonSchema(pluginTool.parameters),
-            },
-          });
-        }
+      // Ask for JSON matching the schema; the instruction rides along in the system message
+      if (options?.responseSchema) {
+        addSchemaInstruction(messages, options.responseSchema);
       }
 
-      this.logger.info(
-        `Prepared ${tools.length} tools for LLM: ${tools.map((t) => t.function.name).join(', ')}`
-      );
-      this.logger.debug('Tools prepared for LLM', {
-        toolCount: tools.length,
-        toolNames: tools.map((t) => t.function.name),
-      });
-    }
+      // Prepare LLM options
+      const llmOptions: LLMRequestOptions = {
+        model: options?.model ?? this.getModel(),
+        messages,
+        temperature: options?.temperature ?? this.getTemperature(),
+        maxTokens: options?.maxTokens ?? this.getMaxTokens(),
+        stream: options?.stream,
+        tools: tools.length > 0 ? tools : undefined,
+        responseFormat: options?.responseSchema
+          ? { type: 'json', schema: options.responseSchema }
+          : undefined,
+        signal: options?.signal,
+        budget,
+        fallbackModels: this.config.fallbackModels,
+      };
 
-    // Prepare LLM options
-    const llmOptions: LLMRequestOptions = {
-      model: options?.model ?? this.getModel(),
-      messages,
-      temperature: options?.temperature ?? this.getTemperature(),
-      maxTokens: options?.maxTokens ?? this.getMaxTokens(),
-      stream: options?.stream,
-      tools: tools.length > 0 ? tools : undefined,
-    };
+      // Response cache, skipped for runs where tools with side effects were called
+      const cacheOptions = resolveCacheOptions(this.config.cache, options?.cache, this.id);
+      if (cacheOptions) {
+        cacheOptions.embeddingModel ??= this.config.embeddingModel;
+      }
+      const cacheKey = cacheOptions ? cacheKeyFromRequest(llmOptions, cacheOptions) : null;
+      let cached: CachedResponse | null = null;
+      let cacheEmbedding: number[] | undefined;
+      let cacheSkipReason: string | undefined;
+      if (cacheOptions && cacheKey) {
+        const lookup = await getResponseCache().lookup(cacheKey, cacheOptions);
+        cached = lookup.entry;
+        cacheEmbedding = lookup.embedding;
+      }
+      const checkToolSideEffects = (toolCalls: ToolCall[]) => {
+        const called = toolCalls.find((tc) => this.toolHasSideEffects(tc.function?.name ?? ''));
+        if (called) {
+          cacheSkipReason ??= `tool ${called.function?.name ?? 'unknown'} has side effects`;
+        }
+      };
 
-    // Handle streaming vs non-streaming
-    let response: string;
+      // Usage accumulated over every LLM call of this run (reported with the final event)
+      let runUsage: LLMUsage | undefined;
+      const recordUsage = (model: string, usage?: LLMUsage) => {
+        if (!usage) return;
+        options?.onEvent?.({ type: 'usage', model, usage });
+        runUsage = mergeUsage(runUsage, usage);
+      };
 
-    if (options?.stream) {
-      // Stream response
-      let fullContent = '';
+      // Handle streaming vs non-streaming
+      let response: string;
+      let handoff: { response: string; data?: unknown } | undefined;
+      const handOff = async (call: { toolCall: ToolCall; target: HandoffOptions }) => {
+        cacheSkipReason ??= 'conversation handed over';
+        return this.handOff(call.target, call.toolCall, enhancedPrompt, contextMessages, options);
+      };
 
-      for await (const chunk of llm.generateStreamResponse(llmOptions)) {
-        fullContent += chunk.content;
-        // If there's a callback for streaming, call it
-        if (options.onChunk) {
-          options.onChunk(chunk.content);
+      // Streamed text reaches the caller as it arrives, unless output guardrails must see it first:
+      // then the checked response is sent in one piece at the end
+      const holdStream = !!options?.stream && this.hasGuardrails('output');
+      const emitText = (text: string) => {
+        if (text) {
+          options?.onEvent?.({ type: 'text_delta', delta: text });
+        }
+        if (options?.onChunk) {
+          options.onChunk(text);
         } else {
-          // If no callback, just output to console
-          process.stdout.write(chunk.content);
+          process.stdout.write(text);
         }
-      }
-
-      if (!options.onChunk) {
-        process.stdout.write('\n'); // New line after streaming
-      }
-
-      response = fullContent;
-    } else {
-      // Single LLM call with tool handling
-      const llmResponse = await llm.generateResponse(llmOptions);
-
-      // Handle tool calls if present
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        this.logger.debug('Processing tool calls', {
-          toolCallCount: llmResponse.toolCalls.length,
-          toolNames: llmResponse.toolCalls.map((tc) => tc.function.name),
-        });
+      };
 
-        // Add assistant message with tool calls
-        // IMPORTANT: OpenAI requires content to be a string (can be empty string or null) when tool_calls present
-        messages.push({
-          role: 'assistant',
-          content: llmResponse.content || '',
-          tool_calls: llmResponse.toolCalls,
+      if (cached) {
+        response = cached.content;
+        options?.onEvent?.({
+          type: 'cache_hit',
+          match: cached.match,
+          similarity: cached.similarity,
         });
-
-        // Execute each tool call
-        for (const toolCall of llmResponse.toolCalls) {
-          const toolName = toolCall.function?.name;
-          if (!toolName) {
-            this.logger.warn('Skipping tool call with missing function name', {
-              toolCallId: toolCall.id,
-            });
-            continue;
+        if (options?.stream && !holdStream) {
+          emitText(response);
+          if (!options.onChunk) {
+            process.stdout.write('\n');
           }
-
-          try {
-            let toolResult: string;
-
-            if (toolName.startsWith('mcp_')) {
-              // Handle MCP tool call
-              const mcpToolName = toolName.substring(4); // Remove 'mcp_' prefix
-
-              // Ensure arguments are properly formatted for MCP with type-safe parsing
-              let mcpArgs: Record<string, string | number | boolean | object | null>;
-              if (typeof toolCall.function.arguments === 'string') {
-                try {
-                  const parsed: unknown = JSON.parse(toolCall.function.arguments);
-                  // Validate parsed result is an object (not null, array, or primitive)
-                  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
-                    throw new Error('MCP tool arguments must be a JSON object');
-                  }
-                  mcpArgs = parsed as Record<string, string | number | boolean | object | null>;
-                } catch (parseError) {
-                  const parseErr =
-                    parseError instanceof Error ? parseError : new Error(String(parseError));
-                  this.logger.error('Failed to parse MCP tool arguments', parseErr);
-                  throw new Error(`Invalid JSON in MCP tool arguments: ${parseErr.message}`);
-                }
-              } else if (
-                toolCall.function.arguments &&
-                typeof toolCall.function.arguments === 'object'
-              ) {
-                mcpArgs = toolCall.function.arguments as Record<
-                  string,
-                  string | number | boolean | object | null
-                >;
+        }
+      } else if (options?.stream) {
+        // Stream a single LLM call, collecting any tool calls it requests
+        const streamOnce = async (request: LLMRequestOptions) => {
+          let content = '';
+          const toolCalls: ToolCall[] = [];
+          let usage: LLMUsage | undefined;
+
+          for await (const chunk of llm.generateStreamResponse(request)) {
+            content += chunk.content;
+            if (!holdStream) {
+              emitText(chunk.content);
+            }
+            // Merge tool calls by id - later chunks may carry more complete arguments
+            for (const toolCall of chunk.toolCalls ?? []) {
+              const existingIndex = toolCalls.findIndex((tc) => tc.id === toolCall.id);
+              if (existingIndex >= 0) {
+                toolCalls[existingIndex] = toolCall;
               } else {
-                // Default to empty object if no arguments provided
-                mcpArgs = {};
+                toolCalls.push(toolCall);
               }
+            }
+            if (chunk.usage) {
+              usage = chunk.usage;
+            }
+          }
 
-              if (this.modules.mcp) {
-                const mcpResult = await this.modules.mcp.callMCPTool(
-                  mcpToolName,
-                  mcpArgs as Record<string, import('../mcp/types').MCPValue>
-                );
-                toolResult = mcpResult.content.map((c) => c.text || '').join('\n');
-              } else {
-                toolResult = 'MCP module not available';
-              }
-            } else if (toolName.startsWith('plugin_')) {
-              // Handle plugin tool call
-              const pluginToolName = toolName.substring(7); // Remove 'plugin_' prefix
+          recordUsage(request.model, usage);
+          return { content, toolCalls };
+        };
 
-              // Ensure arguments are properly formatted for plugin tools with type-safe parsing
-              let pluginArgs: Record<string, string | number | boolean | object | null>;
-              if (typeof toolCall.function.arguments === 'string') {
-                try {
-                  const parsed: unknown = JSON.parse(toolCall.function.arguments);
-                  // Validate parsed result is an object (not null, array, or primitive)
-                  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
-                    throw new Error('Plugin tool arguments must be a JSON object');
-                  }
-                  pluginArgs = parsed as Record<string, string | number | boolean | object | null>;
-                } catch (parseError) {
-                  const parseErr =
-                    parseError instanceof Error ? parseError : new Error(String(parseError));
-                  this.logger.error('Failed to parse plugin tool arguments', parseErr);
-                  throw new Error(`Invalid JSON in plugin tool arguments: ${parseErr.message}`);
-                }
-              } else if (
-                toolCall.function.arguments &&
-                typeof toolCall.function.arguments === 'object'
-              ) {
-                pluginArgs = toolCall.function.arguments as Record<
-                  string,
-                  string | number | boolean | object | null
-                >;
-              } else {
-                // Default to empty object if no arguments provided
-                pluginArgs = {};
-              }
+        let streamed = await streamOnce(llmOptions);
+        const handoffCall = findHandoffCall(streamed.toolCalls, handoffTargets);
+
+        // Same flow as the non-streaming path: one tool round, then a final answer without tools
+        if (handoffCall) {
+          handoff = await handOff(handoffCall);
+        } else if (streamed.toolCalls.length > 0) {
+          checkToolSideEffects(streamed.toolCalls);
+          messages.push({
+            role: 'assistant',
+            content: streamed.content || '',
+            tool_calls: streamed.toolCalls,
+          });
+          await this.executeAskToolCalls(streamed.toolCalls, messages, {
+            onEvent: options.onEvent,
+            signal: options.signal,
+            budget,
+            approval: {
+              approveToolCall: options.approveToolCall,
+              toolApproval: options.toolApproval,
+              prompt,
+            },
+            recordUsage,
+          });
+          const toolRoundContent = streamed.content;
+          try {
+            streamed = await streamOnce({ ...llmOptions, messages, tools: undefined });
+          } catch (error) {
+            attachPartialResult(error, toolRoundContent);
+            throw error;
+          }
+        }
 
-              if (this.modules.plugin) {
-                const pluginResult = await this.modules.plugin.executeTool(
-                  {
-                    id: toolCall.id,
-                    name: pluginToolName,
-                    parameters: pluginArgs as Record<string, ToolParameterValue>,
-                  },
-                  { agentId: this.id, agent: this }
-                );
+        if (!options.onChunk && !handoff && !holdStream) {
+          process.stdout.write('\n'); // New line after streaming
+        }
 
-                // Log metadata if present (for debugging and observability)
-                if (pluginResult.result.metadata) {
-                  this.logger.debug('Plugin tool returned metadata', {
-                    toolName: pluginToolName,
-                    toolCallId: toolCall.id,
-                    metadata: pluginResult.result.metadata,
-                  });
-                }
+        response = handoff ? handoff.response : streamed.content;
+      } else {
+        // Single LLM call with tool handling
+        const llmResponse = await llm.generateResponse(llmOptions);
+        recordUsage(llmOptions.model, llmResponse.usage);
+        const handoffCall = findHandoffCall(llmResponse.toolCalls, handoffTargets);
+
+        // Handle tool calls if present
+        if (handoffCall) {
+          handoff = await handOff(handoffCall);
+          response = handoff.response;
+        } else if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
+          this.logger.debug('Processing tool calls', {
+            toolCallCount: llmResponse.toolCalls.length,
+            toolNames: llmResponse.toolCalls.map((tc) => tc.function.name),
+          });
 
-                // Build tool result with optional metadata inclusion
-                if (pluginResult.result.success) {
-                  const resultData =
-                    typeof pluginResult.result.data === 'string'
-                      ? pluginResult.result.data
-                      : JSON.stringify(pluginResult.result.data);
-
-                  // Include metadata in response if present (allows LLM to see relevant context)
-                  if (
-                    pluginResult.result.metadata &&
-                    Object.keys(pluginResult.result.metadata).length > 0
-                  ) {
-                    toolResult = JSON.stringify({
-                      result: resultData,
-                      metadata: pluginResult.result.metadata,
-                    });
-                  } else {
-                    toolResult = resultData;
-                  }
-                } else {
-                  toolResult = `Error: ${pluginResult.result.error || 'Unknown error'}`;
-                }
-              } else {
-                toolResult = `Plugin module not available`;
-              }
-            } else {
-              // Handle other tool types (future implementations)
-              toolResult = `Tool ${toolName} not implemented yet`;
-            }
+          checkToolSideEffects(llmResponse.toolCalls);
 
-            // CRITICAL: Tool result content cannot be empty for OpenAI API
-            if (!toolResult || toolResult.trim() === '') {
-              this.logger.warn('Empty tool result detected', {
-                toolName,
-                toolCallId: toolCall.id,
-                resultType: typeof toolResult,
-                resultValue: toolResult,
-              });
-              toolResult = 'Tool execution completed but returned no data.';
-            }
+          // Add assistant message with tool calls
+          // IMPORTANT: OpenAI requires content to be a string (can be empty string or null) when tool_calls present
+          messages.push({
+            role: 'assistant',
+            content: llmResponse.content || '',
+            tool_calls: llmResponse.toolCalls,
+          });
 
-            this.logger.debug('Tool result received', {
-              toolName,
-              toolCallId: toolCall.id,
-              resultLength: toolResult.length,
-              resultPreview: toolResult.slice(0, 200),
-            });
+          // Execute each tool call
+          await this.executeAskToolCalls(llmResponse.toolCalls, messages, {
+            onEvent: options?.onEvent,
+            signal: options?.signal,
+            budget,
+            approval: {
+              approveToolCall: options?.approveToolCall,
+              toolApproval: options?.toolApproval,
+              prompt,
+            },
+            recordUsage,
+          });
 
-            // Add tool result to messages
-            messages.push({
-              role: 'tool',
-              content: toolResult,
-              tool_call_id: toolCall.id,
+          // Get final response from LLM with tool results
+          const toolMessages = messages.filter((m) => m.role === 'tool');
+          if (toolMessages.length > 0) {
+            const lastToolContent = toolMessages[toolMessages.length - 1]?.content || '';
+            this.logger.info(
+              `Sending tool results to LLM (${lastToolContent.length} chars, ${toolMessages.length} tool results)`
+            );
+            this.logger.debug('Tool result content preview', {
+              preview: lastToolContent.slice(0, 500),
+              totalLength: lastToolContent.length,
+              toolCount: toolMessages.length,
             });
+          }
+          // Log full message structure for debugging OpenAI 400 errors
+          const messageStructure = messages.map((m) => ({
+            role: m.role,
+            contentPreview: typeof m.content === 'string' ? m.content.slice(0, 100) : 'non-string',
+            contentLength: typeof m.content === 'string' ? m.content.length : 0,
+            hasToolCalls: 'tool_calls' in m,
+            toolCallId: 'tool_call_id' in m ? m.tool_call_id : undefined,
+            toolCallsCount:
+              'tool_calls' in m && Array.isArray(m.tool_calls) ? m.tool_calls.length : 0,
+          }));
+
+          this.logger.debug('Sending tool results to LLM for final response', {
+            messageCount: messages.length,
+            toolMessageCount: toolMessages.length,
+            lastToolContentLength: toolMessages[toolMessages.length - 1]?.content.length || 0,
+            lastToolPreview: toolMessages[toolMessages.length - 1]?.content.slice(0, 100) || '',
+            messageStructure: JSON.stringify(messageStructure, null, 2),
+          });
 
-            this.logger.debug('Tool call executed', {
-              toolName,
-              toolCallId: toolCall.id,
-              resultLength: toolResult.length,
+          const finalLlmOptions: LLMRequestOptions = {
+            ...llmOptions,
+            messages,
+            tools: undefined, // Don't include tools in follow-up call
+          };
+
+          try {
+            const finalResponse = await llm.generateResponse(finalLlmOptions);
+            response = finalResponse.content;
+            recordUsage(finalLlmOptions.model, finalResponse.usage);
+
+            this.logger.debug('Final response generated after tool calls', {
+              responseLength: response.length,
             });
-          } catch (error) {
-            // Normalize tool error using ToolError class
-            const originalError = error instanceof Error ? error : new Error(String(error));
-            const toolType = toolName.startsWith('mcp_')
-              ? 'mcp'
-              : toolName.startsWith('plugin_')
-                ? 'plugin'
-                : 'unknown';
-            const actualToolName =
-              toolType === 'mcp'
-                ? toolName.substring(4)
-                : toolType === 'plugin'
-                  ? toolName.substring(7)
-                  : toolName;
-
-            // Determine error type based on error message
-            let errorType: 'not_found' | 'validation' | 'execution' | 'timeout' | 'unknown' =
-              'execution';
-            if (
-              originalError.message.includes('not found') ||
-              originalError.message.includes('not available')
-            ) {
-              errorType = 'not_found';
-            } else if (
-              originalError.message.includes('Invalid') ||
-              originalError.message.includes('validation')
-            ) {
-              errorType = 'validation';
-            } else if (
-              originalError.message.includes('timeout') ||
-              originalError.message.includes('timed out')
-            ) {
-              errorType = 'timeout';
+          } catch (finalResponseError) {
+            if (isOperationCancelledError(finalResponseError)) {
+              throw finalResponseError;
+            }
+            if (isBudgetExceededError(finalResponseError)) {
+              attachPartialResult(finalResponseError, llmResponse.content);
+              throw finalResponseError;
             }
 
-            // Determine if error is recoverable (LLM can try alternative approach)
-            const recoverable = errorType !== 'not_found';
-
-            const toolError = new ToolError(
-              `Tool '${actualToolName}' (${toolType}) failed: ${originalError.message}`,
-              actualToolName,
-              toolType,
-              errorType,
-              recoverable,
-              originalError
+            // Log the detailed error but return a friendly message to the user
+            this.logger.error(
+              'Failed to generate final response after tool execution',
+              finalResponseError instanceof Error
+                ? finalResponseError
+                : new Error(String(finalResponseError))
             );
-
-            this.logger.error(`Tool call failed: ${toolName}`, toolError, {
-              toolType,
-              errorType,
-              recoverable,
-              toolCallId: toolCall.id,
+            this.logger.debug('Tool execution was successful, but LLM response failed', {
+              errorMessage:
+                finalResponseError instanceof Error
+                  ? finalResponseError.message
+                  : String(finalResponseError),
+              toolResultsCount: toolMessages.length,
+              messageCount: messages.length,
             });
 
-            // Add normalized error result to messages (LLM can use this to decide next action)
-            const errorResult = toolError.toToolResult();
-            messages.push({
-              role: 'tool',
-              content: JSON.stringify(errorResult),
-              tool_call_id: toolCall.id,
-            });
+            // Create a user-friendly response based on tool results
+            cacheSkipReason ??= 'final response after tool calls failed';
+            const toolResultsSummary = toolMessages
+              .map((m, i) => {
+                try {
+                  const result = JSON.parse(m.content);
+                  if (result.success === true) {
+                    return `✓ Tool ${i + 1} completed successfully`;
+                  }
+                } catch {
+                  // Not JSON, treat as plain text
+                }
+                return null;
+              })
+              .filter(Boolean)
+              .join('\n');
+
+            response = toolResultsSummary
+              ? `I've completed the requested operations:\n\n${toolResultsSummary}\n\nHowever, I encountered a temporary issue generating a detailed response. The operations were successful though!`
+              : `I've processed your request and the operations completed successfully. However, I encountered a temporary issue generating a detailed response. Please try asking me to explain the results.`;
           }
+        } else {
+          response = llmResponse.content;
         }
+      }
 
-        // Get final response from LLM with tool results
-        const toolMessages = messages.filter((m) => m.role === 'tool');
-        if (toolMessages.length > 0) {
-          const lastToolContent = toolMessages[toolMessages.length - 1]?.content || '';
-          this.logger.info(
-            `Sending tool results to LLM (${lastToolContent.length} chars, ${toolMessages.length} tool results)`
-          );
-          this.logger.debug('Tool result content preview', {
-            preview: lastToolContent.slice(0, 500),
-            totalLength: lastToolContent.length,
-            toolCount: toolMessages.length,
+      // Validate structured output, re-prompting with the validation errors if needed
+      let structuredData: unknown;
+      if (handoff) {
+        // The target validated its own response
+        structuredData = handoff.data;
+      } else if (options?.responseSchema && cached) {
+        // Cached responses were validated when they were stored
+        structuredData = parseStructuredContent(response);
+      } else if (options?.responseSchema) {
+        try {
+          const structured = await resolveStructuredOutput(llm, llmOptions, response, {
+            schema: options.responseSchema,
+            maxRetries: options.schemaRetries,
+            logger: this.logger,
           });
+          response = structured.content;
+          structuredData = structured.data;
+          recordUsage(llmOptions.model, structured.usage);
+        } catch (error) {
+          attachPartialResult(error, response);
+          throw error;
         }
-        // Log full message structure for debugging OpenAI 400 errors
-        const messageStructure = messages.map((m) => ({
-          role: m.role,
-          contentPreview: typeof m.content === 'string' ? m.content.slice(0, 100) : 'non-string',
-          contentLength: typeof m.content === 'string' ? m.content.length : 0,
-          hasToolCalls: 'tool_calls' in m,
-          toolCallId: 'tool_call_id' in m ? m.tool_call_id : undefined,
-          toolCallsCount:
-            'tool_calls' in m && Array.isArray(m.tool_calls) ? m.tool_calls.length : 0,
-        }));
-
-        this.logger.debug('Sending tool results to LLM for final response', {
-          messageCount: messages.length,
-          toolMessageCount: toolMessages.length,
-          lastToolContentLength: toolMessages[toolMessages.length - 1]?.content.length || 0,
-          lastToolPreview: toolMessages[toolMessages.length - 1]?.content.slice(0, 100) || '',
-          messageStructure: JSON.stringify(messageStructure, null, 2),
-        });
+      }
 
-        const finalLlmOptions: LLMRequestOptions = {
-          ...llmOptions,
-          messages,
-          tools: undefined, // Don't include tools in follow-up call
-        };
+      // Output guardrails see the final text; a changed structured response is parsed again
+      const guardedResponse = await guard(response, 'output');
+      if (guardedResponse !== response) {
+        response = guardedResponse;
+        if (options?.responseSchema) {
+          structuredData = parseStructuredContent(response);
+        }
+      }
+      if (holdStream && !handoff) {
+        emitText(response);
+        if (!options?.onChunk) {
+          process.stdout.write('\n');
+        }
+      }
 
-        try {
-          const finalResponse = await llm.generateResponse(finalLlmOptions);
-          response = finalResponse.content;
+      // Cache the checked response
+      if (cacheOptions && cacheKey && !cached) {
+        if (cacheSkipReason) {
+          getResponseCache().skip(cacheOptions.scope, cacheSkipReason);
+        } else {
+          await getResponseCache().store(cacheKey, response, cacheOptions, cacheEmbedding);
+        }
+      }
 
-          this.logger.debug('Final response generated after tool calls', {
-            responseLength: response.length,
-          });
-        } catch (finalResponseError) {
-          // Log the detailed error but return a friendly message to the user
-          this.logger.error(
-            'Failed to generate final response after tool execution',
-            finalResponseError instanceof Error
-              ? finalResponseError
-              : new Error(String(finalResponseError))
-          );
-          this.logger.debug('Tool execution was successful, but LLM response failed', {
-            errorMessage:
-              finalResponseError instanceof Error
-                ? finalResponseError.message
-                : String(finalResponseError),
-            toolResultsCount: toolMessages.length,
-            messageCount: messages.length,
-          });
+      // Add response to conversation (memory/context); a handed-over turn is stored by its target
+      if (!handoff) {
+        await this.addMemory(response, {
+          role: 'assistant',
+          ...(options?.sessionId !== undefined && { sessionId: options.sessionId }),
+          ...(handoffChain.length > 0 && handoffMetadata(handoffChain)),
+        });
+      }
 
-          // Create a user-friendly response based on tool results
-          const toolResultsSummary = toolMessages
-            .map((m, i) => {
-              try {
-                const result = JSON.parse(m.content);
-                if (result.success === true) {
-                  return `✓ Tool ${i + 1} completed successfully`;
-                }
-              } catch {
-                // Not JSON, treat as plain text
-              }
-              return null;
-            })
-            .filter(Boolean)
-            .join('\n');
-
-          response = toolResultsSummary
-            ? `I've completed the requested operations:\n\n${toolResultsSummary}\n\nHowever, I encountered a temporary issue generating a detailed response. The operations were successful though!`
-            : `I've processed your request and the operations completed successfully. However, I encountered a temporary issue generating a detailed response. Please try asking me to explain the results.`;
-        }
-      } else {
-        response = llmResponse.content;
+      // Reflect on the run; cached and handed-over turns did no work of their own
+      if (!cached && !handoff) {
+        await this.reflect(
+          {
+            source: 'ask',
+            prompt,
+            response,
+            tools: collectToolUses(messages),
+            model: llmOptions.model,
+            ...(options?.sessionId !== undefined && { sessionId: options.sessionId }),
+          },
+          { signal: options?.signal, budget }
+        );
       }
-    }
 
-    // Add response to conversation (memory/context)
-    await this.addMemory(response, { role: 'assistant' });
+      // Save context to memory if enabled - propagate errors for visibility
+      try {
+        await this.saveContextToMemory(session);
+      } catch (saveError) {
+        // Log but don't throw - response is already generated, we don't want to lose it
+        this.logger.error(
+          'Failed to save context to memory',
+          saveError instanceof Error ? saveError : new Error(String(saveError)),
+          {
+            responseLength: response.length,
+          }
+        );
+      }
 
-    // Save context to memory if enabled - propagate errors for visibility
-    try {
-      await this.saveContextToMemory();
-    } catch (saveError) {
-      // Log but don't throw - response is already generated, we don't want to lose it
-      this.logger.error(
-        'Failed to save context to memory',
-        saveError instanceof Error ? saveError : new Error(String(saveError)),
-        {
-          responseLength: response.length,
-        }
-      );
-    }
+      options?.onEvent?.({ type: 'final', response, data: structuredData, usage: runUsage });
 
-    // Clean up temporary MCP servers and plugins in finally-like block
-    // This ensures cleanup happens even if saveContextToMemory fails
-    const cleanupMcpServers = async () => {
-      if (options?.mcpServers && this.modules.mcp) {
-        for (const server of options.mcpServers) {
+      return options?.responseSchema ? structuredData : response;
+    } finally {
+      await Promise.all([
+        ...addedMcpServers.map(async (serverName) => {
           try {
-            (this.modules.mcp as MCP).removeMCPServer(server.name);
+            (this.modules.mcp as MCP).removeMCPServer(serverName);
           } catch (error) {
             this.logger.warn('Failed to remove temporary MCP server', {
-              serverName: server.name,
+              serverName,
               error: error instanceof Error ? error.message : String(error),
             });
           }
-        }
+        }),
+        ...addedPlugins.map(async (pluginName) => {
+          try {
+            await (this.modules.plugin as Plugin).unregisterPlugin(pluginName);
+          } catch (error) {
+            this.logger.warn('Failed to unregister temporary plugin', {
+              pluginName,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }),
+      ]);
+    }
+  }
+
+  /**
+   * Execute the tool calls requested during ask() and append their results to the conversation.
+   * Failures and denied calls are returned to the LLM as tool messages instead of being thrown.
+   */
+  private async executeAskToolCalls(
+    toolCalls: ToolCall[],
+    messages: AskMessage[],
+    run: AskToolRun = {}
+  ): Promise<void> {
+    const { onEvent, signal, approval } = run;
+    for (const toolCall of toolCalls) {
+      throwIfAborted(signal, 'Tool execution');
+
+      const toolName = toolCall.function?.name;
+      if (!toolName) {
+        this.logger.warn('Skipping tool call with missing function name', {
+          toolCallId: toolCall.id,
+        });
+        continue;
       }
-    };
 
-    const cleanupPlugins = async () => {
-      if (options?.plugins && Array.isArray(options.plugins) && this.modules?.plugin) {
-        for (const pluginDef of options.plugins) {
-          if (pluginDef && pluginDef.plugin) {
+      const approvalOutcome = await this.reviewToolCall(toolCall, approval);
+      const callArguments = approvalOutcome.approved
+        ? (approvalOutcome.arguments ?? toolCall.function.arguments)
+        : toolCall.function.arguments;
+      const toolArgs = parseToolCallArguments(callArguments);
+      const toolStartTime = Date.now();
+      onEvent?.({
+        type: 'tool_call_start',
+        toolCallId: toolCall.id,
+        toolName,
+        arguments: toolArgs,
+      });
+
+      if (!approvalOutcome.approved) {
+        const deniedResult = formatDeniedToolResult(
+          toolName.replace(/^(mcp_|plugin_)/, ''),
+          approvalOutcome.reason
+        );
+        messages.push({ role: 'tool', content: deniedResult, tool_call_id: toolCall.id });
+        onEvent?.({
+          type: 'tool_call_end',
+          toolCallId: toolCall.id,
+          toolName,
+          arguments: toolArgs,
+          result: deniedResult,
+          success: false,
+          durationMs: Date.now() - toolStartTime,
+        });
+        continue;
+      }
+
+      try {
+        let toolResult: string;
+
+        if (toolName.startsWith('mcp_')) {
+          // Handle MCP tool call
+          const mcpToolName = toolName.substring(4); // Remove 'mcp_' prefix
+
+          // Ensure arguments are properly formatted for MCP with type-safe parsing
+          let mcpArgs: Record<string, string | number | boolean | object | null>;
+          if (typeof callArguments === 'string') {
             try {
-              await (this.modules.plugin as Plugin).unregisterPlugin(pluginDef.plugin.name);
-            } catch (error) {
-              this.logger.warn('Failed to unregister temporary plugin', {
-                pluginName: pluginDef.plugin.name,
-                error: error instanceof Error ? error.message : String(error),
+              const parsed: unknown = JSON.parse(callArguments);
+              // Validate parsed result is an object (not null, array, or primitive)
+              if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error('MCP tool arguments must be a JSON object');
+              }
+              mcpArgs = parsed as Record<string, string | number | boolean | object | null>;
+            } catch (parseError) {
+              const parseErr =
+                parseError instanceof Error ? parseError : new Error(String(parseError));
+              this.logger.error('Failed to parse MCP tool arguments', parseErr);
+              throw new Error(`Invalid JSON in MCP tool arguments: ${parseErr.message}`);
+            }
+          } else if (callArguments && typeof callArguments === 'object') {
+            mcpArgs = callArguments as Record<string, string | number | boolean | object | null>;
+          } else {
+            // Default to empty object if no arguments provided
+            mcpArgs = {};
+          }
+
+          if (this.modules.mcp) {
+            const mcpResult = await this.modules.mcp.callMCPTool(
+              mcpToolName,
+              mcpArgs as Record<string, import('../mcp/types').MCPValue>,
+              signal
+            );
+            toolResult = mcpResult.content.map((c) => c.text || '').join('\n');
+          } else {
+            toolResult = 'MCP module not available';
+          }
+        } else if (toolName.startsWith('plugin_')) {
+          // Handle plugin tool call
+          const pluginToolName = toolName.substring(7); // Remove 'plugin_' prefix
+
+          // Ensure arguments are properly formatted for plugin tools with type-safe parsing
+          let pluginArgs: Record<string, string | number | boolean | object | null>;
+          if (typeof callArguments === 'string') {
+            try {
+              const parsed: unknown = JSON.parse(callArguments);
+              // Validate parsed result is an object (not null, array, or primitive)
+              if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error('Plugin tool arguments must be a JSON object');
+              }
+              pluginArgs = parsed as Record<string, string | number | boolean | object | null>;
+            } catch (parseError) {
+              const parseErr =
+                parseError instanceof Error ? parseError : new Error(String(parseError));
+              this.logger.error('Failed to parse plugin tool arguments', parseErr);
+              throw new Error(`Invalid JSON in plugin tool arguments: ${parseErr.message}`);
+            }
+          } else if (callArguments && typeof callArguments === 'object') {
+            pluginArgs = callArguments as Record<string, string | number | boolean | object | null>;
+          } else {
+            // Default to empty object if no arguments provided
+            pluginArgs = {};
+          }
+
+          if (this.modules.plugin) {
+            const pluginResult = await this.modules.plugin.executeTool(
+              {
+                id: toolCall.id,
+                name: pluginToolName,
+                parameters: pluginArgs as Record<string, ToolParameterValue>,
+              },
+              { agentId: this.id, agent: this, signal, budget: run.budget }
+            );
+
+            // Usage of LLM calls made inside the tool counts toward this run
+            run.recordUsage?.(
+              pluginResult.result.model ?? pluginToolName,
+              pluginResult.result.usage
+            );
+
+            // Log metadata if present (for debugging and observability)
+            if (pluginResult.result.metadata) {
+              this.logger.debug('Plugin tool returned metadata', {
+                toolName: pluginToolName,
+                toolCallId: toolCall.id,
+                metadata: pluginResult.result.metadata,
               });
             }
+
+            // Build tool result with optional metadata inclusion
+            if (pluginResult.result.success) {
+              const resultData =
+                typeof pluginResult.result.data === 'string'
+                  ? pluginResult.result.data
+                  : JSON.stringify(pluginResult.result.data);
+
+              // Include metadata in response if present (allows LLM to see relevant context)
+              if (
+                pluginResult.result.metadata &&
+                Object.keys(pluginResult.result.metadata).length > 0
+              ) {
+                toolResult = JSON.stringify({
+                  result: resultData,
+                  metadata: pluginResult.result.metadata,
+                });
+              } else {
+                toolResult = resultData;
+              }
+            } else {
+              toolResult = `Error: ${pluginResult.result.error || 'Unknown error'}`;
+            }
+          } else {
+            toolResult = `Plugin module not available`;
           }
+        } else {
+          // Handle other tool types (future implementations)
+          toolResult = `Tool ${toolName} not implemented yet`;
+        }
+
+        // CRITICAL: Tool result content cannot be empty for OpenAI API
+        if (!toolResult || toolResult.trim() === '') {
+          this.logger.warn('Empty tool result detected', {
+            toolName,
+            toolCallId: toolCall.id,
+            resultType: typeof toolResult,
+            resultValue: toolResult,
+          });
+          toolResult = 'Tool execution completed but returned no data.';
+        }
+
+        toolResult = (
+          await this.applyGuardrails(toolResult, 'tool_result', {
+            toolName,
+            signal,
+            budget: run.budget,
+            onViolation: (violation) => onEvent?.({ type: 'guardrail', violation }),
+          })
+        ).content;
+
+        this.logger.debug('Tool result received', {
+          toolName,
+          toolCallId: toolCall.id,
+          resultLength: toolResult.length,
+          resultPreview: toolResult.slice(0, 200),
+        });
+
+        // Add tool result to messages
+        messages.push({
+          role: 'tool',
+          content: toolResult,
+          tool_call_id: toolCall.id,
+        });
+
+        this.logger.debug('Tool call executed', {
+          toolName,
+          toolCallId: toolCall.id,
+          resultLength: toolResult.length,
+        });
+
+        onEvent?.({
+          type: 'tool_call_end',
+          toolCallId: toolCall.id,
+          toolName,
+          arguments: toolArgs,
+          result: toolResult,
+          success: true,
+          durationMs: Date.now() - toolStartTime,
+        });
+      } catch (error) {
+        // Cancellation, budget stops and guardrail rejections end the run instead of being
+        // reported back to the LLM
+        if (
+          isOperationCancelledError(error) ||
+          isBudgetExceededError(error) ||
+          isGuardrailViolationError(error)
+        ) {
+          throw error;
+        }
+
+        // Normalize tool error using ToolError class
+        const originalError = error instanceof Error ? error : new Error(String(error));
+        const toolType = toolName.startsWith('mcp_')
+          ? 'mcp'
+          : toolName.startsWith('plugin_')
+            ? 'plugin'
+            : 'unknown';
+        const actualToolName =
+          toolType === 'mcp'
+            ? toolName.substring(4)
+            : toolType === 'plugin'
+              ? toolName.substring(7)
+              : toolName;
+
+        // Determine error type based on error message
+        let errorType: 'not_found' | 'validation' | 'execution' | 'timeout' | 'unknown' =
+          'execution';
+        if (
+          originalError.message.includes('not found') ||
+          originalError.message.includes('not available')
+        ) {
+          errorType = 'not_found';
+        } else if (
+          originalError.message.includes('Invalid') ||
+          originalError.message.includes('validation')
+        ) {
+          errorType = 'validation';
+        } else if (
+          originalError.message.includes('timeout') ||
+          originalError.message.includes('timed out')
+        ) {
+          errorType = 'timeout';
         }
-      }
-    };
 
-    // Execute cleanup - errors are logged but don't prevent response return
-    await Promise.all([cleanupMcpServers(), cleanupPlugins()]);
+        // Determine if error is recoverable (LLM can try alternative approach)
+        const recoverable = errorType !== 'not_found';
+
+        const toolError = new ToolError(
+          `Tool '${actualToolName}' (${toolType}) failed: ${originalError.message}`,
+          actualToolName,
+          toolType,
+          errorType,
+          recoverable,
+          originalError
+        );
+
+        this.logger.error(`Tool call failed: ${toolName}`, toolError, {
+          toolType,
+          errorType,
+          recoverable,
+          toolCallId: toolCall.id,
+        });
 
-    return response;
+        // Add normalized error result to messages (LLM can use this to decide next action)
+        const errorResult = toolError.toToolResult();
+        messages.push({
+          role: 'tool',
+          content: JSON.stringify(errorResult),
+          tool_call_id: toolCall.id,
+        });
+
+        onEvent?.({
+          type: 'tool_call_end',
+          toolCallId: toolCall.id,
+          toolName,
+          arguments: toolArgs,
+          result: JSON.stringify(errorResult),
+          success: false,
+          durationMs: Date.now() - toolStartTime,
+        });
+      }
+    }
   }
 
   /**
    * Update agent configuration
    * Ensures module state consistency even if initialization or cleanup fails
+   * @param revision - Who made the change and why, stored with the new config revision
    */
-  async update(updates: Partial<AgentConfig>): Promise<void> {
+  async update(
+    updates: Partial<AgentConfig>,
+    revision?: AgentRevisionInfo & { rollbackOf?: string }
+  ): Promise<void> {
     const wasMemoryEnabled = this.hasMemory();
     const wasKnowledgeEnabled = this.hasKnowledge();
     const wasVisionEnabled = this.hasVision();
     const wasToolsEnabled = this.canUseTools();
 
-    await super.update(updates);
+    await super.update(updates, revision);
+    this.currentRevision = undefined; // Looked up again on next use
 
     const moduleErrors: Array<{ module: string; operation: string; error: string }> = [];
 
@@ -0,0 +1,108 @@
+import { AgentToolOptions, IAgent } from './types';
+import { ToolDefinition, ToolParameter, ToolParameterValue } from '../plugin/types';
+import { LLMUsage } from '../llm/types';
+import { BudgetTracker } from '../budget';
+import { SubAgentCoordinator } from '../sub-agent/coordination';
+
+const DEFAULT_AGENT_TOOL_TIMEOUT = 300000; // 5 minutes, a full agent run with its own tool calls
+
+const DEFAULT_INPUT_SCHEMA: Record<string, ToolParameter> = {
+  input: {
+    name: 'input',
+    type: 'string',
+    description: 'The request for the agent, with all the context it needs',
+    required: true,
+  },
+};
+
+function toToolName(agentName: string): string {
+  const slug = agentName
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `ask_${slug || 'agent'}`;
+}
+
+/**
+ * Single string argument is sent as is, anything else as JSON
+ */
+function formatToolPrompt(params: Record<string, ToolParameterValue>): string {
+  const values = Object.values(params);
+  if (values.length === 1 && typeof values[0] === 'string') {
+    return values[0];
+  }
+  return JSON.stringify(params, null, 2);
+}
+
+function toLLMUsage(tracker: BudgetTracker): LLMUsage | undefined {
+  const usage = tracker.getUsage();
+  if (usage.llmCalls === 0) {
+    return undefined;
+  }
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    cost: usage.cost > 0 ? usage.cost : undefined,
+  };
+}
+
+/**
+ * Wrap an agent as a plugin tool so other agents can call it like a function.
+ * Each call runs through the sub-agent coordinator, so context isolation behaves as in delegation.
+ */
+export function createAgentTool(agent: IAgent, options: AgentToolOptions = {}): ToolDefinition {
+  const name = options.name ?? toToolName(agent.name);
+  const contextIsolation = options.contextIsolation ?? 'isolated';
+  const coordinator = new SubAgentCoordinator(agent.logger);
+
+  return {
+    name,
+    description:
+      options.description ??
+      agent.config.description ??
+      `Ask the ${agent.name} agent to handle a request`,
+    parameters: options.inputSchema ?? DEFAULT_INPUT_SCHEMA,
+    timeout: options.timeout ?? DEFAULT_AGENT_TOOL_TIMEOUT,
+    handler: async (params, context) => {
+      const prompt = (options.formatPrompt ?? formatToolPrompt)(params);
+
+      // Measures the wrapped agent's usage; as a child it also charges the caller's budget
+      const tracker = new BudgetTracker({}, context?.budget);
+
+      // The runtime caller is the calling agent; merge mode copies new context into it
+      const caller = context?.agent as IAgent | undefined;
+
+      agent.logger.debug('Agent tool called', {
+        toolName: name,
+        agentId: agent.id,
+        callerAgentId: context?.agentId ?? null,
+        contextIsolation,
+        promptLength: prompt.length,
+      });
+
+      const outcome = await coordinator.executeSubAgentTasks(
+        [{ agentId: agent.id, task: prompt }],
+        [agent],
+        'sequential',
+        contextIsolation,
+        caller,
+        context?.signal,
+        tracker
+      );
+
+      const usage = toLLMUsage(tracker);
+      const result = outcome.results[0];
+      if (!outcome.success || !result?.success) {
+        return {
+          success: false,
+          error: result?.error || outcome.errors.join('; ') || `Agent ${agent.name} failed`,
+          usage,
+          model: agent.config.model,
+        };
+      }
+
+      return { success: true, data: result.result, usage, model: agent.config.model };
+    },
+  };
+}
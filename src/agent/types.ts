@@ -4,7 +4,19 @@
 import { Logger } from '../logger/types';
 import { Task, TaskRequest, TaskSearchOptions, TaskResponse } from '../task/types';
 import { Memory, MemorySearchOptions } from '../memory/types';
-import { Plugin, PluginConfig, ToolDefinition, ToolCall, ToolCallResult } from '../plugin/types';
+import {
+  Plugin,
+  PluginConfig,
+  ToolDefinition,
+  ToolParameter,
+  ToolParameterValue,
+  ToolCall,
+  ToolCallResult,
+  ToolApprovalHandler,
+  ToolApprovalPolicy,
+  ToolApprovalOutcome,
+  ToolApprovalSettings,
+} from '../plugin/types';
 import { MCPServerDefinition, MCPValue, MCPTool } from '../mcp/types';
 import { AnalysisOptions } from '../vision/index';
 import { MetadataObject } from '../types';
@@ -15,6 +27,22 @@ import {
   ContextSummary,
   CompressionResult,
 } from '../context/types';
+import { LLMUsage, ResponseSchema, ToolCall as LLMToolCall } from '../llm/types';
+import { GoalProgress, GoalResult, PursueOptions } from '../goal/types';
+import { ReflectionInput, ReflectionSetting } from '../reflection/types';
+import { BudgetLimits, BudgetTracker } from '../budget';
+import { ContextIsolationStrategy } from '../sub-agent/types';
+import { Session, SessionListOptions } from '../session/types';
+import { PromptInput, TemplateLike, TemplateReference, TemplateVariables } from '../template/types';
+import {
+  Guardrail,
+  GuardrailCheckOptions,
+  GuardrailResult,
+  GuardrailStage,
+  GuardrailViolation,
+} from '../guardrail/types';
+import { CacheMode, CacheSetting, CacheStats } from '../cache/types';
+import { AGENT_REVISION_FIELDS } from './defaults';
 
 // Forward declaration for sub-agents - using IAgent interface
 
@@ -32,7 +60,12 @@ export interface ITaskMethods {
   clearTasks(): Promise<number>;
   executeTask(
     taskId: string, // UUID
-    options?: { model?: string; stream?: boolean }
+    options?: {
+      model?: string;
+      stream?: boolean;
+      signal?: AbortSignal;
+      budget?: BudgetLimits | BudgetTracker;
+    } & ToolApprovalSettings
   ): Promise<TaskResponse>;
 }
 
@@ -90,7 +123,11 @@ export interface IPluginMethods {
   unregisterPlugin(name: string): Promise<void>;
   listPlugins(): Plugin[];
   getTools(): ToolDefinition[];
-  executeTool(toolCall: ToolCall): Promise<ToolCallResult>;
+  executeTool(
+    toolCall: ToolCall,
+    signal?: AbortSignal,
+    budget?: BudgetTracker
+  ): Promise<ToolCallResult>;
 }
 
 /**
@@ -102,7 +139,8 @@ export interface IMCPMethods {
   removeMCPServer(name: string): void;
   callMCPTool(
     toolName: string,
-    args: Record<string, MCPValue>
+    args: Record<string, MCPValue>,
+    signal?: AbortSignal
   ): Promise<{ content: Array<{ type: string; text?: string }>; isError?: boolean }>;
   getMCPTools(): MCPTool[];
 }
@@ -140,6 +178,37 @@ export interface IContextMethods {
   }): ContextMessage[];
 }
 
+/**
+ * Conversation session methods (always available)
+ */
+export interface ISessionMethods {
+  listSessions(options?: SessionListOptions): Promise<Session[]>;
+  getSession(sessionId: string): Promise<Session | null>;
+  resumeSession(sessionId: string): Promise<Session | null>;
+  renameSession(sessionId: string, name: string): Promise<Session | null>;
+  deleteSession(sessionId: string): Promise<boolean>;
+}
+
+/**
+ * Config revision methods (always available)
+ */
+export interface IRevisionMethods {
+  getRevisions(): Promise<AgentRevision[]>;
+  // Note: Optional to match IAgent's getCurrentRevision for interface extension compatibility
+  getCurrentRevision?(): Promise<AgentRevision | null>;
+  diffRevisions(a: string | number, b: string | number): Promise<AgentRevisionDiff>;
+  rollback(revision: string | number, info?: AgentRevisionInfo): Promise<AgentRevision>;
+}
+
+/**
+ * Goal mode methods (always available)
+ */
+export interface IGoalMethods {
+  pursue(goal: string, options?: PursueOptions): Promise<GoalResult>;
+  resumeGoal(goalId: string, options?: PursueOptions): Promise<GoalResult>; // UUID
+  getGoalProgress(goalId: string): Promise<GoalProgress | null>; // UUID
+}
+
 /**
  * SubAgent module methods - bound when SubAgent module is available
  */
@@ -169,20 +238,93 @@ export interface IAgent {
   name: string;
   config: AgentConfig;
   logger: Logger;
+  run<T = unknown>(
+    prompt: string,
+    options: RunOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
   run(prompt: string, options?: RunOptions): Promise<string>;
-  ask(prompt: string, options?: AskOptions): Promise<string>;
+  ask<T = unknown>(
+    prompt: PromptInput,
+    options: AskOptions & { responseSchema: ResponseSchema }
+  ): Promise<T>;
+  ask(prompt: PromptInput, options?: AskOptions): Promise<string>;
   canUseTools(): boolean;
   hasMemory(): boolean;
   hasKnowledge(): boolean;
   hasVision(): boolean;
   // Context methods (available on all agents - optional to allow partial implementations)
-  getContext(): ContextMessage[];
+  getContext(sessionId?: string): ContextMessage[];
   clearContext?(options?: { syncWithMemory?: boolean }): Promise<void>;
   exportContext?(): string;
   importContext?(data: string): void;
   // Memory methods (when memory enabled)
   addMemory?(content: string, metadata?: MetadataObject): Promise<Memory>;
   loadGraphContext?(graphId: string, limit?: number, isolated?: boolean): Promise<void>;
+  // Config revision the agent currently runs (recorded on the tasks it executes)
+  getCurrentRevision?(): Promise<AgentRevision | null>;
+  // Tool approval (checked before each tool call the LLM requests)
+  reviewToolCall?(toolCall: LLMToolCall, options?: ToolReviewOptions): Promise<ToolApprovalOutcome>;
+  // Guardrails (checked on input, tool results and output of asks and tasks)
+  applyGuardrails?(
+    content: string,
+    stage: GuardrailStage,
+    options?: GuardrailCheckOptions
+  ): Promise<GuardrailResult>;
+  // Response cache of ask() (entries are scoped to the agent)
+  getCacheStats?(): CacheStats;
+  clearCache?(): Promise<number>;
+  // Handoffs (agent answering a session after transfer_to_<name> calls)
+  getActiveAgent?(sessionId?: string): IAgent;
+  // Self-reflection (lessons stored after runs and recalled into similar ones)
+  findReflections?(query: string): Promise<Memory[]>;
+  reflect?(
+    run: ReflectionInput,
+    options?: { signal?: AbortSignal; budget?: BudgetTracker }
+  ): Promise<Memory | null>;
+}
+
+/**
+ * Per-call approval settings plus the context passed to the approval hook
+ */
+export interface ToolReviewOptions extends ToolApprovalSettings {
+  taskId?: string; // UUID
+  prompt?: string;
+}
+
+/**
+ * Options for agent.asTool()
+ */
+export interface AgentToolOptions {
+  name?: string; // Tool name (default: ask_<agent name>)
+  description?: string; // Defaults to the agent description
+  inputSchema?: Record<string, ToolParameter>; // Default: a single required `input` string
+  formatPrompt?: (params: Record<string, ToolParameterValue>) => string; // Builds the prompt from the call arguments
+  contextIsolation?: ContextIsolationStrategy; // Context handling around each call (default: 'isolated')
+  timeout?: number; // Milliseconds before the call is abandoned (default: 300000)
+}
+
+/**
+ * Agent the conversation can be handed over to; a plain agent uses the defaults
+ */
+export interface HandoffOptions {
+  agent: IAgent;
+  toolName?: string; // Default: transfer_to_<agent name>
+  description?: string; // When to transfer (default: the agent description)
+  summarize?: boolean; // Hand over a summary instead of the messages (default: false)
+}
+
+/**
+ * One transfer of a conversation between agents
+ */
+export interface HandoffRecord {
+  fromAgentId: string; // UUID
+  fromAgentName: string;
+  toAgentId: string; // UUID
+  toAgentName: string;
+  reason?: string; // Given by the LLM in the transfer call
+  summarized: boolean;
+  sessionId?: string;
+  timestamp: Date;
 }
 
 /**
@@ -206,6 +348,9 @@ export interface AgentConfigInput {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  // Template rendered into systemPrompt at creation (runtime only, not persisted)
+  systemPromptTemplate?: TemplateLike | TemplateReference;
+  systemPromptVariables?: TemplateVariables; // Also renders a string systemPrompt as a template
   memory?: boolean;
   knowledge?: boolean;
   vision?: boolean;
@@ -218,6 +363,19 @@ export interface AgentConfigInput {
   compressionStrategy?: 'summarize' | 'selective' | 'hybrid';
   debug?: boolean;
   subAgents?: IAgent[];
+  // Tool approval (runtime only, not persisted)
+  approveToolCall?: ToolApprovalHandler;
+  toolApproval?: ToolApprovalPolicy;
+  budget?: BudgetLimits; // Default limits for every run and task (runtime only, not persisted)
+  // Checked on user input, tool results and final output, in order (runtime only, not persisted)
+  guardrails?: Guardrail[];
+  cache?: CacheSetting; // Response cache of ask(), scoped to the agent (runtime only, not persisted)
+  // Agents the conversation can be handed over to with transfer_to_<name> tools (runtime only)
+  handoffs?: Array<IAgent | HandoffOptions>;
+  // Reflect after each completed ask and task, recalling similar reflections (needs memory; runtime only)
+  reflection?: ReflectionSetting;
+  // Models tried in order when the model is rate limited, erroring or down (runtime only)
+  fallbackModels?: string[];
 }
 
 /**
@@ -235,6 +393,47 @@ export interface AgentConfig extends AgentConfigInput {
   updatedAt: Date;
 }
 
+/**
+ * Stored agent settings captured by a revision (runtime-only options are not included)
+ */
+export type AgentRevisionConfig = Pick<AgentConfigInput, (typeof AGENT_REVISION_FIELDS)[number]>;
+
+/**
+ * Who made a config change and why, stored with the revision it creates
+ */
+export interface AgentRevisionInfo {
+  author?: string;
+  reason?: string;
+}
+
+/**
+ * One stored version of an agent's config
+ */
+export interface AgentRevision extends AgentRevisionInfo {
+  id: string; // UUID
+  agentId: string; // UUID
+  version: number; // 1, 2, 3... per agent
+  config: AgentRevisionConfig;
+  source: 'create' | 'update' | 'rollback';
+  rollbackOf?: string; // UUID of the revision restored by a rollback
+  createdAt: Date;
+}
+
+export interface AgentRevisionChange {
+  field: keyof AgentRevisionConfig;
+  before: AgentRevisionConfig[keyof AgentRevisionConfig];
+  after: AgentRevisionConfig[keyof AgentRevisionConfig];
+}
+
+/**
+ * Fields that differ between two revisions
+ */
+export interface AgentRevisionDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  changes: AgentRevisionChange[];
+}
+
 /**
  * Options for agent.run() method
  */
@@ -245,6 +444,11 @@ export interface RunOptions {
   stream?: boolean;
   useTools?: boolean;
   onChunk?: (chunk: string) => void;
+  // Structured output: the parsed, schema-validated object is returned instead of text
+  responseSchema?: ResponseSchema;
+  schemaRetries?: number; // Re-prompts allowed when the response fails validation
+  signal?: AbortSignal; // Cancels the run, including queued lock waits and LLM calls
+  budget?: BudgetLimits | BudgetTracker; // Limits for this run (over the agent's), or a shared tracker
 }
 
 /**
@@ -254,10 +458,24 @@ export interface AskOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
-  stream?: boolean;
+  stream?: boolean; // With output guardrails, the checked response arrives as one chunk
   useTools?: boolean;
   onChunk?: (chunk: string) => void;
   timeout?: number; // Timeout in milliseconds for sub-agent execution
+  // Structured output: the parsed, schema-validated object is returned instead of text
+  responseSchema?: ResponseSchema;
+  schemaRetries?: number; // Re-prompts allowed when the response fails validation
+  onEvent?: (event: AgentStreamEvent) => void; // Typed run events (same events agent.stream() yields)
+  signal?: AbortSignal; // Cancels LLM calls, tool calls and sub-agent runs in progress
+  budget?: BudgetLimits | BudgetTracker; // Limits for this run (over the agent's), or a shared tracker
+  // Conversation session: own context window, compression and persistence; sessions run in parallel
+  sessionId?: string;
+  variables?: TemplateVariables; // Renders the prompt as a template ({{name}}, partials, conditionals)
+  cache?: CacheMode; // Response cache mode for this call (default: the agent's cache setting)
+  handoffChain?: HandoffRecord[]; // Set by handoffs: the transfers that led to this call, oldest first
+  // Tool approval overrides for this call (merged over the agent's settings)
+  approveToolCall?: ToolApprovalHandler;
+  toolApproval?: ToolApprovalPolicy;
   // Sub-agent specific options
   useSubAgents?: boolean;
   delegation?: 'auto' | 'manual' | 'sequential';
@@ -313,6 +531,9 @@ export interface IAgentWithModules
   extends IAgent,
     ITaskMethods,
     IContextMethods, // Context is now always available, not Partial
+    ISessionMethods,
+    IRevisionMethods,
+    IGoalMethods,
     Partial<IMemoryMethods>,
     Partial<IKnowledgeMethods>,
     Partial<IPluginMethods>,
@@ -320,10 +541,128 @@ export interface IAgentWithModules
     Partial<IVisionMethods>,
     Partial<ISubAgentMethods> {
   updateModel(model: string): void;
-  getContext(): ContextMessage[];
+  stream(prompt: PromptInput, options?: StreamOptions): AsyncGenerator<AgentStreamEvent>;
+  getContext(sessionId?: string): ContextMessage[];
   /**
    * Clear all data: both memory and context
    * This ensures Memory and Context are always synchronized
    */
   clearAll(): Promise<{ memoriesCleared: number; contextCleared: boolean }>;
 }
+
+/**
+ * Incremental text produced by the LLM
+ */
+export interface TextDeltaEvent {
+  type: 'text_delta';
+  delta: string;
+}
+
+/**
+ * A tool call requested by the LLM is about to run
+ */
+export interface ToolCallStartEvent {
+  type: 'tool_call_start';
+  toolCallId: string;
+  toolName: string; // Prefixed name as seen by the LLM (e.g. 'plugin_search')
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A tool call finished; failed calls carry the error payload sent back to the LLM
+ */
+export interface ToolCallEndEvent {
+  type: 'tool_call_end';
+  toolCallId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  success: boolean;
+  durationMs: number;
+}
+
+/**
+ * The prompt was handed to sub-agents
+ */
+export interface SubAgentDelegationEvent {
+  type: 'sub_agent_delegation';
+  subAgents: Array<{ id: string; name: string }>;
+  delegation: 'auto' | 'manual' | 'sequential';
+  coordination: 'parallel' | 'sequential';
+}
+
+/**
+ * The agent's context window was compressed during the run
+ */
+export interface ContextCompressionEvent {
+  type: 'context_compression';
+  originalMessageCount: number;
+  compressedMessageCount: number;
+  messagesRemoved: number;
+  tokensReduced: number;
+  strategy: string;
+}
+
+/**
+ * Token usage reported by a single LLM call
+ */
+export interface UsageEvent {
+  type: 'usage';
+  model: string;
+  usage: LLMUsage;
+}
+
+/**
+ * The run completed; data holds the parsed object when a responseSchema was given
+ */
+export interface FinalEvent {
+  type: 'final';
+  response: string;
+  data?: unknown;
+  usage?: LLMUsage; // Accumulated over all LLM calls of the run
+}
+
+/**
+ * A guardrail redacted, rewrote or rejected content; a rejection ends the run
+ */
+export interface GuardrailEvent {
+  type: 'guardrail';
+  violation: GuardrailViolation;
+}
+
+/**
+ * The response was served from the response cache; no LLM call or tool ran
+ */
+export interface CacheHitEvent {
+  type: 'cache_hit';
+  match: 'exact' | 'semantic';
+  similarity: number; // 1 for exact matches
+}
+
+/**
+ * The conversation was handed over; the target agent's events follow
+ */
+export interface HandoffEvent {
+  type: 'handoff';
+  handoff: HandoffRecord;
+}
+
+/**
+ * Discriminated union of events yielded by agent.stream()
+ */
+export type AgentStreamEvent =
+  | TextDeltaEvent
+  | ToolCallStartEvent
+  | ToolCallEndEvent
+  | SubAgentDelegationEvent
+  | ContextCompressionEvent
+  | GuardrailEvent
+  | CacheHitEvent
+  | HandoffEvent
+  | UsageEvent
+  | FinalEvent;
+
+/**
+ * Options for agent.stream() - streaming is implied
+ */
+export type StreamOptions = Omit<AskOptions, 'stream' | 'onChunk'>;
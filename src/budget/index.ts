@@ -0,0 +1,179 @@
+import { BudgetLimitName, BudgetLimits, BudgetUsage } from './types';
+import { LLMUsage } from '../llm/types';
+import { BudgetExceededError } from '../errors';
+
+const LIMIT_LABELS: Record<BudgetLimitName, string> = {
+  maxTokens: 'token',
+  maxCost: 'cost',
+  maxLLMCalls: 'LLM call',
+  maxWallTime: 'wall time',
+};
+
+/**
+ * Tracks consumption against budget limits for one run.
+ * Usage recorded on a child tracker is also counted by its parents, so a graph
+ * budget covers every task it runs while each task can still have its own limits.
+ * Share one tracker across calls (e.g. `ask(prompt, { budget: tracker })`) to give them a common budget.
+ */
+export class BudgetTracker {
+  private readonly startedAt = Date.now();
+  private promptTokens = 0;
+  private completionTokens = 0;
+  private totalTokens = 0;
+  private cost = 0;
+  private llmCalls = 0;
+
+  constructor(
+    readonly limits: BudgetLimits = {},
+    private readonly parent?: BudgetTracker
+  ) {}
+
+  getUsage(): BudgetUsage {
+    return {
+      promptTokens: this.promptTokens,
+      completionTokens: this.completionTokens,
+      totalTokens: this.totalTokens,
+      cost: this.cost,
+      llmCalls: this.llmCalls,
+      elapsedMs: Date.now() - this.startedAt,
+    };
+  }
+
+  /**
+   * Reserve an LLM call; throws when any limit is already used up
+   * @throws BudgetExceededError
+   */
+  startCall(operation: string): void {
+    this.assertWithinBudget(operation, true);
+    for (const tracker of this.lineage()) {
+      tracker.llmCalls++;
+    }
+  }
+
+  /**
+   * Whether this budget or a parent one limits cost, which needs the price of every call
+   */
+  limitsCost(): boolean {
+    for (const tracker of this.lineage()) {
+      if (tracker.limits.maxCost !== undefined) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Add the usage reported for a completed LLM call
+   */
+  recordUsage(usage?: LLMUsage): void {
+    if (!usage) return;
+    for (const tracker of this.lineage()) {
+      tracker.promptTokens += usage.promptTokens;
+      tracker.completionTokens += usage.completionTokens;
+      tracker.totalTokens += usage.totalTokens;
+      tracker.cost += usage.cost ?? 0;
+    }
+  }
+
+  /**
+   * Throw if this budget or any parent budget has been exceeded
+   * @param beforeCall - Also treat limits that are exactly reached as exceeded (no room for another call)
+   * @throws BudgetExceededError
+   */
+  assertWithinBudget(operation: string, beforeCall = false): void {
+    const error = this.getExceededError(operation, beforeCall);
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Same check as assertWithinBudget(), returning the error instead of throwing it
+   */
+  getExceededError(operation: string, beforeCall = false): BudgetExceededError | undefined {
+    for (const tracker of this.lineage()) {
+      const exceeded = tracker.findExceededLimit(beforeCall);
+      if (exceeded) {
+        const usage = tracker.getUsage();
+        return new BudgetExceededError(
+          `${LIMIT_LABELS[exceeded]} budget exceeded during ${operation} (${describeUsage(exceeded, usage)} of ${tracker.limits[exceeded]} allowed)`,
+          exceeded,
+          { ...tracker.limits },
+          usage
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * This tracker followed by its parents
+   */
+  private *lineage(): Generator<BudgetTracker> {
+    yield this;
+    if (this.parent) {
+      yield* this.parent.lineage();
+    }
+  }
+
+  private findExceededLimit(beforeCall: boolean): BudgetLimitName | undefined {
+    const over = (value: number, limit?: number) =>
+      limit !== undefined && (beforeCall ? value >= limit : value > limit);
+
+    if (over(this.llmCalls, this.limits.maxLLMCalls) && beforeCall) return 'maxLLMCalls';
+    if (over(this.totalTokens, this.limits.maxTokens)) return 'maxTokens';
+    if (over(this.cost, this.limits.maxCost)) return 'maxCost';
+    if (over(Date.now() - this.startedAt, this.limits.maxWallTime)) return 'maxWallTime';
+    return undefined;
+  }
+}
+
+function describeUsage(limit: BudgetLimitName, usage: BudgetUsage): string {
+  switch (limit) {
+    case 'maxTokens':
+      return `${usage.totalTokens} tokens`;
+    case 'maxCost':
+      return `$${usage.cost.toFixed(4)}`;
+    case 'maxLLMCalls':
+      return `${usage.llmCalls} calls`;
+    case 'maxWallTime':
+      return `${usage.elapsedMs}ms`;
+  }
+}
+
+function hasLimits(limits?: BudgetLimits): limits is BudgetLimits {
+  return (
+    !!limits &&
+    (limits.maxTokens !== undefined ||
+      limits.maxCost !== undefined ||
+      limits.maxLLMCalls !== undefined ||
+      limits.maxWallTime !== undefined)
+  );
+}
+
+/**
+ * Resolve the tracker for a run.
+ * `budget` is either per-run limits (merged over `defaults`) or a tracker to count against;
+ * with a tracker, `defaults` become a child budget of it. Returns undefined when nothing is limited.
+ */
+export function resolveBudget(
+  budget?: BudgetLimits | BudgetTracker,
+  defaults?: BudgetLimits
+): BudgetTracker | undefined {
+  if (budget instanceof BudgetTracker) {
+    return hasLimits(defaults) ? new BudgetTracker(defaults, budget) : budget;
+  }
+  const limits = { ...defaults, ...budget };
+  return hasLimits(limits) ? new BudgetTracker(limits) : undefined;
+}
+
+/**
+ * Attach the output produced so far to a budget error, keeping any partial result already set
+ */
+export function attachPartialResult(error: unknown, partialResult: unknown): void {
+  if (error instanceof BudgetExceededError && error.partialResult === undefined) {
+    error.partialResult = partialResult;
+  }
+}
+
+export * from './types';
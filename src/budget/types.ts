@@ -0,0 +1,23 @@
+/**
+ * Hard limits for a run; any limit left undefined is not enforced
+ */
+export interface BudgetLimits {
+  maxTokens?: number; // Prompt + completion tokens over every LLM call
+  maxCost?: number; // Sum of LLMUsage.cost (USD); only models with known pricing can be called
+  maxLLMCalls?: number;
+  maxWallTime?: number; // Milliseconds since the budget was started
+}
+
+export type BudgetLimitName = keyof BudgetLimits;
+
+/**
+ * Consumption recorded against a budget
+ */
+export interface BudgetUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  llmCalls: number;
+  elapsedMs: number;
+}
@@ -0,0 +1,12 @@
+/**
+ * Default configuration values for the response cache
+ */
+export const DEFAULT_CACHE_CONFIG = {
+  mode: 'exact',
+  ttl: 3600, // Seconds
+  similarityThreshold: 0.95,
+  includeHistory: false,
+  globalScope: 'global', // Scope of LLM.generateResponse() entries without their own
+  maxScopeLength: 255,
+  maxSemanticCandidates: 500, // Most recent entries compared in a semantic lookup
+} as const;
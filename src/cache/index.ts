@@ -0,0 +1,459 @@
+import { Knex } from 'knex';
+import crypto from 'crypto';
+import { getDatabase } from '../database';
+import { encryptSensitiveFields, decryptSensitiveFields } from '../database/utils';
+import { getLLM } from '../llm';
+import { LLMRequestOptions } from '../llm/types';
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import {
+  CacheKey,
+  CacheLookupResult,
+  CacheMode,
+  CacheSetting,
+  CacheStats,
+  CachedResponse,
+  ResolvedCacheOptions,
+} from './types';
+import { DEFAULT_CACHE_CONFIG } from './defaults';
+
+// Database row interface
+interface ResponseCacheDbRow {
+  id: string; // UUID
+  scope: string;
+  context_hash: string;
+  prompt_hash: string;
+  prompt: string;
+  content: string;
+  model: string;
+  embedding: string | null; // JSON array
+  hits: number | string;
+  created_at: string | Date;
+  expires_at: string | number | Date;
+}
+
+type StatCounters = Omit<CacheStats, 'hitRate'>;
+
+function hashValue(value: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Cached LLM responses, shared within a scope (an agent id, or a custom scope)
+ * Lookups and stores never fail a run: database or embedding errors count as misses.
+ */
+export class ResponseCache {
+  private knexPromise: Promise<Knex> | null = null;
+  private logger: Logger;
+  private stats: Map<string, StatCounters> = new Map();
+
+  constructor(logger?: Logger) {
+    this.logger = logger ?? getLogger();
+  }
+
+  /**
+   * Get the knex instance, creating the response_cache table on first use
+   */
+  private getKnex(): Promise<Knex> {
+    if (!this.knexPromise) {
+      this.knexPromise = this.initialize().catch((error: unknown) => {
+        // Allow a later call to retry
+        this.knexPromise = null;
+        throw error;
+      });
+    }
+    return this.knexPromise;
+  }
+
+  private async initialize(): Promise<Knex> {
+    const db = await getDatabase();
+    const knex = db.getKnex();
+
+    const hasCacheTable = await knex.schema.hasTable('response_cache');
+    if (!hasCacheTable) {
+      this.logger.debug('Creating response_cache table');
+
+      await knex.schema.createTable('response_cache', (table) => {
+        table.string('id', 36).primary(); // UUID generated in application layer
+        table.string('scope', DEFAULT_CACHE_CONFIG.maxScopeLength).notNullable();
+        table.string('context_hash', 64).notNullable();
+        table.string('prompt_hash', 64).notNullable();
+        table.text('prompt').notNullable();
+        table.text('content').notNullable();
+        table.string('model').notNullable();
+        table.text('embedding').nullable();
+        table.integer('hits').defaultTo(0);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.timestamp('expires_at').notNullable();
+
+        table.index(['scope', 'context_hash', 'prompt_hash']);
+        table.index(['scope', 'expires_at']);
+      });
+    }
+
+    return knex;
+  }
+
+  /**
+   * Find a live entry for the key: an exact prompt match first, then (semantic mode) the most
+   * similar prompt at or above the threshold
+   */
+  async lookup(key: CacheKey, options: ResolvedCacheOptions): Promise<CacheLookupResult> {
+    const stats = this.statsFor(options.scope);
+    let embedding: number[] | undefined;
+
+    try {
+      const knex = await this.getKnex();
+      const contextHash = this.contextHash(key);
+      const now = new Date();
+
+      const exact: ResponseCacheDbRow | undefined = await knex('response_cache')
+        .where({
+          scope: options.scope,
+          context_hash: contextHash,
+          prompt_hash: hashValue(key.prompt),
+        })
+        .andWhere('expires_at', '>', now)
+        .orderBy('created_at', 'desc')
+        .first();
+      if (exact) {
+        stats.hits++;
+        stats.exactHits++;
+        return { entry: await this.recordHit(knex, exact, 'exact', 1) };
+      }
+
+      if (options.mode === 'semantic') {
+        embedding = await this.embed(key.prompt, options.embeddingModel);
+        if (embedding) {
+          const candidates: ResponseCacheDbRow[] = await knex('response_cache')
+            .where({ scope: options.scope, context_hash: contextHash })
+            .andWhere('expires_at', '>', now)
+            .whereNotNull('embedding')
+            .orderBy('created_at', 'desc')
+            .limit(DEFAULT_CACHE_CONFIG.maxSemanticCandidates);
+
+          let best: { row: ResponseCacheDbRow; similarity: number } | null = null;
+          for (const row of candidates) {
+            try {
+              const candidate = JSON.parse(row.embedding as string) as number[];
+              if (candidate.length !== embedding.length) continue;
+              const similarity = cosineSimilarity(embedding, candidate);
+              if (
+                similarity >= options.similarityThreshold &&
+                similarity > (best?.similarity ?? 0)
+              ) {
+                best = { row, similarity };
+              }
+            } catch {
+              this.logger.debug('Failed to parse embedding of cached response', { id: row.id });
+            }
+          }
+
+          if (best) {
+            stats.hits++;
+            stats.semanticHits++;
+            return {
+              entry: await this.recordHit(knex, best.row, 'semantic', best.similarity),
+              embedding,
+            };
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.debug('Response cache lookup failed', {
+        scope: options.scope,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    stats.misses++;
+    this.logger.debug('Response cache miss', { scope: options.scope, mode: options.mode });
+    return { entry: null, embedding };
+  }
+
+  /**
+   * Store a response for the key, replacing an entry with the same prompt
+   * @param embedding Prompt embedding from the lookup; computed in semantic mode when missing
+   */
+  async store(
+    key: CacheKey,
+    content: string,
+    options: ResolvedCacheOptions,
+    embedding?: number[]
+  ): Promise<void> {
+    try {
+      const knex = await this.getKnex();
+      const contextHash = this.contextHash(key);
+      const promptHash = hashValue(key.prompt);
+      const now = new Date();
+
+      if (options.mode === 'semantic' && !embedding) {
+        embedding = await this.embed(key.prompt, options.embeddingModel);
+      }
+
+      // Drop the entry being replaced and whatever expired in the scope
+      await knex('response_cache')
+        .where({ scope: options.scope })
+        .andWhere((query) =>
+          query
+            .where({ context_hash: contextHash, prompt_hash: promptHash })
+            .orWhere('expires_at', '<=', now)
+        )
+        .delete();
+
+      const row = {
+        id: crypto.randomUUID(),
+        scope: options.scope,
+        context_hash: contextHash,
+        prompt_hash: promptHash,
+        prompt: key.prompt,
+        content,
+        model: key.model,
+        embedding: embedding ? JSON.stringify(embedding) : null,
+        hits: 0,
+        expires_at: new Date(now.getTime() + options.ttl * 1000),
+      };
+      await knex('response_cache').insert(await encryptSensitiveFields(row, 'response_cache'));
+
+      this.statsFor(options.scope).stores++;
+      this.logger.debug('Response cached', {
+        scope: options.scope,
+        model: key.model,
+        ttl: options.ttl,
+        hasEmbedding: !!embedding,
+      });
+    } catch (error) {
+      this.logger.debug('Failed to store cached response', {
+        scope: options.scope,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Count a response left out of the cache because tools with side effects ran
+   */
+  skip(scope: string, reason: string): void {
+    this.statsFor(scope).skipped++;
+    this.logger.debug('Response not cached', { scope, reason });
+  }
+
+  /**
+   * Hit/miss counters since start (or the last reset), for one scope or all of them
+   */
+  getStats(scope?: string): CacheStats {
+    const counters: StatCounters = {
+      hits: 0,
+      exactHits: 0,
+      semanticHits: 0,
+      misses: 0,
+      stores: 0,
+      skipped: 0,
+    };
+    const sources = scope !== undefined ? [this.stats.get(scope)] : [...this.stats.values()];
+    for (const source of sources) {
+      if (!source) continue;
+      for (const name of Object.keys(counters) as (keyof StatCounters)[]) {
+        counters[name] += source[name];
+      }
+    }
+    const lookups = counters.hits + counters.misses;
+    return { ...counters, hitRate: lookups > 0 ? counters.hits / lookups : 0 };
+  }
+
+  resetStats(scope?: string): void {
+    if (scope !== undefined) {
+      this.stats.delete(scope);
+    } else {
+      this.stats.clear();
+    }
+  }
+
+  /**
+   * Delete the entries of a scope, or every entry when none is given
+   * @returns Number of entries deleted
+   */
+  async clear(scope?: string): Promise<number> {
+    const knex = await this.getKnex();
+    const query = knex('response_cache');
+    const deleted = await (scope !== undefined ? query.where({ scope }) : query).delete();
+
+    this.logger.debug('Response cache cleared', { scope: scope ?? null, deleted });
+    return deleted;
+  }
+
+  /**
+   * Delete expired entries of every scope
+   * @returns Number of entries deleted
+   */
+  async purgeExpired(): Promise<number> {
+    const knex = await this.getKnex();
+    return knex('response_cache').where('expires_at', '<=', new Date()).delete();
+  }
+
+  private contextHash(key: CacheKey): string {
+    return hashValue({
+      model: key.model,
+      systemPrompt: key.systemPrompt ?? null,
+      tools: key.tools ?? [],
+      context: key.context ?? [],
+      responseFormat: key.responseFormat ?? null,
+    });
+  }
+
+  private statsFor(scope: string): StatCounters {
+    let counters = this.stats.get(scope);
+    if (!counters) {
+      counters = { hits: 0, exactHits: 0, semanticHits: 0, misses: 0, stores: 0, skipped: 0 };
+      this.stats.set(scope, counters);
+    }
+    return counters;
+  }
+
+  private async embed(text: string, model?: string): Promise<number[] | undefined> {
+    try {
+      return (await getLLM(this.logger).generateEmbedding(text, model)).embedding;
+    } catch (error) {
+      // Without an embedding the lookup is exact only
+      this.logger.debug('Failed to embed prompt for response cache', {
+        model: model ?? null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private async recordHit(
+    knex: Knex,
+    row: ResponseCacheDbRow,
+    match: 'exact' | 'semantic',
+    similarity: number
+  ): Promise<CachedResponse> {
+    await knex('response_cache').where({ id: row.id }).increment('hits', 1);
+
+    const decrypted = (await decryptSensitiveFields(
+      row as unknown as Record<string, string | number | boolean | null | undefined | Date>,
+      'response_cache'
+    )) as unknown as ResponseCacheDbRow;
+
+    // User-facing info log
+    this.logger.info(`Response cache hit (${match})`);
+
+    this.logger.debug('Response cache hit', {
+      scope: row.scope,
+      match,
+      similarity,
+      model: row.model,
+      hits: Number(row.hits) + 1,
+    });
+
+    return {
+      id: decrypted.id,
+      content: decrypted.content,
+      model: decrypted.model,
+      match,
+      similarity,
+      hits: Number(decrypted.hits),
+      createdAt: new Date(decrypted.created_at),
+      expiresAt: new Date(decrypted.expires_at),
+    };
+  }
+}
+
+let responseCache: ResponseCache | null = null;
+
+export function getResponseCache(): ResponseCache {
+  if (!responseCache) {
+    responseCache = new ResponseCache();
+  }
+  return responseCache;
+}
+
+/**
+ * Combine a cache setting with a per-request mode
+ * @param setting Agent or request setting; without one, caching is off unless mode is given
+ * @param mode Per-request mode, overrides the setting's mode
+ * @param scope Scope used when the setting has none
+ * @returns null when caching is off
+ */
+export function resolveCacheOptions(
+  setting?: CacheSetting,
+  mode?: CacheMode,
+  scope?: string
+): ResolvedCacheOptions | null {
+  const options = typeof setting === 'string' ? { mode: setting } : (setting ?? {});
+  const resolvedMode =
+    mode ?? options.mode ?? (setting !== undefined ? DEFAULT_CACHE_CONFIG.mode : 'off');
+  if (resolvedMode === 'off') {
+    return null;
+  }
+
+  const ttl = options.ttl ?? DEFAULT_CACHE_CONFIG.ttl;
+  if (!(ttl > 0)) {
+    throw new Error(`Cache ttl must be a positive number of seconds, got ${ttl}`);
+  }
+  const similarityThreshold =
+    options.similarityThreshold ?? DEFAULT_CACHE_CONFIG.similarityThreshold;
+  if (!(similarityThreshold > 0 && similarityThreshold <= 1)) {
+    throw new Error(`Cache similarityThreshold must be in (0, 1], got ${similarityThreshold}`);
+  }
+
+  return {
+    mode: resolvedMode,
+    ttl,
+    similarityThreshold,
+    embeddingModel: options.embeddingModel,
+    scope: options.scope ?? scope ?? DEFAULT_CACHE_CONFIG.globalScope,
+    includeHistory: options.includeHistory ?? DEFAULT_CACHE_CONFIG.includeHistory,
+  };
+}
+
+/**
+ * Cache key of an LLM request: the last message is the prompt; earlier ones are the context,
+ * keyed only with includeHistory. Requests that do not end with a text user message are not
+ * cacheable (null).
+ */
+export function cacheKeyFromRequest(
+  request: LLMRequestOptions,
+  options?: Pick<ResolvedCacheOptions, 'includeHistory'>
+): CacheKey | null {
+  const last = request.messages[request.messages.length - 1];
+  if (!last || last.role !== 'user' || typeof last.content !== 'string') {
+    return null;
+  }
+
+  const systemPrompts = [
+    ...(request.systemPrompt ? [request.systemPrompt] : []),
+    ...request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => (typeof message.content === 'string' ? message.content : '')),
+  ];
+
+  return {
+    model: request.model,
+    systemPrompt: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+    tools: request.tools
+      ? [...request.tools].sort((a, b) => a.function.name.localeCompare(b.function.name))
+      : undefined,
+    ...(options?.includeHistory && {
+      context: request.messages.slice(0, -1).filter((message) => message.role !== 'system'),
+    }),
+    responseFormat: request.responseFormat,
+    prompt: last.content,
+  };
+}
+
+export * from './types';
+export * from './defaults';
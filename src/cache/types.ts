@@ -0,0 +1,73 @@
+/**
+ * How responses are looked up in the cache
+ * - off: no lookups, nothing stored
+ * - exact: same model, system prompt, tools and prompt text
+ * - semantic: same model, system prompt and tools; prompt embeddings similar enough
+ * Earlier turns of the conversation are not part of the key unless includeHistory is set, so a
+ * repeated question hits on any turn.
+ */
+export type CacheMode = 'off' | 'exact' | 'semantic';
+
+export interface ResponseCacheOptions {
+  mode?: CacheMode; // Default: 'exact'
+  ttl?: number; // Seconds an entry stays valid (default: 3600)
+  similarityThreshold?: number; // Semantic mode, cosine similarity 0-1 (default: 0.95)
+  embeddingModel?: string; // Semantic mode (default: the agent's embedding model)
+  scope?: string; // Entries are only shared within a scope; agents use their id
+  includeHistory?: boolean; // Also require the same conversation before the prompt (default: false)
+}
+
+/**
+ * Cache setting of an agent or request: a mode, or options with a mode
+ */
+export type CacheSetting = CacheMode | ResponseCacheOptions;
+
+/**
+ * Settings of one lookup, with defaults filled in
+ */
+export interface ResolvedCacheOptions {
+  mode: 'exact' | 'semantic';
+  ttl: number;
+  similarityThreshold: number;
+  embeddingModel?: string;
+  scope: string;
+  includeHistory: boolean;
+}
+
+/**
+ * What a cached response is keyed by; everything except the prompt must match exactly
+ */
+export interface CacheKey {
+  model: string;
+  systemPrompt?: string;
+  tools?: unknown[]; // Tool definitions offered to the model
+  context?: unknown[]; // Conversation before the prompt (only with includeHistory)
+  responseFormat?: unknown;
+  prompt: string;
+}
+
+export interface CachedResponse {
+  id: string; // UUID
+  content: string;
+  model: string;
+  match: 'exact' | 'semantic';
+  similarity: number; // 1 for exact matches
+  hits: number; // Earlier hits on this entry
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface CacheLookupResult {
+  entry: CachedResponse | null;
+  embedding?: number[]; // Prompt embedding of a semantic lookup, reused when storing
+}
+
+export interface CacheStats {
+  hits: number;
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  stores: number;
+  skipped: number; // Responses not stored because tools with side effects ran
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+}
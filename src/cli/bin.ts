@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { config } from 'dotenv';
+import { runCli } from './index';
+
+config({ quiet: true });
+
+runCli(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    process.stderr.write(`astreus: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,509 @@
+import { parseArgs, ParseArgsConfig } from 'util';
+import { createInterface } from 'readline';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import { Agent } from '../agent';
+import { AgentConfig, AgentConfigInput } from '../agent/types';
+import { getDatabase } from '../database';
+import { createAgentFromDefinition, loadAgentDefinition, loadGraphDefinition } from '../definition';
+import { LLMUsage } from '../llm/types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const USAGE = `Usage: astreus <command> [options]
+
+Commands:
+  agent create --file <agent.yaml>
+  agent create --name <name> [--model <model>] [--system-prompt <text>] [--description <text>]
+               [--temperature <n>] [--max-tokens <n>] [--memory] [--knowledge] [--vision] [--no-tools]
+  agent list [--json]
+  agent show <agent> [--json]
+  agent delete <agent> --yes
+  chat <agent> [--model <model>] [--session <id>]
+  task run <agent> <prompt> [--model <model>] [--no-tools] [--json]
+  graph run <graph.yaml> [--json]
+  memory search <agent> <query> [--limit <n>] [--json]
+  knowledge add <agent> <path>
+
+<agent> is an agent name or id. The database comes from DB_URL (default: sqlite://./astreus.db),
+provider keys from OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY and OLLAMA_BASE_URL.
+
+Global options:
+  --verbose    Show library logs (set LOG_LEVEL to choose the level)
+  -h, --help   Show this help
+`;
+
+/**
+ * Bad command line; printed with a pointer to --help
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type Options = NonNullable<ParseArgsConfig['options']>;
+
+interface Io {
+  out: NodeJS.WritableStream;
+  err: NodeJS.WritableStream;
+  input: NodeJS.ReadableStream;
+}
+
+function parse(args: string[], options: Options, positionals: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  if (parsed.positionals.length < positionals.length) {
+    throw new UsageError(`Missing ${positionals.slice(parsed.positionals.length).join(', ')}`);
+  }
+  return { values: parsed.values, positionals: parsed.positionals };
+}
+
+function toNumber(value: unknown, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new UsageError(`--${flag} must be a number`);
+  }
+  return number;
+}
+
+function writeJson(io: Io, value: unknown): void {
+  io.out.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function formatUsage(usage?: LLMUsage): string {
+  if (!usage) return '';
+  const cost = usage.cost !== undefined ? `, $${usage.cost.toFixed(4)}` : '';
+  return `[${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${cost}]`;
+}
+
+/**
+ * Stored agent config without runtime-only fields
+ */
+function toAgentSummary(config: AgentConfig): Record<string, unknown> {
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description ?? null,
+    model: config.model ?? null,
+    temperature: config.temperature ?? null,
+    maxTokens: config.maxTokens ?? null,
+    systemPrompt: config.systemPrompt ?? null,
+    memory: config.memory,
+    knowledge: config.knowledge,
+    vision: config.vision,
+    useTools: config.useTools,
+    createdAt: config.createdAt,
+    updatedAt: config.updatedAt,
+  };
+}
+
+async function findAgentConfig(ref: string): Promise<AgentConfig> {
+  const db = await getDatabase();
+  const config = UUID_PATTERN.test(ref) ? await db.getAgent(ref) : await db.getAgentByName(ref);
+  if (!config) {
+    throw new Error(`Agent '${ref}' not found`);
+  }
+  return config;
+}
+
+async function loadAgent(ref: string): Promise<Agent> {
+  const agent = UUID_PATTERN.test(ref) ? await Agent.findById(ref) : await Agent.findByName(ref);
+  if (!agent) {
+    throw new Error(`Agent '${ref}' not found`);
+  }
+  return agent;
+}
+
+async function agentCommand(args: string[], io: Io): Promise<void> {
+  const [action, ...rest] = args;
+
+  switch (action) {
+    case 'create': {
+      const { values } = parse(
+        rest,
+        {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          model: { type: 'string' },
+          'system-prompt': { type: 'string' },
+          temperature: { type: 'string' },
+          'max-tokens': { type: 'string' },
+          memory: { type: 'boolean' },
+          knowledge: { type: 'boolean' },
+          vision: { type: 'boolean' },
+          'no-tools': { type: 'boolean' },
+          file: { type: 'string' },
+          json: { type: 'boolean' },
+        },
+        []
+      );
+
+      if (typeof values.file === 'string') {
+        // Definition files create or update the agent by name
+        const definition = await loadAgentDefinition(resolve(values.file));
+        const agent = await createAgentFromDefinition(definition);
+        if (values.json) {
+          writeJson(io, toAgentSummary(agent.config));
+        } else {
+          io.out.write(`Saved agent ${agent.name} (${agent.id}) from ${values.file}\n`);
+        }
+        return;
+      }
+
+      if (typeof values.name !== 'string' || values.name.trim() === '') {
+        throw new UsageError('--name or --file is required');
+      }
+
+      const input: AgentConfigInput = {
+        name: values.name,
+        description: values.description as string | undefined,
+        model: values.model as string | undefined,
+        systemPrompt: values['system-prompt'] as string | undefined,
+        temperature: toNumber(values.temperature, 'temperature'),
+        maxTokens: toNumber(values['max-tokens'], 'max-tokens'),
+        memory: values.memory === true,
+        knowledge: values.knowledge === true,
+        vision: values.vision === true,
+        useTools: values['no-tools'] !== true,
+      };
+
+      const db = await getDatabase();
+      const config = await db.createAgent(input);
+      if (values.json) {
+        writeJson(io, toAgentSummary(config));
+      } else {
+        io.out.write(`Created agent ${config.name} (${config.id})\n`);
+      }
+      return;
+    }
+
+    case 'list': {
+      const { values } = parse(rest, { json: { type: 'boolean' } }, []);
+      const db = await getDatabase();
+      const agents = await db.listAgents();
+      if (values.json) {
+        writeJson(io, agents.map(toAgentSummary));
+        return;
+      }
+      if (agents.length === 0) {
+        io.out.write('No agents\n');
+        return;
+      }
+      for (const agent of agents) {
+        const flags = [
+          agent.memory && 'memory',
+          agent.knowledge && 'knowledge',
+          agent.vision && 'vision',
+        ]
+          .filter(Boolean)
+          .join(',');
+        io.out.write(
+          `${agent.id}  ${agent.name}  ${agent.model ?? '(default model)'}${flags ? `  [${flags}]` : ''}\n`
+        );
+      }
+      return;
+    }
+
+    case 'show': {
+      const { values, positionals } = parse(rest, { json: { type: 'boolean' } }, ['<agent>']);
+      const summary = toAgentSummary(await findAgentConfig(positionals[0]));
+      if (values.json) {
+        writeJson(io, summary);
+        return;
+      }
+      for (const [key, value] of Object.entries(summary)) {
+        if (value === null) continue;
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        io.out.write(`${key.padEnd(14)}${text}\n`);
+      }
+      return;
+    }
+
+    case 'delete': {
+      const { values, positionals } = parse(rest, { yes: { type: 'boolean', short: 'y' } }, [
+        '<agent>',
+      ]);
+      const config = await findAgentConfig(positionals[0]);
+      if (!values.yes) {
+        throw new UsageError(`Deleting ${config.name} (${config.id}) cannot be undone; pass --yes`);
+      }
+      const db = await getDatabase();
+      await db.deleteAgent(config.id);
+      io.out.write(`Deleted agent ${config.name} (${config.id})\n`);
+      return;
+    }
+
+    default:
+      throw new UsageError(action ? `Unknown agent command: ${action}` : 'Missing agent command');
+  }
+}
+
+/**
+ * Interactive chat. Ctrl+C stops the reply in progress, or exits when idle.
+ * With --session the conversation is kept in (or resumed from) that session.
+ */
+async function chatCommand(args: string[], io: Io): Promise<void> {
+  const { values, positionals } = parse(
+    args,
+    { model: { type: 'string' }, session: { type: 'string' } },
+    ['<agent>']
+  );
+  const agent = await loadAgent(positionals[0]);
+  const model = values.model as string | undefined;
+  const sessionId = values.session as string | undefined;
+  const session = sessionId ? await agent.resumeSession(sessionId) : null;
+
+  const rl = createInterface({ input: io.input, output: io.out, terminal: 'isTTY' in io.input });
+  let current: AbortController | null = null;
+  rl.on('SIGINT', () => {
+    if (current) {
+      current.abort(new Error('Interrupted'));
+    } else {
+      rl.close();
+    }
+  });
+
+  if (session) {
+    io.out.write(
+      `Resuming session ${session.name || session.id} (${session.messageCount} messages).\n`
+    );
+  }
+  io.out.write(`Chatting with ${agent.name}. Type /exit to quit.\n`);
+  rl.setPrompt('you> ');
+  rl.prompt();
+
+  try {
+    for await (const line of rl) {
+      const prompt = line.trim();
+      if (prompt === '/exit' || prompt === '/quit') break;
+      if (prompt === '') {
+        rl.prompt();
+        continue;
+      }
+
+      current = new AbortController();
+      io.out.write(`${agent.name}> `);
+      try {
+        for await (const event of agent.stream(prompt, {
+          model,
+          sessionId,
+          signal: current.signal,
+        })) {
+          if (event.type === 'text_delta') {
+            io.out.write(event.delta);
+          } else if (event.type === 'tool_call_start') {
+            io.err.write(`\n[tool ${event.toolName}]\n`);
+          } else if (event.type === 'tool_call_end' && !event.success) {
+            io.err.write(`[tool ${event.toolName} failed]\n`);
+          } else if (event.type === 'final') {
+            io.out.write('\n');
+            if (event.usage) io.err.write(`${formatUsage(event.usage)}\n`);
+          }
+        }
+      } catch (error) {
+        const message = current.signal.aborted
+          ? 'interrupted'
+          : error instanceof Error
+            ? error.message
+            : String(error);
+        io.err.write(`\n[${message}]\n`);
+      } finally {
+        current = null;
+      }
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+async function taskCommand(args: string[], io: Io): Promise<void> {
+  const [action, ...rest] = args;
+  if (action !== 'run') {
+    throw new UsageError(action ? `Unknown task command: ${action}` : 'Missing task command');
+  }
+
+  const { values, positionals } = parse(
+    rest,
+    { model: { type: 'string' }, 'no-tools': { type: 'boolean' }, json: { type: 'boolean' } },
+    ['<agent>', '<prompt>']
+  );
+  const agent = await loadAgent(positionals[0]);
+  const task = await agent.createTask({
+    prompt: positionals.slice(1).join(' '),
+    useTools: values['no-tools'] ? false : undefined,
+  });
+  const result = await agent.executeTask(task.id, { model: values.model as string | undefined });
+
+  if (values.json) {
+    writeJson(io, { taskId: task.id, response: result.response, usage: result.usage ?? null });
+    return;
+  }
+  io.out.write(`${result.response}\n`);
+  if (result.usage) io.err.write(`${formatUsage(result.usage)}\n`);
+}
+
+async function graphCommand(args: string[], io: Io): Promise<void> {
+  const [action, ...rest] = args;
+  if (action !== 'run') {
+    throw new UsageError(action ? `Unknown graph command: ${action}` : 'Missing graph command');
+  }
+
+  const { values, positionals } = parse(rest, { json: { type: 'boolean' } }, ['<file>']);
+  const graph = await loadGraphDefinition(resolve(positionals[0]));
+
+  try {
+    const result = await graph.run();
+    const nodeNames = new Map(graph.getNodes().map((node) => [node.id, node.name]));
+
+    if (values.json) {
+      writeJson(io, {
+        success: result.success,
+        duration: result.duration,
+        results: Object.fromEntries(
+          Object.entries(result.results).map(([id, value]) => [nodeNames.get(id) ?? id, value])
+        ),
+        errors: Object.fromEntries(
+          Object.entries(result.errors).map(([id, error]) => [nodeNames.get(id) ?? id, error])
+        ),
+        usage: result.usage,
+      });
+    } else {
+      for (const [id, value] of Object.entries(result.results)) {
+        const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+        io.out.write(`== ${nodeNames.get(id) ?? id}\n${text}\n\n`);
+      }
+      for (const [id, error] of Object.entries(result.errors)) {
+        io.err.write(`== ${nodeNames.get(id) ?? id} failed: ${error}\n`);
+      }
+      io.err.write(
+        `${result.completedNodes} completed, ${result.failedNodes} failed in ${result.duration}ms\n`
+      );
+    }
+
+    if (!result.success) {
+      throw new Error(`Graph ${graph.getGraph().config.name} did not complete`);
+    }
+  } finally {
+    await graph.destroy();
+  }
+}
+
+async function memoryCommand(args: string[], io: Io): Promise<void> {
+  const [action, ...rest] = args;
+  if (action !== 'search') {
+    throw new UsageError(action ? `Unknown memory command: ${action}` : 'Missing memory command');
+  }
+
+  const { values, positionals } = parse(
+    rest,
+    { limit: { type: 'string' }, json: { type: 'boolean' } },
+    ['<agent>', '<query>']
+  );
+  const agent = await loadAgent(positionals[0]);
+  if (!agent.hasMemory()) {
+    throw new Error(`Memory is not enabled for agent ${agent.name}`);
+  }
+
+  const memories = await agent.searchMemories(positionals.slice(1).join(' '), {
+    limit: toNumber(values.limit, 'limit') ?? 10,
+  });
+  if (values.json) {
+    writeJson(
+      io,
+      memories.map((memory) => ({ ...memory, embedding: undefined }))
+    );
+    return;
+  }
+  if (memories.length === 0) {
+    io.out.write('No matching memories\n');
+    return;
+  }
+  for (const memory of memories) {
+    const date = memory.createdAt ? new Date(memory.createdAt).toISOString() : '';
+    io.out.write(`${memory.id}  ${date}\n  ${memory.content.replace(/\n/g, '\n  ')}\n`);
+  }
+}
+
+async function knowledgeCommand(args: string[], io: Io): Promise<void> {
+  const [action, ...rest] = args;
+  if (action !== 'add') {
+    throw new UsageError(
+      action ? `Unknown knowledge command: ${action}` : 'Missing knowledge command'
+    );
+  }
+
+  const { positionals } = parse(rest, {}, ['<agent>', '<path>']);
+  const agent = await loadAgent(positionals[0]);
+  if (!agent.hasKnowledge()) {
+    throw new Error(`Knowledge is not enabled for agent ${agent.name}`);
+  }
+
+  const path = resolve(positionals[1]);
+  const info = await stat(path);
+  if (info.isDirectory()) {
+    await agent.addKnowledgeFromDirectory(path);
+  } else {
+    await agent.addKnowledgeFromFile(path);
+  }
+  const documents = await agent.getKnowledgeDocuments();
+  io.out.write(`Added ${path} to ${agent.name} (${documents.length} documents in total)\n`);
+}
+
+const COMMANDS: Record<string, (args: string[], io: Io) => Promise<void>> = {
+  agent: agentCommand,
+  chat: chatCommand,
+  task: taskCommand,
+  graph: graphCommand,
+  memory: memoryCommand,
+  knowledge: knowledgeCommand,
+};
+
+/**
+ * Run the astreus command line and return the exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: Io = { out: process.stdout, err: process.stderr, input: process.stdin }
+): Promise<number> {
+  const verbose = argv.includes('--verbose');
+  const args = argv.filter((arg) => arg !== '--verbose');
+
+  // Library logs share stdout with command output, so keep them off unless asked for
+  if (!verbose) {
+    process.env.LOG_LEVEL = 'silent';
+  }
+
+  const [command, ...rest] = args;
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    io.out.write(USAGE);
+    return 0;
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    io.out.write(USAGE);
+    return 0;
+  }
+
+  const handler = COMMANDS[command];
+  try {
+    if (!handler) {
+      throw new UsageError(`Unknown command: ${command}`);
+    }
+    await handler(rest, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.err.write(`astreus: ${error.message}\nRun 'astreus --help' for usage.\n`);
+      return 2;
+    }
+    io.err.write(`astreus: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
@@ -8,6 +8,7 @@ import { DEFAULT_CONTEXT_OPTIONS } from './defaults';
 import { getCompressionStrategy } from './strategies';
 import { Logger } from '../logger/types';
 import { getLogger } from '../logger';
+import { countTextTokens, getTokenizer } from '../llm/tokenizer';
 
 export class ContextCompressor {
   private logger: Logger;
@@ -24,176 +25,22 @@ export class ContextCompressor {
   }
 
   /**
-   * Token estimation ratios for different content types.
-   * Based on empirical analysis of typical tokenization patterns.
-   *
-   * Reference values (characters per token):
-   * - English prose: ~4 chars/token
-   * - Code (mixed): ~3.5 chars/token (more special chars, shorter words)
-   * - JSON/structured data: ~3 chars/token (lots of punctuation)
-   * - Markdown: ~3.8 chars/token (formatting characters)
-   * - Technical text: ~3.7 chars/token (technical terms, numbers)
-   * - Non-English: ~2.5-3 chars/token (varies by language)
-   */
-  private static readonly TOKEN_RATIOS = {
-    prose: 4.0, // Standard English text
-    code: 3.5, // Programming code
-    json: 3.0, // JSON/structured data
-    markdown: 3.8, // Markdown formatted text
-    technical: 3.7, // Technical documentation
-    mixed: 3.5, // Mixed content (default for uncertain)
-  };
-
-  /**
-   * Estimate token count for a message using content-type aware estimation.
-   * More accurate than simple character division.
+   * Token count of a message's content with the tokenizer of the context's model
+   * (exact BPE counts for OpenAI models, calibrated estimates for other providers)
    */
   estimateTokens(content: string): number {
     // Handle null/undefined/empty content
     if (!content || typeof content !== 'string') {
       return 0;
     }
-
-    // Detect content type and use appropriate ratio
-    const contentType = this.detectContentType(content);
-    const ratio = ContextCompressor.TOKEN_RATIOS[contentType];
-
-    // Calculate base estimate
-    const baseEstimate = content.length / ratio;
-
-    // Add overhead for special characters and formatting
-    // Tokenizers often split on special characters, creating extra tokens
-    const specialCharCount = (content.match(/[^\w\s]/g) || []).length;
-    const specialCharOverhead = specialCharCount * 0.1; // ~10% overhead per special char cluster
-
-    // Add overhead for numbers (often tokenized separately)
-    const numberCount = (content.match(/\d+/g) || []).length;
-    const numberOverhead = numberCount * 0.5;
-
-    // Add overhead for whitespace patterns (newlines, indentation)
-    const whitespacePatterns = (content.match(/\n\s+/g) || []).length;
-    const whitespaceOverhead = whitespacePatterns * 0.3;
-
-    const totalEstimate = baseEstimate + specialCharOverhead + numberOverhead + whitespaceOverhead;
-
-    return Math.ceil(totalEstimate);
-  }
-
-  // Consistent content length limit for all detection methods
-  private static readonly CONTENT_DETECTION_LIMIT = 10000;
-
-  /**
-   * Detect the content type for more accurate token estimation
-   */
-  private detectContentType(content: string): keyof typeof ContextCompressor.TOKEN_RATIOS {
-    // Limit content length for detection to avoid performance issues
-    const sampleContent =
-      content.length > ContextCompressor.CONTENT_DETECTION_LIMIT
-        ? content.substring(0, ContextCompressor.CONTENT_DETECTION_LIMIT)
-        : content;
-
-    // Check for JSON content
-    if (this.detectJsonContent(sampleContent)) {
-      return 'json';
-    }
-
-    // Check for code content (highest priority after JSON)
-    if (this.detectCodeContent(sampleContent)) {
-      return 'code';
-    }
-
-    // Check for markdown content
-    if (this.detectMarkdownContent(sampleContent)) {
-      return 'markdown';
-    }
-
-    // Check for technical content
-    if (this.detectTechnicalContent(sampleContent)) {
-      return 'technical';
-    }
-
-    // Default to prose for regular text
-    return 'prose';
-  }
-
-  /**
-   * Detect if content is JSON or structured data
-   */
-  private detectJsonContent(content: string): boolean {
-    const trimmed = content.trim();
-    // Check if content starts with JSON-like patterns
-    if (
-      (trimmed.startsWith('{') && trimmed.endsWith('}')) ||
-      (trimmed.startsWith('[') && trimmed.endsWith(']'))
-    ) {
-      return true;
-    }
-    // Check for high density of JSON-like patterns
-    const jsonPatterns = (content.match(/["']?\w+["']?\s*:\s*["'[{]/g) || []).length;
-    const contentLines = content.split('\n').length;
-    return jsonPatterns > contentLines * 0.3; // More than 30% lines have JSON patterns
-  }
-
-  /**
-   * Detect if content contains markdown formatting
-   */
-  private detectMarkdownContent(content: string): boolean {
-    const markdownIndicators = [
-      /^#{1,6}\s+/m, // Headers
-      /^\s*[-*+]\s+/m, // Unordered lists
-      /^\s*\d+\.\s+/m, // Ordered lists
-      /\*\*[^*]+\*\*/, // Bold
-      /\*[^*]+\*/, // Italic
-      /\[.+?\]\(.+?\)/, // Links
-      /`[^`]+`/, // Inline code
-      /^\s*>\s+/m, // Blockquotes
-    ];
-    let matchCount = 0;
-    for (const pattern of markdownIndicators) {
-      if (pattern.test(content)) matchCount++;
-    }
-    return matchCount >= 2; // At least 2 markdown patterns
-  }
-
-  /**
-   * Detect if content is technical documentation
-   */
-  private detectTechnicalContent(content: string): boolean {
-    const technicalIndicators = [
-      /\b(API|HTTP|URL|JSON|XML|SQL|REST|SDK)\b/i,
-      /\b(function|method|class|interface|type|parameter)\b/i,
-      /\b(error|exception|warning|debug|log)\b/i,
-      /\b(config|configuration|setting|option)\b/i,
-      /\b(v\d+\.\d+|version\s+\d+)/i,
-      /\b(npm|yarn|pip|cargo|maven|gradle)\b/i,
-    ];
-    let matchCount = 0;
-    for (const pattern of technicalIndicators) {
-      if (pattern.test(content)) matchCount++;
-    }
-    return matchCount >= 3; // At least 3 technical patterns
+    return countTextTokens(content, this.options.model);
   }
 
   /**
-   * Detect if content contains code
-   * Note: Content is already limited by detectContentType (CONTENT_DETECTION_LIMIT)
-   * Regex patterns are optimized to prevent ReDoS (catastrophic backtracking)
+   * Name of the tokenizer counts come from; cached counts are stale once it changes
    */
-  private detectCodeContent(content: string): boolean {
-    // Content is already limited by detectContentType, no need to limit again
-    // Keeping regex patterns safe with bounded quantifiers for extra safety
-    const codeIndicators = [
-      // Safe: uses negated character class instead of [\s\S]* which can cause catastrophic backtracking
-      /```[^`]{0,10000}```/,
-      /function\s+\w+/,
-      /class\s+\w+/,
-      /const\s+\w+\s*=/,
-      // Safe: limited repetition instead of .*
-      /import\s+[^\n]{0,500}from/,
-      // Safe: uses negated character class with limit instead of [\s\S]*
-      /\{[^{}]{0,1000}\}/,
-    ];
-    return codeIndicators.some((pattern) => pattern.test(content));
+  getTokenizerName(): string {
+    return getTokenizer(this.options.model).name;
   }
 
   /**
@@ -204,10 +51,14 @@ export class ContextCompressor {
     if (!messages || !Array.isArray(messages)) {
       return 0;
     }
+    const messageOverhead = getTokenizer(this.options.model).messageOverhead ?? 0;
     return messages.reduce((total, msg) => {
       if (!msg) return total;
-      const tokens = msg.tokens ?? this.estimateTokens(msg.content ?? '');
-      return total + tokens;
+      // Counts are cached on the message; content changes reset them
+      if (msg.tokens === undefined || msg.tokens === null) {
+        msg.tokens = this.estimateTokens(msg.content ?? '');
+      }
+      return total + msg.tokens + messageOverhead;
     }, 0);
   }
 
@@ -46,6 +46,7 @@ export class ContextManager implements IContextManager {
   private autoCompress: boolean;
   private model: string;
   private agentId: string | null = null;
+  private sessionId: string | undefined; // Set for a conversation session's window
   private isDirty: boolean = false; // Track if context needs saving
   private isCompressing: boolean = false; // Mutex for compression operations
   private pendingOperations: Promise<void> = Promise.resolve(); // Queue for serializing operations
@@ -111,9 +112,11 @@ export class ContextManager implements IContextManager {
 
   /**
    * Initialize storage and load context for a specific agent
+   * With a sessionId the window is stored and loaded separately from the agent's default one
    */
-  async initializeForAgent(agentId: string): Promise<void> {
+  async initializeForAgent(agentId: string, sessionId?: string): Promise<void> {
     this.agentId = agentId;
+    this.sessionId = sessionId;
 
     try {
       const db = await getDatabase();
@@ -123,16 +126,17 @@ export class ContextManager implements IContextManager {
       this.storage = new ContextStorage(db.getKnex(), this.logger);
 
       // Load existing context from storage
-      const storedContext = await this.storage.loadContext(agentId);
+      const storedContext = await this.storage.loadContext(agentId, sessionId);
       if (storedContext) {
         this.messages = storedContext.contextData;
         this.logger.info('Context loaded from storage', {
           agentId,
+          sessionId,
           messagesCount: this.messages.length,
           tokensUsed: storedContext.tokensUsed,
         });
       } else {
-        this.logger.debug('No stored context found, starting fresh', { agentId });
+        this.logger.debug('No stored context found, starting fresh', { agentId, sessionId });
       }
 
       this.isDirty = false;
@@ -164,6 +168,7 @@ export class ContextManager implements IContextManager {
 
       await this.storage.saveContext({
         agentId: this.agentId,
+        sessionId: this.sessionId,
         contextData: this.messages,
         tokensUsed,
         compressionVersion: hasCompressedMessages ? 'hybrid' : undefined,
@@ -461,10 +466,14 @@ export class ContextManager implements IContextManager {
         // Save compressed context with metadata
         if (this.storage && this.agentId) {
           try {
-            await this.storage.updateContextMetadata(this.agentId, {
-              tokensUsed: this.compressor.calculateTotalTokens(this.messages),
-              compressionVersion: result.strategy,
-            });
+            await this.storage.updateContextMetadata(
+              this.agentId,
+              {
+                tokensUsed: this.compressor.calculateTotalTokens(this.messages),
+                compressionVersion: result.strategy,
+              },
+              this.sessionId
+            );
 
             // Save the compressed messages
             await this.saveToStorage();
@@ -910,7 +919,7 @@ Return only valid JSON.`;
    */
   updateModel(model: string): void {
     this.model = model;
-    this.compressor.updateOptions({ model });
+    this.updateTokenizerModel(model);
     this.logger.debug('Context model updated', { model });
   }
 
@@ -1079,12 +1088,35 @@ Return only valid JSON.`;
    * Update compressor options
    */
   updateCompressorOptions(options: Partial<ContextCompressorOptions>): void {
-    this.compressor.updateOptions(options);
+    const { model, ...rest } = options;
+    this.compressor.updateOptions(rest);
     if (options.maxContextLength !== undefined) {
       this.maxTokens = options.maxContextLength;
     }
-    if (options.model !== undefined) {
-      this.model = options.model;
+    if (model !== undefined) {
+      this.model = model;
+      this.updateTokenizerModel(model);
+    }
+  }
+
+  /**
+   * Point the compressor at a model and recount cached message tokens when the model
+   * tokenizes differently
+   */
+  private updateTokenizerModel(model: string): void {
+    const previousTokenizer = this.compressor.getTokenizerName();
+    this.compressor.updateOptions({ model });
+    if (this.compressor.getTokenizerName() === previousTokenizer) {
+      return;
+    }
+
+    for (const message of this.messages) {
+      message.tokens = this.compressor.estimateTokens(message.content);
     }
+    this.logger.debug('Context tokens recounted for new tokenizer', {
+      model,
+      tokenizer: this.compressor.getTokenizerName(),
+      messageCount: this.messages.length,
+    });
   }
 }
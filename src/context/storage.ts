@@ -117,9 +117,9 @@ export class ContextStorage {
       try {
         // Use transaction with optimistic locking to prevent race conditions
         const result = await this.knex.transaction(async (trx) => {
-          // Check if context already exists for this agent (within transaction)
+          // Check if context already exists for this agent or session (within transaction)
           const existingContext = await trx('contexts')
-            .where({ agentId: options.agentId })
+            .where({ agentId: options.agentId, sessionId: options.sessionId ?? null })
             .forUpdate() // Lock the row to prevent concurrent updates
             .first();
 
@@ -132,7 +132,7 @@ export class ContextStorage {
 
             // Optimistic locking: check if row was modified since we read it
             const [updated] = await trx('contexts')
-              .where({ agentId: options.agentId })
+              .where({ agentId: options.agentId, sessionId: options.sessionId ?? null })
               .where({ updated_at: existingContext.updated_at }) // Ensure row hasn't changed
               .update({
                 ...updateData,
@@ -188,13 +188,15 @@ export class ContextStorage {
   }
 
   /**
-   * Load context data for an agent
+   * Load context data for an agent, or for one of its sessions
    */
-  async loadContext(agentId: string): Promise<ContextStorageData | null> {
+  async loadContext(agentId: string, sessionId?: string): Promise<ContextStorageData | null> {
     // UUID
-    this.logger.debug('Loading context from storage', { agentId });
+    this.logger.debug('Loading context from storage', { agentId, sessionId });
 
-    const contextRow = await this.knex('contexts').where({ agentId }).first();
+    const contextRow = await this.knex('contexts')
+      .where({ agentId, sessionId: sessionId ?? null })
+      .first();
 
     if (!contextRow) {
       this.logger.debug('No context found in storage', { agentId });
@@ -218,12 +220,14 @@ export class ContextStorage {
   }
 
   /**
-   * Delete context data for an agent
+   * Delete context data for an agent, or for one of its sessions
    */
-  async deleteContext(agentId: string): Promise<boolean> {
-    this.logger.debug('Deleting context from storage', { agentId });
+  async deleteContext(agentId: string, sessionId?: string): Promise<boolean> {
+    this.logger.debug('Deleting context from storage', { agentId, sessionId });
 
-    const deleted = await this.knex('contexts').where({ agentId }).delete();
+    const deleted = await this.knex('contexts')
+      .where({ agentId, sessionId: sessionId ?? null })
+      .delete();
 
     const success = deleted > 0;
     this.logger.debug('Context deletion result', { agentId, success });
@@ -240,9 +244,10 @@ export class ContextStorage {
       tokensUsed?: number;
       compressionVersion?: string;
       summary?: string;
-    }
+    },
+    sessionId?: string
   ): Promise<void> {
-    this.logger.debug('Updating context metadata', { agentId, metadata });
+    this.logger.debug('Updating context metadata', { agentId, sessionId, metadata });
 
     const updateData: Record<string, string | number | null> = {};
 
@@ -264,7 +269,7 @@ export class ContextStorage {
       const encryptedData = await encryptSensitiveFields(updateData, 'contexts');
 
       await this.knex('contexts')
-        .where({ agentId })
+        .where({ agentId, sessionId: sessionId ?? null })
         .update({
           ...encryptedData,
           updated_at: this.knex.fn.now(),
@@ -1,6 +1,7 @@
 import { CompressionStrategy, ContextMessage, ContextCompressorOptions } from './types';
 import { DEFAULT_CONTEXT_OPTIONS } from './defaults';
 import { getLLM } from '../llm';
+import { countTextTokens } from '../llm/tokenizer';
 import { getLogger } from '../logger';
 
 export class SummarizationStrategy implements CompressionStrategy {
@@ -77,9 +78,10 @@ Create a comprehensive summary that maintains essential context, key decisions,
         return count + (typeof msgCount === 'number' ? msgCount : 1);
       }, 0);
 
+      const summaryContent = `[Context Compressed] Previous ${totalOriginalCount} messages summarized:\n${responseContent}`;
       const summaryMessage: ContextMessage = {
         role: 'system',
-        content: `[Context Compressed] Previous ${totalOriginalCount} messages summarized:\n${responseContent}`,
+        content: summaryContent,
         metadata: {
           type: 'summary',
           originalMessageCount: totalOriginalCount,
@@ -87,7 +89,7 @@ Create a comprehensive summary that maintains essential context, key decisions,
           compressed: true,
         },
         timestamp: new Date(),
-        tokens: Math.floor(responseContent.length / 4), // Estimate tokens
+        tokens: countTextTokens(summaryContent, options.model),
       };
 
       // Return only ONE summary plus preserved messages
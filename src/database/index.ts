@@ -1,7 +1,14 @@
 import knex, { Knex } from 'knex';
 import crypto from 'crypto';
 import { DatabaseConfig } from './types';
-import { AgentConfig, AgentConfigInput } from '../agent/types';
+import {
+  AgentConfig,
+  AgentConfigInput,
+  AgentRevision,
+  AgentRevisionConfig,
+  AgentRevisionInfo,
+} from '../agent/types';
+import { AGENT_REVISION_FIELDS } from '../agent/defaults';
 import { DEFAULT_DATABASE_CONFIG } from './defaults';
 import { createKnexConfig } from './knex';
 import { Logger } from '../logger/types';
@@ -9,6 +16,7 @@ import { getLogger } from '../logger';
 import { getEncryptionService } from './encryption';
 import { encryptSensitiveFields, decryptSensitiveFields } from './utils';
 import { validateEncryptionConsistency } from './sensitive-fields';
+import { DatabaseError } from '../errors';
 
 /**
  * Schema version for database migrations.
@@ -42,6 +50,45 @@ interface AgentDbRow {
   updated_at: string;
 }
 
+interface AgentRevisionDbRow {
+  id: string; // UUID
+  agentId: string; // UUID
+  version: number;
+  config: string; // JSON, encrypted when encryption is enabled
+  author: string | null;
+  reason: string | null;
+  source: AgentRevision['source'];
+  rollbackOf: string | null;
+  created_at: string;
+}
+
+/**
+ * Snapshot of the stored config fields of an agent, leaving out unset ones
+ */
+function toRevisionConfig(agent: AgentConfigInput): AgentRevisionConfig {
+  const config: Record<string, unknown> = {};
+  for (const field of AGENT_REVISION_FIELDS) {
+    const value = agent[field];
+    if (value !== undefined && value !== null) {
+      config[field] = value;
+    }
+  }
+  return config as AgentRevisionConfig;
+}
+
+// Concurrent writes of one agent can race for the same revision version
+const REVISION_WRITE_ATTEMPTS = 3;
+
+/**
+ * Unique violation on an agent's revision version, as reported by SQLite and PostgreSQL
+ */
+function isRevisionVersionConflict(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  const unique =
+    code === '23505' || (code === 'SQLITE_CONSTRAINT' && /UNIQUE/i.test(message ?? ''));
+  return unique && /agent_revisions/i.test(message ?? '');
+}
+
 /**
  * Type guard to validate if an object has the required AgentDbRow properties
  */
@@ -121,6 +168,76 @@ export class Database {
     }
   }
 
+  /**
+   * Widen the allowed values of an enum (CHECK constrained) column on an existing table.
+   * Knex creates enums as CHECK constraints, so new status values need a migration.
+   * @param tableName - Table holding the column
+   * @param column - Enum column name
+   * @param values - Full list of allowed values after migration
+   * @param defaultValue - Column default to keep
+   */
+  async ensureEnumValues(
+    tableName: string,
+    column: string,
+    values: string[],
+    defaultValue: string
+  ): Promise<void> {
+    try {
+      if (this.isPostgres()) {
+        // Knex names enum constraints <table>_<column>_check
+        const constraintName = `${tableName}_${column}_check`;
+        const result = await this.knex.raw(
+          `SELECT pg_get_constraintdef(c.oid) AS definition FROM pg_constraint c
+           JOIN pg_class t ON c.conrelid = t.oid
+           WHERE t.relname = ? AND c.conname = ?`,
+          [tableName, constraintName]
+        );
+        const definition: string = result.rows?.[0]?.definition ?? '';
+        if (!definition || values.every((value) => definition.includes(`'${value}'`))) {
+          return;
+        }
+
+        const allowed = values.map(() => '?').join(', ');
+        await this.knex.raw(`ALTER TABLE ?? DROP CONSTRAINT IF EXISTS ??`, [
+          tableName,
+          constraintName,
+        ]);
+        await this.knex.raw(`ALTER TABLE ?? ADD CONSTRAINT ?? CHECK (?? IN (${allowed}))`, [
+          tableName,
+          constraintName,
+          column,
+          ...values,
+        ]);
+      } else if (this.isSQLite()) {
+        const result = await this.knex.raw(
+          `SELECT sql FROM sqlite_master WHERE type='table' AND name=?`,
+          [tableName]
+        );
+        const definition: string = result?.[0]?.sql ?? '';
+        if (!definition || values.every((value) => definition.includes(`'${value}'`))) {
+          return;
+        }
+
+        // SQLite cannot alter constraints in place; knex rebuilds the table
+        await this.knex.schema.alterTable(tableName, (table) => {
+          table.enu(column, values).defaultTo(defaultValue).alter();
+        });
+      } else {
+        return;
+      }
+
+      this.logger.info(`Updated ${tableName}.${column} allowed values`);
+      this.logger.debug('Enum column migrated', { tableName, column, values });
+    } catch (error) {
+      // Existing rows keep working; only the new values are rejected until migrated
+      this.logger.warn('Failed to migrate enum column', {
+        error: error instanceof Error ? error.message : String(error),
+        tableName,
+        column,
+      });
+    }
+  }
+
   /**
    * Check if using PostgreSQL database
    */
@@ -391,7 +508,9 @@ export class Database {
         table.string('graphNodeId', 36).nullable();
         table.text('prompt').notNullable();
         table.text('response').nullable();
-        table.enu('status', ['pending', 'in_progress', 'completed', 'failed']).defaultTo('pending');
+        table
+          .enu('status', ['pending', 'in_progress', 'completed', 'failed', 'cancelled'])
+          .defaultTo('pending');
         table.json('metadata');
         table.json('executionContext');
         table.timestamps(true, true);
@@ -459,6 +578,14 @@ export class Database {
         this.logger.info('Tasks table updated with graph relationships');
         this.logger.debug('Tasks table schema updated successfully');
       }
+
+      // Tables created before cancellation support reject the 'cancelled' status
+      await this.ensureEnumValues(
+        'tasks',
+        'status',
+        ['pending', 'in_progress', 'completed', 'failed', 'cancelled'],
+        'pending'
+      );
     }
 
     // Initialize shared memories table
@@ -641,15 +768,42 @@ export class Database {
       }
     }
 
+    // Initialize agent_revisions table
+    const hasRevisionsTable = await this.knex.schema.hasTable('agent_revisions');
+
+    this.logger.debug('Checking agent_revisions table', { exists: hasRevisionsTable });
+
+    if (!hasRevisionsTable) {
+      this.logger.info('Creating agent_revisions table');
+
+      await this.knex.schema.createTable('agent_revisions', (table) => {
+        table.string('id', 36).primary(); // UUID generated in application layer
+        table.string('agentId', 36).notNullable();
+        table.integer('version').notNullable();
+        table.text('config').notNullable(); // JSON snapshot of the stored config fields
+        table.string('author').nullable();
+        table.text('reason').nullable();
+        table.string('source', 20).notNullable(); // create | update | rollback
+        table.string('rollbackOf', 36).nullable(); // Revision restored by a rollback
+        table.timestamp('created_at').defaultTo(this.knex.fn.now());
+
+        table.foreign('agentId').references('id').inTable('agents').onDelete('CASCADE');
+        table.unique(['agentId', 'version']);
+        table.index('agentId');
+      });
+
+      this.logger.info('Agent revisions table created');
+    }
+
     // User-facing completion message
     this.logger.info('Database schema initialized');
 
     this.logger.debug('Database schema initialization completed', {
-      tablesChecked: ['agents', 'tasks', 'memories', 'contexts'],
+      tablesChecked: ['agents', 'tasks', 'memories', 'contexts', 'agent_revisions'],
     });
   }
 
-  async createAgent(data: AgentConfigInput): Promise<AgentConfig> {
+  async createAgent(data: AgentConfigInput, revision?: AgentRevisionInfo): Promise<AgentConfig> {
     // User-facing info log
     this.logger.info(`Creating agent: ${data.name}`);
 
@@ -702,29 +856,33 @@ export class Database {
     // Encrypt sensitive fields
     const encryptedData = await encryptSensitiveFields(cleanedData, 'agents');
 
-    let agent: AgentDbRow | undefined;
+    // The agent and its first revision are stored together
+    const formattedAgent = await this.withAgentRevision(insertData.id, 'create', async (trx) => {
+      let agent: AgentDbRow | undefined;
 
-    if (this.isSQLite()) {
-      // SQLite doesn't support RETURNING clause reliably
-      await this.knex('agents').insert(encryptedData);
-      agent = await this.knex('agents').where({ id: insertData.id }).first();
-    } else {
-      const [insertedAgent] = await this.knex('agents').insert(encryptedData).returning('*');
-      agent = insertedAgent as AgentDbRow;
-    }
+      if (this.isSQLite()) {
+        // SQLite doesn't support RETURNING clause reliably
+        await trx('agents').insert(encryptedData);
+        agent = await trx('agents').where({ id: insertData.id }).first();
+      } else {
+        const [insertedAgent] = await trx('agents').insert(encryptedData).returning('*');
+        agent = insertedAgent as AgentDbRow;
+      }
 
-    if (!agent) {
-      throw new Error(`Failed to create agent: ${data.name}`);
-    }
+      if (!agent) {
+        throw new Error(`Failed to create agent: ${data.name}`);
+      }
 
-    // Decrypt for response
-    const decryptedAgent = await decryptSensitiveFields(
-      agent as unknown as Record<string, string | number | boolean | null>,
-      'agents'
-    );
-    const formattedAgent = this.formatAgent(
-      toAgentDbRow(decryptedAgent as Record<string, unknown>)
-    );
+      // Decrypt for response
+      const decryptedAgent = await decryptSensitiveFields(
+        agent as unknown as Record<string, string | number | boolean | null>,
+        'agents'
+      );
+      const created = this.formatAgent(toAgentDbRow(decryptedAgent as Record<string, unknown>));
+
+      await this.insertAgentRevision(trx, created, 'create', revision);
+      return created;
+    });
 
     // User-facing success message
     this.logger.info(`Agent created with ID: ${formattedAgent.id}`);
@@ -803,7 +961,15 @@ export class Database {
     return decryptedAgents;
   }
 
-  async updateAgent(id: string, data: Partial<AgentConfig>): Promise<AgentConfig | null> {
+  /**
+   * Update an agent; a changed config is stored as a new revision
+   * @param revision - Who made the change and why; rollbackOf marks a rollback
+   */
+  async updateAgent(
+    id: string,
+    data: Partial<AgentConfig>,
+    revision?: AgentRevisionInfo & { rollbackOf?: string }
+  ): Promise<AgentConfig | null> {
     // User-facing info log
     this.logger.info(`Updating agent: ${id}`);
 
@@ -904,6 +1070,9 @@ export class Database {
       return this.getAgent(id);
     }
 
+    // Agents stored before revisions existed get their current config as the first revision
+    await this.getLatestAgentRevision(id);
+
     // Encrypt sensitive fields in update data
     // Convert Partial<AgentDbRow> to Record<string, string | number | boolean | null | undefined | Date>
     const updateDataForEncryption = Object.fromEntries(
@@ -911,33 +1080,42 @@ export class Database {
     ) as Record<string, string | number | boolean | null | undefined | Date>;
     const encryptedUpdateData = await encryptSensitiveFields(updateDataForEncryption, 'agents');
 
-    let agent: AgentDbRow | undefined;
+    // The changed row and its revision are stored together, so no change goes unrecorded
+    const source = revision?.rollbackOf ? 'rollback' : 'update';
+    const formattedAgent = await this.withAgentRevision(id, source, async (trx) => {
+      let agent: AgentDbRow | undefined;
 
-    if (this.isSQLite()) {
-      // SQLite doesn't support RETURNING clause reliably
-      const updatedCount = await this.knex('agents').where({ id }).update(encryptedUpdateData);
+      if (this.isSQLite()) {
+        // SQLite doesn't support RETURNING clause reliably
+        const updatedCount = await trx('agents').where({ id }).update(encryptedUpdateData);
 
-      if (updatedCount > 0) {
-        agent = await this.knex('agents').where({ id }).first();
+        if (updatedCount > 0) {
+          agent = await trx('agents').where({ id }).first();
+        }
+      } else {
+        const [updatedAgent] = await trx('agents')
+          .where({ id })
+          .update(encryptedUpdateData)
+          .returning('*');
+        agent = updatedAgent as AgentDbRow;
+      }
+
+      if (!agent) {
+        return null;
       }
-    } else {
-      const [updatedAgent] = await this.knex('agents')
-        .where({ id })
-        .update(encryptedUpdateData)
-        .returning('*');
-      agent = updatedAgent as AgentDbRow;
-    }
 
-    if (agent) {
       // Decrypt for response
       const decryptedAgent = await decryptSensitiveFields(
         agent as unknown as Record<string, string | number | boolean | null>,
         'agents'
       );
-      const formattedAgent = this.formatAgent(
-        toAgentDbRow(decryptedAgent as Record<string, unknown>)
-      );
+      const updated = this.formatAgent(toAgentDbRow(decryptedAgent as Record<string, unknown>));
+
+      await this.insertAgentRevision(trx, updated, source, revision);
+      return updated;
+    });
 
+    if (formattedAgent) {
       // User-facing success message
       this.logger.info(`Agent ${id} updated successfully`);
 
@@ -976,6 +1154,169 @@ export class Database {
     return success;
   }
 
+  /**
+   * List an agent's config revisions, newest first
+   */
+  async listAgentRevisions(agentId: string): Promise<AgentRevision[]> {
+    await this.getLatestAgentRevision(agentId);
+
+    const rows: AgentRevisionDbRow[] = await this.knex('agent_revisions')
+      .where({ agentId })
+      .orderBy('version', 'desc');
+
+    return Promise.all(rows.map((row) => this.formatAgentRevision(row)));
+  }
+
+  /**
+   * Get a revision by id (UUID) or version number
+   */
+  async getAgentRevision(
+    agentId: string,
+    revision: string | number
+  ): Promise<AgentRevision | null> {
+    const row: AgentRevisionDbRow | undefined = await this.knex('agent_revisions')
+      .where(
+        typeof revision === 'number' ? { agentId, version: revision } : { agentId, id: revision }
+      )
+      .first();
+
+    return row ? this.formatAgentRevision(row) : null;
+  }
+
+  /**
+   * Get the newest revision of an agent
+   * An agent without revisions (stored before they existed) gets its current config recorded first
+   */
+  async getLatestAgentRevision(agentId: string): Promise<AgentRevision | null> {
+    const row: AgentRevisionDbRow | undefined = await this.knex('agent_revisions')
+      .where({ agentId })
+      .orderBy('version', 'desc')
+      .first();
+
+    if (row) {
+      return this.formatAgentRevision(row);
+    }
+
+    const agent = await this.getAgent(agentId);
+    return agent ? this.recordAgentRevision(agent, 'create') : null;
+  }
+
+  /**
+   * Store the agent's config as its next revision, unless it equals the newest one
+   */
+  private async recordAgentRevision(
+    agent: AgentConfig,
+    source: AgentRevision['source'],
+    info?: AgentRevisionInfo & { rollbackOf?: string }
+  ): Promise<AgentRevision> {
+    return this.withAgentRevision(agent.id, source, (trx) =>
+      this.insertAgentRevision(trx, agent, source, info)
+    );
+  }
+
+  /**
+   * Run a write that records an agent revision in one transaction. When a concurrent write
+   * takes the same version first, the whole transaction is retried on top of it.
+   * @throws DatabaseError when the version keeps being taken
+   */
+  private async withAgentRevision<T>(
+    agentId: string,
+    source: AgentRevision['source'],
+    write: (trx: Knex.Transaction) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.knex.transaction(write);
+      } catch (error) {
+        if (!isRevisionVersionConflict(error)) {
+          throw error;
+        }
+        if (attempt < REVISION_WRITE_ATTEMPTS) {
+          this.logger.debug('Agent revision version taken by a concurrent write, retrying', {
+            agentId,
+            attempt,
+          });
+          continue;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error(
+          'Failed to record agent revision',
+          error instanceof Error ? error : new Error(message),
+          { agentId, source }
+        );
+        throw new DatabaseError(
+          `Failed to record revision of agent ${agentId}: ${message}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+
+  private async insertAgentRevision(
+    trx: Knex.Transaction,
+    agent: AgentConfig,
+    source: AgentRevision['source'],
+    info?: AgentRevisionInfo & { rollbackOf?: string }
+  ): Promise<AgentRevision> {
+    const config = toRevisionConfig(agent);
+    const latestRow: AgentRevisionDbRow | undefined = await trx('agent_revisions')
+      .where({ agentId: agent.id })
+      .orderBy('version', 'desc')
+      .first();
+
+    if (latestRow) {
+      const latest = await this.formatAgentRevision(latestRow);
+      if (JSON.stringify(latest.config) === JSON.stringify(config)) {
+        this.logger.debug('Agent config unchanged, no new revision', {
+          agentId: agent.id,
+          version: latest.version,
+        });
+        return latest;
+      }
+    }
+
+    const row = {
+      id: this.generateUUID(),
+      agentId: agent.id,
+      version: (latestRow?.version ?? 0) + 1,
+      config: JSON.stringify(config),
+      author: info?.author ?? null,
+      reason: info?.reason ?? null,
+      source,
+      rollbackOf: info?.rollbackOf ?? null,
+      created_at: new Date().toISOString(),
+    };
+    await trx('agent_revisions').insert(await encryptSensitiveFields(row, 'agent_revisions'));
+
+    this.logger.debug('Agent revision recorded', {
+      agentId: agent.id,
+      version: row.version,
+      source,
+      author: row.author,
+    });
+
+    return this.formatAgentRevision(row);
+  }
+
+  private async formatAgentRevision(row: AgentRevisionDbRow): Promise<AgentRevision> {
+    const decrypted = (await decryptSensitiveFields(
+      row as unknown as Record<string, string | number | boolean | null>,
+      'agent_revisions'
+    )) as unknown as AgentRevisionDbRow;
+
+    return {
+      id: decrypted.id,
+      agentId: decrypted.agentId,
+      version: Number(decrypted.version),
+      config: JSON.parse(decrypted.config) as AgentRevisionConfig,
+      author: decrypted.author ?? undefined,
+      reason: decrypted.reason ?? undefined,
+      source: decrypted.source,
+      rollbackOf: decrypted.rollbackOf ?? undefined,
+      createdAt: new Date(decrypted.created_at),
+    };
+  }
+
   private formatAgent(agent: AgentDbRow): AgentConfig {
     return {
       id: agent.id,
@@ -7,6 +7,13 @@ import { getLogger } from '../logger';
 export const SENSITIVE_FIELDS: Record<string, string[]> = {
   // Agent configuration fields
   agents: ['systemPrompt', 'description'],
+  agent_revisions: ['config', 'reason'],
+
+  // Prompt template fields
+  prompt_templates: ['content', 'description'],
+
+  // Response cache fields
+  response_cache: ['prompt', 'content'],
 
   // Memory system fields
   memories: ['content', 'metadata'],
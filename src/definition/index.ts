@@ -0,0 +1,737 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { Document, isNode, LineCounter, parseDocument, stringify } from 'yaml';
+import {
+  AgentDefinitionFile,
+  DefinitionFormat,
+  DefinitionIssue,
+  DefinitionLoadOptions,
+  GraphDefinitionFile,
+  GraphEdgeDefinition,
+  GraphExportOptions,
+  GraphNodeDefinition,
+  LoadedAgentDefinition,
+} from './types';
+import {
+  AGENT_DEFINITION_SCHEMA,
+  FieldSpec,
+  formatPath,
+  GRAPH_DEFINITION_SCHEMA,
+  SchemaIssue,
+  SchemaPath,
+  validateValue,
+} from './schema';
+import { Agent } from '../agent';
+import { AgentConfigInput, IAgent } from '../agent/types';
+import { Graph } from '../graph';
+import { Graph as GraphType, GraphConfig, GraphNode } from '../graph/types';
+import { MCPServerDefinition } from '../mcp/types';
+import { Plugin } from '../plugin/types';
+import { getDatabase } from '../database';
+import { ConfigurationError, DefinitionValidationError, isTemplateError } from '../errors';
+import { getTemplateRegistry, Template } from '../template';
+import { TemplateReference, TemplateVariables } from '../template/types';
+import { MetadataObject } from '../types';
+
+export const DEFINITION_VERSION = 1;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// File fields copied to AgentConfigInput as they are
+const AGENT_CONFIG_FIELDS = [
+  'name',
+  'description',
+  'model',
+  'fallbackModels',
+  'embeddingModel',
+  'visionModel',
+  'temperature',
+  'maxTokens',
+  'systemPrompt',
+  'memory',
+  'knowledge',
+  'vision',
+  'useTools',
+  'autoContextCompression',
+  'maxContextLength',
+  'preserveLastN',
+  'compressionRatio',
+  'compressionStrategy',
+  'debug',
+  'budget',
+  'cache',
+  'reflection',
+  'toolApproval',
+] as const;
+
+// File fields copied to GraphConfig as they are
+const GRAPH_CONFIG_FIELDS = [
+  'name',
+  'description',
+  'maxConcurrency',
+  'timeout',
+  'retryAttempts',
+  'subAgentAware',
+  'optimizeSubAgentUsage',
+  'subAgentCoordination',
+  'autoLink',
+  'maxContextTokens',
+  'contextWarningThreshold',
+  'subAgentNodeTimeout',
+  'budget',
+  'metadata',
+] as const;
+
+interface ParsedSource {
+  kind: 'agent' | 'graph';
+  value: unknown;
+  doc: Document;
+  lineCounter: LineCounter;
+  filename?: string;
+}
+
+/**
+ * Copy the listed fields that are set, skipping nulls left by empty YAML keys
+ */
+function pickFields<T extends object>(source: object, fields: readonly string[]): Partial<T> {
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = (source as Record<string, unknown>)[field];
+    if (value !== undefined && value !== null) {
+      result[field] = value;
+    }
+  }
+  return result as Partial<T>;
+}
+
+function toIssue(parsed: ParsedSource, issue: SchemaIssue): DefinitionIssue {
+  // Point at the deepest node that exists, e.g. the parent mapping of a missing field
+  for (let depth = issue.path.length; depth >= 0; depth--) {
+    const node =
+      depth === 0 ? parsed.doc.contents : parsed.doc.getIn(issue.path.slice(0, depth), true);
+    if (isNode(node) && node.range) {
+      const position = parsed.lineCounter.linePos(node.range[0]);
+      return {
+        path: formatPath(issue.path),
+        message: issue.message,
+        line: position.line,
+        column: position.col,
+      };
+    }
+  }
+  return { path: formatPath(issue.path), message: issue.message };
+}
+
+function formatIssue(issue: DefinitionIssue, filename?: string): string {
+  const location =
+    issue.line !== undefined
+      ? filename
+        ? `${filename}:${issue.line}:${issue.column}`
+        : `line ${issue.line}, column ${issue.column}`
+      : (filename ?? '');
+  const where = [location, issue.path].filter(Boolean).join(' ');
+  return where ? `${where}: ${issue.message}` : issue.message;
+}
+
+function invalid(
+  kind: 'agent' | 'graph',
+  issues: DefinitionIssue[],
+  filename?: string
+): DefinitionValidationError {
+  const lines = issues.map((issue) => `  ${formatIssue(issue, filename)}`).join('\n');
+  return new DefinitionValidationError(
+    `Invalid ${kind} definition${filename ? ` in ${filename}` : ''}:\n${lines}`,
+    issues,
+    filename
+  );
+}
+
+/**
+ * Parse YAML or JSON (JSON is read by the YAML parser, which keeps positions for both)
+ * and check it against the schema
+ */
+function parseSource(
+  kind: 'agent' | 'graph',
+  source: string,
+  schema: FieldSpec,
+  options: DefinitionLoadOptions
+): ParsedSource {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter, uniqueKeys: true });
+
+  if (doc.errors.length > 0) {
+    throw invalid(
+      kind,
+      doc.errors.map((error) => ({
+        path: '',
+        message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+        line: error.linePos?.[0].line,
+        column: error.linePos?.[0].col,
+      })),
+      options.filename
+    );
+  }
+
+  const parsed: ParsedSource = {
+    kind,
+    value: doc.toJS(),
+    doc,
+    lineCounter,
+    filename: options.filename,
+  };
+  const issues = validateValue(parsed.value, schema);
+
+  if (issues.length === 0) {
+    const header = parsed.value as { version: number; kind: string };
+    if (header.version !== DEFINITION_VERSION) {
+      issues.push({
+        path: ['version'],
+        message: `unsupported version ${header.version}; this release reads version ${DEFINITION_VERSION}`,
+      });
+    }
+    if (header.kind !== kind) {
+      issues.push({ path: ['kind'], message: `expected kind '${kind}', got '${header.kind}'` });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw invalid(
+      kind,
+      issues.map((issue) => toIssue(parsed, issue)),
+      options.filename
+    );
+  }
+  return parsed;
+}
+
+async function resolveAgentRef(
+  ref: string,
+  options: DefinitionLoadOptions,
+  cache: Map<string, IAgent | null>
+): Promise<IAgent | null> {
+  if (cache.has(ref)) {
+    return cache.get(ref)!;
+  }
+  const agent =
+    options.agents?.find((candidate) => candidate.id === ref || candidate.name === ref) ??
+    (UUID_PATTERN.test(ref) ? await Agent.findById(ref) : await Agent.findByName(ref));
+  cache.set(ref, agent);
+  return agent;
+}
+
+/**
+ * Render a prompt from a stored template, or a prompt string with variables.
+ * Template problems become issues at path; the template used is returned for node metadata.
+ */
+async function renderPrompt(
+  source: { prompt?: string; template?: string | TemplateReference; variables?: TemplateVariables },
+  path: SchemaPath,
+  issues: SchemaIssue[]
+): Promise<{ prompt: string; template?: MetadataObject } | undefined> {
+  const registry = getTemplateRegistry();
+  const variables = source.variables ?? {};
+  const reference =
+    typeof source.template === 'string' ? { name: source.template } : source.template;
+
+  try {
+    const template = reference
+      ? await registry.load(reference.name, reference.version)
+      : new Template(source.prompt ?? '');
+    const prompt = await registry.renderTemplate(template, variables);
+    return {
+      prompt,
+      template: reference
+        ? (JSON.parse(
+            JSON.stringify({ name: template.name, version: template.version, variables })
+          ) as MetadataObject)
+        : undefined,
+    };
+  } catch (error) {
+    if (!isTemplateError(error)) throw error;
+    issues.push({ path, message: error.message });
+    return undefined;
+  }
+}
+
+function getFormat(options: { format?: DefinitionFormat; filename?: string }): DefinitionFormat {
+  if (options.format) return options.format;
+  return options.filename && extname(options.filename).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+/**
+ * Build an agent config from a definition file's text. Plugins and named MCP servers are
+ * looked up in the options, sub-agents by name or id in options.agents and then the database.
+ */
+export async function parseAgentDefinition(
+  source: string,
+  options: DefinitionLoadOptions = {}
+): Promise<LoadedAgentDefinition> {
+  const parsed = parseSource('agent', source, AGENT_DEFINITION_SCHEMA, options);
+  const file = parsed.value as AgentDefinitionFile;
+  const issues: SchemaIssue[] = [];
+
+  const plugins: Plugin[] = [];
+  (file.plugins ?? []).forEach((name, index) => {
+    const plugin = options.plugins?.find((candidate) => candidate.name === name);
+    if (plugin) {
+      plugins.push(plugin);
+    } else {
+      issues.push({
+        path: ['plugins', index],
+        message: `unknown plugin '${name}'; pass it in options.plugins`,
+      });
+    }
+  });
+
+  const mcpServers: MCPServerDefinition[] = [];
+  (file.mcpServers ?? []).forEach((entry, index) => {
+    const server =
+      typeof entry === 'string'
+        ? options.mcpServers?.find((candidate) => candidate.name === entry)
+        : (pickFields<MCPServerDefinition>(entry, [
+            'name',
+            'command',
+            'args',
+            'env',
+            'url',
+            'cwd',
+          ]) as MCPServerDefinition);
+    if (!server) {
+      issues.push({
+        path: ['mcpServers', index],
+        message: `unknown MCP server '${entry}'; pass it in options.mcpServers`,
+      });
+    } else if (!server.command && !server.url) {
+      issues.push({ path: ['mcpServers', index], message: "needs a 'command' or a 'url'" });
+    } else if (mcpServers.some((existing) => existing.name === server.name)) {
+      issues.push({
+        path: ['mcpServers', index],
+        message: `duplicate MCP server '${server.name}'`,
+      });
+    } else {
+      mcpServers.push(server);
+    }
+  });
+
+  const agentCache = new Map<string, IAgent | null>();
+  const subAgents: IAgent[] = [];
+  for (const [index, ref] of (file.subAgents ?? []).entries()) {
+    const agent = await resolveAgentRef(ref, options, agentCache);
+    if (agent) {
+      subAgents.push(agent);
+    } else {
+      issues.push({ path: ['subAgents', index], message: `agent '${ref}' not found` });
+    }
+  }
+
+  // The system prompt is rendered here, so missing variables are reported with the file
+  let systemPrompt = file.systemPrompt ?? undefined;
+  if (file.systemPromptTemplate && file.systemPrompt) {
+    issues.push({
+      path: ['systemPromptTemplate'],
+      message: 'give a systemPrompt or a template, not both',
+    });
+  } else if (file.systemPromptVariables && !file.systemPromptTemplate && !file.systemPrompt) {
+    issues.push({
+      path: ['systemPromptVariables'],
+      message: 'no systemPrompt or template to render',
+    });
+  } else if (file.systemPromptTemplate || file.systemPromptVariables) {
+    const rendered = await renderPrompt(
+      {
+        prompt: file.systemPrompt,
+        template: file.systemPromptTemplate,
+        variables: file.systemPromptVariables,
+      },
+      [file.systemPromptTemplate ? 'systemPromptTemplate' : 'systemPrompt'],
+      issues
+    );
+    systemPrompt = rendered?.prompt;
+  }
+
+  if (issues.length > 0) {
+    throw invalid(
+      'agent',
+      issues.map((issue) => toIssue(parsed, issue)),
+      options.filename
+    );
+  }
+
+  const config = pickFields<AgentConfigInput>(file, AGENT_CONFIG_FIELDS) as AgentConfigInput;
+  if (systemPrompt !== undefined) {
+    config.systemPrompt = systemPrompt;
+  }
+  if (subAgents.length > 0) {
+    config.subAgents = subAgents;
+  }
+  return { config, plugins, mcpServers };
+}
+
+/**
+ * Read an agent definition file (.yaml, .yml or .json)
+ */
+export async function loadAgentDefinition(
+  path: string,
+  options: DefinitionLoadOptions = {}
+): Promise<LoadedAgentDefinition> {
+  const source = await readFile(path, 'utf8');
+  return parseAgentDefinition(source, { filename: path, ...options });
+}
+
+/**
+ * Create (or update, when the name exists) the agent and attach its plugins and MCP servers
+ */
+export async function createAgentFromDefinition(definition: LoadedAgentDefinition): Promise<Agent> {
+  const agent = await Agent.create(definition.config);
+  for (const plugin of definition.plugins) {
+    await agent.registerPlugin(plugin);
+  }
+  if (definition.mcpServers.length > 0) {
+    await agent.addMCPServers(definition.mcpServers);
+  }
+  return agent;
+}
+
+/**
+ * Nodes in dependency order, keeping file order where there is a choice.
+ * Returns null and the name of a node on a cycle when there is one.
+ */
+function orderNodes(
+  nodes: GraphNodeDefinition[],
+  dependencies: Map<string, string[]>
+): { order: GraphNodeDefinition[] | null; cycleAt?: string } {
+  const order: GraphNodeDefinition[] = [];
+  const placed = new Set<string>();
+
+  while (order.length < nodes.length) {
+    const next = nodes.find(
+      (node) =>
+        !placed.has(node.name) &&
+        (dependencies.get(node.name) ?? []).every((dependency) => placed.has(dependency))
+    );
+    if (!next) {
+      return { order: null, cycleAt: nodes.find((node) => !placed.has(node.name))?.name };
+    }
+    order.push(next);
+    placed.add(next.name);
+  }
+  return { order };
+}
+
+/**
+ * Build a graph from a definition file's text. The graph is not saved; call graph.save() to store it.
+ */
+export async function parseGraphDefinition(
+  source: string,
+  options: DefinitionLoadOptions = {}
+): Promise<Graph> {
+  const parsed = parseSource('graph', source, GRAPH_DEFINITION_SCHEMA, options);
+  const file = parsed.value as GraphDefinitionFile;
+  const edges: GraphEdgeDefinition[] = file.edges ?? [];
+  const issues: SchemaIssue[] = [];
+
+  const indexByName = new Map<string, number>();
+  file.nodes.forEach((node, index) => {
+    if (indexByName.has(node.name)) {
+      issues.push({
+        path: ['nodes', index, 'name'],
+        message: `duplicate node name '${node.name}'`,
+      });
+    } else {
+      indexByName.set(node.name, index);
+    }
+    if ((node.type ?? 'task') === 'task') {
+      if (node.template && node.prompt) {
+        issues.push({ path: ['nodes', index], message: 'give a prompt or a template, not both' });
+      } else if (!node.template && (!node.prompt || node.prompt.trim() === '')) {
+        issues.push({ path: ['nodes', index], message: 'task nodes need a prompt or a template' });
+      }
+    }
+    if (node.type === 'agent' && !node.agent) {
+      issues.push({ path: ['nodes', index], message: 'agent nodes need an agent' });
+    }
+    (node.dependsOn ?? []).forEach((dependency, dependencyIndex) => {
+      if (dependency === node.name) {
+        issues.push({
+          path: ['nodes', index, 'dependsOn', dependencyIndex],
+          message: 'a node cannot depend on itself',
+        });
+      } else if (!file.nodes.some((candidate) => candidate.name === dependency)) {
+        issues.push({
+          path: ['nodes', index, 'dependsOn', dependencyIndex],
+          message: `unknown node '${dependency}'`,
+        });
+      }
+    });
+  });
+
+  edges.forEach((edge, index) => {
+    for (const end of ['from', 'to'] as const) {
+      if (!indexByName.has(edge[end])) {
+        issues.push({ path: ['edges', index, end], message: `unknown node '${edge[end]}'` });
+      }
+    }
+    if (edge.from === edge.to) {
+      issues.push({ path: ['edges', index], message: 'an edge cannot connect a node to itself' });
+    }
+  });
+
+  // Edges carry their own dependency; autoLink links the remaining roots to the previous node
+  const dependencies = new Map<string, string[]>();
+  file.nodes.forEach((node, index) => {
+    const incoming = edges.filter((edge) => edge.to === node.name).map((edge) => edge.from);
+    let dependsOn = (node.dependsOn ?? []).filter((name) => !incoming.includes(name));
+    if (file.autoLink && index > 0 && dependsOn.length === 0 && incoming.length === 0) {
+      dependsOn = [file.nodes[index - 1].name];
+    }
+    dependencies.set(node.name, [...dependsOn, ...incoming]);
+  });
+
+  if (issues.length === 0) {
+    const { cycleAt } = orderNodes(file.nodes, dependencies);
+    if (cycleAt) {
+      issues.push({
+        path: ['nodes', indexByName.get(cycleAt)!],
+        message: `dependency cycle through '${cycleAt}'`,
+      });
+    }
+  }
+
+  // Agents are resolved last so structural mistakes are reported without database access
+  const agentCache = new Map<string, IAgent | null>();
+  let defaultAgent: IAgent | null = null;
+  if (issues.length === 0) {
+    if (file.agent) {
+      defaultAgent = await resolveAgentRef(file.agent, options, agentCache);
+      if (!defaultAgent) {
+        issues.push({ path: ['agent'], message: `agent '${file.agent}' not found` });
+      }
+    }
+    for (const [index, node] of file.nodes.entries()) {
+      if (node.agent) {
+        if (!(await resolveAgentRef(node.agent, options, agentCache))) {
+          issues.push({
+            path: ['nodes', index, 'agent'],
+            message: `agent '${node.agent}' not found`,
+          });
+        }
+      } else if (!file.agent) {
+        issues.push({
+          path: ['nodes', index],
+          message: "no agent; set 'agent' on the node or on the graph",
+        });
+      }
+    }
+  }
+
+  // Templates are rendered now, so missing variables are reported with the file
+  const prompts = new Map<string, { prompt: string; template?: MetadataObject }>();
+  if (issues.length === 0) {
+    for (const [index, node] of file.nodes.entries()) {
+      if (node.type === 'agent' || (!node.template && !node.variables)) continue;
+      const rendered = await renderPrompt(
+        node,
+        ['nodes', index, node.template ? 'template' : 'prompt'],
+        issues
+      );
+      if (rendered) {
+        prompts.set(node.name, rendered);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw invalid(
+      'graph',
+      issues.map((issue) => toIssue(parsed, issue)),
+      options.filename
+    );
+  }
+
+  const config = pickFields<GraphConfig>(file, GRAPH_CONFIG_FIELDS) as GraphConfig;
+  // Links were resolved above, so the graph must not add its own while nodes are added
+  const graph = new Graph({ ...config, autoLink: false }, defaultAgent ?? undefined);
+  const nodeIds = new Map<string, string>();
+
+  for (const node of orderNodes(file.nodes, dependencies).order!) {
+    const agentId = node.agent ? agentCache.get(node.agent)!.id : undefined;
+    const dependsOn = (dependencies.get(node.name) ?? []).filter(
+      (name) => !edges.some((edge) => edge.to === node.name && edge.from === name)
+    );
+
+    const nodeId =
+      node.type === 'agent'
+        ? graph.addAgentNode({
+            name: node.name,
+            agentId: agentId!,
+            dependencies: dependsOn.map((name) => nodeIds.get(name)!),
+            priority: node.priority ?? undefined,
+            metadata: node.metadata ?? undefined,
+          })
+        : graph.addTaskNode({
+            ...pickFields<GraphNodeDefinition>(node, [
+              'name',
+              'prompt',
+              'model',
+              'stream',
+              'schedule',
+              'priority',
+              'useSubAgents',
+              'subAgentDelegation',
+              'subAgentCoordination',
+              'responseSchema',
+              'schemaRetries',
+              'metadata',
+            ]),
+            prompt: prompts.get(node.name)?.prompt ?? node.prompt!,
+            agentId,
+            dependsOn,
+            ...(prompts.get(node.name)?.template
+              ? { metadata: { ...node.metadata, template: prompts.get(node.name)!.template! } }
+              : {}),
+          });
+
+    if (node.description) {
+      graph.getNode(nodeId)!.description = node.description;
+    }
+    nodeIds.set(node.name, nodeId);
+  }
+
+  for (const edge of edges) {
+    graph.addEdge(nodeIds.get(edge.from)!, nodeIds.get(edge.to)!, edge.condition ?? undefined);
+  }
+
+  if (file.autoLink !== undefined && file.autoLink !== null) {
+    graph.getGraph().config.autoLink = file.autoLink;
+  }
+  return graph;
+}
+
+/**
+ * Read a graph definition file (.yaml, .yml or .json)
+ */
+export async function loadGraphDefinition(
+  path: string,
+  options: DefinitionLoadOptions = {}
+): Promise<Graph> {
+  const source = await readFile(path, 'utf8');
+  return parseGraphDefinition(source, { filename: path, ...options });
+}
+
+/**
+ * Serialize a graph in the definition format, the inverse of parseGraphDefinition.
+ * Agent ids are written as names unless agentNames is false, so the file can move between environments.
+ */
+export async function exportGraphDefinition(
+  graph: Graph | GraphType,
+  options: GraphExportOptions = {}
+): Promise<string> {
+  const data = graph instanceof Graph ? graph.getGraph() : graph;
+
+  const nameById = new Map<string, string>();
+  for (const node of data.nodes) {
+    if ([...nameById.values()].includes(node.name)) {
+      throw new ConfigurationError(
+        `Cannot export graph ${data.config.name}: node name '${node.name}' is used more than once`
+      );
+    }
+    nameById.set(node.id, node.name);
+  }
+
+  const agentNames = new Map<string, string>();
+  const agentRef = async (agentId: string): Promise<string> => {
+    if (options.agentNames === false) return agentId;
+    if (!agentNames.has(agentId)) {
+      const db = await getDatabase();
+      agentNames.set(agentId, (await db.getAgent(agentId))?.name ?? agentId);
+    }
+    return agentNames.get(agentId)!;
+  };
+
+  const conditionalEdges = data.edges.filter((edge) => edge.condition);
+  const nodes: GraphNodeDefinition[] = [];
+  for (const node of data.nodes) {
+    nodes.push(await toNodeDefinition(node, data, conditionalEdges, nameById, agentRef));
+  }
+
+  const file: GraphDefinitionFile = {
+    version: DEFINITION_VERSION,
+    kind: 'graph',
+    ...(pickFields<GraphConfig>(data.config, GRAPH_CONFIG_FIELDS) as GraphConfig),
+    agent: data.defaultAgentId ? await agentRef(data.defaultAgentId) : undefined,
+    nodes,
+    edges:
+      conditionalEdges.length > 0
+        ? conditionalEdges.map((edge) => ({
+            from: nameById.get(edge.fromNodeId)!,
+            to: nameById.get(edge.toNodeId)!,
+            condition: edge.condition,
+          }))
+        : undefined,
+  };
+
+  return getFormat(options) === 'json' ? `${JSON.stringify(file, null, 2)}\n` : stringify(file);
+}
+
+async function toNodeDefinition(
+  node: GraphNode,
+  data: GraphType,
+  conditionalEdges: GraphType['edges'],
+  nameById: Map<string, string>,
+  agentRef: (agentId: string) => Promise<string>
+): Promise<GraphNodeDefinition> {
+  const conditionalSources = conditionalEdges
+    .filter((edge) => edge.toNodeId === node.id)
+    .map((edge) => edge.fromNodeId);
+  const dependsOn = node.dependencies
+    .filter((id) => !conditionalSources.includes(id))
+    .map((id) => nameById.get(id) ?? id);
+
+  // addTaskNode copies the node name into metadata; drop it again
+  const metadata = { ...node.metadata };
+  if (metadata.name === node.name) delete metadata.name;
+
+  // Nodes rendered from a stored template are written back as the template reference
+  const template = metadata.template as
+    | { name?: string; version?: number; variables?: TemplateVariables }
+    | undefined;
+  const fromTemplate = node.type === 'task' && typeof template?.name === 'string';
+  if (fromTemplate) delete metadata.template;
+
+  const isAgentNode = node.type === 'agent';
+  const agent =
+    node.agentId && (isAgentNode || node.agentId !== data.defaultAgentId)
+      ? await agentRef(node.agentId)
+      : undefined;
+
+  return {
+    name: node.name,
+    type: isAgentNode ? 'agent' : undefined,
+    description: node.description,
+    agent,
+    ...(fromTemplate
+      ? {
+          template: template!.version
+            ? { name: template!.name!, version: template!.version }
+            : template!.name,
+          variables: template!.variables,
+        }
+      : {}),
+    ...pickFields<GraphNodeDefinition>(node, [
+      ...(fromTemplate ? [] : ['prompt']),
+      'model',
+      'stream',
+      'schedule',
+      'useSubAgents',
+      'subAgentDelegation',
+      'subAgentCoordination',
+      'responseSchema',
+      'schemaRetries',
+    ]),
+    dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+    priority: node.priority !== 0 ? node.priority : undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
+
+export * from './types';
@@ -0,0 +1,332 @@
+/**
+ * Minimal schema checks for definition files. Issues carry the path of the offending value,
+ * which the loader maps back to a line and column.
+ */
+
+export type FieldSpec =
+  | { type: 'string'; required?: boolean; enum?: readonly string[]; nonEmpty?: boolean }
+  | { type: 'number' | 'integer'; required?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'array'; required?: boolean; items: FieldSpec }
+  | { type: 'record'; required?: boolean; values: FieldSpec } // Any keys, checked values
+  | { type: 'object'; required?: boolean; fields: Record<string, FieldSpec> } // Known keys only
+  | { type: 'oneOf'; required?: boolean; options: FieldSpec[]; description: string }
+  | { type: 'any'; required?: boolean };
+
+export type SchemaPath = Array<string | number>;
+
+export interface SchemaIssue {
+  path: SchemaPath;
+  message: string;
+}
+
+const APPROVAL_RULES = ['allow', 'deny', 'ask'] as const;
+const approvalRecord: FieldSpec = {
+  type: 'record',
+  values: { type: 'string', enum: APPROVAL_RULES },
+};
+const budget: FieldSpec = {
+  type: 'object',
+  fields: {
+    maxTokens: { type: 'integer', min: 1 },
+    maxCost: { type: 'number', min: 0 },
+    maxLLMCalls: { type: 'integer', min: 1 },
+    maxWallTime: { type: 'integer', min: 1 },
+  },
+};
+const CACHE_MODES = ['off', 'exact', 'semantic'] as const;
+const cache: FieldSpec = {
+  type: 'oneOf',
+  description: 'a cache mode or cache options',
+  options: [
+    { type: 'string', enum: CACHE_MODES },
+    {
+      type: 'object',
+      fields: {
+        mode: { type: 'string', enum: CACHE_MODES },
+        ttl: { type: 'integer', min: 1 },
+        similarityThreshold: { type: 'number', min: 0, max: 1 },
+        embeddingModel: { type: 'string', nonEmpty: true },
+        scope: { type: 'string', nonEmpty: true },
+      },
+    },
+  ],
+};
+const reflection: FieldSpec = {
+  type: 'oneOf',
+  description: 'true or reflection options',
+  options: [
+    { type: 'boolean' },
+    {
+      type: 'object',
+      fields: {
+        limit: { type: 'integer', min: 0 },
+        similarityThreshold: { type: 'number', min: 0, max: 1 },
+        model: { type: 'string', nonEmpty: true },
+      },
+    },
+  ],
+};
+const metadata: FieldSpec = { type: 'record', values: { type: 'any' } };
+const templateReference: FieldSpec = {
+  type: 'oneOf',
+  description: 'a template name or a { name, version } reference',
+  options: [
+    { type: 'string', nonEmpty: true },
+    {
+      type: 'object',
+      fields: {
+        name: { type: 'string', required: true, nonEmpty: true },
+        version: { type: 'integer', min: 1 },
+      },
+    },
+  ],
+};
+const templateVariables: FieldSpec = { type: 'record', values: { type: 'any' } };
+const header = {
+  version: { type: 'integer', required: true },
+  kind: { type: 'string', required: true },
+} as const;
+
+export const AGENT_DEFINITION_SCHEMA: FieldSpec = {
+  type: 'object',
+  fields: {
+    ...header,
+    name: { type: 'string', required: true, nonEmpty: true },
+    description: { type: 'string' },
+    model: { type: 'string', nonEmpty: true },
+    fallbackModels: { type: 'array', items: { type: 'string', nonEmpty: true } },
+    embeddingModel: { type: 'string', nonEmpty: true },
+    visionModel: { type: 'string', nonEmpty: true },
+    temperature: { type: 'number', min: 0, max: 2 },
+    maxTokens: { type: 'integer', min: 1 },
+    systemPrompt: { type: 'string' },
+    systemPromptTemplate: templateReference,
+    systemPromptVariables: templateVariables,
+    memory: { type: 'boolean' },
+    knowledge: { type: 'boolean' },
+    vision: { type: 'boolean' },
+    useTools: { type: 'boolean' },
+    autoContextCompression: { type: 'boolean' },
+    maxContextLength: { type: 'integer', min: 1 },
+    preserveLastN: { type: 'integer', min: 0 },
+    compressionRatio: { type: 'number', min: 0, max: 1 },
+    compressionStrategy: { type: 'string', enum: ['summarize', 'selective', 'hybrid'] },
+    debug: { type: 'boolean' },
+    budget,
+    cache,
+    reflection,
+    toolApproval: {
+      type: 'object',
+      fields: {
+        tools: approvalRecord,
+        plugins: approvalRecord,
+        servers: approvalRecord,
+        default: { type: 'string', enum: APPROVAL_RULES },
+      },
+    },
+    plugins: { type: 'array', items: { type: 'string', nonEmpty: true } },
+    mcpServers: {
+      type: 'array',
+      items: {
+        type: 'oneOf',
+        description: 'a server name or an MCP server definition',
+        options: [
+          { type: 'string', nonEmpty: true },
+          {
+            type: 'object',
+            fields: {
+              name: { type: 'string', required: true, nonEmpty: true },
+              command: { type: 'string' },
+              args: { type: 'array', items: { type: 'string' } },
+              env: { type: 'record', values: { type: 'string' } },
+              url: { type: 'string' },
+              cwd: { type: 'string' },
+            },
+          },
+        ],
+      },
+    },
+    subAgents: { type: 'array', items: { type: 'string', nonEmpty: true } },
+  },
+};
+
+export const GRAPH_DEFINITION_SCHEMA: FieldSpec = {
+  type: 'object',
+  fields: {
+    ...header,
+    name: { type: 'string', required: true, nonEmpty: true },
+    description: { type: 'string' },
+    agent: { type: 'string', nonEmpty: true },
+    maxConcurrency: { type: 'integer', min: 1 },
+    timeout: { type: 'integer', min: 1 },
+    retryAttempts: { type: 'integer', min: 0 },
+    subAgentAware: { type: 'boolean' },
+    optimizeSubAgentUsage: { type: 'boolean' },
+    subAgentCoordination: { type: 'string', enum: ['parallel', 'sequential', 'adaptive'] },
+    autoLink: { type: 'boolean' },
+    maxContextTokens: { type: 'integer', min: 1 },
+    contextWarningThreshold: { type: 'number', min: 0, max: 1 },
+    subAgentNodeTimeout: { type: 'integer', min: 1 },
+    budget,
+    metadata,
+    nodes: {
+      type: 'array',
+      required: true,
+      items: {
+        type: 'object',
+        fields: {
+          name: { type: 'string', required: true, nonEmpty: true },
+          type: { type: 'string', enum: ['task', 'agent'] },
+          description: { type: 'string' },
+          agent: { type: 'string', nonEmpty: true },
+          prompt: { type: 'string' },
+          template: templateReference,
+          variables: templateVariables,
+          model: { type: 'string', nonEmpty: true },
+          stream: { type: 'boolean' },
+          schedule: { type: 'string', nonEmpty: true },
+          dependsOn: { type: 'array', items: { type: 'string', nonEmpty: true } },
+          priority: { type: 'integer' },
+          useSubAgents: { type: 'boolean' },
+          subAgentDelegation: { type: 'string', enum: ['auto', 'manual', 'sequential'] },
+          subAgentCoordination: { type: 'string', enum: ['parallel', 'sequential'] },
+          responseSchema: { type: 'record', values: { type: 'any' } },
+          schemaRetries: { type: 'integer', min: 0 },
+          metadata,
+        },
+      },
+    },
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          from: { type: 'string', required: true, nonEmpty: true },
+          to: { type: 'string', required: true, nonEmpty: true },
+          condition: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a value against a spec, collecting every issue rather than stopping at the first
+ */
+export function validateValue(
+  value: unknown,
+  spec: FieldSpec,
+  path: SchemaPath = [],
+  issues: SchemaIssue[] = []
+): SchemaIssue[] {
+  switch (spec.type) {
+    case 'any':
+      break;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected a string, got ${describe(value)}` });
+      } else if (spec.nonEmpty && value.trim() === '') {
+        issues.push({ path, message: 'must not be empty' });
+      } else if (spec.enum && !spec.enum.includes(value)) {
+        issues.push({ path, message: `must be one of ${spec.enum.join(', ')}` });
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `expected a number, got ${describe(value)}` });
+      } else if (spec.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ path, message: `expected an integer, got ${value}` });
+      } else if (spec.min !== undefined && value < spec.min) {
+        issues.push({ path, message: `must be at least ${spec.min}` });
+      } else if (spec.max !== undefined && value > spec.max) {
+        issues.push({ path, message: `must be at most ${spec.max}` });
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected a list, got ${describe(value)}` });
+        break;
+      }
+      value.forEach((item, index) => validateValue(item, spec.items, [...path, index], issues));
+      break;
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: `expected a mapping, got ${describe(value)}` });
+        break;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        validateValue(item, spec.values, [...path, key], issues);
+      }
+      break;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        issues.push({ path, message: `expected a mapping, got ${describe(value)}` });
+        break;
+      }
+      for (const [key, fieldSpec] of Object.entries(spec.fields)) {
+        if (value[key] === undefined || value[key] === null) {
+          if (fieldSpec.required) {
+            issues.push({ path, message: `missing required field '${key}'` });
+          }
+          continue;
+        }
+        validateValue(value[key], fieldSpec, [...path, key], issues);
+      }
+      for (const key of Object.keys(value)) {
+        if (!(key in spec.fields)) {
+          issues.push({ path: [...path, key], message: `unknown field '${key}'` });
+        }
+      }
+      break;
+
+    case 'oneOf':
+      if (!spec.options.some((option) => validateValue(value, option, path).length === 0)) {
+        // Report the closest option's issues when the value has the right shape
+        const sameShape = spec.options.find((option) =>
+          option.type === 'object' ? isPlainObject(value) : typeof value === option.type
+        );
+        if (sameShape) {
+          validateValue(value, sameShape, path, issues);
+        } else {
+          issues.push({ path, message: `expected ${spec.description}, got ${describe(value)}` });
+        }
+      }
+      break;
+  }
+  return issues;
+}
+
+/**
+ * Render a path as nodes[2].dependsOn[0]
+ */
+export function formatPath(path: SchemaPath): string {
+  return path.reduce<string>(
+    (text, segment) =>
+      typeof segment === 'number' ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment,
+    ''
+  );
+}
@@ -0,0 +1,135 @@
+import { AgentConfigInput, IAgent } from '../agent/types';
+import { GraphConfig } from '../graph/types';
+import { ResponseSchema } from '../llm/types';
+import { MCPServerDefinition } from '../mcp/types';
+import { Plugin } from '../plugin/types';
+import { BudgetLimits } from '../budget/types';
+import { CacheSetting } from '../cache/types';
+import { ReflectionSetting } from '../reflection/types';
+import { MetadataObject } from '../types';
+import { TemplateReference, TemplateVariables } from '../template/types';
+
+export type DefinitionFormat = 'yaml' | 'json';
+
+/**
+ * Approval rules that can be written in a file (handlers stay in code)
+ */
+export type DefinitionApprovalRule = 'allow' | 'deny' | 'ask';
+
+/**
+ * Agent definition file (kind: agent)
+ */
+export interface AgentDefinitionFile {
+  version: number;
+  kind: 'agent';
+  name: string;
+  description?: string;
+  model?: string;
+  fallbackModels?: string[];
+  embeddingModel?: string;
+  visionModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  systemPromptTemplate?: string | TemplateReference; // Stored template name, rendered at load
+  systemPromptVariables?: TemplateVariables;
+  memory?: boolean;
+  knowledge?: boolean;
+  vision?: boolean;
+  useTools?: boolean;
+  autoContextCompression?: boolean;
+  maxContextLength?: number;
+  preserveLastN?: number;
+  compressionRatio?: number;
+  compressionStrategy?: 'summarize' | 'selective' | 'hybrid';
+  debug?: boolean;
+  budget?: BudgetLimits;
+  cache?: CacheSetting;
+  reflection?: ReflectionSetting;
+  toolApproval?: {
+    tools?: Record<string, DefinitionApprovalRule>;
+    plugins?: Record<string, DefinitionApprovalRule>;
+    servers?: Record<string, DefinitionApprovalRule>;
+    default?: DefinitionApprovalRule;
+  };
+  plugins?: string[]; // Plugin names, resolved from DefinitionLoadOptions.plugins
+  mcpServers?: Array<string | MCPServerDefinition>; // Inline definitions or names from DefinitionLoadOptions.mcpServers
+  subAgents?: string[]; // Agent names or ids
+}
+
+/**
+ * Node in a graph definition; nodes are referenced by name
+ */
+export interface GraphNodeDefinition {
+  name: string;
+  type?: 'task' | 'agent'; // Default: task
+  description?: string;
+  agent?: string; // Agent name or id; task nodes default to the graph agent
+  prompt?: string;
+  template?: string | TemplateReference; // Stored template name, instead of a prompt
+  variables?: TemplateVariables; // Rendered into the template (or the prompt) at load
+  model?: string;
+  stream?: boolean;
+  schedule?: string;
+  dependsOn?: string[];
+  priority?: number;
+  useSubAgents?: boolean;
+  subAgentDelegation?: 'auto' | 'manual' | 'sequential';
+  subAgentCoordination?: 'parallel' | 'sequential';
+  responseSchema?: ResponseSchema;
+  schemaRetries?: number;
+  metadata?: MetadataObject;
+}
+
+/**
+ * Conditional edge; unconditional dependencies are written as dependsOn
+ */
+export interface GraphEdgeDefinition {
+  from: string;
+  to: string;
+  condition?: string;
+}
+
+/**
+ * Graph definition file (kind: graph)
+ */
+export interface GraphDefinitionFile extends Omit<GraphConfig, 'id' | 'name'> {
+  version: number;
+  kind: 'graph';
+  name: string;
+  agent?: string; // Default agent name or id
+  nodes: GraphNodeDefinition[];
+  edges?: GraphEdgeDefinition[];
+}
+
+/**
+ * Problem found while loading a definition; line and column are 1-based
+ */
+export interface DefinitionIssue {
+  path: string; // e.g. nodes[2].dependsOn[0]
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface DefinitionLoadOptions {
+  filename?: string; // Used in error messages and to pick the format
+  format?: DefinitionFormat; // Default: from the filename, else yaml (which also reads JSON)
+  agents?: IAgent[]; // Agents referenced by name or id before falling back to the database
+  plugins?: Plugin[]; // Plugins that agent files may reference by name
+  mcpServers?: MCPServerDefinition[]; // MCP servers that agent files may reference by name
+}
+
+/**
+ * Agent definition resolved against the load options
+ */
+export interface LoadedAgentDefinition {
+  config: AgentConfigInput;
+  plugins: Plugin[];
+  mcpServers: MCPServerDefinition[];
+}
+
+export interface GraphExportOptions {
+  format?: DefinitionFormat; // Default: yaml
+  agentNames?: boolean; // Write agent names instead of ids (default: true)
+}
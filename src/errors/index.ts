@@ -13,6 +13,12 @@
  * - SubAgentError: Sub-agent failures return partial results when possible
  */
 
+import { BudgetLimitName, BudgetLimits, BudgetUsage } from '../budget/types';
+import { RecordedCallKind } from '../recording/types';
+import { DefinitionIssue } from '../definition/types';
+import { TemplateErrorCode } from '../template/types';
+import { GuardrailStage, GuardrailViolation } from '../guardrail/types';
+
 /**
  * Base error class for all Astreus errors
  * Provides consistent error structure with cause chaining
@@ -46,6 +52,7 @@ export class AstreusError extends Error {
  *
  * Graceful Degradation:
  * - Retry with exponential backoff (already implemented in providers)
+ * - Rate limits, 5xx and timeouts move requests with fallbackModels to the next model
  * - For embedding failures: continue without semantic search
  * - For vision failures: return text-based analysis if available
  */
@@ -53,13 +60,32 @@ export class LLMApiError extends AstreusError {
   constructor(
     message: string,
     public readonly provider: string,
-    cause?: Error
+    cause?: Error,
+    public readonly status?: number // HTTP status when known; otherwise read from the cause
   ) {
     super(message, cause);
     this.name = 'LLMApiError';
   }
 }
 
+/**
+ * Error thrown when a provider's circuit breaker is open and the request is not sent
+ *
+ * Graceful Degradation:
+ * - Requests with fallbackModels skip to the next model without waiting
+ * - retryAt is when the breaker half-opens and lets a probe request through
+ */
+export class CircuitOpenError extends LLMApiError {
+  constructor(
+    message: string,
+    provider: string,
+    public readonly retryAt: Date
+  ) {
+    super(message, provider);
+    this.name = 'CircuitOpenError';
+  }
+}
+
 /**
  * Error thrown for database operations
  * Use this for connection, query, and schema errors
@@ -262,6 +288,169 @@ export class ToolError extends AstreusError {
   }
 }
 
+/**
+ * Error thrown when an LLM response cannot be coerced into the requested schema
+ * Raised only after the repair attempts are exhausted
+ *
+ * Graceful Degradation:
+ * - rawResponse holds the last model output for manual inspection
+ * - validationErrors lists every schema violation from the final attempt
+ */
+export class StructuredOutputError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly validationErrors: string[],
+    public readonly rawResponse: string,
+    public readonly attempts: number,
+    cause?: Error
+  ) {
+    super(message, cause);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Error thrown when a request needs a capability its model lacks (e.g. tools for a model
+ * that cannot call them), before anything is sent
+ *
+ * Graceful Degradation:
+ * - Requests with fallbackModels move on to the next model
+ * - Register the capability with registerModel() if the model does support it
+ */
+export class ModelCapabilityError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly model: string,
+    public readonly capability: string
+  ) {
+    super(message);
+    this.name = 'ModelCapabilityError';
+  }
+}
+
+/**
+ * Error thrown when an operation is stopped through an AbortSignal
+ * Use this for cancelled asks, tasks, graph runs, sub-agent runs and tool calls
+ *
+ * Graceful Degradation:
+ * - Not retried: providers stop their backoff loop as soon as the signal fires
+ * - Tasks and graph nodes are marked `cancelled` instead of `failed`
+ * - The agent operation lock is released so queued operations can continue
+ */
+export class OperationCancelledError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly reason?: unknown,
+    cause?: Error
+  ) {
+    super(message, cause);
+    this.name = 'OperationCancelledError';
+  }
+}
+
+/**
+ * Error thrown when a run exceeds one of its budget limits
+ * Raised at LLM call boundaries: before a call once a limit is reached, after a call that crosses one
+ *
+ * Graceful Degradation:
+ * - Not retried: the run stops at the first exceeded limit
+ * - usage reports what was consumed up to the stop
+ * - partialResult holds the output produced so far (response text, or node results for graphs)
+ */
+export class BudgetExceededError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly limit: BudgetLimitName,
+    public readonly limits: BudgetLimits,
+    public readonly usage: BudgetUsage,
+    public partialResult?: unknown,
+    cause?: Error
+  ) {
+    super(message, cause);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Error thrown in strict replay mode when a call has no recording in the fixture file
+ *
+ * Graceful Degradation:
+ * - Not retried: the fixture has to be re-recorded
+ * - key identifies the request so it can be located in a fresh recording
+ */
+export class UnrecordedCallError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly kind: RecordedCallKind,
+    public readonly key: string,
+    public readonly fixturePath: string
+  ) {
+    super(message);
+    this.name = 'UnrecordedCallError';
+  }
+}
+
+/**
+ * Error thrown when an agent or graph definition file fails to parse or validate
+ *
+ * Graceful Degradation:
+ * - Not retried: the file has to be fixed
+ * - issues lists every problem found, with line and column where known
+ */
+export class DefinitionValidationError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly issues: DefinitionIssue[],
+    public readonly filename?: string
+  ) {
+    super(message);
+    this.name = 'DefinitionValidationError';
+  }
+}
+
+/**
+ * Error thrown when a prompt template fails to compile or render
+ *
+ * Graceful Degradation:
+ * - Not retried: the template or its variables have to be fixed
+ * - missing lists every variable (or partial) the render needed, not only the first
+ * - line and column point at the offending tag for syntax errors
+ */
+export class TemplateError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly code: TemplateErrorCode,
+    public readonly template?: string,
+    public readonly missing: string[] = [],
+    public readonly line?: number,
+    public readonly column?: number
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Error thrown when a guardrail rejects a prompt, tool result or response
+ *
+ * Graceful Degradation:
+ * - Not retried: the same content would be rejected again
+ * - violations holds every violation of the run so far, the rejection last
+ * - Tasks store the violations in their execution context and end as 'failed'
+ */
+export class GuardrailViolationError extends AstreusError {
+  constructor(
+    message: string,
+    public readonly guardrail: string,
+    public readonly stage: GuardrailStage,
+    public readonly reason: string,
+    public readonly violations: GuardrailViolation[] = []
+  ) {
+    super(message);
+    this.name = 'GuardrailViolationError';
+  }
+}
+
 /**
  * Type guard to check if an error is a GraphNodeError
  */
@@ -276,6 +465,113 @@ export function isToolError(error: unknown): error is ToolError {
   return error instanceof ToolError;
 }
 
+/**
+ * Type guard to check if an error is a StructuredOutputError
+ */
+export function isStructuredOutputError(error: unknown): error is StructuredOutputError {
+  return error instanceof StructuredOutputError;
+}
+
+/**
+ * Type guard to check if an error is an OperationCancelledError
+ */
+export function isOperationCancelledError(error: unknown): error is OperationCancelledError {
+  return error instanceof OperationCancelledError;
+}
+
+/**
+ * Type guard to check if an error is a BudgetExceededError
+ */
+export function isBudgetExceededError(error: unknown): error is BudgetExceededError {
+  return error instanceof BudgetExceededError;
+}
+
+/**
+ * Type guard to check if an error is an UnrecordedCallError
+ */
+export function isUnrecordedCallError(error: unknown): error is UnrecordedCallError {
+  return error instanceof UnrecordedCallError;
+}
+
+/**
+ * Type guard to check if an error is a DefinitionValidationError
+ */
+export function isDefinitionValidationError(error: unknown): error is DefinitionValidationError {
+  return error instanceof DefinitionValidationError;
+}
+
+/**
+ * Type guard to check if an error is a TemplateError
+ */
+export function isTemplateError(error: unknown): error is TemplateError {
+  return error instanceof TemplateError;
+}
+
+/**
+ * Type guard to check if an error is a GuardrailViolationError
+ */
+export function isGuardrailViolationError(error: unknown): error is GuardrailViolationError {
+  return error instanceof GuardrailViolationError;
+}
+
+/**
+ * Type guard to check if an error is a CircuitOpenError
+ */
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return error instanceof CircuitOpenError;
+}
+
+/**
+ * Type guard to check if an error is a ModelCapabilityError
+ */
+export function isModelCapabilityError(error: unknown): error is ModelCapabilityError {
+  return error instanceof ModelCapabilityError;
+}
+
+/**
+ * Throw an OperationCancelledError if the signal has already been aborted
+ * Call at loop boundaries (tool iterations, retries, node scheduling)
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError(`${operation} was cancelled`, signal.reason);
+  }
+}
+
+/**
+ * Race a promise against an AbortSignal
+ * The underlying work is not interrupted; callers that can cancel it should do so themselves
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  operation: string
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new OperationCancelledError(`${operation} was cancelled`, signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new OperationCancelledError(`${operation} was cancelled`, signal.reason));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
 /**
  * Type guard to check if an error is an AstreusError
  */
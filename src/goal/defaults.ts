@@ -0,0 +1,10 @@
+/**
+ * Default configuration values for goal mode
+ */
+export const DEFAULT_GOAL_CONFIG = {
+  maxSteps: 20,
+  checkpointEvery: 1,
+  maxReplans: 3,
+  maxPlanSteps: 10, // Steps a single plan or replan may add
+  maxResultLength: 2000, // Characters of earlier step results shown to planner and steps
+} as const;
@@ -0,0 +1,483 @@
+/**
+ * Goal module - pursues a goal through planned steps, each executed as a task
+ */
+import { IAgent, ITaskMethods } from '../agent/types';
+import { Task as TaskType, TaskStatus } from '../task/types';
+import { getLLM } from '../llm';
+import { buildSchemaInstruction, resolveStructuredOutput } from '../llm/structured';
+import { LLMRequestOptions, ResponseSchema } from '../llm/types';
+import { DEFAULT_AGENT_CONFIG } from '../agent/defaults';
+import { Logger } from '../logger/types';
+import { BudgetTracker, resolveBudget } from '../budget';
+import { isBudgetExceededError, isOperationCancelledError, throwIfAborted } from '../errors';
+import { DEFAULT_GOAL_CONFIG } from './defaults';
+import {
+  GoalCheckpoint,
+  GoalProgress,
+  GoalResult,
+  GoalStep,
+  GoalStopReason,
+  PursueOptions,
+} from './types';
+
+interface GoalReview {
+  achieved: boolean;
+  answer: string;
+  steps: string[];
+}
+
+const stepsSchema: ResponseSchema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  maxItems: DEFAULT_GOAL_CONFIG.maxPlanSteps,
+};
+
+const PLAN_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: { steps: { ...stepsSchema, minItems: 1 } },
+  required: ['steps'],
+  additionalProperties: false,
+};
+
+const REVIEW_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    achieved: { type: 'boolean', description: 'Whether the goal has been reached' },
+    answer: { type: 'string', description: 'Final answer to the goal when it has been reached' },
+    steps: { ...stepsSchema, description: 'Steps still needed when it has not' },
+  },
+  required: ['achieved', 'answer', 'steps'],
+  additionalProperties: false,
+};
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+function toSteps(descriptions: string[], firstIndex: number): GoalStep[] {
+  return descriptions.map((description, offset) => ({
+    index: firstIndex + offset,
+    description: description.trim(),
+    status: 'pending' as const,
+  }));
+}
+
+function describeSteps(steps: GoalStep[]): string {
+  return steps
+    .map((step) => {
+      const line = `${step.index + 1}. [${step.status}] ${step.description}`;
+      if (step.status === 'completed' && step.result !== undefined) {
+        return `${line}\n   Result: ${truncate(step.result, DEFAULT_GOAL_CONFIG.maxResultLength)}`;
+      }
+      if (step.status === 'failed' && step.error !== undefined) {
+        return `${line}\n   Error: ${step.error}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+function readCheckpoint(task: TaskType): GoalCheckpoint | null {
+  const checkpoint = task.executionContext?.goal as GoalCheckpoint | undefined;
+  return checkpoint && Array.isArray(checkpoint.steps) ? checkpoint : null;
+}
+
+/**
+ * Runs goals as a plan of steps. The goal itself is a Task row (metadata.type 'goal') whose
+ * execution context holds the latest checkpoint; every step is a Task row of its own
+ * (metadata.type 'goal_step') executed with the agent's tools.
+ */
+export class Goal {
+  private logger: Logger;
+
+  constructor(private agent: IAgent & ITaskMethods) {
+    this.logger = agent.logger;
+  }
+
+  /**
+   * Plan the goal, execute the steps and replan after failures until a stop criterion is met
+   */
+  async pursue(goal: string, options: PursueOptions = {}): Promise<GoalResult> {
+    const task = await this.agent.createTask({
+      prompt: goal,
+      useTools: false,
+      metadata: { type: 'goal' },
+    });
+    await this.agent.updateTask(task.id, { status: 'in_progress' });
+
+    // User-facing info log
+    this.logger.info(`Pursuing goal ${task.id}`);
+
+    this.logger.debug('Goal created', {
+      goalId: task.id,
+      agentId: this.agent.id,
+      goalLength: goal.length,
+      maxSteps: options.maxSteps ?? DEFAULT_GOAL_CONFIG.maxSteps,
+      checkpointEvery: options.checkpointEvery ?? DEFAULT_GOAL_CONFIG.checkpointEvery,
+    });
+
+    return this.run({ goalId: task.id, goal, steps: [], stepsRun: 0, replans: 0 }, options);
+  }
+
+  /**
+   * Continue a goal from its last checkpoint; steps after it run again.
+   * Finished goals return their stored result without running anything.
+   */
+  async resume(goalId: string, options: PursueOptions = {}): Promise<GoalResult> {
+    const task = await this.agent.getTask(goalId);
+    if (!task || task.metadata?.type !== 'goal') {
+      throw new Error(`Goal not found: ${goalId}`);
+    }
+
+    const checkpoint = readCheckpoint(task);
+    const progress: GoalProgress = {
+      goalId,
+      goal: task.prompt,
+      steps: checkpoint?.steps ?? [],
+      stepsRun: checkpoint?.stepsRun ?? 0,
+      replans: checkpoint?.replans ?? 0,
+    };
+
+    if (checkpoint?.stopReason) {
+      return this.toResult(progress, checkpoint.stopReason, checkpoint.answer ?? '');
+    }
+
+    // User-facing info log
+    this.logger.info(`Resuming goal ${goalId}`);
+
+    this.logger.debug('Goal resumed', {
+      goalId,
+      previousStatus: task.status,
+      stepsRun: progress.stepsRun,
+      pendingSteps: progress.steps.filter((step) => step.status === 'pending').length,
+    });
+
+    await this.agent.updateTask(goalId, { status: 'in_progress' });
+    return this.run(progress, options);
+  }
+
+  /**
+   * Progress of a goal as of its last checkpoint
+   */
+  async getProgress(goalId: string): Promise<GoalProgress | null> {
+    const task = await this.agent.getTask(goalId);
+    if (!task || task.metadata?.type !== 'goal') {
+      return null;
+    }
+    const checkpoint = readCheckpoint(task);
+    return {
+      goalId,
+      goal: task.prompt,
+      steps: checkpoint?.steps ?? [],
+      stepsRun: checkpoint?.stepsRun ?? 0,
+      replans: checkpoint?.replans ?? 0,
+    };
+  }
+
+  private async run(progress: GoalProgress, options: PursueOptions): Promise<GoalResult> {
+    const budget = resolveBudget(options.budget);
+    const maxSteps = options.maxSteps ?? DEFAULT_GOAL_CONFIG.maxSteps;
+    const maxReplans = options.maxReplans ?? DEFAULT_GOAL_CONFIG.maxReplans;
+    const checkpointEvery = Math.max(
+      1,
+      options.checkpointEvery ?? DEFAULT_GOAL_CONFIG.checkpointEvery
+    );
+    let stopReason: GoalStopReason | undefined;
+    let answer: string | undefined;
+
+    try {
+      if (progress.steps.length === 0) {
+        progress.steps = toSteps(await this.plan(progress.goal, options, budget), 0);
+        await this.checkpoint(progress);
+      }
+
+      while (!stopReason) {
+        throwIfAborted(options.signal, 'Goal');
+
+        const step = progress.steps.find((candidate) => candidate.status === 'pending');
+        if (!step) {
+          // Plan exhausted: either the goal is reached or the reviewer extends the plan
+          const review = await this.review(progress, options, budget);
+          if (review.achieved || review.steps.length === 0) {
+            stopReason = review.achieved ? 'achieved' : 'failed';
+            answer = review.answer;
+          } else {
+            progress.steps.push(...toSteps(review.steps, progress.steps.length));
+          }
+          continue;
+        }
+
+        if (progress.stepsRun >= maxSteps) {
+          stopReason = 'max_steps';
+          break;
+        }
+
+        await this.executeStep(step, progress, options, budget);
+        options.onStep?.(step, progress);
+
+        if (step.status === 'failed') {
+          if (progress.replans >= maxReplans) {
+            stopReason = 'failed';
+          } else {
+            // Reflect on the failure and replace the rest of the plan
+            progress.replans++;
+            const review = await this.review(progress, options, budget, step);
+            if (review.achieved) {
+              stopReason = 'achieved';
+              answer = review.answer;
+            } else if (review.steps.length === 0) {
+              stopReason = 'failed';
+            } else {
+              const executed = progress.steps.filter((candidate) => candidate.status !== 'pending');
+              progress.steps = [...executed, ...toSteps(review.steps, executed.length)];
+            }
+          }
+        }
+
+        if (!stopReason && options.stopWhen && (await options.stopWhen(progress))) {
+          stopReason = 'stop_condition';
+        }
+
+        if (!stopReason && progress.stepsRun % checkpointEvery === 0) {
+          await this.checkpoint(progress);
+        }
+      }
+    } catch (error) {
+      if (!isBudgetExceededError(error)) {
+        // Keep the progress so the goal can be resumed
+        const status: TaskStatus = isOperationCancelledError(error) ? 'cancelled' : 'failed';
+        await this.checkpoint(progress, status);
+
+        this.logger.debug('Goal interrupted', {
+          goalId: progress.goalId,
+          status,
+          stepsRun: progress.stepsRun,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+      stopReason = 'budget';
+    }
+
+    return this.finish(progress, stopReason, answer);
+  }
+
+  private async plan(
+    goal: string,
+    options: PursueOptions,
+    budget: BudgetTracker | undefined
+  ): Promise<string[]> {
+    const prompt = [
+      `Goal: ${goal}`,
+      '',
+      `Break the goal into at most ${DEFAULT_GOAL_CONFIG.maxPlanSteps} concrete steps, in order.`,
+      'Each step is done in one go, with tools where needed, and sees the results of the earlier steps.',
+    ].join('\n');
+
+    const { steps } = await this.decide<{ steps: string[] }>(prompt, PLAN_SCHEMA, options, budget);
+
+    this.logger.debug('Goal planned', { stepCount: steps.length });
+    return steps;
+  }
+
+  /**
+   * Judge the progress: reached, or which steps remain. After a failure the remaining plan
+   * is revised instead.
+   */
+  private async review(
+    progress: GoalProgress,
+    options: PursueOptions,
+    budget: BudgetTracker | undefined,
+    failed?: GoalStep
+  ): Promise<GoalReview> {
+    const prompt = [
+      `Goal: ${progress.goal}`,
+      '',
+      'Steps so far:',
+      describeSteps(progress.steps),
+      '',
+      failed
+        ? `Step ${failed.index + 1} failed. Reflect on why, then list the steps that should replace the pending ones. Do not repeat the failed step unchanged.`
+        : 'All planned steps are done. Decide whether the goal has been reached.',
+      'If it has, set achieved to true, put the final answer to the goal in answer and leave steps empty.',
+      `Otherwise set achieved to false, leave answer empty and list at most ${DEFAULT_GOAL_CONFIG.maxPlanSteps} remaining steps.`,
+    ].join('\n');
+
+    const review = await this.decide<GoalReview>(prompt, REVIEW_SCHEMA, options, budget);
+
+    this.logger.debug('Goal reviewed', {
+      goalId: progress.goalId,
+      afterFailure: !!failed,
+      achieved: review.achieved,
+      stepCount: review.steps.length,
+    });
+    return review;
+  }
+
+  /**
+   * Planner and reviewer prompts go to the model directly: they are the goal's bookkeeping,
+   * not turns of the agent's conversation
+   */
+  private async decide<T>(
+    prompt: string,
+    schema: ResponseSchema,
+    options: PursueOptions,
+    budget: BudgetTracker | undefined
+  ): Promise<T> {
+    const { config } = this.agent;
+    const llm = getLLM(this.logger);
+    const request: LLMRequestOptions = {
+      model: options.model ?? config.model ?? DEFAULT_AGENT_CONFIG.model,
+      systemPrompt: [config.systemPrompt, buildSchemaInstruction(schema)]
+        .filter(Boolean)
+        .join('\n\n'),
+      messages: [{ role: 'user', content: prompt }],
+      temperature: config.temperature ?? DEFAULT_AGENT_CONFIG.temperature,
+      maxTokens: config.maxTokens ?? DEFAULT_AGENT_CONFIG.maxTokens,
+      responseFormat: { type: 'json', schema },
+      signal: options.signal,
+      budget: resolveBudget(budget, config.budget),
+      fallbackModels: config.fallbackModels,
+    };
+
+    const response = await llm.generateResponse(request);
+    const structured = await resolveStructuredOutput<T>(llm, request, response.content, {
+      schema,
+      logger: this.logger,
+    });
+    return structured.data;
+  }
+
+  /**
+   * Run a step as its own task. Failures mark the step failed; cancellation puts it back to
+   * pending and budget errors end the goal, both by rethrowing.
+   */
+  private async executeStep(
+    step: GoalStep,
+    progress: GoalProgress,
+    options: PursueOptions,
+    budget: BudgetTracker | undefined
+  ): Promise<void> {
+    const earlier = progress.steps.filter((candidate) => candidate.status === 'completed');
+    const prompt = [
+      `You are working toward this goal: ${progress.goal}`,
+      ...(earlier.length > 0 ? ['', 'Results of earlier steps:', describeSteps(earlier)] : []),
+      '',
+      `Current step: ${step.description}`,
+      'Do this step and report its result.',
+    ].join('\n');
+
+    const task = await this.agent.createTask({
+      prompt,
+      useTools: options.useTools ?? true,
+      metadata: { type: 'goal_step', goalId: progress.goalId, step: step.index },
+    });
+    step.taskId = task.id;
+
+    // User-facing info log
+    this.logger.info(`Goal step ${step.index + 1}: ${truncate(step.description, 80)}`);
+
+    try {
+      const result = await this.agent.executeTask(task.id, {
+        model: options.model,
+        signal: options.signal,
+        budget,
+        approveToolCall: options.approveToolCall,
+        toolApproval: options.toolApproval,
+      });
+      step.status = 'completed';
+      step.result = result.response;
+      delete step.error;
+    } catch (error) {
+      if (isOperationCancelledError(error)) {
+        step.status = 'pending';
+        throw error;
+      }
+      step.status = 'failed';
+      step.error = error instanceof Error ? error.message : String(error);
+      if (isBudgetExceededError(error)) {
+        progress.stepsRun++;
+        progress.lastStep = step;
+        throw error;
+      }
+    }
+
+    progress.stepsRun++;
+    progress.lastStep = step;
+
+    this.logger.debug('Goal step finished', {
+      goalId: progress.goalId,
+      step: step.index,
+      taskId: task.id,
+      status: step.status,
+      error: step.error ?? null,
+    });
+  }
+
+  /**
+   * Save the progress in the goal row, optionally with a new status
+   */
+  private async checkpoint(progress: GoalProgress, status?: TaskStatus): Promise<void> {
+    const checkpoint: GoalCheckpoint = {
+      steps: progress.steps,
+      stepsRun: progress.stepsRun,
+      replans: progress.replans,
+      checkpointAt: new Date().toISOString(),
+    };
+    await this.agent.updateTask(progress.goalId, {
+      executionContext: { goal: checkpoint },
+      ...(status && { status }),
+    });
+  }
+
+  private async finish(
+    progress: GoalProgress,
+    stopReason: GoalStopReason,
+    answer: string | undefined
+  ): Promise<GoalResult> {
+    const lastResult = [...progress.steps]
+      .reverse()
+      .find((step) => step.status === 'completed')?.result;
+    const result = this.toResult(progress, stopReason, answer || lastResult || '');
+
+    const checkpoint: GoalCheckpoint = {
+      steps: progress.steps,
+      stepsRun: progress.stepsRun,
+      replans: progress.replans,
+      checkpointAt: new Date().toISOString(),
+      stopReason,
+      answer: result.answer,
+    };
+    await this.agent.updateTask(progress.goalId, {
+      response: result.answer,
+      status: stopReason === 'achieved' || stopReason === 'stop_condition' ? 'completed' : 'failed',
+      completedAt: new Date(),
+      executionContext: { goal: checkpoint },
+    });
+
+    // User-facing info log
+    this.logger.info(`Goal ${progress.goalId} finished: ${stopReason}`);
+
+    this.logger.debug('Goal finished', {
+      goalId: progress.goalId,
+      stopReason,
+      stepsRun: progress.stepsRun,
+      replans: progress.replans,
+      answerLength: result.answer.length,
+    });
+    return result;
+  }
+
+  private toResult(progress: GoalProgress, stopReason: GoalStopReason, answer: string): GoalResult {
+    return {
+      goalId: progress.goalId,
+      goal: progress.goal,
+      achieved: stopReason === 'achieved',
+      stopReason,
+      answer,
+      steps: progress.steps,
+      stepsRun: progress.stepsRun,
+      replans: progress.replans,
+    };
+  }
+}
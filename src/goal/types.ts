@@ -0,0 +1,74 @@
+import { BudgetLimits } from '../budget/types';
+import { BudgetTracker } from '../budget';
+import { ToolApprovalSettings } from '../plugin/types';
+
+export type GoalStepStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * One planned step of a goal; executed steps have the id of their Task row
+ */
+export interface GoalStep {
+  index: number; // Position in execution order, 0-based
+  description: string;
+  status: GoalStepStatus;
+  taskId?: string; // UUID
+  result?: string; // Response of the step's task
+  error?: string; // Why the step failed
+}
+
+/**
+ * Why pursue() stopped
+ * - achieved: the reviewer judged the goal reached
+ * - stop_condition: stopWhen returned true
+ * - max_steps: maxSteps steps were executed
+ * - budget: the budget ran out
+ * - failed: a step failed after the last replan allowed
+ */
+export type GoalStopReason = 'achieved' | 'stop_condition' | 'max_steps' | 'budget' | 'failed';
+
+/**
+ * Progress of a goal, as passed to stopWhen and saved in checkpoints
+ */
+export interface GoalProgress {
+  goalId: string; // UUID of the goal's Task row
+  goal: string;
+  steps: GoalStep[]; // Executed steps first, then the pending plan
+  stepsRun: number; // Executed steps, including failed ones and runs before a resume
+  replans: number;
+  lastStep?: GoalStep;
+}
+
+export interface PursueOptions extends ToolApprovalSettings {
+  maxSteps?: number; // Executed steps before giving up (default: 20)
+  stopWhen?: (progress: GoalProgress) => boolean | Promise<boolean>; // Checked after every step
+  checkpointEvery?: number; // Steps between progress saves; later steps re-run on resume (default: 1)
+  maxReplans?: number; // Replans after failed steps before giving up (default: 3)
+  useTools?: boolean; // Let steps call the agent's tools (default: true)
+  model?: string; // Model for planning, reviews and steps (default: the agent's)
+  signal?: AbortSignal; // Cancels the step in progress; the goal ends with status 'cancelled'
+  budget?: BudgetLimits | BudgetTracker; // Limits over the whole goal, all steps and plans included
+  onStep?: (step: GoalStep, progress: GoalProgress) => void; // Called when a step finishes
+}
+
+export interface GoalResult {
+  goalId: string; // UUID of the goal's Task row
+  goal: string;
+  achieved: boolean;
+  stopReason: GoalStopReason;
+  answer: string; // Reviewer's answer, or the last step result when stopped early
+  steps: GoalStep[];
+  stepsRun: number;
+  replans: number;
+}
+
+/**
+ * Progress saved in the goal row's execution context
+ */
+export interface GoalCheckpoint {
+  steps: GoalStep[];
+  stepsRun: number;
+  replans: number;
+  checkpointAt: string; // ISO timestamp
+  stopReason?: GoalStopReason; // Set once the goal finished
+  answer?: string;
+}
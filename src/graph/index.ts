@@ -5,7 +5,17 @@ import { Task } from '../task';
 import { Memory } from '../memory';
 import { getGraphStorage } from './storage';
 import { Logger, LogData } from '../logger/types';
-import { GraphNodeError } from '../errors';
+import {
+  BudgetExceededError,
+  GraphNodeError,
+  isBudgetExceededError,
+  isOperationCancelledError,
+  throwIfAborted,
+} from '../errors';
+import { BudgetTracker, resolveBudget } from '../budget';
+import { getTemplateRegistry, isTemplateLike, renderTemplate } from '../template';
+import { TemplateVariables } from '../template/types';
+import { MetadataObject } from '../types';
 import {
   Graph as GraphType,
   GraphConfig,
@@ -19,6 +29,7 @@ import {
   GraphSchedulingOptions,
   GraphUsage,
   NodeUsage,
+  GraphResultValue,
   GraphStateChangeEvent,
   GraphStateChangeCallback,
 } from './types';
@@ -29,6 +40,7 @@ interface TaskExecutionResult {
   type: 'task';
   taskId: string; // UUID
   response: string;
+  output?: unknown; // Parsed structured output when the node has a responseSchema
   model?: string;
   usage?: {
     promptTokens: number;
@@ -49,6 +61,18 @@ interface AgentExecutionResult {
 
 type NodeExecutionResult = TaskExecutionResult | AgentExecutionResult;
 
+/**
+ * Template a task node's prompt comes from, stored in node metadata as metadata.template
+ * Variables are kept as JSON, so dates are stored as ISO strings.
+ */
+function templateMetadata(
+  name: string,
+  version: number | undefined,
+  variables: TemplateVariables | undefined
+): MetadataObject {
+  return JSON.parse(JSON.stringify({ name, version, variables })) as MetadataObject;
+}
+
 export class Graph implements IAgentModule {
   readonly name = 'graph';
   private knex: Knex | null = null;
@@ -114,6 +138,33 @@ export class Graph implements IAgentModule {
     }
   }
 
+  /**
+   * Render task nodes that reference a stored template and have no prompt yet
+   * Runs before any node starts, so a missing template or variable fails the run up front.
+   * The version used is recorded, so later runs of this graph keep the same prompt.
+   */
+  private async renderStoredTemplates(): Promise<void> {
+    const registry = getTemplateRegistry();
+
+    for (const node of this.graph.nodes) {
+      const reference = node.metadata?.template as
+        | { name?: string; version?: number; variables?: TemplateVariables }
+        | undefined;
+      if (node.type !== 'task' || node.prompt || typeof reference?.name !== 'string') {
+        continue;
+      }
+
+      const template = await registry.load(reference.name, reference.version);
+      node.prompt = await registry.renderTemplate(template, reference.variables ?? {});
+      node.metadata = {
+        ...node.metadata,
+        template: templateMetadata(template.name!, template.version, reference.variables),
+      };
+      node.updatedAt = new Date();
+      this.log('debug', `Rendered template ${template.name} v${template.version}`, node.id);
+    }
+  }
+
   /**
    * Register a callback for graph state change events
    * This allows Agent to track state changes during graph execution
@@ -203,7 +254,7 @@ export class Graph implements IAgentModule {
     const node: GraphNode = {
       id: nodeId,
       type: 'agent',
-      name: `Agent-${options.agentId}`,
+      name: options.name || `Agent-${options.agentId}`,
       agentId: options.agentId,
       status: 'pending',
       priority: options.priority ?? 0,
@@ -235,9 +286,35 @@ export class Graph implements IAgentModule {
   }
 
   addTaskNode(options: AddTaskNodeOptions): string {
+    // Templates render here so missing variables fail now; stored ones render when the graph runs
+    let prompt = options.prompt;
+    let template: MetadataObject | undefined;
+    if (options.template !== undefined) {
+      if (options.prompt) {
+        throw new Error('Task nodes take either a prompt or a template, not both');
+      }
+      if (isTemplateLike(options.template)) {
+        prompt = options.template.render(options.variables ?? {});
+        // Only templates loaded from the registry carry a version that can be referenced again
+        if (options.template.name && options.template.version !== undefined) {
+          template = templateMetadata(
+            options.template.name,
+            options.template.version,
+            options.variables
+          );
+        }
+      } else {
+        const reference =
+          typeof options.template === 'string' ? { name: options.template } : options.template;
+        template = templateMetadata(reference.name, reference.version, options.variables);
+      }
+    } else if (prompt && options.variables) {
+      prompt = renderTemplate(prompt, options.variables);
+    }
+
     // Validate prompt is provided
-    if (!options.prompt || options.prompt.trim() === '') {
-      throw new Error('prompt is required for task nodes');
+    if (!template && (!prompt || prompt.trim() === '')) {
+      throw new Error('prompt or template is required for task nodes');
     }
 
     const nodeId = this.generateNodeId();
@@ -299,7 +376,7 @@ export class Graph implements IAgentModule {
       id: nodeId,
       type: 'task',
       name: options.name || `Task-${nodeId.split('_')[1]}-${nodeId.split('_')[2]}`,
-      prompt: options.prompt,
+      prompt,
       model: options.model,
       stream: options.stream,
       agentId,
@@ -307,6 +384,9 @@ export class Graph implements IAgentModule {
       useSubAgents: options.useSubAgents,
       subAgentDelegation: options.subAgentDelegation,
       subAgentCoordination: options.subAgentCoordination,
+      // Structured output options
+      responseSchema: options.responseSchema,
+      schemaRetries: options.schemaRetries,
       status: 'pending',
       priority: options.priority ?? 0,
       dependencies,
@@ -314,6 +394,7 @@ export class Graph implements IAgentModule {
       metadata: {
         ...options.metadata,
         ...(options.name ? { name: options.name } : {}),
+        ...(template ? { template } : {}),
       },
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -338,7 +419,7 @@ export class Graph implements IAgentModule {
     const scheduleInfo = options.schedule ? ` (scheduled: ${options.schedule})` : '';
     this.log(
       'debug',
-      `Added task node: ${node.name} (prompt: "${options.prompt.slice(0, 50)}...")${scheduleInfo}`,
+      `Added task node: ${node.name} (${prompt ? `prompt: "${prompt.slice(0, 50)}..."` : `template: ${template?.name}`})${scheduleInfo}`,
       nodeId
     );
 
@@ -403,13 +484,16 @@ export class Graph implements IAgentModule {
    * Acquire the execution lock, waiting if another execution is in progress
    * Returns a release function to be called when execution is complete
    * @param timeout - Maximum time to wait for lock acquisition (default: 30000ms)
+   * @param signal - Stops waiting when aborted
    * @throws Error if lock acquisition times out
+   * @throws OperationCancelledError if the signal is aborted while waiting
    */
-  private async acquireLock(timeout = 30000): Promise<() => void> {
+  private async acquireLock(timeout = 30000, signal?: AbortSignal): Promise<() => void> {
     const startTime = Date.now();
 
     // Wait for any existing execution to complete with timeout
     while (this.executionLock) {
+      throwIfAborted(signal, 'Graph execution');
       if (Date.now() - startTime > timeout) {
         throw new Error(`Lock acquisition timeout after ${timeout}ms - possible deadlock detected`);
       }
@@ -473,7 +557,7 @@ export class Graph implements IAgentModule {
     } & GraphSchedulingOptions
   ): Promise<GraphExecutionResult> {
     // Acquire Promise-based lock - prevents concurrent execution race conditions
-    const release = await this.acquireLock();
+    const release = await this.acquireLock(undefined, options?.signal);
 
     try {
       return await this.executeGraph(options);
@@ -497,6 +581,7 @@ export class Graph implements IAgentModule {
     } & GraphSchedulingOptions
   ): Promise<GraphExecutionResult> {
     await this.initialize();
+    await this.renderStoredTemplates();
 
     // Clear previous execution state
     this.clearExecutionState();
@@ -531,6 +616,13 @@ export class Graph implements IAgentModule {
     const errors: Record<string, string> = {};
     let completedNodes = 0;
     let failedNodes = 0;
+    let cancelledNodes = 0;
+    const signal = options?.signal;
+
+    // One budget for the whole run; once it is exceeded no new nodes start
+    const budget = resolveBudget(options?.budget, this.graph.config.budget);
+    let budgetError: BudgetExceededError | undefined;
+    const shouldStop = () => !!signal?.aborted || budgetError !== undefined;
 
     // Default scheduling options with timeout support
     // SubAgent nodes need longer timeout (5 minutes) vs regular nodes (1 minute)
@@ -588,6 +680,33 @@ export class Graph implements IAgentModule {
       const executing = new Set<string>();
       let currentIndex = 0;
 
+      // Running nodes see the abort through their task and settle here instead of failing
+      const markNodeCancelled = async (node: GraphNode, errorMessage: string) => {
+        node.status = 'cancelled';
+        node.error = errorMessage;
+        cancelledNodes++;
+        executing.delete(node.id);
+        this.log('warn', `Node ${node.name} cancelled`, node.id);
+
+        try {
+          await this.notifyStateChange({
+            type: 'node_cancelled',
+            nodeId: node.id,
+            nodeName: node.name,
+            graphId: this.graph.id,
+            status: 'cancelled',
+            error: errorMessage,
+            timestamp: new Date(),
+          });
+        } catch (notifyError) {
+          this.log(
+            'warn',
+            `Failed to notify state change for cancelled node ${node.name}: ${notifyError instanceof Error ? notifyError.message : 'Unknown error'}`,
+            node.id
+          );
+        }
+      };
+
       // Find the last PENDING node for streaming (skip already completed nodes)
       const pendingNodes = sortedNodes.filter((n) => n.status !== 'completed');
       const lastNode = pendingNodes[pendingNodes.length - 1];
@@ -604,8 +723,20 @@ export class Graph implements IAgentModule {
           iterations < MAX_ITERATIONS
         ) {
           iterations++;
+
+          budgetError ??= budget?.getExceededError(`graph ${this.graph.config.name}`, true);
+
+          // Once cancelled or over budget, only wait for the running nodes to settle
+          if (shouldStop() && executing.size === 0) {
+            break;
+          }
+
           // Start new nodes if we have capacity
-          while (executing.size < maxConcurrency && currentIndex < sortedNodes.length) {
+          while (
+            !shouldStop() &&
+            executing.size < maxConcurrency &&
+            currentIndex < sortedNodes.length
+          ) {
             const node = sortedNodes[currentIndex];
 
             // Skip already completed nodes
@@ -669,7 +800,7 @@ export class Graph implements IAgentModule {
 
               // Special handling for last node with streaming
               if (shouldStreamLastNode && node.id === lastNode.id) {
-                this.executeNode(node, true, options?.onChunk, options?.onToolCall) // Pass stream=true and onChunk for last node
+                this.executeNode(node, true, options?.onChunk, options?.onToolCall, signal, budget) // Pass stream=true and onChunk for last node
                   .then(async (result) => {
                     const timeoutId = this.activeNodeTimeouts.get(node.id);
                     if (timeoutId) {
@@ -678,7 +809,7 @@ export class Graph implements IAgentModule {
                     }
                     results[node.id] = result;
                     node.status = 'completed';
-                    node.result = JSON.stringify(result);
+                    node.result = this.toNodeResult(result);
 
                     // Track usage for task nodes
                     if (result.type === 'task' && result.usage) {
@@ -725,6 +856,13 @@ export class Graph implements IAgentModule {
                       this.activeNodeTimeouts.delete(node.id);
                     }
                     const errorMessage = error instanceof Error ? error.message : String(error);
+                    if (isOperationCancelledError(error)) {
+                      await markNodeCancelled(node, errorMessage);
+                      return;
+                    }
+                    if (isBudgetExceededError(error)) {
+                      budgetError ??= error;
+                    }
                     errors[node.id] = errorMessage;
                     node.status = 'failed';
                     node.error = errorMessage;
@@ -752,7 +890,7 @@ export class Graph implements IAgentModule {
                     }
                   });
               } else {
-                this.executeNode(node, false, options?.onChunk, options?.onToolCall)
+                this.executeNode(node, false, options?.onChunk, options?.onToolCall, signal, budget)
                   .then(async (result) => {
                     const timeoutId = this.activeNodeTimeouts.get(node.id);
                     if (timeoutId) {
@@ -761,7 +899,7 @@ export class Graph implements IAgentModule {
                     }
                     results[node.id] = result;
                     node.status = 'completed';
-                    node.result = JSON.stringify(result);
+                    node.result = this.toNodeResult(result);
 
                     // Track usage for task nodes
                     if (result.type === 'task' && result.usage) {
@@ -808,6 +946,13 @@ export class Graph implements IAgentModule {
                       this.activeNodeTimeouts.delete(node.id);
                     }
                     const errorMessage = error instanceof Error ? error.message : String(error);
+                    if (isOperationCancelledError(error)) {
+                      await markNodeCancelled(node, errorMessage);
+                      return;
+                    }
+                    if (isBudgetExceededError(error)) {
+                      budgetError ??= error;
+                    }
                     errors[node.id] = errorMessage;
                     node.status = 'failed';
                     node.error = errorMessage;
@@ -889,7 +1034,27 @@ export class Graph implements IAgentModule {
       // Mark timeout as resolved to prevent memory leak from pending promise
       markTimeoutResolved();
 
-      this.graph.status = failedNodes > 0 ? 'failed' : 'completed';
+      if (signal?.aborted) {
+        // Nodes that never started are cancelled too
+        for (const node of sortedNodes) {
+          if (node.status === 'pending' || node.status === 'scheduled') {
+            node.status = 'cancelled';
+            cancelledNodes++;
+          }
+        }
+        this.graph.status = 'cancelled';
+      } else if (budgetError) {
+        // Nodes that never started are skipped; the run ends as failed
+        for (const node of sortedNodes) {
+          if (node.status === 'pending' || node.status === 'scheduled') {
+            node.status = 'skipped';
+          }
+        }
+        this.graph.status = 'failed';
+        this.log('warn', `Graph execution stopped: ${budgetError.message}`);
+      } else {
+        this.graph.status = failedNodes > 0 ? 'failed' : 'completed';
+      }
     } catch (error) {
       // Mark timeout as resolved even on error to prevent memory leak
       markTimeoutResolved();
@@ -922,30 +1087,46 @@ export class Graph implements IAgentModule {
 
     this.log(
       'info',
-      `Graph execution ${this.graph.status}. Completed: ${completedNodes}, Failed: ${failedNodes}, Tokens: ${usage.totalTokens} (${duration}ms)`
+      `Graph execution ${this.graph.status}. Completed: ${completedNodes}, Failed: ${failedNodes}, Cancelled: ${cancelledNodes}, Tokens: ${usage.totalTokens} (${duration}ms)`
     );
 
     // Persist updated graph state (node statuses) to database
     await this.update();
 
-    // Notify state change: graph completed or failed
+    // Notify state change: graph completed, failed or cancelled
     await this.notifyStateChange({
-      type: this.graph.status === 'completed' ? 'graph_completed' : 'graph_failed',
+      type:
+        this.graph.status === 'completed'
+          ? 'graph_completed'
+          : this.graph.status === 'cancelled'
+            ? 'graph_cancelled'
+            : 'graph_failed',
       graphId: this.graph.id,
       status: this.graph.status,
       timestamp: new Date(),
     });
 
-    return {
+    const executionResult: GraphExecutionResult = {
       graph: this.graph,
       success: this.graph.status === 'completed',
       completedNodes,
       failedNodes,
+      cancelledNodes,
       duration,
-      results: Object.fromEntries(Object.entries(results).map(([k, v]) => [k, JSON.stringify(v)])),
+      results: Object.fromEntries(
+        Object.entries(results).map(([k, v]) => [k, this.toNodeResult(v)])
+      ),
       errors,
       usage,
     };
+
+    if (budgetError) {
+      // The graph result (completed node results included) is the partial result
+      budgetError.partialResult = executionResult;
+      throw budgetError;
+    }
+
+    return executionResult;
   }
 
   /**
@@ -1046,8 +1227,11 @@ export class Graph implements IAgentModule {
       args: Record<string, unknown>,
       status: 'start' | 'end',
       result?: string
-    ) => void
+    ) => void,
+    signal?: AbortSignal,
+    budget?: BudgetTracker
   ): Promise<NodeExecutionResult> {
+    throwIfAborted(signal, `Node ${node.name}`);
     this.log('info', `Executing node ${node.name}`, node.id);
     node.status = 'running';
     node.updatedAt = new Date();
@@ -1193,6 +1377,8 @@ export class Graph implements IAgentModule {
                 : this.graph.config.subAgentCoordination) ||
               'sequential',
           },
+          responseSchema: node.responseSchema,
+          schemaRetries: node.schemaRetries,
         });
 
         if (!createdTask.id) {
@@ -1212,12 +1398,15 @@ export class Graph implements IAgentModule {
             stream: forceStream || node.stream,
             onChunk,
             onToolCall,
+            signal,
+            budget,
           });
 
           return {
             type: 'task',
             taskId: createdTask.id,
             response: taskResponse.response,
+            output: taskResponse.output,
             model: taskResponse.model,
             usage: taskResponse.usage,
             subAgentUsed: true,
@@ -1225,6 +1414,9 @@ export class Graph implements IAgentModule {
             coordinationPattern: node.subAgentCoordination ?? 'sequential',
           };
         } catch (execError) {
+          if (isOperationCancelledError(execError) || isBudgetExceededError(execError)) {
+            throw execError;
+          }
           throw new GraphNodeError(
             `Task execution failed for node ${node.name}: ${execError instanceof Error ? execError.message : String(execError)}`,
             node.id,
@@ -1245,6 +1437,8 @@ export class Graph implements IAgentModule {
           graphId: this.graph.id, // Link task to graph (UUID)
           graphNodeId: node.id, // Node ID (string)
           metadata: node.metadata,
+          responseSchema: node.responseSchema,
+          schemaRetries: node.schemaRetries,
         });
 
         if (!createdTask.id) {
@@ -1267,16 +1461,22 @@ export class Graph implements IAgentModule {
             stream: forceStream || node.stream,
             onChunk,
             onToolCall,
+            signal,
+            budget,
           });
 
           return {
             type: 'task',
             taskId: createdTask.id,
             response: taskResponse.response,
+            output: taskResponse.output,
             model: taskResponse.model,
             usage: taskResponse.usage,
           };
         } catch (execError) {
+          if (isOperationCancelledError(execError) || isBudgetExceededError(execError)) {
+            throw execError;
+          }
           throw new GraphNodeError(
             `Task execution failed for node ${node.name}: ${execError instanceof Error ? execError.message : String(execError)}`,
             node.id,
@@ -1375,7 +1575,11 @@ export class Graph implements IAgentModule {
     // Add completed node summaries
     const completedSummaries = completedNodes.map((node) => {
       let summary = `- ${node.name}: ${node.status}`;
-      if (node.result) {
+      if (node.result && typeof node.result === 'object' && !(node.result instanceof Date)) {
+        // Structured output is stored as the parsed object itself
+        const structured = JSON.stringify(node.result);
+        summary += ` (Result: ${structured.length > 150 ? structured.substring(0, 150) + '...' : structured})`;
+      } else if (node.result) {
         try {
           const result = JSON.parse(String(node.result));
           if (result.response) {
@@ -1593,6 +1797,17 @@ export class Graph implements IAgentModule {
     }
   }
 
+  /**
+   * Convert an execution result into the value stored on the node.
+   * Structured task output is kept as a real object; everything else is serialized.
+   */
+  private toNodeResult(result: NodeExecutionResult): GraphResultValue {
+    if (result.type === 'task' && result.output !== undefined) {
+      return result.output as GraphResultValue;
+    }
+    return JSON.stringify(result);
+  }
+
   private generateNodeId(): string {
     return `node_${crypto.randomUUID()}`;
   }
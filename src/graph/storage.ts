@@ -1,12 +1,83 @@
 import { Knex } from 'knex';
 import crypto from 'crypto';
 import { getDatabase, Database } from '../database/index';
-import { Graph, GraphNode, GraphEdge } from './types';
+import { Graph, GraphNode, GraphEdge, GraphResultValue } from './types';
+import { ResponseSchema } from '../llm/types';
+import { BudgetLimits } from '../budget/types';
 import { encryptSensitiveFields, decryptSensitiveFields } from '../database/utils';
 import { Logger } from '../logger/types';
 import { getLogger } from '../logger';
 import { MetadataObject } from '../types';
 
+// Allowed values of the status enum columns
+const GRAPH_STATUSES = ['idle', 'running', 'completed', 'failed', 'paused', 'cancelled'];
+const NODE_STATUSES = [
+  'pending',
+  'running',
+  'completed',
+  'failed',
+  'skipped',
+  'scheduled',
+  'cancelled',
+];
+
+/**
+ * Serialize a node result for the TEXT result column.
+ * Plain string results are stored as-is; structured results are stored as JSON.
+ */
+function serializeNodeResult(result: GraphResultValue | undefined): string | null {
+  if (result === undefined || result === null || result === '') {
+    return null;
+  }
+  return typeof result === 'string' ? result : JSON.stringify(result);
+}
+
+/**
+ * Restore structured output fields of a node row.
+ * Results of nodes with a responseSchema are parsed back into objects.
+ */
+function parseStructuredNode(
+  result: string | undefined,
+  rawSchema: unknown,
+  rawRetries: unknown
+): Pick<GraphNode, 'result' | 'responseSchema' | 'schemaRetries'> {
+  let responseSchema: ResponseSchema | undefined;
+  if (rawSchema && typeof rawSchema === 'object') {
+    // Already parsed by DB driver (PostgreSQL/Knex behavior)
+    responseSchema = rawSchema as ResponseSchema;
+  } else if (typeof rawSchema === 'string' && rawSchema !== '') {
+    responseSchema = JSON.parse(rawSchema) as ResponseSchema;
+  }
+
+  let parsedResult: GraphResultValue | undefined = result ?? undefined;
+  if (responseSchema && result) {
+    try {
+      parsedResult = JSON.parse(result) as GraphResultValue;
+    } catch {
+      // Result was stored before the node finished validation - keep the raw text
+    }
+  }
+
+  return {
+    result: parsedResult,
+    responseSchema,
+    schemaRetries: typeof rawRetries === 'number' ? rawRetries : undefined,
+  };
+}
+
+/**
+ * Restore the budget column, stored as JSON text on SQLite and parsed by the driver on PostgreSQL
+ */
+function parseBudget(rawBudget: unknown): BudgetLimits | undefined {
+  if (rawBudget && typeof rawBudget === 'object') {
+    return rawBudget as BudgetLimits;
+  }
+  if (typeof rawBudget === 'string' && rawBudget !== '') {
+    return JSON.parse(rawBudget) as BudgetLimits;
+  }
+  return undefined;
+}
+
 export class GraphStorage {
   private knex: Knex | null = null;
   private db: Database | null = null;
@@ -74,13 +145,23 @@ export class GraphStorage {
         table.integer('retryAttempts').defaultTo(0);
         table.boolean('autoLink').defaultTo(false);
         table.json('metadata').nullable();
-        table.enu('status', ['idle', 'running', 'completed', 'failed', 'paused']).defaultTo('idle');
+        table.json('budget').nullable(); // Run budget limits
+        table.enu('status', GRAPH_STATUSES).defaultTo('idle');
         table.timestamp('startedAt').nullable();
         table.timestamp('completedAt').nullable();
         table.timestamps(true, true);
         table.index(['defaultAgentId']);
         table.index(['status']);
       });
+    } else {
+      await db.ensureEnumValues('graphs', 'status', GRAPH_STATUSES, 'idle');
+
+      const hasBudget = await knex.schema.hasColumn('graphs', 'budget');
+      if (!hasBudget) {
+        await knex.schema.alterTable('graphs', (table) => {
+          table.json('budget').nullable();
+        });
+      }
     }
 
     // Create graph_nodes table
@@ -103,14 +184,14 @@ export class GraphStorage {
         table.string('model').nullable();
         table.boolean('stream').defaultTo(false);
         table.string('taskId', 36).nullable(); // Task ID created during execution
-        table
-          .enu('status', ['pending', 'running', 'completed', 'failed', 'skipped', 'scheduled'])
-          .defaultTo('pending');
+        table.enu('status', NODE_STATUSES).defaultTo('pending');
         table.integer('priority').defaultTo(0);
         table.json('dependencies').nullable();
         table.text('result').nullable(); // TEXT - stores encrypted string
         table.text('error').nullable();
         table.json('metadata').nullable(); // JSONB - stores actual JSON data
+        table.json('responseSchema').nullable(); // Structured output schema for task nodes
+        table.integer('schemaRetries').nullable();
         table.timestamps(true, true);
         table.index(['graphId']);
         table.index(['nodeId']);
@@ -137,6 +218,18 @@ export class GraphStorage {
         });
       }
 
+      await db.ensureEnumValues('graph_nodes', 'status', NODE_STATUSES, 'pending');
+
+      // Check and add structured output columns
+      const hasResponseSchema = await knex.schema.hasColumn('graph_nodes', 'responseSchema');
+
+      if (!hasResponseSchema) {
+        await knex.schema.alterTable('graph_nodes', (table) => {
+          table.json('responseSchema').nullable();
+          table.integer('schemaRetries').nullable();
+        });
+      }
+
       // Fix result column type (from JSONB to TEXT for encrypted data)
       // Only run this migration for PostgreSQL - SQLite doesn't have JSONB type
       if (db.isPostgres()) {
@@ -198,6 +291,7 @@ export class GraphStorage {
         retryAttempts: graph.config.retryAttempts,
         autoLink: graph.config.autoLink || false,
         metadata: graph.config.metadata ? JSON.stringify(graph.config.metadata) : null,
+        budget: graph.config.budget ? JSON.stringify(graph.config.budget) : null,
         status: graph.status,
         startedAt: graph.startedAt,
         completedAt: graph.completedAt,
@@ -230,9 +324,11 @@ export class GraphStorage {
               status: node.status,
               priority: node.priority,
               dependencies: JSON.stringify(node.dependencies),
-              result: node.result || null, // TEXT field - store as-is, no JSON.stringify
+              result: serializeNodeResult(node.result), // TEXT field - structured results are serialized
               error: node.error,
               metadata: node.metadata ? JSON.stringify(node.metadata) : null,
+              responseSchema: node.responseSchema ? JSON.stringify(node.responseSchema) : null,
+              schemaRetries: node.schemaRetries ?? null,
             };
 
             return encryptSensitiveFields(
@@ -326,7 +422,11 @@ export class GraphStorage {
             }
             return [];
           })(),
-          result: decryptedNode.result as string | undefined, // TEXT field - no JSON parse needed
+          ...parseStructuredNode(
+            decryptedNode.result as string | undefined,
+            decryptedNode.responseSchema,
+            decryptedNode.schemaRetries
+          ),
           error: decryptedNode.error as string | undefined,
           metadata: (decryptedNode.metadata as unknown as MetadataObject) || undefined, // Already parsed by decryptSensitiveFields
           createdAt: new Date(node.created_at),
@@ -363,6 +463,7 @@ export class GraphStorage {
         retryAttempts: decryptedGraphData.retryAttempts as number | undefined,
         autoLink: decryptedGraphData.autoLink as boolean | undefined,
         metadata: (decryptedGraphData.metadata as unknown as MetadataObject) || undefined, // Already parsed by decryptSensitiveFields
+        budget: parseBudget(decryptedGraphData.budget),
       },
       nodes,
       edges,
@@ -424,7 +525,7 @@ export class GraphStorage {
         const nodeUpdateData = {
           status: node.status,
           taskId: node.taskId,
-          result: node.result || null,
+          result: serializeNodeResult(node.result),
           error: node.error,
         };
 
@@ -457,9 +558,11 @@ export class GraphStorage {
               status: node.status,
               priority: node.priority,
               dependencies: JSON.stringify(node.dependencies),
-              result: node.result || null,
+              result: serializeNodeResult(node.result),
               error: node.error,
               metadata: node.metadata ? JSON.stringify(node.metadata) : null,
+              responseSchema: node.responseSchema ? JSON.stringify(node.responseSchema) : null,
+              schemaRetries: node.schemaRetries ?? null,
             };
 
             return encryptSensitiveFields(
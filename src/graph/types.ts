@@ -1,5 +1,8 @@
 import { Agent } from '../agent';
 import { MetadataObject } from '../types';
+import { ResponseSchema } from '../llm/types';
+import { BudgetLimits, BudgetTracker } from '../budget';
+import { TemplateLike, TemplateReference, TemplateVariables } from '../template/types';
 
 /**
  * Primitive values that can be returned as node results
@@ -12,10 +15,17 @@ export type GraphResultPrimitive = string | number | boolean | null | Date;
 export type GraphResultValue =
   | GraphResultPrimitive
   | GraphResultPrimitive[]
+  | GraphResultValue[]
   | { [key: string]: GraphResultValue };
 
 export type GraphNodeType = 'agent' | 'task';
-export type GraphExecutionStatus = 'idle' | 'running' | 'completed' | 'failed' | 'paused';
+export type GraphExecutionStatus =
+  | 'idle'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'paused'
+  | 'cancelled';
 
 /**
  * Token usage statistics for a node
@@ -44,6 +54,8 @@ export interface GraphNode {
   model?: string;
   stream?: boolean;
   taskId?: string; // UUID - ID of the task created during execution
+  responseSchema?: ResponseSchema; // Structured output - result holds the parsed object
+  schemaRetries?: number; // Re-prompts allowed when the response fails validation
 
   // Sub-agent delegation properties
   useSubAgents?: boolean; // Whether this node should use sub-agents
@@ -51,7 +63,7 @@ export interface GraphNode {
   subAgentCoordination?: 'parallel' | 'sequential'; // Coordination pattern
 
   // Execution properties
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'scheduled';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'scheduled' | 'cancelled';
   priority: number;
   dependencies: string[]; // Node IDs that must complete first
 
@@ -110,6 +122,7 @@ export interface GraphConfig {
   contextWarningThreshold?: number; // Warning threshold (0-1, e.g., 0.8 = 80%)
   // Timeout configuration for sub-agent nodes
   subAgentNodeTimeout?: number; // Extended timeout for nodes using sub-agents (default: 5 minutes)
+  budget?: BudgetLimits; // Limits for a whole run, shared by every task node
   metadata?: MetadataObject;
 }
 
@@ -141,6 +154,7 @@ export interface GraphExecutionResult {
   success: boolean;
   completedNodes: number;
   failedNodes: number;
+  cancelledNodes: number;
   duration: number;
   results: Record<string, GraphResultValue>; // Node ID -> result mapping
   errors: Record<string, string>; // Node ID -> error mapping
@@ -155,11 +169,15 @@ export interface AddNodeOptions {
 
 export interface AddAgentNodeOptions extends AddNodeOptions {
   agentId: string; // UUID
+  name?: string; // Defaults to Agent-<agentId>
 }
 
 export interface AddTaskNodeOptions extends AddNodeOptions {
   name?: string; // Optional name for the task
-  prompt: string;
+  prompt?: string; // Required unless a template is given; rendered as a template when variables are set
+  // Template for the prompt: compiled templates render now, stored ones (by name) when the graph runs
+  template?: string | TemplateLike | TemplateReference;
+  variables?: TemplateVariables;
   model?: string;
   agentId?: string; // UUID - Override default agent
   stream?: boolean; // Enable streaming for this task
@@ -169,6 +187,9 @@ export interface AddTaskNodeOptions extends AddNodeOptions {
   useSubAgents?: boolean; // Force enable/disable sub-agent usage for this task
   subAgentDelegation?: 'auto' | 'manual' | 'sequential'; // Sub-agent delegation strategy
   subAgentCoordination?: 'parallel' | 'sequential'; // Sub-agent coordination pattern
+  // Structured output options
+  responseSchema?: ResponseSchema; // Node result becomes the parsed, schema-validated object
+  schemaRetries?: number; // Re-prompts allowed when the response fails validation
 }
 
 export interface GraphSchedulingOptions {
@@ -176,6 +197,8 @@ export interface GraphSchedulingOptions {
   waitForScheduled?: boolean; // Whether to wait for scheduled nodes or skip them
   schedulingCheckInterval?: number; // How often to check for scheduled nodes (ms)
   onChunk?: (chunk: string) => void; // Callback for streaming chunks
+  signal?: AbortSignal; // Cancels the run: no new nodes start, running nodes end as 'cancelled'
+  budget?: BudgetLimits | BudgetTracker; // Limits for this run (over the graph's), or a shared tracker
 }
 
 /**
@@ -187,9 +210,11 @@ export interface GraphStateChangeEvent {
     | 'node_started'
     | 'node_completed'
     | 'node_failed'
+    | 'node_cancelled'
     | 'graph_started'
     | 'graph_completed'
-    | 'graph_failed';
+    | 'graph_failed'
+    | 'graph_cancelled';
   nodeId?: string;
   nodeName?: string;
   graphId?: string;
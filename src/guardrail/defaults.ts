@@ -0,0 +1,49 @@
+import { GuardrailPattern } from './types';
+
+export const DEFAULT_GUARDRAIL_CONFIG = {
+  replacement: (patternName: string) => `[REDACTED:${patternName}]`,
+  classifierMaxTokens: 200,
+  classifierMaxInput: 8000, // Characters sent to the topic classifier
+};
+
+/**
+ * Luhn checksum, to tell card numbers from other long digit runs
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
+
+export const SECRET_PATTERNS: GuardrailPattern[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/,
+  },
+  { name: 'anthropic_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'openai_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: 'github_token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+];
+
+export const PII_PATTERNS: GuardrailPattern[] = [
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/ },
+  { name: 'credit_card', pattern: /\b\d(?:[ -]?\d){12,18}\b/, validate: passesLuhn },
+  { name: 'us_ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/ },
+  { name: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/ },
+  {
+    name: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/,
+  },
+];
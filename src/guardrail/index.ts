@@ -0,0 +1,113 @@
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import {
+  GuardrailViolationError,
+  isBudgetExceededError,
+  isOperationCancelledError,
+} from '../errors';
+import { Guardrail, GuardrailContext, GuardrailResult, GuardrailViolation } from './types';
+
+const STAGE_LABELS = {
+  input: 'input',
+  tool_result: 'tool result',
+  output: 'output',
+} as const;
+
+/**
+ * Runs guardrails in order; each sees the content left by the previous one.
+ * Redactions and rewrites are recorded and the chain continues; a rejection throws.
+ */
+export class GuardrailChain {
+  private guardrails: Guardrail[];
+  private logger: Logger;
+
+  constructor(guardrails: Guardrail[], logger?: Logger) {
+    this.guardrails = [...guardrails];
+    this.logger = logger ?? getLogger();
+  }
+
+  get size(): number {
+    return this.guardrails.length;
+  }
+
+  /**
+   * Check content for one stage of a run
+   * @throws GuardrailViolationError when a guardrail rejects the content or fails
+   */
+  async run(
+    content: string,
+    context: GuardrailContext,
+    onViolation?: (violation: GuardrailViolation) => void
+  ): Promise<GuardrailResult> {
+    const violations: GuardrailViolation[] = [];
+    let current = content;
+
+    for (const guardrail of this.guardrails) {
+      if (guardrail.stages && !guardrail.stages.includes(context.stage)) {
+        continue;
+      }
+
+      let outcome;
+      try {
+        outcome = await guardrail.check(current, context);
+      } catch (error) {
+        if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+          throw error;
+        }
+        // A broken guardrail must not let content through unchecked
+        outcome = {
+          action: 'reject' as const,
+          reason: `Guardrail failed: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+
+      if (outcome.action === 'pass') {
+        continue;
+      }
+
+      const violation: GuardrailViolation = {
+        guardrail: guardrail.name,
+        stage: context.stage,
+        action: outcome.action,
+        reason: outcome.reason,
+        ...(context.toolName !== undefined && { toolName: context.toolName }),
+        timestamp: new Date(),
+      };
+      violations.push(violation);
+      onViolation?.(violation);
+
+      this.logger.debug('Guardrail violation', {
+        guardrail: guardrail.name,
+        stage: context.stage,
+        action: outcome.action,
+        reason: outcome.reason ?? null,
+        toolName: context.toolName ?? null,
+      });
+
+      if (outcome.action === 'reject') {
+        const label = context.toolName
+          ? `${STAGE_LABELS[context.stage]} of ${context.toolName}`
+          : STAGE_LABELS[context.stage];
+        throw new GuardrailViolationError(
+          `Guardrail ${guardrail.name} rejected the ${label}: ${outcome.reason}`,
+          guardrail.name,
+          context.stage,
+          outcome.reason,
+          violations
+        );
+      }
+      current = outcome.content;
+    }
+
+    return { content: current, violations };
+  }
+}
+
+export {
+  createPatternGuardrail,
+  createMaxLengthGuardrail,
+  createJsonGuardrail,
+  createTopicGuardrail,
+} from './validators';
+export * from './types';
+export * from './defaults';
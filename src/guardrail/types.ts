@@ -0,0 +1,111 @@
+import { BudgetTracker } from '../budget';
+import { ResponseSchema } from '../llm/types';
+
+/**
+ * Where in a run a guardrail is applied
+ * - input: the user prompt, before it reaches a provider
+ * - tool_result: each tool result, before it is sent back to the LLM
+ * - output: the final response, before it is returned and stored. Streamed text has already been
+ *   delivered by then; the returned response, the final event and memory get the checked text.
+ */
+export type GuardrailStage = 'input' | 'tool_result' | 'output';
+
+export interface GuardrailContext {
+  stage: GuardrailStage;
+  agentId: string; // UUID
+  agentName: string;
+  model?: string; // Model of the agent, used by LLM-backed guardrails without their own
+  toolName?: string; // tool_result stage only
+  taskId?: string; // UUID
+  sessionId?: string;
+  signal?: AbortSignal;
+  budget?: BudgetTracker; // LLM calls made by guardrails are charged here
+}
+
+/**
+ * What a guardrail decided about a piece of content
+ * - pass: unchanged
+ * - redact / rewrite: continue with the new content (recorded as a violation)
+ * - reject: stop the run with a GuardrailViolationError
+ */
+export type GuardrailOutcome =
+  | { action: 'pass' }
+  | { action: 'redact'; content: string; reason?: string }
+  | { action: 'rewrite'; content: string; reason?: string }
+  | { action: 'reject'; reason: string };
+
+export interface Guardrail {
+  name: string;
+  stages?: GuardrailStage[]; // Default: every stage
+  check(content: string, context: GuardrailContext): GuardrailOutcome | Promise<GuardrailOutcome>;
+}
+
+/**
+ * Record of a guardrail that changed or rejected content; never includes the offending text
+ */
+export interface GuardrailViolation {
+  guardrail: string;
+  stage: GuardrailStage;
+  action: 'redact' | 'rewrite' | 'reject';
+  reason?: string;
+  toolName?: string;
+  timestamp: Date;
+}
+
+/**
+ * Per-call context for agent.applyGuardrails(); the agent fills in the rest
+ */
+export interface GuardrailCheckOptions {
+  toolName?: string;
+  taskId?: string; // UUID
+  sessionId?: string;
+  signal?: AbortSignal;
+  budget?: BudgetTracker;
+  onViolation?: (violation: GuardrailViolation) => void; // Called for each violation, rejections included
+}
+
+export interface GuardrailResult {
+  content: string; // Content after redactions and rewrites
+  violations: GuardrailViolation[];
+}
+
+/**
+ * Named pattern for createPatternGuardrail; validate filters out false positives
+ */
+export interface GuardrailPattern {
+  name: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+export interface PatternGuardrailOptions {
+  name?: string; // Default: 'patterns'
+  secrets?: boolean; // Include the built-in API key and token patterns (default: true)
+  pii?: boolean; // Include the built-in email, phone, card, SSN and IBAN patterns (default: false)
+  patterns?: GuardrailPattern[];
+  action?: 'redact' | 'reject'; // Default: redact
+  replacement?: string | ((patternName: string) => string); // Default: [REDACTED:<name>]
+  stages?: GuardrailStage[];
+}
+
+export interface MaxLengthGuardrailOptions {
+  name?: string; // Default: 'max_length'
+  maxLength: number; // Characters
+  action?: 'reject' | 'truncate'; // Default: reject
+  stages?: GuardrailStage[];
+}
+
+export interface JsonGuardrailOptions {
+  name?: string; // Default: 'json'
+  schema?: ResponseSchema; // Also validate the parsed value
+  stages?: GuardrailStage[]; // Default: ['output']
+}
+
+export interface TopicGuardrailOptions {
+  name?: string; // Default: 'banned_topics'
+  topics: string[];
+  model?: string; // Classifier model (default: the agent's model)
+  instructions?: string; // Extra guidance for the classifier
+  failOpen?: boolean; // Pass content when classification fails (default: false, reject)
+  stages?: GuardrailStage[]; // Default: ['input', 'output']
+}
@@ -0,0 +1,193 @@
+import { getLLM } from '../llm';
+import { parseStructuredContent, validateAgainstSchema } from '../llm/structured';
+import { isBudgetExceededError, isOperationCancelledError } from '../errors';
+import { getLogger } from '../logger';
+import {
+  Guardrail,
+  GuardrailOutcome,
+  JsonGuardrailOptions,
+  MaxLengthGuardrailOptions,
+  PatternGuardrailOptions,
+  TopicGuardrailOptions,
+} from './types';
+import { DEFAULT_GUARDRAIL_CONFIG, PII_PATTERNS, SECRET_PATTERNS } from './defaults';
+
+/**
+ * Detect secrets, PII or custom patterns, and redact or reject them.
+ * Reasons name the pattern only, never the matched text.
+ */
+export function createPatternGuardrail(options: PatternGuardrailOptions = {}): Guardrail {
+  const patterns = [
+    ...(options.secrets !== false ? SECRET_PATTERNS : []),
+    ...(options.pii ? PII_PATTERNS : []),
+    ...(options.patterns ?? []),
+  ];
+  const replacement = options.replacement ?? DEFAULT_GUARDRAIL_CONFIG.replacement;
+  const replace = typeof replacement === 'string' ? () => replacement : replacement;
+
+  return {
+    name: options.name ?? 'patterns',
+    stages: options.stages,
+    check(content) {
+      const found = new Set<string>();
+      let redacted = content;
+
+      for (const { name, pattern, validate } of patterns) {
+        const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+        redacted = redacted.replace(new RegExp(pattern.source, flags), (match) => {
+          if (validate && !validate(match)) return match;
+          found.add(name);
+          return replace(name);
+        });
+      }
+
+      if (found.size === 0) {
+        return { action: 'pass' };
+      }
+      const reason = `Found ${[...found].join(', ')}`;
+      return options.action === 'reject'
+        ? { action: 'reject', reason }
+        : { action: 'redact', content: redacted, reason };
+    },
+  };
+}
+
+/**
+ * Reject or truncate content longer than maxLength characters
+ */
+export function createMaxLengthGuardrail(options: MaxLengthGuardrailOptions): Guardrail {
+  if (!Number.isInteger(options.maxLength) || options.maxLength < 1) {
+    throw new Error(`maxLength must be a positive integer, got ${options.maxLength}`);
+  }
+
+  return {
+    name: options.name ?? 'max_length',
+    stages: options.stages,
+    check(content) {
+      if (content.length <= options.maxLength) {
+        return { action: 'pass' };
+      }
+      const reason = `${content.length} characters exceeds the limit of ${options.maxLength}`;
+      return options.action === 'truncate'
+        ? { action: 'rewrite', content: content.slice(0, options.maxLength), reason }
+        : { action: 'reject', reason };
+    },
+  };
+}
+
+/**
+ * Require valid JSON, optionally matching a schema.
+ * JSON wrapped in markdown fences or prose is rewritten to the bare JSON.
+ */
+export function createJsonGuardrail(options: JsonGuardrailOptions = {}): Guardrail {
+  return {
+    name: options.name ?? 'json',
+    stages: options.stages ?? ['output'],
+    check(content) {
+      let value: unknown;
+      try {
+        value = parseStructuredContent(content);
+      } catch (error) {
+        return {
+          action: 'reject',
+          reason: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+
+      if (options.schema) {
+        const errors = validateAgainstSchema(value, options.schema);
+        if (errors.length > 0) {
+          return { action: 'reject', reason: `Schema mismatch: ${errors.join('; ')}` };
+        }
+      }
+
+      try {
+        JSON.parse(content);
+        return { action: 'pass' };
+      } catch {
+        return {
+          action: 'rewrite',
+          content: JSON.stringify(value),
+          reason: 'Extracted JSON from surrounding text',
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Ask an LLM whether the content is about one of the banned topics
+ */
+export function createTopicGuardrail(options: TopicGuardrailOptions): Guardrail {
+  if (options.topics.length === 0) {
+    throw new Error('createTopicGuardrail needs at least one topic');
+  }
+  const name = options.name ?? 'banned_topics';
+  const systemPrompt = [
+    'You are a content classifier. Decide whether the text is mainly about one of these banned topics:',
+    ...options.topics.map((topic) => `- ${topic}`),
+    options.instructions ?? '',
+    'Answer with JSON only: {"topic": "<banned topic>" or null, "reason": "<one sentence>"}',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    name,
+    stages: options.stages ?? ['input', 'output'],
+    async check(content, context): Promise<GuardrailOutcome> {
+      const model = options.model ?? context.model;
+      try {
+        if (!model) {
+          throw new Error('no classifier model; set options.model');
+        }
+        const response = await getLLM().generateResponse({
+          model,
+          systemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: content.slice(0, DEFAULT_GUARDRAIL_CONFIG.classifierMaxInput),
+            },
+          ],
+          temperature: 0,
+          maxTokens: DEFAULT_GUARDRAIL_CONFIG.classifierMaxTokens,
+          signal: context.signal,
+          budget: context.budget,
+        });
+
+        const verdict = parseStructuredContent(response.content) as {
+          topic?: unknown;
+          reason?: unknown;
+        } | null;
+        const topic = typeof verdict?.topic === 'string' ? verdict.topic : null;
+        if (!topic) {
+          return { action: 'pass' };
+        }
+        // Only listed topics count, whatever the classifier came up with
+        const banned = options.topics.find(
+          (candidate) => candidate.toLowerCase() === topic.toLowerCase()
+        );
+        if (!banned) {
+          return { action: 'pass' };
+        }
+        return {
+          action: 'reject',
+          reason: `Banned topic: ${banned}${typeof verdict?.reason === 'string' ? ` (${verdict.reason})` : ''}`,
+        };
+      } catch (error) {
+        if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (options.failOpen) {
+          getLogger().warn(`Guardrail ${name} could not classify content, passing it`, {
+            error: message,
+          });
+          return { action: 'pass' };
+        }
+        return { action: 'reject', reason: `Topic classification failed: ${message}` };
+      }
+    },
+  };
+}
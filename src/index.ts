@@ -1,6 +1,29 @@
 // Main exports
 export { Agent } from './agent';
-export type { AgentConfig, AskOptions } from './agent/types';
+export type {
+  AgentConfig,
+  AskOptions,
+  AgentToolOptions,
+  StreamOptions,
+  AgentStreamEvent,
+  TextDeltaEvent,
+  ToolCallStartEvent,
+  ToolCallEndEvent,
+  SubAgentDelegationEvent,
+  ContextCompressionEvent,
+  GuardrailEvent,
+  CacheHitEvent,
+  HandoffEvent,
+  UsageEvent,
+  FinalEvent,
+  AgentRevision,
+  AgentRevisionConfig,
+  AgentRevisionInfo,
+  AgentRevisionChange,
+  AgentRevisionDiff,
+  HandoffOptions,
+  HandoffRecord,
+} from './agent/types';
 
 // Sub-agent exports
 export { SubAgent } from './sub-agent';
@@ -16,6 +39,18 @@ export type { MetadataObject } from './types';
 export { Memory } from './memory';
 export { Task } from './task';
 
+// Goal exports
+export { Goal } from './goal';
+export type {
+  PursueOptions,
+  GoalResult,
+  GoalProgress,
+  GoalStep,
+  GoalStepStatus,
+  GoalStopReason,
+  GoalCheckpoint,
+} from './goal/types';
+
 // Database exports
 export { getDatabase } from './database';
 export type { DatabaseConfig } from './database/types';
@@ -33,8 +68,227 @@ export type {
 } from './task/types';
 
 // LLM exports
-export { getLLM, clearLLMInstances } from './llm';
-export type { LLMProvider, LLMRequestOptions, LLMResponse, LLMUsage } from './llm/types';
+export {
+  getLLM,
+  clearLLMInstances,
+  MockProvider,
+  setMockScript,
+  clearMockScripts,
+  getMockRequests,
+  generateMockEmbedding,
+  getModelCapabilities,
+  setModelCapabilities,
+  clearModelCapabilities,
+  getModelInfo,
+  registerModel,
+  listRegisteredModels,
+  resetModelRegistry,
+  estimateCost,
+  getContextBudget,
+  renderToolPrompt,
+  parsePromptToolCompletion,
+  isRetryableLLMError,
+  configureCircuitBreakers,
+  getCircuitBreakerStatus,
+  resetCircuitBreakers,
+  OpenAICompatibleProvider,
+  registerOpenAICompatibleEndpoint,
+  removeOpenAICompatibleEndpoint,
+  clearOpenAICompatibleEndpoints,
+  getOpenAICompatibleEndpoint,
+  listOpenAICompatibleEndpoints,
+  discoverOpenAICompatibleModels,
+  BpeTokenizer,
+  EstimatingTokenizer,
+  getTokenizer,
+  registerTokenizer,
+  resetTokenizers,
+  countTextTokens,
+  countMessageTokens,
+  setRateLimits,
+  setDefaultRateLimits,
+  getRateLimitBucketStatus,
+  resetRateLimitBuckets,
+  parseRateLimitHeaders,
+} from './llm';
+export type {
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMUsage,
+  ResponseSchema,
+  ResponseFormat,
+  LLMResponseMetadata,
+  LLMFallback,
+  CircuitTrip,
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  RateLimiterOptions,
+  RateLimitInfo,
+  RateLimitBucketStatus,
+} from './llm/types';
+export type { StructuredOutputResult } from './llm/structured';
+export type { ModelCapabilities, ModelInfo, ModelInfoInput, ModelPricing } from './llm/registry';
+export type { Tokenizer, TokenEstimatorCalibration, BpeEncoding } from './llm/tokenizer';
+export type { MockScript, MockRule, MockReply, MockReplySource } from './llm/providers/mock';
+export type {
+  OpenAICompatibleEndpoint,
+  OpenAICompatibleCapabilities,
+} from './llm/providers/openai-compatible';
+
+// Error exports
+export {
+  StructuredOutputError,
+  isStructuredOutputError,
+  OperationCancelledError,
+  isOperationCancelledError,
+  BudgetExceededError,
+  isBudgetExceededError,
+  UnrecordedCallError,
+  isUnrecordedCallError,
+  DefinitionValidationError,
+  isDefinitionValidationError,
+  TemplateError,
+  isTemplateError,
+  GuardrailViolationError,
+  isGuardrailViolationError,
+  LLMApiError,
+  CircuitOpenError,
+  isCircuitOpenError,
+  ModelCapabilityError,
+  isModelCapabilityError,
+} from './errors';
+
+// Budget exports
+export { BudgetTracker, resolveBudget } from './budget';
+export type { BudgetLimits, BudgetLimitName, BudgetUsage } from './budget/types';
+
+// Recording exports
+export { Recorder, configureRecording, getActiveRecorder, hashRequest } from './recording';
+export type {
+  RecordingMode,
+  RecordingOptions,
+  RecordedCall,
+  RecordedCallKind,
+  RecordingFixture,
+} from './recording/types';
+
+// Definition exports
+export {
+  parseAgentDefinition,
+  loadAgentDefinition,
+  createAgentFromDefinition,
+  parseGraphDefinition,
+  loadGraphDefinition,
+  exportGraphDefinition,
+  DEFINITION_VERSION,
+} from './definition';
+export type {
+  AgentDefinitionFile,
+  GraphDefinitionFile,
+  GraphNodeDefinition,
+  GraphEdgeDefinition,
+  DefinitionFormat,
+  DefinitionIssue,
+  DefinitionLoadOptions,
+  LoadedAgentDefinition,
+  GraphExportOptions,
+} from './definition/types';
+
+// Session exports
+export type { Session, SessionListOptions } from './session/types';
+
+// Template exports
+export {
+  Template,
+  TemplateRegistry,
+  getTemplateRegistry,
+  compileTemplate,
+  renderTemplate,
+  resolvePrompt,
+} from './template';
+export type {
+  TemplateValue,
+  TemplateVariables,
+  TemplateEscape,
+  TemplateCompileOptions,
+  TemplateRenderOptions,
+  TemplateLike,
+  TemplateReference,
+  PromptInput,
+  StoredTemplate,
+  SaveTemplateOptions,
+  TemplateErrorCode,
+} from './template/types';
+
+// Cache exports
+export { ResponseCache, getResponseCache, resolveCacheOptions, cacheKeyFromRequest } from './cache';
+export type {
+  CacheMode,
+  CacheSetting,
+  ResponseCacheOptions,
+  ResolvedCacheOptions,
+  CacheKey,
+  CachedResponse,
+  CacheLookupResult,
+  CacheStats,
+} from './cache/types';
+
+// Reflection exports
+export {
+  resolveReflectionOptions,
+  collectToolUses,
+  generateReflection,
+  formatReflection,
+  buildReflectionPrompt,
+} from './reflection';
+export type {
+  Reflection,
+  ReflectionInput,
+  ReflectionOptions,
+  ReflectionSetting,
+  ReflectionToolUse,
+  ResolvedReflectionOptions,
+} from './reflection/types';
+
+// Guardrail exports
+export {
+  GuardrailChain,
+  createPatternGuardrail,
+  createMaxLengthGuardrail,
+  createJsonGuardrail,
+  createTopicGuardrail,
+  SECRET_PATTERNS,
+  PII_PATTERNS,
+} from './guardrail';
+export type {
+  Guardrail,
+  GuardrailStage,
+  GuardrailContext,
+  GuardrailOutcome,
+  GuardrailViolation,
+  GuardrailCheckOptions,
+  GuardrailResult,
+  GuardrailPattern,
+  PatternGuardrailOptions,
+  MaxLengthGuardrailOptions,
+  JsonGuardrailOptions,
+  TopicGuardrailOptions,
+} from './guardrail/types';
+
+// Server exports
+export { AgentServer, startServer } from './server';
+export type {
+  ServerConfig,
+  ServerAddress,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  ChatCompletionUsage,
+  ModelObject,
+} from './server/types';
 
 // Logger exports
 export { getLogger, initializeLogger, shutdownLogger, resetLogger } from './logger';
@@ -54,6 +308,7 @@ export type {
 
 // Plugin exports
 export { getPlugin, Plugin } from './plugin';
+export { resolveToolApproval, mergeToolApprovalSettings } from './plugin/approval';
 export type {
   Plugin as PluginDefinition,
   ToolDefinition,
@@ -62,6 +317,14 @@ export type {
   ToolContext,
   ToolCallResult,
   PluginConfig,
+  ToolApprovalRequest,
+  ToolApprovalContext,
+  ToolApprovalDecision,
+  ToolApprovalHandler,
+  ToolApprovalRule,
+  ToolApprovalPolicy,
+  ToolApprovalSettings,
+  ToolApprovalOutcome,
 } from './plugin/types';
 
 // MCP exports
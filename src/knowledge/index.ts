@@ -1,5 +1,5 @@
 import { IAgentModule, IAgent } from '../agent/types';
-import { getLLMProvider } from '../llm';
+import { getLLM, getLLMProvider, getProviderForModel } from '../llm';
 import { OpenAIProvider } from '../llm/providers/openai';
 import { GeminiProvider } from '../llm/providers/gemini';
 import { OllamaProvider } from '../llm/providers/ollama';
@@ -34,13 +34,15 @@ const providerInstanceCache: {
   ollama?: OllamaProvider;
 } = {};
 
+interface EmbeddingProvider {
+  name: string;
+  generateEmbedding?: (text: string, model?: string) => Promise<{ embedding: number[] }>;
+}
+
 export class Knowledge implements IAgentModule {
   readonly name = 'knowledge';
   private database: KnowledgeDatabase | null = null;
-  private embeddingProvider: {
-    name: string;
-    generateEmbedding?: (text: string, model?: string) => Promise<{ embedding: number[] }>;
-  } | null = null;
+  private embeddingProvider: EmbeddingProvider | null = null;
   private embeddingModel: string;
   private chunkSize: number;
   private chunkOverlap: number;
@@ -91,6 +93,40 @@ export class Knowledge implements IAgentModule {
     }
   }
 
+  /**
+   * Build the embedding provider, routing its calls through the recorder picked up by getLLM.
+   * When replaying, the real provider is only built on a fixture miss so replays need no API key.
+   */
+  private async createEmbeddingProvider(
+    providerName: string,
+    config: { apiKey?: string; baseUrl?: string | null; logger?: Logger }
+  ): Promise<EmbeddingProvider> {
+    const build = async (): Promise<EmbeddingProvider> => {
+      const mainProvider = await getLLMProvider(providerName, config);
+      return mainProvider.getEmbeddingProvider?.() || mainProvider;
+    };
+
+    const recorder = getLLM(this.logger).getRecorder();
+    if (!recorder) {
+      return build();
+    }
+
+    const provider = recorder.isReplaying() ? null : await build();
+    let pendingProvider: Promise<EmbeddingProvider> | null = null;
+
+    return {
+      name: provider?.name ?? `${providerName}-replay`,
+      generateEmbedding: (text: string, model?: string) =>
+        recorder.call('embedding', { model, text }, async () => {
+          const liveProvider = provider ?? (await (pendingProvider ??= build()));
+          if (!liveProvider.generateEmbedding) {
+            throw new Error(`${liveProvider.name} does not support embedding generation`);
+          }
+          return liveProvider.generateEmbedding(text, model);
+        }),
+    };
+  }
+
   private async initializeEmbeddingProvider(): Promise<void> {
     // Use agent's embeddingModel if specified
     this.logger.debug(
@@ -110,8 +146,7 @@ export class Knowledge implements IAgentModule {
         logger: this.logger,
       };
 
-      const mainProvider = await getLLMProvider(providerConfig.provider, config);
-      this.embeddingProvider = mainProvider.getEmbeddingProvider?.() || mainProvider;
+      this.embeddingProvider = await this.createEmbeddingProvider(providerConfig.provider, config);
     } else {
       // Auto-detect based on available API keys and config
       this.logger.warn('No embeddingModel specified, using auto-detection');
@@ -124,8 +159,7 @@ export class Knowledge implements IAgentModule {
         logger: this.logger,
       };
 
-      const mainProvider = await getLLMProvider(providerConfig.provider, config);
-      this.embeddingProvider = mainProvider.getEmbeddingProvider?.() || mainProvider;
+      this.embeddingProvider = await this.createEmbeddingProvider(providerConfig.provider, config);
       this.embeddingModel = providerConfig.model;
     }
 
@@ -169,11 +203,21 @@ export class Knowledge implements IAgentModule {
   }
 
   private detectProviderFromModel(model: string): {
-    provider: 'openai' | 'gemini' | 'ollama';
+    provider: 'openai' | 'gemini' | 'ollama' | 'mock' | 'openai-compatible';
     apiKey?: string;
     baseUrl?: string;
     model: string;
   } {
+    // Deterministic offline embeddings (e.g. `mock:embedding`) need no API key
+    if (getProviderForModel(model) === 'mock') {
+      return { provider: 'mock', model };
+    }
+
+    // `<endpoint>:<model>` on a registered OpenAI-compatible server; the endpoint holds its key
+    if (getProviderForModel(model) === 'openai-compatible') {
+      return { provider: 'openai-compatible', model };
+    }
+
     try {
       // Check OpenAI provider - prioritize dedicated embedding API key
       if (process.env.OPENAI_EMBEDDING_API_KEY) {
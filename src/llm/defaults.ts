@@ -10,6 +10,12 @@ export const DEFAULT_LLM_CONFIG = {
   fallbackModel: 'gpt-4o-mini',
   /** Default embedding model when none specified */
   defaultEmbeddingModel: 'text-embedding-ada-002',
+  /** Re-prompts allowed when a structured response fails schema validation */
+  structuredOutputRetries: 2,
+  /** Consecutive retryable failures that open a provider's circuit */
+  circuitFailureThreshold: 5,
+  /** Time in ms an open circuit waits before letting a probe request through */
+  circuitCooldownMs: 30000,
 } as const;
 
 /**
@@ -0,0 +1,184 @@
+import { CircuitBreakerOptions, CircuitBreakerStatus, CircuitState, CircuitTrip } from './types';
+import { DEFAULT_LLM_CONFIG } from './defaults';
+import {
+  CircuitOpenError,
+  LLMApiError,
+  ModelCapabilityError,
+  isBudgetExceededError,
+  isOperationCancelledError,
+} from '../errors';
+
+/**
+ * Provider fallbacks: retryable failures move a request along its fallbackModels, and a
+ * per-provider circuit breaker stops sending requests to a provider that keeps failing.
+ */
+
+const RETRYABLE_MESSAGE_PATTERN =
+  /rate.?limit|too many requests|overloaded|timed? ?out|timeout|temporarily unavailable|service unavailable|bad gateway|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed/i;
+
+function readStatus(error: unknown): number | undefined {
+  for (let current = error, depth = 0; current && depth < 4; depth++) {
+    const candidate = current as { status?: unknown; statusCode?: unknown; cause?: unknown };
+    const status = candidate.status ?? candidate.statusCode;
+    if (typeof status === 'number') {
+      return status;
+    }
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+function readMessages(error: unknown): string {
+  const messages: string[] = [];
+  for (let current = error, depth = 0; current && depth < 4; depth++) {
+    const candidate = current as { message?: unknown; code?: unknown; cause?: unknown };
+    messages.push(String(candidate.message ?? ''), String(candidate.code ?? ''));
+    current = candidate.cause;
+  }
+  return messages.join('\n');
+}
+
+/**
+ * Whether another model may succeed where this error failed: rate limits, 5xx, timeouts and
+ * connection errors. Cancellations, budget stops and request errors (4xx) are final.
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+    return false;
+  }
+  if (error instanceof CircuitOpenError || error instanceof ModelCapabilityError) {
+    return true;
+  }
+
+  const status = error instanceof LLMApiError && error.status ? error.status : readStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  return RETRYABLE_MESSAGE_PATTERN.test(readMessages(error));
+}
+
+/**
+ * Circuit breaker of one provider. Opens after failureThreshold consecutive retryable failures,
+ * rejects requests for cooldownMs, then half-opens and lets a single probe through: a success
+ * closes it, a failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    readonly provider: string,
+    private options: Required<CircuitBreakerOptions>
+  ) {}
+
+  /**
+   * Throws a CircuitOpenError while the circuit rejects requests
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.cooldownMs) {
+        throw this.openError();
+      }
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        throw this.openError();
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Count a retryable failure; returns the trip when it opened the circuit
+   */
+  recordFailure(): CircuitTrip | null {
+    this.failures++;
+    this.probeInFlight = false;
+    if (this.state !== 'half_open' && this.failures < this.options.failureThreshold) {
+      return null;
+    }
+    this.state = 'open';
+    this.openedAt = Date.now();
+    return { provider: this.provider, failures: this.failures, retryAt: this.retryAt() };
+  }
+
+  /**
+   * Free the probe slot of a request that ended without a verdict (cancelled or abandoned)
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  configure(options: Required<CircuitBreakerOptions>): void {
+    this.options = options;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      provider: this.provider,
+      state: this.state,
+      failures: this.failures,
+      ...(this.state === 'open' && { retryAt: this.retryAt() }),
+    };
+  }
+
+  private retryAt(): Date {
+    return new Date(this.openedAt + this.options.cooldownMs);
+  }
+
+  private openError(): CircuitOpenError {
+    return new CircuitOpenError(
+      `Circuit breaker for ${this.provider} is open after ${this.failures} failures`,
+      this.provider,
+      this.retryAt()
+    );
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>();
+let circuitOptions: Required<CircuitBreakerOptions> = {
+  failureThreshold: DEFAULT_LLM_CONFIG.circuitFailureThreshold,
+  cooldownMs: DEFAULT_LLM_CONFIG.circuitCooldownMs,
+};
+
+/**
+ * Circuit breaker of a provider, created closed on first use
+ */
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, circuitOptions);
+    circuitBreakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Change the threshold and cooldown of every circuit breaker; later calls merge
+ */
+export function configureCircuitBreakers(options: CircuitBreakerOptions): void {
+  circuitOptions = { ...circuitOptions, ...options };
+  for (const breaker of circuitBreakers.values()) {
+    breaker.configure(circuitOptions);
+  }
+}
+
+export function getCircuitBreakerStatus(): CircuitBreakerStatus[] {
+  return Array.from(circuitBreakers.values(), (breaker) => breaker.getStatus());
+}
+
+/**
+ * Close every circuit (useful for testing or after an outage)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
@@ -1,359 +1,73 @@
 import {
   LLMProvider,
+  LLMFallback,
+  LLMMessage,
   LLMRequestOptions,
   LLMResponse,
+  LLMResponseMetadata,
   LLMStreamChunk,
-  RateLimiterOptions,
+  LLMUsage,
 } from './types';
 import { getProviderForModel, getSupportedModelsList } from './models';
+import { estimateCost, getModelCapabilities, getModelInfo } from './registry';
+import { countMessageTokens, countTextTokens } from './tokenizer';
+import {
+  RateLimiter,
+  RequestPriority,
+  getRateLimitBucket,
+  getRateLimitInfoFromError,
+} from './rate-limiter';
+import {
+  parsePromptToolResponse,
+  parsePromptToolStream,
+  toPromptToolRequest,
+} from './prompt-tools';
+import { CircuitBreaker, getCircuitBreaker, isRetryableLLMError } from './fallback';
 import { OpenAIProvider } from './providers/openai';
 import { ClaudeProvider } from './providers/claude';
 import { GeminiProvider } from './providers/gemini';
 import { OllamaProvider } from './providers/ollama';
+import { MockProvider } from './providers/mock';
+import {
+  OpenAICompatibleProvider,
+  getOpenAICompatibleEndpoint,
+  parseOpenAICompatibleModel,
+} from './providers/openai-compatible';
 import { Logger } from '../logger/types';
 import { getLogger } from '../logger';
 import { DEFAULT_LLM_CONFIG } from './defaults';
+import { attachPartialResult } from '../budget';
+import { Recorder, getActiveRecorder } from '../recording';
+import { cacheKeyFromRequest, getResponseCache, resolveCacheOptions } from '../cache';
+import {
+  ConfigurationError,
+  OperationCancelledError,
+  abortable,
+  ModelCapabilityError,
+  isCircuitOpenError,
+  isModelCapabilityError,
+  isOperationCancelledError,
+  throwIfAborted,
+} from '../errors';
+
+// Environment variables the providers read their API keys from
+const PROVIDER_API_KEY_ENV: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
 
 /**
- * Request priority levels for fair scheduling
- */
-export enum RequestPriority {
-  /** High priority - Agent.ask() direct user interactions */
-  HIGH = 0,
-  /** Normal priority - Task execution, SubAgent operations */
-  NORMAL = 1,
-  /** Low priority - Background tasks like context compression */
-  LOW = 2,
-}
-
-interface QueuedRequest {
-  resolve: () => void;
-  reject: (error: Error) => void;
-  timeoutId: NodeJS.Timeout;
-  priority: RequestPriority;
-  enqueuedAt: number;
-  caller?: string;
-}
-
-/**
- * Rate limiter for coordinating concurrent LLM API calls across modules.
- * Prevents API rate limit errors (429) when multiple modules call LLM simultaneously.
- *
- * Features:
- * - Concurrent request limiting
- * - Requests per minute limiting
- * - Fair scheduling with priority queues
- * - Starvation prevention for low-priority requests
- *
- * Used by:
- * - Agent.ask()
- * - Task.executeTask()
- * - ContextManager.compressContext()
- * - SubAgent.executeWithSubAgents()
- */
-export class RateLimiter {
-  private queues: Map<RequestPriority, QueuedRequest[]> = new Map([
-    [RequestPriority.HIGH, []],
-    [RequestPriority.NORMAL, []],
-    [RequestPriority.LOW, []],
-  ]);
-  private running = 0;
-  private requestTimestamps: number[] = [];
-  private readonly maxConcurrent: number;
-  private readonly maxRequestsPerMinute: number;
-  private readonly acquireTimeout: number;
-  /** Maximum time a low-priority request can wait before being promoted (prevents starvation) */
-  private readonly maxStarvationTimeMs: number;
-  /** How often to check for starvation (ms) */
-  private readonly starvationCheckInterval: number = 1000;
-  private starvationTimer: NodeJS.Timeout | null = null;
-  /** Flag to track if instance is destroyed */
-  private isDestroyed = false;
-  /** Lock for queue operations to prevent race conditions */
-  private queueLock = false;
-
-  constructor(options: RateLimiterOptions = {}) {
-    this.maxConcurrent = options.maxConcurrent ?? 5;
-    this.maxRequestsPerMinute = options.maxRequestsPerMinute ?? 60;
-    this.acquireTimeout = options.acquireTimeout ?? 30000;
-    this.maxStarvationTimeMs = options.maxStarvationTimeMs ?? 10000;
-    this.startStarvationPrevention();
-  }
-
-  /**
-   * Destroy the rate limiter and cleanup all resources
-   */
-  destroy(): void {
-    if (this.isDestroyed) {
-      return;
-    }
-    this.isDestroyed = true;
-    this.clear();
-  }
-
-  /**
-   * Start the starvation prevention timer
-   */
-  private startStarvationPrevention(): void {
-    if (this.starvationTimer) return;
-
-    this.starvationTimer = setInterval(() => {
-      this.promoteStarvedRequests();
-    }, this.starvationCheckInterval);
-
-    // Allow process to exit
-    this.starvationTimer.unref();
-  }
-
-  /**
-   * Promote requests that have been waiting too long to prevent starvation
-   */
-  private promoteStarvedRequests(): void {
-    const now = Date.now();
-
-    // Check LOW priority queue for starvation
-    const lowQueue = this.queues.get(RequestPriority.LOW) || [];
-    const normalQueue = this.queues.get(RequestPriority.NORMAL) || [];
-
-    // Promote starved LOW -> NORMAL
-    const starvedFromLow = lowQueue.filter(
-      (req) => now - req.enqueuedAt > this.maxStarvationTimeMs
-    );
-    for (const req of starvedFromLow) {
-      const index = lowQueue.indexOf(req);
-      if (index !== -1) {
-        lowQueue.splice(index, 1);
-        req.priority = RequestPriority.NORMAL;
-        normalQueue.push(req);
-      }
-    }
-
-    // Check NORMAL priority queue for extreme starvation (2x threshold)
-    const highQueue = this.queues.get(RequestPriority.HIGH) || [];
-    const starvedFromNormal = normalQueue.filter(
-      (req) => now - req.enqueuedAt > this.maxStarvationTimeMs * 2
-    );
-    for (const req of starvedFromNormal) {
-      const index = normalQueue.indexOf(req);
-      if (index !== -1) {
-        normalQueue.splice(index, 1);
-        req.priority = RequestPriority.HIGH;
-        highQueue.push(req);
-      }
-    }
-  }
-
-  /**
-   * Get total number of queued requests across all priorities
-   */
-  private getTotalQueued(): number {
-    let total = 0;
-    for (const queue of this.queues.values()) {
-      total += queue.length;
-    }
-    return total;
-  }
-
-  /**
-   * Get the next request from the priority queues (fair scheduling)
-   * Returns requests in priority order: HIGH -> NORMAL -> LOW
-   */
-  private getNextFromQueue(): QueuedRequest | undefined {
-    // Process in priority order
-    for (const priority of [RequestPriority.HIGH, RequestPriority.NORMAL, RequestPriority.LOW]) {
-      const queue = this.queues.get(priority);
-      if (queue && queue.length > 0) {
-        return queue.shift();
-      }
-    }
-    return undefined;
-  }
-
-  /**
-   * Acquire a slot for making an LLM request.
-   * Waits if maximum concurrent requests are in progress or rate limit exceeded.
-   * @param priority - Request priority for fair scheduling (default: NORMAL)
-   * @param caller - Optional identifier for the caller (for debugging)
-   * @throws Error if acquire timeout is exceeded
-   */
-  async acquire(
-    priority: RequestPriority = RequestPriority.NORMAL,
-    caller?: string
-  ): Promise<void> {
-    // Clean up old timestamps (older than 1 minute)
-    const now = Date.now();
-    this.requestTimestamps = this.requestTimestamps.filter((ts) => now - ts < 60000);
-
-    // Check rate limit (requests per minute)
-    if (this.requestTimestamps.length >= this.maxRequestsPerMinute) {
-      const oldestTimestamp = this.requestTimestamps[0];
-      const waitTime = 60000 - (now - oldestTimestamp);
-      if (waitTime > 0) {
-        await new Promise<void>((resolve) => setTimeout(resolve, waitTime));
-        // Re-check after waiting
-        return this.acquire(priority, caller);
-      }
-    }
-
-    // Check concurrent limit
-    if (this.running < this.maxConcurrent) {
-      this.running++;
-      this.requestTimestamps.push(Date.now());
-      return;
-    }
-
-    // Wait in priority queue with proper locking
-    return new Promise<void>((resolve, reject) => {
-      // Check if destroyed
-      if (this.isDestroyed) {
-        reject(new Error('Rate limiter has been destroyed'));
-        return;
-      }
-
-      const request: QueuedRequest = {
-        resolve,
-        reject,
-        timeoutId: null as unknown as NodeJS.Timeout, // Will be set below
-        priority,
-        enqueuedAt: Date.now(),
-        caller,
-      };
-
-      const timeoutId = setTimeout(() => {
-        // Use lock to prevent race condition during removal
-        this.withQueueLock(() => {
-          // Find request in current priority queue (may have been promoted)
-          for (const [, queue] of this.queues) {
-            const index = queue.findIndex((item) => item === request);
-            if (index !== -1) {
-              queue.splice(index, 1);
-              break;
-            }
-          }
-        });
-        reject(
-          new Error(
-            `Rate limiter acquire timeout after ${this.acquireTimeout}ms (priority: ${RequestPriority[priority]}, caller: ${caller || 'unknown'})`
-          )
-        );
-      }, this.acquireTimeout);
-
-      request.timeoutId = timeoutId;
-
-      // Use lock when adding to queue
-      this.withQueueLock(() => {
-        const queue = this.queues.get(priority);
-        if (queue) {
-          queue.push(request);
-        }
-      });
-    });
-  }
-
-  /**
-   * Execute a function with queue lock to prevent race conditions
-   */
-  private withQueueLock<T>(fn: () => T): T {
-    // Simple spinlock for synchronous queue operations
-    // In JS single-threaded environment, this prevents interleaving during async boundaries
-    while (this.queueLock) {
-      // This shouldn't happen in practice due to JS single-threadedness
-      // but provides safety for edge cases
-    }
-    this.queueLock = true;
-    try {
-      return fn();
-    } finally {
-      this.queueLock = false;
-    }
-  }
-
-  /**
-   * Release a slot after completing an LLM request.
-   */
-  release(): void {
-    this.running = Math.max(0, this.running - 1);
-
-    const next = this.getNextFromQueue();
-    if (next) {
-      clearTimeout(next.timeoutId);
-      this.running++;
-      this.requestTimestamps.push(Date.now());
-      next.resolve();
-    }
-  }
-
-  /**
-   * Get current rate limiter status
-   */
-  getStatus(): {
-    running: number;
-    queued: number;
-    queuedByPriority: { high: number; normal: number; low: number };
-    requestsInLastMinute: number;
-  } {
-    const now = Date.now();
-    const recentRequests = this.requestTimestamps.filter((ts) => now - ts < 60000);
-    return {
-      running: this.running,
-      queued: this.getTotalQueued(),
-      queuedByPriority: {
-        high: this.queues.get(RequestPriority.HIGH)?.length || 0,
-        normal: this.queues.get(RequestPriority.NORMAL)?.length || 0,
-        low: this.queues.get(RequestPriority.LOW)?.length || 0,
-      },
-      requestsInLastMinute: recentRequests.length,
-    };
-  }
-
-  /**
-   * Clear all queued requests (useful for cleanup)
-   */
-  clear(): void {
-    for (const queue of this.queues.values()) {
-      for (const item of queue) {
-        clearTimeout(item.timeoutId);
-        item.reject(new Error('Rate limiter cleared'));
-      }
-      queue.length = 0;
-    }
-    this.running = 0;
-    this.requestTimestamps = [];
-    if (this.starvationTimer) {
-      clearInterval(this.starvationTimer);
-      this.starvationTimer = null;
-    }
-  }
-}
-
-// Global rate limiter instance for LLM requests
-let globalRateLimiter: RateLimiter | null = null;
-
-/**
- * Get the global rate limiter instance.
- * Creates one if it doesn't exist.
- */
-export function getRateLimiter(options?: RateLimiterOptions): RateLimiter {
-  if (!globalRateLimiter) {
-    globalRateLimiter = new RateLimiter(options);
-  }
-  return globalRateLimiter;
-}
-
-/**
- * Reset the global rate limiter (useful for testing or configuration changes)
+ * Request fields that identify a call in a fixture; signal, budget and cache are per-run settings
  */
-export function resetRateLimiter(options?: RateLimiterOptions): RateLimiter {
-  if (globalRateLimiter) {
-    globalRateLimiter.clear();
-  }
-  globalRateLimiter = new RateLimiter(options);
-  return globalRateLimiter;
+function toRecordedRequest(options: LLMRequestOptions): LLMRequestOptions {
+  return { ...options, signal: undefined, budget: undefined, cache: undefined };
 }
 
 export class LLM {
   private providers: Map<string, LLMProvider> = new Map();
   private logger: Logger;
+  private recorder: Recorder | null = null;
 
   constructor(logger?: Logger) {
     this.logger = logger || getLogger();
@@ -398,6 +112,12 @@ export class LLM {
         case 'ollama':
           provider = new OllamaProvider({ logger: this.logger });
           break;
+        case 'mock':
+          provider = new MockProvider({ logger: this.logger });
+          break;
+        case 'openai-compatible':
+          provider = new OpenAICompatibleProvider({ logger: this.logger });
+          break;
         default:
           throw new Error(`Unsupported provider: ${providerName}`);
       }
@@ -448,17 +168,36 @@ export class LLM {
       caller: caller ?? null,
     });
 
-    const provider = this.getProviderForModel(options.model);
+    throwIfAborted(options.signal, `${options.model} request`);
+
+    // A cache hit costs no call; only responses without tool calls are stored
+    const cacheOptions = resolveCacheOptions(options.cache);
+    const cacheKey = cacheOptions ? cacheKeyFromRequest(options, cacheOptions) : null;
+    let cacheEmbedding: number[] | undefined;
+    if (cacheOptions && cacheKey) {
+      const { entry, embedding } = await getResponseCache().lookup(cacheKey, cacheOptions);
+      if (entry) {
+        return { content: entry.content, model: entry.model };
+      }
+      cacheEmbedding = embedding;
+    }
 
-    // Use rate limiter to coordinate concurrent requests with fair scheduling
-    const rateLimiter = getRateLimiter();
-    await rateLimiter.acquire(priority, caller || 'LLM.generateResponse');
+    this.assertCostBudgetPriced(options);
+    options.budget?.startCall(`${options.model} request`);
 
-    let response: LLMResponse;
+    const response = this.recorder
+      ? await this.recorder.call('llm.response', toRecordedRequest(options), () =>
+          this.requestResponse(options, priority, caller)
+        )
+      : await this.requestResponse(options, priority, caller);
+
+    // The response is already paid for; hand it back as the partial result if it broke the budget
+    options.budget?.recordUsage(response.usage);
     try {
-      response = await provider.generateResponse(options);
-    } finally {
-      rateLimiter.release();
+      options.budget?.assertWithinBudget(`${options.model} request`);
+    } catch (error) {
+      attachPartialResult(error, response.content);
+      throw error;
     }
 
     // User-facing success message
@@ -479,6 +218,14 @@ export class LLM {
       hasToolCalls: !!response.toolCalls?.length,
     });
 
+    if (cacheOptions && cacheKey) {
+      if (response.toolCalls?.length) {
+        getResponseCache().skip(cacheOptions.scope, 'response requests tool calls');
+      } else {
+        await getResponseCache().store(cacheKey, response.content, cacheOptions, cacheEmbedding);
+      }
+    }
+
     return response;
   }
 
@@ -500,18 +247,29 @@ export class LLM {
       caller: caller ?? null,
     });
 
-    const provider = this.getProviderForModel(options.model);
     let chunkCount = 0;
     let totalContent = '';
+    let usage: LLMUsage | undefined;
+
+    throwIfAborted(options.signal, `${options.model} stream`);
+    this.assertCostBudgetPriced(options);
+    options.budget?.startCall(`${options.model} stream`);
 
-    // Use rate limiter to coordinate concurrent requests with fair scheduling
-    const rateLimiter = getRateLimiter();
-    await rateLimiter.acquire(priority, caller || 'LLM.generateStreamResponse');
+    const chunks = this.recorder
+      ? this.recorder.stream('llm.stream', toRecordedRequest(options), () =>
+          this.requestStream(options, priority, caller)
+        )
+      : this.requestStream(options, priority, caller);
 
     try {
-      for await (const chunk of provider.generateStreamResponse(options)) {
+      for await (const chunk of chunks) {
+        // Providers without native abort support keep streaming; stop consuming here
+        throwIfAborted(options.signal, `${options.model} stream`);
         chunkCount++;
         totalContent += chunk.content;
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
         yield chunk;
       }
 
@@ -533,10 +291,411 @@ export class LLM {
         error: error instanceof Error ? error.message : String(error),
       });
 
+      throw this.toCancellationError(error, options);
+    }
+
+    options.budget?.recordUsage(usage);
+    try {
+      options.budget?.assertWithinBudget(`${options.model} stream`);
+    } catch (error) {
+      attachPartialResult(error, totalContent);
+      throw error;
+    }
+  }
+
+  /**
+   * Call the model, then its fallbackModels in order while failures are retryable. Models whose
+   * provider circuit is open are skipped without a request.
+   */
+  private async requestResponse(
+    options: LLMRequestOptions,
+    priority: RequestPriority,
+    caller?: string
+  ): Promise<LLMResponse> {
+    const models = this.getModelChain(options);
+    const metadata: LLMResponseMetadata = {
+      requestedModel: options.model,
+      fallbacks: [],
+      circuitTrips: [],
+    };
+
+    for (let index = 0; ; index++) {
+      const model = models[index];
+      const breaker = getCircuitBreaker(this.getCircuitName(model));
+      let acquired = false;
+      try {
+        breaker.acquire();
+        acquired = true;
+        const response = await this.requestModelResponse({ ...options, model }, priority, caller);
+        breaker.recordSuccess();
+        return metadata.fallbacks.length > 0 || metadata.circuitTrips.length > 0
+          ? { ...response, metadata }
+          : response;
+      } catch (error) {
+        const retryable = this.recordModelFailure(breaker, error, metadata);
+        if (!retryable || index === models.length - 1) {
+          throw error;
+        }
+        this.recordFallback(metadata, model, models[index + 1], breaker.provider, error);
+      } finally {
+        if (acquired) {
+          breaker.release();
+        }
+      }
+    }
+  }
+
+  private async requestModelResponse(
+    options: LLMRequestOptions,
+    priority: RequestPriority,
+    caller?: string
+  ): Promise<LLMResponse> {
+    const provider = this.getProviderForModel(options.model);
+    this.assertToolSupport(options);
+    const promptTools = this.usesPromptTools(options);
+
+    // Use the model's rate limit bucket to coordinate concurrent requests with fair scheduling
+    const rateLimiter = this.getRateLimitBucket(options.model);
+    const ticket = await rateLimiter.acquire(
+      priority,
+      caller || 'LLM.generateResponse',
+      this.estimateRequestTokens(options, rateLimiter),
+      options.signal
+    );
+    let usedTokens: number | undefined;
+
+    try {
+      const response = await abortable(
+        provider.generateResponse(this.toProviderRequest(options, promptTools)),
+        options.signal,
+        `${options.model} request`
+      );
+      if (response.rateLimit) {
+        rateLimiter.applyRateLimitInfo(response.rateLimit);
+      }
+      usedTokens = response.usage?.totalTokens || undefined;
+      const parsed = promptTools
+        ? parsePromptToolResponse(response, options.tools ?? [])
+        : response;
+      return parsed.usage
+        ? { ...parsed, usage: this.withCost(parsed.usage, parsed.model || options.model) }
+        : parsed;
+    } catch (error) {
+      this.applyErrorRateLimit(rateLimiter, error);
+      throw this.toCancellationError(error, options);
+    } finally {
+      rateLimiter.release(ticket, usedTokens);
+    }
+  }
+
+  /**
+   * Stream from the model, falling back like requestResponse as long as nothing was streamed
+   * yet; the first chunk carries the fallback metadata
+   */
+  private async *requestStream(
+    options: LLMRequestOptions,
+    priority: RequestPriority,
+    caller?: string
+  ): AsyncIterableIterator<LLMStreamChunk> {
+    const models = this.getModelChain(options);
+    const metadata: LLMResponseMetadata = {
+      requestedModel: options.model,
+      fallbacks: [],
+      circuitTrips: [],
+    };
+
+    for (let index = 0; ; index++) {
+      const model = models[index];
+      const breaker = getCircuitBreaker(this.getCircuitName(model));
+      let started = false;
+      let acquired = false;
+      try {
+        breaker.acquire();
+        acquired = true;
+        for await (const chunk of this.requestModelStream(
+          { ...options, model },
+          priority,
+          caller
+        )) {
+          const withMetadata =
+            !started && (metadata.fallbacks.length > 0 || metadata.circuitTrips.length > 0);
+          started = true;
+          yield withMetadata ? { ...chunk, metadata } : chunk;
+        }
+        breaker.recordSuccess();
+        return;
+      } catch (error) {
+        const retryable = this.recordModelFailure(breaker, error, metadata);
+        if (!retryable || started || index === models.length - 1) {
+          throw error;
+        }
+        this.recordFallback(metadata, model, models[index + 1], breaker.provider, error);
+      } finally {
+        if (acquired) {
+          breaker.release();
+        }
+      }
+    }
+  }
+
+  private async *requestModelStream(
+    options: LLMRequestOptions,
+    priority: RequestPriority,
+    caller?: string
+  ): AsyncIterableIterator<LLMStreamChunk> {
+    const provider = this.getProviderForModel(options.model);
+    this.assertToolSupport(options);
+    const promptTools = this.usesPromptTools(options);
+
+    // Use the model's rate limit bucket to coordinate concurrent requests with fair scheduling
+    const rateLimiter = this.getRateLimitBucket(options.model);
+    const ticket = await rateLimiter.acquire(
+      priority,
+      caller || 'LLM.generateStreamResponse',
+      this.estimateRequestTokens(options, rateLimiter),
+      options.signal
+    );
+    let usedTokens: number | undefined;
+
+    try {
+      const chunks = promptTools
+        ? parsePromptToolStream(
+            provider.generateStreamResponse(this.toProviderRequest(options, promptTools)),
+            options.tools ?? [],
+            options.model
+          )
+        : provider.generateStreamResponse(this.toProviderRequest(options, promptTools));
+      for await (const chunk of chunks) {
+        if (chunk.rateLimit) {
+          rateLimiter.applyRateLimitInfo(chunk.rateLimit);
+        }
+        if (chunk.usage?.totalTokens) {
+          usedTokens = chunk.usage.totalTokens;
+        }
+        yield chunk.usage
+          ? { ...chunk, usage: this.withCost(chunk.usage, chunk.model || options.model) }
+          : chunk;
+      }
+    } catch (error) {
+      this.applyErrorRateLimit(rateLimiter, error);
       throw error;
     } finally {
-      rateLimiter.release();
+      rateLimiter.release(ticket, usedTokens);
+    }
+  }
+
+  /**
+   * Circuit of a model: its provider, or its endpoint for OpenAI-compatible servers, which fail
+   * independently of each other
+   */
+  private getCircuitName(model: string): string {
+    const endpoint = parseOpenAICompatibleModel(model)?.endpoint;
+    return endpoint ? `openai-compatible:${endpoint}` : (getProviderForModel(model) ?? model);
+  }
+
+  /**
+   * Rate limit bucket of a model: its provider, the model and the API key the provider uses,
+   * so limits of one account or provider never hold back another
+   */
+  private getRateLimitBucket(model: string): RateLimiter {
+    const provider = getProviderForModel(model) ?? model;
+    const endpoint = parseOpenAICompatibleModel(model)?.endpoint;
+    const apiKey = endpoint
+      ? getOpenAICompatibleEndpoint(endpoint)?.apiKey
+      : process.env[PROVIDER_API_KEY_ENV[provider] ?? ''];
+    return getRateLimitBucket(provider, model, apiKey);
+  }
+
+  /**
+   * Prompt tokens plus the completion limit, counted only when the bucket limits tokens;
+   * otherwise the reported usage fills its window
+   */
+  private estimateRequestTokens(options: LLMRequestOptions, rateLimiter: RateLimiter): number {
+    if (!rateLimiter.limitsTokens()) {
+      return 0;
+    }
+    const promptTokens =
+      countMessageTokens(options.messages, options.model) +
+      countTextTokens(options.systemPrompt ?? '', options.model) +
+      (options.tools?.length ? countTextTokens(JSON.stringify(options.tools), options.model) : 0);
+    return promptTokens + (options.maxTokens ?? DEFAULT_LLM_CONFIG.defaultMaxTokens);
+  }
+
+  /**
+   * Pause the bucket when a failed request carried retry-after or rate limit headers
+   */
+  private applyErrorRateLimit(rateLimiter: RateLimiter, error: unknown): void {
+    const rateLimit = getRateLimitInfoFromError(error);
+    if (!rateLimit) {
+      return;
+    }
+    rateLimiter.applyRateLimitInfo(rateLimit);
+    this.logger.debug('Applied rate limit headers from failed request', { ...rateLimit });
+  }
+
+  /**
+   * The requested model followed by its fallbacks, without repeats. Under a cost limit,
+   * fallbacks without pricing are left out: their calls would count as free.
+   */
+  private getModelChain(options: LLMRequestOptions): string[] {
+    const models = [...new Set([options.model, ...(options.fallbackModels ?? [])])];
+    if (!options.budget?.limitsCost()) {
+      return models;
+    }
+    return models.filter((model, index) => {
+      if (index === 0 || getModelInfo(model).pricing) {
+        return true;
+      }
+      this.logger.warn(`Skipping fallback model ${model}: maxCost needs its pricing`);
+      return false;
+    });
+  }
+
+  /**
+   * Update the provider's circuit for a failed call; returns whether the next model may be tried.
+   * Final errors (4xx) show the provider answering, so they close the circuit.
+   */
+  private recordModelFailure(
+    breaker: CircuitBreaker,
+    error: unknown,
+    metadata: LLMResponseMetadata
+  ): boolean {
+    if (isCircuitOpenError(error) || isModelCapabilityError(error)) {
+      return true;
+    }
+    if (isOperationCancelledError(error)) {
+      return false;
+    }
+    if (!isRetryableLLMError(error)) {
+      breaker.recordSuccess();
+      return false;
+    }
+
+    const trip = breaker.recordFailure();
+    if (trip) {
+      metadata.circuitTrips.push(trip);
+
+      // User-facing warning
+      this.logger.warn(`Circuit breaker opened for ${trip.provider}`);
+
+      this.logger.debug('Circuit breaker opened', {
+        provider: trip.provider,
+        failures: trip.failures,
+        retryAt: trip.retryAt.toISOString(),
+      });
+    }
+    return true;
+  }
+
+  private recordFallback(
+    metadata: LLMResponseMetadata,
+    from: string,
+    to: string,
+    provider: string,
+    error: unknown
+  ): void {
+    const fallback: LLMFallback = {
+      from,
+      to,
+      provider,
+      reason: error instanceof Error ? error.message : String(error),
+      circuitOpen: isCircuitOpenError(error),
+    };
+    metadata.fallbacks.push(fallback);
+
+    // User-facing warning
+    this.logger.warn(`${from} unavailable, falling back to ${to}`);
+
+    this.logger.debug('Falling back to next model', { ...fallback });
+  }
+
+  /**
+   * Refuse tool requests to models that cannot call tools, natively or through the prompt
+   */
+  private assertToolSupport(options: LLMRequestOptions): void {
+    if (options.tools?.length && !getModelCapabilities(options.model).tools) {
+      throw new ModelCapabilityError(
+        `Model ${options.model} does not support tool calling`,
+        options.model,
+        'tools'
+      );
+    }
+  }
+
+  /**
+   * A cost limit cannot be enforced for a model without pricing: its calls would count as free
+   */
+  private assertCostBudgetPriced(options: LLMRequestOptions): void {
+    if (options.budget?.limitsCost() && !getModelInfo(options.model).pricing) {
+      throw new ConfigurationError(
+        `Cannot enforce maxCost with ${options.model}: its pricing is unknown. Add it with registerModel('${options.model}', { pricing })`
+      );
+    }
+  }
+
+  /**
+   * Price the usage from the model registry unless the provider reported a cost
+   */
+  private withCost(usage: LLMUsage, model: string): LLMUsage {
+    if (usage.cost !== undefined) {
+      return usage;
     }
+    const cost = estimateCost(model, usage);
+    return cost === undefined ? usage : { ...usage, cost };
+  }
+
+  /**
+   * Tools go into the prompt for models without native tool calling, which would otherwise
+   * ignore them and answer as plain chat
+   */
+  private usesPromptTools(options: LLMRequestOptions): boolean {
+    if (!options.tools?.length || getModelCapabilities(options.model).nativeToolCalling) {
+      return false;
+    }
+    this.logger.debug('Using prompt-based tool calling', {
+      model: options.model,
+      toolCount: options.tools.length,
+    });
+    return true;
+  }
+
+  /**
+   * Request as the provider gets it. Models without native tool calling cannot take earlier
+   * tool calls and results either, so those are rewritten as text even when no tools are sent,
+   * as for the final answer after a tool round
+   */
+  private toProviderRequest(options: LLMRequestOptions, promptTools: boolean): LLMRequestOptions {
+    if (promptTools) {
+      return toPromptToolRequest(options);
+    }
+    const hasToolHistory = options.messages.some(
+      (message) => message.role === 'tool' || !!message.tool_calls?.length
+    );
+    if (hasToolHistory && !getModelCapabilities(options.model).nativeToolCalling) {
+      return toPromptToolRequest(options);
+    }
+    return options;
+  }
+
+  /**
+   * Providers surface aborts as their own API errors; report them as cancellations instead
+   */
+  private toCancellationError(error: unknown, options: LLMRequestOptions): unknown {
+    if (options.signal?.aborted && !isOperationCancelledError(error)) {
+      return new OperationCancelledError(
+        `${options.model} request was cancelled`,
+        options.signal.reason,
+        error instanceof Error ? error : undefined
+      );
+    }
+    return error;
+  }
+
+  /**
+   * Prompt tokens the messages take for a model, to budget a prompt before sending it
+   */
+  countTokens(messages: LLMMessage[], model: string): number {
+    return countMessageTokens(messages, model);
   }
 
   getSupportedModels(): string[] {
@@ -563,21 +722,52 @@ export class LLM {
 
   async generateEmbedding(text: string, model?: string): Promise<{ embedding: number[] }> {
     const modelToUse = model || DEFAULT_LLM_CONFIG.defaultEmbeddingModel;
+    if (this.recorder) {
+      return this.recorder.call('embedding', { model: modelToUse, text }, () =>
+        this.requestEmbedding(text, modelToUse)
+      );
+    }
+    return this.requestEmbedding(text, modelToUse);
+  }
+
+  /**
+   * Recorder used for every call made through this instance; getLLM keeps it in sync with
+   * configureRecording()
+   */
+  setRecorder(recorder: Recorder | null): void {
+    this.recorder = recorder;
+  }
+
+  getRecorder(): Recorder | null {
+    return this.recorder;
+  }
+
+  private async requestEmbedding(
+    text: string,
+    modelToUse: string
+  ): Promise<{ embedding: number[] }> {
     const provider = this.getProviderForModel(modelToUse);
 
     if (!provider.generateEmbedding) {
       throw new Error(`Provider for model ${modelToUse} does not support embedding generation`);
     }
 
-    // Use rate limiter to coordinate concurrent requests
-    const rateLimiter = getRateLimiter();
-    await rateLimiter.acquire();
+    // Use the model's rate limit bucket to coordinate concurrent requests
+    const rateLimiter = this.getRateLimitBucket(modelToUse);
+    const ticket = await rateLimiter.acquire(
+      RequestPriority.NORMAL,
+      'LLM.generateEmbedding',
+      rateLimiter.limitsTokens() ? countTextTokens(text, modelToUse) : 0
+    );
 
     try {
       const result = await provider.generateEmbedding(text, modelToUse);
       return { embedding: result.embedding };
+    } catch (error) {
+      this.applyErrorRateLimit(rateLimiter, error);
+      throw error;
     } finally {
-      rateLimiter.release();
+      rateLimiter.release(ticket);
     }
   }
 
@@ -737,10 +927,12 @@ export function getLLM(logger?: Logger): LLM {
   if (existingEntry) {
     // Update last access time
     existingEntry.lastAccessTime = Date.now();
+    existingEntry.instance.setRecorder(getActiveRecorder());
     return existingEntry.instance;
   }
 
   const newInstance = new LLM(logger);
+  newInstance.setRecorder(getActiveRecorder());
   llmInstances.set(instanceId, {
     instance: newInstance,
     lastAccessTime: Date.now(),
@@ -782,6 +974,12 @@ export async function getLLMProvider(
     case 'ollama':
       provider = new OllamaProvider(config);
       break;
+    case 'mock':
+      provider = new MockProvider(config);
+      break;
+    case 'openai-compatible':
+      provider = new OpenAICompatibleProvider(config);
+      break;
     default:
       throw new Error(`Unsupported provider: ${providerName}`);
   }
@@ -792,4 +990,36 @@ export async function getLLMProvider(
 // Export types and utilities
 export * from './types';
 export * from './models';
-export { OpenAIProvider, ClaudeProvider, GeminiProvider, OllamaProvider };
+export * from './registry';
+export * from './structured';
+export * from './prompt-tools';
+export * from './fallback';
+export * from './tokenizer';
+export * from './rate-limiter';
+export {
+  OpenAIProvider,
+  ClaudeProvider,
+  GeminiProvider,
+  OllamaProvider,
+  MockProvider,
+  OpenAICompatibleProvider,
+};
+export {
+  registerOpenAICompatibleEndpoint,
+  removeOpenAICompatibleEndpoint,
+  clearOpenAICompatibleEndpoints,
+  getOpenAICompatibleEndpoint,
+  listOpenAICompatibleEndpoints,
+  discoverOpenAICompatibleModels,
+} from './providers/openai-compatible';
+export type {
+  OpenAICompatibleEndpoint,
+  OpenAICompatibleCapabilities,
+} from './providers/openai-compatible';
+export {
+  setMockScript,
+  clearMockScripts,
+  getMockRequests,
+  generateMockEmbedding,
+} from './providers/mock';
+export type { MockScript, MockRule, MockReply, MockReplySource } from './providers/mock';
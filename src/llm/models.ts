@@ -2,8 +2,13 @@ import { OpenAIProvider } from './providers/openai';
 import { ClaudeProvider } from './providers/claude';
 import { GeminiProvider } from './providers/gemini';
 import { OllamaProvider } from './providers/ollama';
+import { MockProvider, MOCK_MODEL_PREFIX } from './providers/mock';
+import {
+  getOpenAICompatibleModels,
+  parseOpenAICompatibleModel,
+} from './providers/openai-compatible';
 
-export type ProviderType = 'openai' | 'claude' | 'gemini' | 'ollama';
+export type ProviderType = 'openai' | 'claude' | 'gemini' | 'ollama' | 'mock' | 'openai-compatible';
 
 // Cache for provider models to avoid creating new instances on every call
 let cachedProviderModels: Record<ProviderType, string[]> | null = null;
@@ -25,6 +30,8 @@ function getProviderModels(): Record<ProviderType, string[]> {
     claude: [],
     gemini: [],
     ollama: [],
+    mock: new MockProvider().getSupportedModels(),
+    'openai-compatible': [], // Endpoints change at runtime; listed on demand
   };
 
   // Silently try to load providers - missing API keys are expected behavior
@@ -96,6 +103,8 @@ let PROVIDER_MODELS: Record<ProviderType, string[]> = {
   claude: [],
   gemini: [],
   ollama: [],
+  mock: [],
+  'openai-compatible': [],
 };
 
 // Mutex promise for atomic initialization
@@ -179,9 +188,21 @@ const MODEL_MAPPINGS: Record<ProviderType, string[]> = {
   claude: ['claude'],
   gemini: ['gemini'],
   ollama: ['llama', 'mistral', 'codellama', 'vicuna', 'orca', 'phi'],
+  mock: [MOCK_MODEL_PREFIX],
+  'openai-compatible': [],
 };
 
 export function getProviderForModel(model: string): ProviderType | null {
+  // Checked first so names like `mock:gpt-4o` never reach a real provider
+  if (model.startsWith(MOCK_MODEL_PREFIX)) {
+    return 'mock';
+  }
+
+  // `<endpoint>:<model>` for registered OpenAI-compatible endpoints, before any name pattern
+  if (parseOpenAICompatibleModel(model)) {
+    return 'openai-compatible';
+  }
+
   initializeModelMappings();
 
   // First check exact model mappings from providers
@@ -208,10 +229,13 @@ export function getProviderForModel(model: string): ProviderType | null {
 
 export function getSupportedModelsList(): string[] {
   initializeModelMappings();
-  return Object.values(PROVIDER_MODELS).flat();
+  return [...Object.values(PROVIDER_MODELS).flat(), ...getOpenAICompatibleModels()];
 }
 
 export function getModelsByProvider(provider: ProviderType): string[] {
   initializeModelMappings();
+  if (provider === 'openai-compatible') {
+    return getOpenAICompatibleModels();
+  }
   return [...PROVIDER_MODELS[provider]];
 }
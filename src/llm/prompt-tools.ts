@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import {
+  LLMMessage,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMUsage,
+  Tool,
+  ToolCall,
+  isStringContent,
+} from './types';
+
+/**
+ * Prompt-based (ReAct) tool calling for models without native function calling.
+ * Tools are described in the system message, the model answers with Action/Action Input
+ * (or a JSON block) and tool results come back as Observation messages. Responses carry
+ * regular toolCalls, so callers run the same tool loop as for native calls.
+ */
+
+const ACTION_PATTERN = /^[ \t]*Action[ \t]*:[ \t]*(.+)$/im;
+const ACTION_INPUT_PATTERN = /^[ \t]*Action[ \t]+Input[ \t]*:/im;
+const FINAL_ANSWER_PATTERN = /^[ \t]*Final[ \t]+Answer[ \t]*:[ \t]*/im;
+// Lines where a model keeps writing past its action, e.g. an observation it made up
+const ACTION_INPUT_END_PATTERN = /\n[ \t]*(?:Observation|Thought|Action|Final[ \t]+Answer)[ \t]*:/i;
+
+type ToolArguments = ToolCall['function']['arguments'];
+
+function describeParameters(tool: Tool): string[] {
+  const { properties, required = [] } = tool.function.parameters;
+  return Object.entries(properties).map(([name, schema]) => {
+    const details = [schema.type, required.includes(name) ? 'required' : 'optional'];
+    const values = schema.enum ? `; one of: ${schema.enum.join(', ')}` : '';
+    const description = schema.description ? `: ${schema.description}` : '';
+    return `  - ${name} (${details.join(', ')}${values})${description}`;
+  });
+}
+
+/**
+ * Tool descriptions and the answer format, appended to the system message
+ */
+export function renderToolPrompt(tools: Tool[]): string {
+  const descriptions = tools.map((tool) => {
+    const parameters = describeParameters(tool);
+    return [
+      `${tool.function.name}: ${tool.function.description}`,
+      ...(parameters.length > 0 ? ['  Arguments:', ...parameters] : ['  No arguments.']),
+    ].join('\n');
+  });
+
+  return [
+    'You can use the following tools:',
+    '',
+    descriptions.join('\n\n'),
+    '',
+    'To use a tool, answer in exactly this format and stop after Action Input:',
+    'Thought: why the tool is needed',
+    `Action: the tool name, one of ${tools.map((tool) => tool.function.name).join(', ')}`,
+    'Action Input: the arguments as a JSON object on one line',
+    '',
+    'The tool result comes back as "Observation: ...". Use one tool at a time.',
+    'When you can answer without a tool, answer in this format:',
+    'Thought: why no tool is needed',
+    'Final Answer: your answer',
+  ].join('\n');
+}
+
+function formatAction(toolCall: ToolCall): string {
+  return `Action: ${toolCall.function.name}\nAction Input: ${JSON.stringify(toolCall.function.arguments ?? {})}`;
+}
+
+/**
+ * Request for the provider: tools (if any) moved into a single leading system message (providers
+ * differ in whether systemPrompt or a system message wins), earlier tool calls and results
+ * rewritten as Action and Observation text
+ */
+export function toPromptToolRequest(options: LLMRequestOptions): LLMRequestOptions {
+  const [first, ...rest] = options.messages;
+  const leadingSystem = first?.role === 'system' && isStringContent(first.content) ? first : null;
+  const system = [
+    options.systemPrompt,
+    leadingSystem?.content,
+    options.tools?.length ? renderToolPrompt(options.tools) : undefined,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const toolNames = new Map<string, string>();
+  const messages: LLMMessage[] = system ? [{ role: 'system', content: system }] : [];
+
+  for (const message of leadingSystem ? rest : options.messages) {
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      for (const toolCall of message.tool_calls) {
+        toolNames.set(toolCall.id, toolCall.function.name);
+      }
+      const text = isStringContent(message.content) ? message.content.trim() : '';
+      const actions = message.tool_calls.map(formatAction);
+      messages.push({ role: 'assistant', content: [text, ...actions].filter(Boolean).join('\n') });
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const name = message.tool_call_id ? toolNames.get(message.tool_call_id) : undefined;
+      const result = isStringContent(message.content) ? message.content : '';
+      const observation = `Observation${name ? ` (${name})` : ''}: ${result}`;
+      // Results of several calls of one turn go back as a single message
+      const previous = messages[messages.length - 1];
+      if (
+        previous?.role === 'user' &&
+        isStringContent(previous.content) &&
+        previous.content.startsWith('Observation')
+      ) {
+        previous.content = `${previous.content}\n\n${observation}`;
+      } else {
+        messages.push({ role: 'user', content: observation });
+      }
+      continue;
+    }
+
+    messages.push(message);
+  }
+
+  return { ...options, systemPrompt: undefined, tools: undefined, messages };
+}
+
+function toArguments(raw: unknown, tool: Tool | undefined): ToolArguments {
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    return raw as ToolArguments;
+  }
+
+  // A bare value is meant for the tool's only parameter
+  const parameters = tool ? Object.keys(tool.function.parameters.properties) : [];
+  if (parameters.length === 1 && raw !== undefined && raw !== '') {
+    return { [parameters[0]]: raw as string | number | boolean | null };
+  }
+  return {};
+}
+
+function parseJsonValue(text: string): unknown {
+  const unfenced = text
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    return unfenced;
+  }
+}
+
+function toToolCall(name: string, raw: unknown, tools: Tool[]): ToolCall {
+  const tool = tools.find((candidate) => candidate.function.name === name);
+  return {
+    id: `call_${randomUUID()}`,
+    type: 'function',
+    function: { name, arguments: toArguments(raw, tool) },
+  };
+}
+
+/**
+ * JSON tool call some models write instead of the text format:
+ * {"action": "...", "action_input": {...}} or {"name": "...", "arguments": {...}}
+ */
+function parseJsonAction(content: string, tools: Tool[]): { name: string; input: unknown } | null {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+  if (!text.startsWith('{')) {
+    return null;
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const object = value as Record<string, unknown>;
+  const name = typeof object.action === 'string' ? object.action : object.name;
+  const input = 'action' in object ? object.action_input : object.arguments;
+  if (typeof name !== 'string') {
+    return null;
+  }
+  // Only known names count, so a structured answer that happens to have a name field stays an answer
+  const isTool = tools.some((tool) => tool.function.name === name);
+  return isTool || /^final[ _]answer$/i.test(name) ? { name, input } : null;
+}
+
+/**
+ * Split a completion into a tool call or the answer text
+ */
+export function parsePromptToolCompletion(
+  content: string,
+  tools: Tool[]
+): { content: string; toolCalls?: ToolCall[] } {
+  const action = ACTION_PATTERN.exec(content);
+  const finalAnswer = FINAL_ANSWER_PATTERN.exec(content);
+
+  if (action && (!finalAnswer || action.index < finalAnswer.index)) {
+    const name = action[1].trim().replace(/^[`"']+|[`"']+$/g, '');
+    const afterAction = content.slice(action.index + action[0].length);
+    const inputMatch = ACTION_INPUT_PATTERN.exec(afterAction);
+    let input: unknown;
+    if (inputMatch) {
+      const rawInput = afterAction.slice(inputMatch.index + inputMatch[0].length);
+      const end = rawInput.search(ACTION_INPUT_END_PATTERN);
+      input = parseJsonValue((end >= 0 ? rawInput.slice(0, end) : rawInput).trim());
+    }
+    return { content: '', toolCalls: [toToolCall(name, input, tools)] };
+  }
+
+  if (finalAnswer) {
+    return { content: content.slice(finalAnswer.index + finalAnswer[0].length).trim() };
+  }
+
+  const jsonAction = parseJsonAction(content, tools);
+  if (jsonAction) {
+    if (/^final[ _]answer$/i.test(jsonAction.name)) {
+      const answer = jsonAction.input;
+      return { content: typeof answer === 'string' ? answer : JSON.stringify(answer ?? '') };
+    }
+    return { content: '', toolCalls: [toToolCall(jsonAction.name, jsonAction.input, tools)] };
+  }
+
+  // No format followed: the whole text is the answer
+  return { content: content.trim() };
+}
+
+export function parsePromptToolResponse(response: LLMResponse, tools: Tool[]): LLMResponse {
+  const parsed = parsePromptToolCompletion(response.content, tools);
+  return { ...response, content: parsed.content, toolCalls: parsed.toolCalls };
+}
+
+/**
+ * Stream of a prompt-based tool request. Text after "Final Answer:" streams through as it
+ * arrives; anything else is held back until the end, when it is parsed as a whole.
+ */
+export async function* parsePromptToolStream(
+  chunks: AsyncIterable<LLMStreamChunk>,
+  tools: Tool[],
+  model: string
+): AsyncIterableIterator<LLMStreamChunk> {
+  let buffer = '';
+  let answering = false;
+  let trimStart = true;
+  let usage: LLMUsage | undefined;
+
+  for await (const chunk of chunks) {
+    model = chunk.model || model;
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+
+    let text: string;
+    if (answering) {
+      text = chunk.content;
+    } else {
+      buffer += chunk.content;
+      const finalAnswer = FINAL_ANSWER_PATTERN.exec(buffer);
+      const action = ACTION_PATTERN.exec(buffer);
+      if (!finalAnswer || (action && action.index < finalAnswer.index)) {
+        continue;
+      }
+      answering = true;
+      text = buffer.slice(finalAnswer.index + finalAnswer[0].length);
+    }
+
+    if (trimStart) {
+      text = text.trimStart();
+      trimStart = text === '';
+    }
+    if (text || chunk.done || chunk.usage) {
+      yield { content: text, done: chunk.done, model, usage: chunk.usage };
+    }
+  }
+
+  if (!answering) {
+    const parsed = parsePromptToolCompletion(buffer, tools);
+    yield { content: parsed.content, done: true, model, toolCalls: parsed.toolCalls, usage };
+  }
+}
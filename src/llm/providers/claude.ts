@@ -9,6 +9,7 @@ import {
   EmbeddingResult,
   isStringContent,
   isMultiModalContent,
+  RateLimitInfo,
 } from '../types';
 import Anthropic from '@anthropic-ai/sdk';
 import type { ContentBlockDeltaEvent, TextDelta } from '@anthropic-ai/sdk/resources/messages';
@@ -20,17 +21,26 @@ import type {
 import { getLogger } from '../../logger';
 import { Logger } from '../../logger/types';
 import { LLMApiError, VisionError } from '../../errors';
+import { parseRateLimitHeaders } from '../rate-limiter';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // Retry helper with exponential backoff
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  signal?: AbortSignal
+): Promise<T> {
   let lastError: Error | undefined;
   for (let i = 0; i < maxRetries; i++) {
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      // A cancelled request must not be retried
+      if (signal?.aborted) {
+        throw lastError;
+      }
       if (i < maxRetries - 1) {
         await new Promise((r) => setTimeout(r, Math.pow(2, i) * 1000));
       }
@@ -156,23 +166,31 @@ export class ClaudeProvider implements LLMProvider {
     const { system, messages } = this.prepareMessages(options);
 
     try {
-      const message = await withRetry(() =>
-        this.client.beta.tools.messages.create({
-          model: options.model,
-          messages: messages as ToolsBetaMessageParam[],
-          system,
-          temperature: options.temperature ?? 0.7,
-          max_tokens: options.maxTokens ?? 4096,
-          stream: false,
-          ...(options.tools &&
-            options.tools.length > 0 && {
-              tools: options.tools.map((tool) => ({
-                name: tool.function.name,
-                description: tool.function.description,
-                input_schema: tool.function.parameters,
-              })),
-            }),
-        })
+      const { data: message, response: httpResponse } = await withRetry(
+        () =>
+          this.client.beta.tools.messages
+            .create(
+              {
+                model: options.model,
+                messages: messages as ToolsBetaMessageParam[],
+                system,
+                temperature: options.temperature ?? 0.7,
+                max_tokens: options.maxTokens ?? 4096,
+                stream: false,
+                ...(options.tools &&
+                  options.tools.length > 0 && {
+                    tools: options.tools.map((tool) => ({
+                      name: tool.function.name,
+                      description: tool.function.description,
+                      input_schema: tool.function.parameters,
+                    })),
+                  }),
+              },
+              { signal: options.signal }
+            )
+            .withResponse(),
+        3,
+        options.signal
       );
 
       // Extract tool calls from Claude's response
@@ -201,6 +219,7 @@ export class ClaudeProvider implements LLMProvider {
           completionTokens: message.usage?.output_tokens ?? 0,
           totalTokens: (message.usage?.input_tokens ?? 0) + (message.usage?.output_tokens ?? 0),
         },
+        rateLimit: parseRateLimitHeaders(httpResponse.headers),
       };
     } catch (error) {
       const originalError = error instanceof Error ? error : new Error(String(error));
@@ -220,24 +239,36 @@ export class ClaudeProvider implements LLMProvider {
     const { system, messages } = this.prepareMessages(options);
 
     let stream;
+    let rateLimit: RateLimitInfo | undefined;
     try {
-      stream = await withRetry(() =>
-        this.client.beta.tools.messages.create({
-          model: options.model,
-          messages: messages as ToolsBetaMessageParam[],
-          system,
-          temperature: options.temperature ?? 0.7,
-          max_tokens: options.maxTokens ?? 4096,
-          stream: true,
-          ...(options.tools &&
-            options.tools.length > 0 && {
-              tools: options.tools.map((tool) => ({
-                name: tool.function.name,
-                description: tool.function.description,
-                input_schema: tool.function.parameters,
-              })),
-            }),
-        })
+      stream = await withRetry(
+        async () => {
+          const { data, response } = await this.client.beta.tools.messages
+            .create(
+              {
+                model: options.model,
+                messages: messages as ToolsBetaMessageParam[],
+                system,
+                temperature: options.temperature ?? 0.7,
+                max_tokens: options.maxTokens ?? 4096,
+                stream: true,
+                ...(options.tools &&
+                  options.tools.length > 0 && {
+                    tools: options.tools.map((tool) => ({
+                      name: tool.function.name,
+                      description: tool.function.description,
+                      input_schema: tool.function.parameters,
+                    })),
+                  }),
+              },
+              { signal: options.signal }
+            )
+            .withResponse();
+          rateLimit = parseRateLimitHeaders(response.headers);
+          return data;
+        },
+        3,
+        options.signal
       );
     } catch (error) {
       const originalError = error instanceof Error ? error : new Error(String(error));
@@ -278,6 +309,7 @@ export class ClaudeProvider implements LLMProvider {
             done: true,
             model: options.model,
             toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            rateLimit,
           };
           return;
         }
@@ -17,13 +17,21 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 // Retry helper with exponential backoff
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  signal?: AbortSignal
+): Promise<T> {
   let lastError: Error | undefined;
   for (let i = 0; i < maxRetries; i++) {
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      // A cancelled request must not be retried
+      if (signal?.aborted) {
+        throw lastError;
+      }
       if (i < maxRetries - 1) {
         await new Promise((r) => setTimeout(r, Math.pow(2, i) * 1000));
       }
@@ -125,10 +133,13 @@ export class GeminiProvider implements LLMProvider {
   private createGenerationConfig(options: LLMRequestOptions): {
     temperature: number;
     maxOutputTokens: number;
+    responseMimeType?: string;
   } {
     return {
       temperature: options.temperature ?? 0.7,
       maxOutputTokens: options.maxTokens ?? 4096,
+      // JSON mode is accepted by the API even though this SDK version doesn't type it
+      ...(options.responseFormat && { responseMimeType: 'application/json' }),
     };
   }
 
@@ -145,11 +156,14 @@ export class GeminiProvider implements LLMProvider {
         generationConfig,
       });
 
-      const result = await withRetry(() =>
-        model.generateContent({
-          contents,
-          generationConfig,
-        })
+      const result = await withRetry(
+        () =>
+          model.generateContent({
+            contents,
+            generationConfig,
+          }),
+        3,
+        options.signal
       );
 
       const response = result.response;
@@ -198,11 +212,14 @@ export class GeminiProvider implements LLMProvider {
 
     let result;
     try {
-      result = await withRetry(() =>
-        model.generateContentStream({
-          contents,
-          generationConfig,
-        })
+      result = await withRetry(
+        () =>
+          model.generateContentStream({
+            contents,
+            generationConfig,
+          }),
+        3,
+        options.signal
       );
     } catch (error) {
       const originalError = error instanceof Error ? error : new Error(String(error));
@@ -0,0 +1,295 @@
+import { createHash } from 'crypto';
+import {
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMConfig,
+  LLMUsage,
+  LLMMessageContent,
+  EmbeddingResult,
+  ToolCall,
+  isStringContent,
+  isTextContentPart,
+} from '../types';
+import { getLogger } from '../../logger';
+import { Logger } from '../../logger/types';
+import { LLMApiError } from '../../errors';
+import { parseRateLimitHeaders } from '../rate-limiter';
+
+export const MOCK_MODEL_PREFIX = 'mock:';
+export const DEFAULT_MOCK_MODEL = 'mock:scripted';
+export const DEFAULT_MOCK_EMBEDDING_MODEL = 'mock:embedding';
+const DEFAULT_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * One scripted model turn
+ */
+export interface MockReply {
+  content?: string;
+  toolCalls?: Array<{
+    name: string; // Name as the LLM sees it, e.g. `plugin_search` or `mcp_read_file`
+    arguments?: Record<string, string | number | boolean | null>;
+    id?: string; // Defaults to mock_call_<n>
+  }>;
+  chunks?: string[]; // Streamed pieces of content; defaults to content split on whitespace
+  usage?: LLMUsage; // Defaults to a character-based estimate
+  error?: string; // Fail the call with an LLMApiError carrying this message
+  errorStatus?: number; // HTTP status of that error, e.g. 429 or 503 to exercise fallbacks
+  headers?: Record<string, string>; // Response headers, e.g. retry-after or x-ratelimit-* limits
+}
+
+export type MockReplySource = MockReply | ((request: LLMRequestOptions) => MockReply);
+
+/**
+ * Reply when a request matches. String and RegExp matchers are tested against the text of
+ * the last message, so a rule keyed on the user prompt does not fire again on the tool result turn.
+ */
+export interface MockRule {
+  match: string | RegExp | ((request: LLMRequestOptions) => boolean);
+  reply: MockReplySource;
+  times?: number; // Times the rule may fire; unlimited when omitted
+}
+
+/**
+ * Script for one mock model. Rules are checked first, then the queue is consumed in order,
+ * then the fallback is used; a request nothing answers fails with an LLMApiError.
+ */
+export interface MockScript {
+  rules?: MockRule[];
+  queue?: MockReplySource[];
+  fallback?: MockReplySource;
+  embeddings?: Record<string, number[]>; // Exact-text overrides for generateEmbedding
+  embeddingDimensions?: number; // Size of generated embeddings (default: 64)
+}
+
+interface MockScriptState {
+  script: MockScript;
+  queueIndex: number;
+  ruleHits: number[];
+  requests: LLMRequestOptions[];
+}
+
+const mockScripts: Map<string, MockScriptState> = new Map();
+let toolCallCounter = 0;
+
+/**
+ * Register the script served for a mock model (e.g. `mock:scripted`), replacing any earlier one
+ */
+export function setMockScript(model: string, script: MockScript): void {
+  if (!model.startsWith(MOCK_MODEL_PREFIX)) {
+    throw new Error(`Mock model names must start with '${MOCK_MODEL_PREFIX}': ${model}`);
+  }
+  mockScripts.set(model, { script, queueIndex: 0, ruleHits: [], requests: [] });
+}
+
+/**
+ * Remove every registered mock script and reset generated tool call ids
+ */
+export function clearMockScripts(): void {
+  mockScripts.clear();
+  toolCallCounter = 0;
+}
+
+/**
+ * Requests received by a mock model, in order, for asserting on prompts and tools
+ */
+export function getMockRequests(model: string): LLMRequestOptions[] {
+  return [...(mockScripts.get(model)?.requests ?? [])];
+}
+
+function getContentText(content: LLMMessageContent): string {
+  if (isStringContent(content)) return content;
+  return content
+    .filter(isTextContentPart)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function matchesRule(rule: MockRule, request: LLMRequestOptions): boolean {
+  if (typeof rule.match === 'function') return rule.match(request);
+  const last = request.messages[request.messages.length - 1];
+  const text = last ? getContentText(last.content) : '';
+  if (typeof rule.match === 'string') return text.includes(rule.match);
+  return rule.match.test(text);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Feature-hashed bag of words, L2-normalised. Texts sharing words get a higher cosine
+ * similarity, so similarity search ranks results sensibly without a real model.
+ */
+export function generateMockEmbedding(
+  text: string,
+  dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS
+): number[] {
+  const vector: number[] = new Array(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const token of tokens) {
+    const digest = createHash('sha256').update(token).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Offline provider for `mock:` models. Replies come from scripts registered with setMockScript,
+ * embeddings are generated deterministically from the input text.
+ */
+export class MockProvider implements LLMProvider {
+  name = 'mock';
+  private logger: Logger;
+
+  constructor(config?: LLMConfig) {
+    // Use provided logger or fallback to global logger
+    this.logger = config?.logger || getLogger();
+
+    this.logger.debug('Mock provider initialization', {
+      scriptedModels: Array.from(mockScripts.keys()),
+    });
+  }
+
+  getSupportedModels(): string[] {
+    return Array.from(new Set([DEFAULT_MOCK_MODEL, ...mockScripts.keys()]));
+  }
+
+  getVisionModels(): string[] {
+    return [];
+  }
+
+  getEmbeddingModels(): string[] {
+    return [DEFAULT_MOCK_EMBEDDING_MODEL];
+  }
+
+  async generateResponse(options: LLMRequestOptions): Promise<LLMResponse> {
+    const reply = this.nextReply(options);
+    const content = reply.content ?? '';
+    const toolCalls = this.buildToolCalls(reply);
+
+    return {
+      content,
+      model: options.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: reply.usage ?? this.estimateUsage(options, content),
+      rateLimit: parseRateLimitHeaders(reply.headers),
+    };
+  }
+
+  async *generateStreamResponse(options: LLMRequestOptions): AsyncIterableIterator<LLMStreamChunk> {
+    const reply = this.nextReply(options);
+    const content = reply.content ?? '';
+    const chunks = reply.chunks ?? content.match(/\S+\s*|\s+/g) ?? [];
+
+    for (const chunk of chunks) {
+      yield { content: chunk, done: false, model: options.model };
+    }
+
+    // Final chunk with tool calls and usage
+    const toolCalls = this.buildToolCalls(reply);
+    yield {
+      content: '',
+      done: true,
+      model: options.model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: reply.usage ?? this.estimateUsage(options, chunks.join('')),
+      rateLimit: parseRateLimitHeaders(reply.headers),
+    };
+  }
+
+  async generateEmbedding(text: string, model?: string): Promise<EmbeddingResult> {
+    const embeddingModel = model || DEFAULT_MOCK_EMBEDDING_MODEL;
+    const script = mockScripts.get(embeddingModel)?.script;
+    const embedding =
+      script?.embeddings?.[text] ?? generateMockEmbedding(text, script?.embeddingDimensions);
+
+    this.logger.debug('Mock embedding generated', {
+      model: embeddingModel,
+      textLength: text.length,
+      dimensions: embedding.length,
+    });
+
+    return {
+      embedding,
+      model: embeddingModel,
+      usage: { promptTokens: estimateTokens(text), totalTokens: estimateTokens(text) },
+    };
+  }
+
+  getEmbeddingProvider(): LLMProvider {
+    return this;
+  }
+
+  private nextReply(options: LLMRequestOptions): MockReply {
+    const state = mockScripts.get(options.model);
+    if (!state) {
+      throw new LLMApiError(`No mock script registered for model ${options.model}`, this.name);
+    }
+    state.requests.push(options);
+
+    const { script } = state;
+    let source: MockReplySource | undefined;
+    let matched = 'fallback';
+
+    const ruleIndex = (script.rules ?? []).findIndex(
+      (rule, index) =>
+        (rule.times === undefined || (state.ruleHits[index] ?? 0) < rule.times) &&
+        matchesRule(rule, options)
+    );
+    if (ruleIndex >= 0) {
+      state.ruleHits[ruleIndex] = (state.ruleHits[ruleIndex] ?? 0) + 1;
+      source = script.rules![ruleIndex].reply;
+      matched = `rule ${ruleIndex}`;
+    } else if (script.queue && state.queueIndex < script.queue.length) {
+      source = script.queue[state.queueIndex];
+      matched = `queue ${state.queueIndex}`;
+      state.queueIndex++;
+    } else {
+      source = script.fallback;
+    }
+
+    if (!source) {
+      throw new LLMApiError(
+        `Mock script for ${options.model} has no reply for request ${state.requests.length}`,
+        this.name
+      );
+    }
+
+    const reply = typeof source === 'function' ? source(options) : source;
+    this.logger.debug('Mock reply selected', {
+      model: options.model,
+      matched,
+      hasToolCalls: !!reply.toolCalls?.length,
+    });
+
+    if (reply.error) {
+      // Headers ride on the cause, where SDK errors keep them
+      const cause = reply.headers
+        ? Object.assign(new Error(reply.error), { headers: reply.headers })
+        : undefined;
+      throw new LLMApiError(reply.error, this.name, cause, reply.errorStatus);
+    }
+    return reply;
+  }
+
+  private buildToolCalls(reply: MockReply): ToolCall[] {
+    return (reply.toolCalls ?? []).map((call) => ({
+      id: call.id ?? `mock_call_${++toolCallCounter}`,
+      type: 'function' as const,
+      function: { name: call.name, arguments: call.arguments ?? {} },
+    }));
+  }
+
+  private estimateUsage(options: LLMRequestOptions, completion: string): LLMUsage {
+    const prompt = options.messages.map((message) => getContentText(message.content)).join('\n');
+    const promptTokens = estimateTokens(`${options.systemPrompt ?? ''}${prompt}`);
+    const completionTokens = estimateTokens(completion);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
@@ -201,6 +201,7 @@ export class OllamaProvider implements LLMProvider {
         num_predict: options.maxTokens ?? 4096,
       },
       stream: false,
+      ...(options.responseFormat && { format: 'json' }),
       tools: options.tools?.map((tool) => ({
         type: 'function',
         function: {
@@ -259,6 +260,7 @@ export class OllamaProvider implements LLMProvider {
         num_predict: options.maxTokens ?? 4096,
       },
       stream: true,
+      ...(options.responseFormat && { format: 'json' }),
       tools: options.tools?.map((tool) => ({
         type: 'function',
         function: {
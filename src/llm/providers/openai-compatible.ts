@@ -0,0 +1,324 @@
+import {
+  LLMProvider,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMConfig,
+  VisionAnalysisOptions,
+  VisionAnalysisResult,
+  EmbeddingResult,
+} from '../types';
+import { OpenAIProvider } from './openai';
+import { getLogger } from '../../logger';
+import { Logger } from '../../logger/types';
+import { LLMApiError, VisionError } from '../../errors';
+
+/**
+ * Self-hosted servers speaking the OpenAI API (vLLM, llama.cpp server, LM Studio, ...).
+ * Each server is a named endpoint and its models are addressed as `<endpoint>:<model>`,
+ * e.g. `local:qwen2.5-7b` for model `qwen2.5-7b` of the endpoint `local`.
+ */
+
+/**
+ * What an endpoint's server supports; servers differ in how far they follow the OpenAI API
+ */
+export interface OpenAICompatibleCapabilities {
+  tools?: 'native' | 'prompt' | false; // 'prompt' uses prompt-based tool calls (default: 'prompt')
+  vision?: boolean; // Image content in messages (default: false)
+  jsonMode?: boolean; // response_format json_object (default: false)
+}
+
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string; // Server URL including the API prefix, e.g. http://localhost:8000/v1
+  apiKey?: string; // Most local servers accept any key (default: a placeholder)
+  headers?: Record<string, string>; // Sent with every request, e.g. gateway auth headers
+  models?: string[]; // Chat model ids without the endpoint prefix; discovery adds to them
+  embeddingModels?: string[]; // Embedding model ids without the endpoint prefix
+  capabilities?: OpenAICompatibleCapabilities;
+  timeout?: number; // Request timeout in ms (default: 120000)
+}
+
+interface EndpointState {
+  config: OpenAICompatibleEndpoint;
+  discoveredModels: string[];
+}
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+const ENDPOINT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const RESERVED_ENDPOINT_NAMES = ['mock'];
+// Local servers ignore the key, but the OpenAI client needs one; never fall back to OPENAI_API_KEY
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+const endpoints: Map<string, EndpointState> = new Map();
+
+/**
+ * Register (or replace) a named endpoint; its models are then routed as `<name>:<model>`
+ */
+export function registerOpenAICompatibleEndpoint(
+  name: string,
+  endpoint: OpenAICompatibleEndpoint
+): void {
+  if (!ENDPOINT_NAME_PATTERN.test(name) || RESERVED_ENDPOINT_NAMES.includes(name)) {
+    throw new Error(`Invalid OpenAI-compatible endpoint name: ${name}`);
+  }
+  if (!endpoint.baseUrl) {
+    throw new Error(`OpenAI-compatible endpoint ${name} needs a baseUrl`);
+  }
+  endpoints.set(name, { config: { ...endpoint }, discoveredModels: [] });
+}
+
+export function removeOpenAICompatibleEndpoint(name: string): boolean {
+  return endpoints.delete(name);
+}
+
+/**
+ * Remove every registered endpoint
+ */
+export function clearOpenAICompatibleEndpoints(): void {
+  endpoints.clear();
+}
+
+export function getOpenAICompatibleEndpoint(name: string): OpenAICompatibleEndpoint | undefined {
+  return endpoints.get(name)?.config;
+}
+
+export function listOpenAICompatibleEndpoints(): string[] {
+  return Array.from(endpoints.keys());
+}
+
+/**
+ * Endpoint and server-side model id of a routed model name, or null when the prefix is not
+ * a registered endpoint
+ */
+export function parseOpenAICompatibleModel(
+  model: string
+): { endpoint: string; model: string } | null {
+  const separator = model.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+  const endpoint = model.slice(0, separator);
+  return endpoints.has(endpoint) ? { endpoint, model: model.slice(separator + 1) } : null;
+}
+
+/**
+ * Chat models of every endpoint, configured and discovered, as routed names
+ */
+export function getOpenAICompatibleModels(): string[] {
+  return Array.from(endpoints.entries()).flatMap(([name, state]) =>
+    [...new Set([...(state.config.models ?? []), ...state.discoveredModels])].map(
+      (model) => `${name}:${model}`
+    )
+  );
+}
+
+/**
+ * Ask an endpoint's server for its models (GET <baseUrl>/models) and remember them.
+ * Returns the routed names of the models the server reports.
+ */
+export async function discoverOpenAICompatibleModels(
+  name: string,
+  options?: { signal?: AbortSignal }
+): Promise<string[]> {
+  const state = endpoints.get(name);
+  if (!state) {
+    throw new Error(`Unknown OpenAI-compatible endpoint: ${name}`);
+  }
+
+  const { config } = state;
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/models`;
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${config.apiKey ?? PLACEHOLDER_API_KEY}`,
+        ...config.headers,
+      },
+      signal: options?.signal,
+    });
+  } catch (error) {
+    const originalError = error instanceof Error ? error : new Error(String(error));
+    throw new LLMApiError(
+      `Model discovery for endpoint ${name} failed: ${originalError.message}`,
+      OPENAI_COMPATIBLE_PROVIDER,
+      originalError
+    );
+  }
+  if (!response.ok) {
+    throw new LLMApiError(
+      `Model discovery for endpoint ${name} failed: HTTP ${response.status}`,
+      OPENAI_COMPATIBLE_PROVIDER,
+      undefined,
+      response.status
+    );
+  }
+
+  const body = (await response.json()) as { data?: Array<{ id?: unknown }> };
+  const ids = (body.data ?? [])
+    .map((model) => model.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+  state.discoveredModels = ids;
+  return ids.map((id) => `${name}:${id}`);
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = OPENAI_COMPATIBLE_PROVIDER;
+  private logger: Logger;
+  // OpenAI clients per endpoint, rebuilt when the endpoint is registered again
+  private clients: Map<string, { config: OpenAICompatibleEndpoint; provider: OpenAIProvider }> =
+    new Map();
+
+  constructor(config?: LLMConfig) {
+    this.logger = config?.logger || getLogger();
+
+    this.logger.info('OpenAI-compatible provider initialized');
+    this.logger.debug('OpenAI-compatible provider initialization', {
+      endpoints: listOpenAICompatibleEndpoints(),
+    });
+  }
+
+  getSupportedModels(): string[] {
+    return getOpenAICompatibleModels();
+  }
+
+  getVisionModels(): string[] {
+    return getOpenAICompatibleModels().filter(
+      (model) => this.resolveEndpoint(model).config.capabilities?.vision === true
+    );
+  }
+
+  getEmbeddingModels(): string[] {
+    return Array.from(endpoints.entries()).flatMap(([name, state]) =>
+      (state.config.embeddingModels ?? []).map((model) => `${name}:${model}`)
+    );
+  }
+
+  async generateResponse(options: LLMRequestOptions): Promise<LLMResponse> {
+    const { provider, request } = this.prepareRequest(options);
+    const response = await provider.generateResponse(request);
+    // Report the routed name; servers answer with their own ids (often a file path)
+    return { ...response, model: options.model };
+  }
+
+  async *generateStreamResponse(options: LLMRequestOptions): AsyncIterableIterator<LLMStreamChunk> {
+    const { provider, request } = this.prepareRequest(options);
+    for await (const chunk of provider.generateStreamResponse(request)) {
+      yield { ...chunk, model: options.model };
+    }
+  }
+
+  async generateEmbedding(text: string, model?: string): Promise<EmbeddingResult> {
+    const embeddingModel = model || this.getEmbeddingModels()[0];
+    if (!embeddingModel) {
+      throw new LLMApiError(
+        'No embedding model given and no endpoint lists embeddingModels',
+        this.name
+      );
+    }
+
+    const endpoint = this.resolveEndpoint(embeddingModel);
+    const result = await this.getClient(endpoint.name).generateEmbedding(text, endpoint.model);
+    return { ...result, model: embeddingModel };
+  }
+
+  async analyzeImage(
+    imagePath: string,
+    options: VisionAnalysisOptions = {}
+  ): Promise<VisionAnalysisResult> {
+    const { provider, visionOptions } = this.prepareVision(options);
+    return provider.analyzeImage(imagePath, visionOptions);
+  }
+
+  async analyzeImageFromBase64(
+    base64Data: string,
+    options: VisionAnalysisOptions = {}
+  ): Promise<VisionAnalysisResult> {
+    const { provider, visionOptions } = this.prepareVision(options);
+    return provider.analyzeImageFromBase64(base64Data, visionOptions);
+  }
+
+  private resolveEndpoint(model: string): {
+    name: string;
+    model: string;
+    config: OpenAICompatibleEndpoint;
+  } {
+    const parsed = parseOpenAICompatibleModel(model);
+    const state = parsed ? endpoints.get(parsed.endpoint) : undefined;
+    if (!parsed || !state) {
+      throw new LLMApiError(
+        `Model ${model} does not name a registered OpenAI-compatible endpoint (expected <endpoint>:<model>)`,
+        this.name
+      );
+    }
+    return { name: parsed.endpoint, model: parsed.model, config: state.config };
+  }
+
+  /**
+   * Request for the endpoint's server: its own model id, and no response_format unless the
+   * server supports JSON mode (the schema instruction is still in the prompt)
+   */
+  private prepareRequest(options: LLMRequestOptions): {
+    provider: OpenAIProvider;
+    request: LLMRequestOptions;
+  } {
+    const endpoint = this.resolveEndpoint(options.model);
+    this.logger.debug('Routing request to OpenAI-compatible endpoint', {
+      endpoint: endpoint.name,
+      model: endpoint.model,
+    });
+
+    return {
+      provider: this.getClient(endpoint.name),
+      request: {
+        ...options,
+        model: endpoint.model,
+        responseFormat: endpoint.config.capabilities?.jsonMode ? options.responseFormat : undefined,
+      },
+    };
+  }
+
+  private prepareVision(options: VisionAnalysisOptions): {
+    provider: OpenAIProvider;
+    visionOptions: VisionAnalysisOptions;
+  } {
+    if (!options.model) {
+      throw new VisionError(
+        'OpenAI-compatible vision needs a model (<endpoint>:<model>)',
+        this.name
+      );
+    }
+    const endpoint = this.resolveEndpoint(options.model);
+    if (!endpoint.config.capabilities?.vision) {
+      throw new VisionError(`Endpoint ${endpoint.name} does not support vision`, this.name);
+    }
+    return {
+      provider: this.getClient(endpoint.name),
+      visionOptions: { ...options, model: endpoint.model },
+    };
+  }
+
+  private getClient(name: string): OpenAIProvider {
+    const config = endpoints.get(name)?.config;
+    if (!config) {
+      throw new LLMApiError(`Unknown OpenAI-compatible endpoint: ${name}`, this.name);
+    }
+
+    const cached = this.clients.get(name);
+    if (cached && cached.config === config) {
+      return cached.provider;
+    }
+
+    // Chat, embeddings and vision all go to the endpoint's server
+    const provider = new OpenAIProvider({
+      apiKey: config.apiKey ?? PLACEHOLDER_API_KEY,
+      baseUrl: config.baseUrl,
+      embeddingBaseUrl: config.baseUrl,
+      visionBaseUrl: config.baseUrl,
+      headers: config.headers,
+      timeout: config.timeout,
+      logger: this.logger,
+    });
+    this.clients.set(name, { config, provider });
+    return provider;
+  }
+}
@@ -9,22 +9,32 @@ import {
   VisionAnalysisOptions,
   VisionAnalysisResult,
   EmbeddingResult,
+  RateLimitInfo,
 } from '../types';
 import OpenAI from 'openai';
 import { getLogger } from '../../logger';
 import { Logger } from '../../logger/types';
 import { LLMApiError, VisionError } from '../../errors';
+import { parseRateLimitHeaders } from '../rate-limiter';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // Retry helper with exponential backoff
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3): Promise<T> {
+async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  signal?: AbortSignal
+): Promise<T> {
   let lastError: Error | undefined;
   for (let i = 0; i < maxRetries; i++) {
     try {
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      // A cancelled request must not be retried
+      if (signal?.aborted) {
+        throw lastError;
+      }
       if (i < maxRetries - 1) {
         await new Promise((r) => setTimeout(r, Math.pow(2, i) * 1000));
       }
@@ -97,15 +107,20 @@ export class OpenAIProvider implements LLMProvider {
     // If baseUrl is explicitly null, don't use OPENAI_BASE_URL fallback (for embedding/vision providers)
     const chatBaseUrl =
       config?.baseUrl === null ? undefined : config?.baseUrl || process.env.OPENAI_BASE_URL;
+    const defaultHeaders = config?.headers;
     this.client = new OpenAI({
       apiKey,
       timeout,
+      defaultHeaders,
       ...(chatBaseUrl && { baseURL: chatBaseUrl }),
     });
 
     // Dedicated embedding client - NO fallback to OPENAI_BASE_URL
-    const embeddingApiKey = process.env.OPENAI_EMBEDDING_API_KEY || apiKey;
-    const embeddingBaseUrl = process.env.OPENAI_EMBEDDING_BASE_URL; // Only dedicated URL, no fallback
+    // A configured embeddingBaseUrl belongs to this provider's server, so it shares the API key
+    const embeddingApiKey = config?.embeddingBaseUrl
+      ? apiKey
+      : process.env.OPENAI_EMBEDDING_API_KEY || apiKey;
+    const embeddingBaseUrl = config?.embeddingBaseUrl || process.env.OPENAI_EMBEDDING_BASE_URL; // Only dedicated URL, no fallback
 
     this.logger.debug('Creating embedding client', {
       hasEmbeddingApiKey: !!embeddingApiKey,
@@ -115,9 +130,15 @@ export class OpenAIProvider implements LLMProvider {
     });
 
     // Create embedding client with COMPLETELY isolated configuration
-    const embeddingClientConfig: { apiKey: string; baseURL?: string; timeout: number } = {
+    const embeddingClientConfig: {
+      apiKey: string;
+      baseURL?: string;
+      timeout: number;
+      defaultHeaders?: Record<string, string>;
+    } = {
       apiKey: embeddingApiKey,
       timeout,
+      defaultHeaders,
     };
 
     // Only add baseURL if we have a dedicated one, otherwise OpenAI client will use default
@@ -131,13 +152,21 @@ export class OpenAIProvider implements LLMProvider {
     this.embeddingClient = new OpenAI(embeddingClientConfig);
 
     // Dedicated vision client - NO fallback to OPENAI_BASE_URL
-    const visionApiKey = process.env.OPENAI_VISION_API_KEY || apiKey;
-    const visionBaseUrl = process.env.OPENAI_VISION_BASE_URL; // Only dedicated URL, no fallback
+    const visionApiKey = config?.visionBaseUrl
+      ? apiKey
+      : process.env.OPENAI_VISION_API_KEY || apiKey;
+    const visionBaseUrl = config?.visionBaseUrl || process.env.OPENAI_VISION_BASE_URL; // Only dedicated URL, no fallback
 
     // Create vision client with COMPLETELY isolated configuration
-    const visionClientConfig: { apiKey: string; baseURL?: string; timeout: number } = {
+    const visionClientConfig: {
+      apiKey: string;
+      baseURL?: string;
+      timeout: number;
+      defaultHeaders?: Record<string, string>;
+    } = {
       apiKey: visionApiKey,
       timeout,
+      defaultHeaders,
     };
 
     // Only add baseURL if we have a dedicated one, otherwise OpenAI client will use default
@@ -246,19 +275,30 @@ export class OpenAIProvider implements LLMProvider {
     const messages = this.prepareMessages(options);
 
     try {
-      const completion = await withRetry(() =>
-        this.client.chat.completions.create({
-          model: options.model,
-          messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-          temperature: options.temperature ?? 0.7,
-          max_tokens: options.maxTokens ?? 4096,
-          stream: false,
-          ...(options.tools &&
-            options.tools.length > 0 && {
-              tools: options.tools as OpenAI.Chat.Completions.ChatCompletionTool[],
-              tool_choice: 'auto',
-            }),
-        })
+      const { data: completion, response: httpResponse } = await withRetry(
+        () =>
+          this.client.chat.completions
+            .create(
+              {
+                model: options.model,
+                messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+                temperature: options.temperature ?? 0.7,
+                max_tokens: options.maxTokens ?? 4096,
+                stream: false,
+                ...(options.tools &&
+                  options.tools.length > 0 && {
+                    tools: options.tools as OpenAI.Chat.Completions.ChatCompletionTool[],
+                    tool_choice: 'auto',
+                  }),
+                ...(options.responseFormat && {
+                  response_format: { type: 'json_object' as const },
+                }),
+              },
+              { signal: options.signal }
+            )
+            .withResponse(),
+        3,
+        options.signal
       );
 
       const message = completion.choices[0]?.message;
@@ -283,6 +323,7 @@ export class OpenAIProvider implements LLMProvider {
           totalTokens: completion.usage?.total_tokens ?? 0,
           cost: this.resolveUsageCost(completion),
         },
+        rateLimit: parseRateLimitHeaders(httpResponse.headers),
       };
     } catch (error) {
       const originalError = error instanceof Error ? error : new Error(String(error));
@@ -306,21 +347,36 @@ export class OpenAIProvider implements LLMProvider {
           controller?: AbortController;
         })
       | undefined;
+    let rateLimit: RateLimitInfo | undefined;
     try {
-      stream = await withRetry(() =>
-        this.client.chat.completions.create({
-          model: options.model,
-          messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-          temperature: options.temperature ?? 0.7,
-          max_tokens: options.maxTokens ?? 4096,
-          stream: true,
-          stream_options: { include_usage: true }, // Enable usage tracking in streaming
-          ...(options.tools &&
-            options.tools.length > 0 && {
-              tools: options.tools as OpenAI.Chat.Completions.ChatCompletionTool[],
-              tool_choice: 'auto',
-            }),
-        })
+      stream = await withRetry(
+        async () => {
+          const { data, response } = await this.client.chat.completions
+            .create(
+              {
+                model: options.model,
+                messages: messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+                temperature: options.temperature ?? 0.7,
+                max_tokens: options.maxTokens ?? 4096,
+                stream: true,
+                stream_options: { include_usage: true }, // Enable usage tracking in streaming
+                ...(options.tools &&
+                  options.tools.length > 0 && {
+                    tools: options.tools as OpenAI.Chat.Completions.ChatCompletionTool[],
+                    tool_choice: 'auto',
+                  }),
+                ...(options.responseFormat && {
+                  response_format: { type: 'json_object' as const },
+                }),
+              },
+              { signal: options.signal }
+            )
+            .withResponse();
+          rateLimit = parseRateLimitHeaders(response.headers);
+          return data;
+        },
+        3,
+        options.signal
       );
     } catch (error: unknown) {
       // Log full error details including OpenAI API response
@@ -424,6 +480,7 @@ export class OpenAIProvider implements LLMProvider {
               }))
             : undefined,
         usage,
+        rateLimit,
       };
     } catch (error) {
       // Abort the stream on error to prevent resource leak
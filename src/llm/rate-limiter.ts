@@ -0,0 +1,701 @@
+import { createHash } from 'crypto';
+import { RateLimitBucketStatus, RateLimitInfo, RateLimiterOptions } from './types';
+import { OperationCancelledError, abortable, throwIfAborted } from '../errors';
+
+/**
+ * Request priority levels for fair scheduling
+ */
+export enum RequestPriority {
+  /** High priority - Agent.ask() direct user interactions */
+  HIGH = 0,
+  /** Normal priority - Task execution, SubAgent operations */
+  NORMAL = 1,
+  /** Low priority - Background tasks like context compression */
+  LOW = 2,
+}
+
+/**
+ * Tokens a request holds in a limiter's window: the estimate while it runs, the reported
+ * usage once it is released
+ */
+export interface RateLimitTicket {
+  tokens: number;
+  at: number;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timeoutId: NodeJS.Timeout;
+  priority: RequestPriority;
+  enqueuedAt: number;
+  caller?: string;
+}
+
+const WINDOW_MS = 60000;
+const RECHECK_INTERVAL_MS = 1000;
+
+/**
+ * Rate limiter for coordinating concurrent LLM API calls across modules.
+ * Prevents API rate limit errors (429) when multiple modules call LLM simultaneously.
+ *
+ * Features:
+ * - Concurrent request limiting
+ * - Requests per minute and tokens per minute limiting
+ * - Pauses when the provider reports retry-after or an exhausted limit
+ * - Fair scheduling with priority queues
+ * - Starvation prevention for low-priority requests
+ *
+ * The LLM keeps one limiter per provider, model and API key (see getRateLimitBucket), so a
+ * burst against one provider does not hold back requests to another.
+ */
+export class RateLimiter {
+  private queues: Map<RequestPriority, QueuedRequest[]> = new Map([
+    [RequestPriority.HIGH, []],
+    [RequestPriority.NORMAL, []],
+    [RequestPriority.LOW, []],
+  ]);
+  private running = 0;
+  private requestTimestamps: number[] = [];
+  private tokenWindow: RateLimitTicket[] = [];
+  private maxConcurrent: number;
+  private maxRequestsPerMinute: number;
+  private maxTokensPerMinute: number | undefined;
+  private acquireTimeout: number;
+  /** Maximum time a low-priority request can wait before being promoted (prevents starvation) */
+  private maxStarvationTimeMs: number;
+  /** How often to check for starvation (ms) */
+  private readonly starvationCheckInterval: number = 1000;
+  private starvationTimer: NodeJS.Timeout | null = null;
+  /** No request starts before this time (retry-after or an exhausted provider limit) */
+  private pausedUntil = 0;
+  /** Tokens the provider reported left in its current window */
+  private providerTokens: { remaining: number; resetAt: number } | null = null;
+  /** Flag to track if instance is destroyed */
+  private isDestroyed = false;
+  /** Lock for queue operations to prevent race conditions */
+  private queueLock = false;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 5;
+    this.maxRequestsPerMinute = options.maxRequestsPerMinute ?? 60;
+    this.maxTokensPerMinute = options.maxTokensPerMinute;
+    this.acquireTimeout = options.acquireTimeout ?? 30000;
+    this.maxStarvationTimeMs = options.maxStarvationTimeMs ?? 10000;
+    this.startStarvationPrevention();
+  }
+
+  /**
+   * Change limits in place; requests already running or queued keep their slots
+   */
+  configure(options: RateLimiterOptions): void {
+    this.maxConcurrent = options.maxConcurrent ?? this.maxConcurrent;
+    this.maxRequestsPerMinute = options.maxRequestsPerMinute ?? this.maxRequestsPerMinute;
+    this.maxTokensPerMinute = options.maxTokensPerMinute ?? this.maxTokensPerMinute;
+    this.acquireTimeout = options.acquireTimeout ?? this.acquireTimeout;
+    this.maxStarvationTimeMs = options.maxStarvationTimeMs ?? this.maxStarvationTimeMs;
+  }
+
+  /**
+   * Destroy the rate limiter and cleanup all resources
+   */
+  destroy(): void {
+    if (this.isDestroyed) {
+      return;
+    }
+    this.isDestroyed = true;
+    this.clear();
+  }
+
+  /**
+   * Start the starvation prevention timer
+   */
+  private startStarvationPrevention(): void {
+    if (this.starvationTimer) return;
+
+    this.starvationTimer = setInterval(() => {
+      this.promoteStarvedRequests();
+    }, this.starvationCheckInterval);
+
+    // Allow process to exit
+    this.starvationTimer.unref();
+  }
+
+  /**
+   * Promote requests that have been waiting too long to prevent starvation
+   */
+  private promoteStarvedRequests(): void {
+    const now = Date.now();
+
+    // Check LOW priority queue for starvation
+    const lowQueue = this.queues.get(RequestPriority.LOW) || [];
+    const normalQueue = this.queues.get(RequestPriority.NORMAL) || [];
+
+    // Promote starved LOW -> NORMAL
+    const starvedFromLow = lowQueue.filter(
+      (req) => now - req.enqueuedAt > this.maxStarvationTimeMs
+    );
+    for (const req of starvedFromLow) {
+      const index = lowQueue.indexOf(req);
+      if (index !== -1) {
+        lowQueue.splice(index, 1);
+        req.priority = RequestPriority.NORMAL;
+        normalQueue.push(req);
+      }
+    }
+
+    // Check NORMAL priority queue for extreme starvation (2x threshold)
+    const highQueue = this.queues.get(RequestPriority.HIGH) || [];
+    const starvedFromNormal = normalQueue.filter(
+      (req) => now - req.enqueuedAt > this.maxStarvationTimeMs * 2
+    );
+    for (const req of starvedFromNormal) {
+      const index = normalQueue.indexOf(req);
+      if (index !== -1) {
+        normalQueue.splice(index, 1);
+        req.priority = RequestPriority.HIGH;
+        highQueue.push(req);
+      }
+    }
+  }
+
+  /**
+   * Get total number of queued requests across all priorities
+   */
+  private getTotalQueued(): number {
+    let total = 0;
+    for (const queue of this.queues.values()) {
+      total += queue.length;
+    }
+    return total;
+  }
+
+  /**
+   * Get the next request from the priority queues (fair scheduling)
+   * Returns requests in priority order: HIGH -> NORMAL -> LOW
+   */
+  private getNextFromQueue(): QueuedRequest | undefined {
+    // Process in priority order
+    for (const priority of [RequestPriority.HIGH, RequestPriority.NORMAL, RequestPriority.LOW]) {
+      const queue = this.queues.get(priority);
+      if (queue && queue.length > 0) {
+        return queue.shift();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether acquire() needs a token estimate; without a token limit the window is filled
+   * from reported usage alone
+   */
+  limitsTokens(): boolean {
+    return this.maxTokensPerMinute !== undefined || this.providerTokens !== null;
+  }
+
+  /**
+   * Acquire a slot for making an LLM request.
+   * Waits if maximum concurrent requests are in progress or a rate limit is exceeded.
+   * @param priority - Request priority for fair scheduling (default: NORMAL)
+   * @param caller - Optional identifier for the caller (for debugging)
+   * @param tokens - Estimated prompt plus completion tokens of the request
+   * @param signal - Cancels the wait
+   * @returns Ticket to pass to release() with the tokens the request actually used
+   * @throws Error if acquire timeout is exceeded, in the queue and waiting for limits together
+   * @throws OperationCancelledError if the signal is aborted while waiting
+   */
+  async acquire(
+    priority: RequestPriority = RequestPriority.NORMAL,
+    caller?: string,
+    tokens: number = 0,
+    signal?: AbortSignal
+  ): Promise<RateLimitTicket> {
+    const deadline = Date.now() + this.acquireTimeout;
+    let holdsSlot = false;
+    try {
+      for (;;) {
+        throwIfAborted(signal, 'Rate limiter acquire');
+        const waitTime = this.getWaitTime(tokens);
+        if (waitTime > 0) {
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) {
+            throw this.timeoutError(priority, caller);
+          }
+          // Re-check at least every second: released requests may free tokens of their estimate
+          await abortable(
+            new Promise<void>((resolve) =>
+              setTimeout(resolve, Math.min(waitTime, RECHECK_INTERVAL_MS, remaining))
+            ),
+            signal,
+            'Rate limiter acquire'
+          );
+          continue;
+        }
+
+        // Check concurrent limit
+        if (holdsSlot || this.running < this.maxConcurrent) {
+          if (!holdsSlot) {
+            this.running++;
+          }
+          return this.recordStart(tokens);
+        }
+
+        // Wait in priority queue until release() hands over its slot; limits are checked again
+        await this.enqueue(priority, caller, deadline, signal);
+        holdsSlot = true;
+      }
+    } catch (error) {
+      // A slot handed over before the limits allowed the request goes to the next one
+      if (holdsSlot) {
+        this.release();
+      }
+      throw error;
+    }
+  }
+
+  private timeoutError(priority: RequestPriority, caller?: string): Error {
+    return new Error(
+      `Rate limiter acquire timeout after ${this.acquireTimeout}ms (priority: ${RequestPriority[priority]}, caller: ${caller || 'unknown'})`
+    );
+  }
+
+  /**
+   * Time in ms until a request of this many tokens fits every limit
+   */
+  private getWaitTime(tokens: number): number {
+    // Clean up old entries (older than 1 minute)
+    const now = Date.now();
+    this.requestTimestamps = this.requestTimestamps.filter((ts) => now - ts < WINDOW_MS);
+    this.tokenWindow = this.tokenWindow.filter((ticket) => now - ticket.at < WINDOW_MS);
+
+    let waitTime = this.pausedUntil - now;
+
+    // Check rate limit (requests per minute)
+    if (this.requestTimestamps.length >= this.maxRequestsPerMinute) {
+      waitTime = Math.max(waitTime, WINDOW_MS - (now - this.requestTimestamps[0]));
+    }
+
+    // Check tokens per minute; a request larger than the limit waits for an empty window
+    if (this.maxTokensPerMinute !== undefined) {
+      let used = this.tokenWindow.reduce((total, ticket) => total + ticket.tokens, 0);
+      for (const ticket of this.tokenWindow) {
+        if (used === 0 || used + tokens <= this.maxTokensPerMinute) {
+          break;
+        }
+        used -= ticket.tokens;
+        waitTime = Math.max(waitTime, WINDOW_MS - (now - ticket.at));
+      }
+    }
+
+    // Tokens the provider says are left until its window resets
+    if (
+      this.providerTokens &&
+      now < this.providerTokens.resetAt &&
+      tokens > this.providerTokens.remaining
+    ) {
+      waitTime = Math.max(waitTime, this.providerTokens.resetAt - now);
+    }
+
+    return waitTime;
+  }
+
+  private recordStart(tokens: number): RateLimitTicket {
+    const ticket: RateLimitTicket = { tokens, at: Date.now() };
+    this.requestTimestamps.push(ticket.at);
+    this.tokenWindow.push(ticket);
+    if (this.providerTokens) {
+      this.providerTokens.remaining -= tokens;
+    }
+    return ticket;
+  }
+
+  private enqueue(
+    priority: RequestPriority,
+    caller: string | undefined,
+    deadline: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      // Check if destroyed
+      if (this.isDestroyed) {
+        reject(new Error('Rate limiter has been destroyed'));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(request.timeoutId);
+        remove();
+        reject(new OperationCancelledError('Rate limiter acquire was cancelled', signal?.reason));
+      };
+      const request: QueuedRequest = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timeoutId: null as unknown as NodeJS.Timeout, // Will be set below
+        priority,
+        enqueuedAt: Date.now(),
+        caller,
+      };
+      const remove = () => {
+        signal?.removeEventListener('abort', onAbort);
+        // Use lock to prevent race condition during removal
+        this.withQueueLock(() => {
+          // Find request in current priority queue (may have been promoted)
+          for (const [, queue] of this.queues) {
+            const index = queue.findIndex((item) => item === request);
+            if (index !== -1) {
+              queue.splice(index, 1);
+              break;
+            }
+          }
+        });
+      };
+
+      const timeoutId = setTimeout(
+        () => {
+          remove();
+          reject(this.timeoutError(priority, caller));
+        },
+        Math.max(0, deadline - Date.now())
+      );
+
+      request.timeoutId = timeoutId;
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Use lock when adding to queue
+      this.withQueueLock(() => {
+        const queue = this.queues.get(priority);
+        if (queue) {
+          queue.push(request);
+        }
+      });
+    });
+  }
+
+  /**
+   * Execute a function with queue lock to prevent race conditions
+   */
+  private withQueueLock<T>(fn: () => T): T {
+    // Simple spinlock for synchronous queue operations
+    // In JS single-threaded environment, this prevents interleaving during async boundaries
+    while (this.queueLock) {
+      // This shouldn't happen in practice due to JS single-threadedness
+      // but provides safety for edge cases
+    }
+    this.queueLock = true;
+    try {
+      return fn();
+    } finally {
+      this.queueLock = false;
+    }
+  }
+
+  /**
+   * Release a slot after completing an LLM request.
+   * @param ticket - Ticket returned by acquire()
+   * @param usedTokens - Tokens the request used; replaces the estimate in the window
+   */
+  release(ticket?: RateLimitTicket, usedTokens?: number): void {
+    if (ticket && usedTokens !== undefined) {
+      ticket.tokens = usedTokens;
+    }
+    this.running = Math.max(0, this.running - 1);
+
+    const next = this.getNextFromQueue();
+    if (next) {
+      clearTimeout(next.timeoutId);
+      this.running++;
+      next.resolve();
+    }
+  }
+
+  /**
+   * Follow the rate limit state a provider reported: wait out retry-after and exhausted
+   * request limits, and keep token requests within the tokens it has left
+   */
+  applyRateLimitInfo(info: RateLimitInfo): void {
+    const now = Date.now();
+    if (info.retryAfterMs !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + info.retryAfterMs);
+    }
+    if (info.requestsRemaining === 0 && info.requestsResetAt !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, info.requestsResetAt);
+    }
+    if (info.tokensRemaining !== undefined) {
+      this.providerTokens = {
+        remaining: info.tokensRemaining,
+        resetAt: info.tokensResetAt ?? now + WINDOW_MS,
+      };
+    }
+  }
+
+  /**
+   * Get current rate limiter status
+   */
+  getStatus(): {
+    running: number;
+    queued: number;
+    queuedByPriority: { high: number; normal: number; low: number };
+    requestsInLastMinute: number;
+    tokensInLastMinute: number;
+    maxRequestsPerMinute: number;
+    maxTokensPerMinute?: number;
+    pausedUntil?: Date;
+  } {
+    const now = Date.now();
+    const recentRequests = this.requestTimestamps.filter((ts) => now - ts < WINDOW_MS);
+    return {
+      running: this.running,
+      queued: this.getTotalQueued(),
+      queuedByPriority: {
+        high: this.queues.get(RequestPriority.HIGH)?.length || 0,
+        normal: this.queues.get(RequestPriority.NORMAL)?.length || 0,
+        low: this.queues.get(RequestPriority.LOW)?.length || 0,
+      },
+      requestsInLastMinute: recentRequests.length,
+      tokensInLastMinute: this.tokenWindow
+        .filter((ticket) => now - ticket.at < WINDOW_MS)
+        .reduce((total, ticket) => total + ticket.tokens, 0),
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+      ...(this.maxTokensPerMinute !== undefined && { maxTokensPerMinute: this.maxTokensPerMinute }),
+      ...(this.pausedUntil > now && { pausedUntil: new Date(this.pausedUntil) }),
+    };
+  }
+
+  /**
+   * Clear all queued requests (useful for cleanup)
+   */
+  clear(): void {
+    for (const queue of this.queues.values()) {
+      for (const item of queue) {
+        clearTimeout(item.timeoutId);
+        item.reject(new Error('Rate limiter cleared'));
+      }
+      queue.length = 0;
+    }
+    this.running = 0;
+    this.requestTimestamps = [];
+    this.tokenWindow = [];
+    this.pausedUntil = 0;
+    this.providerTokens = null;
+    if (this.starvationTimer) {
+      clearInterval(this.starvationTimer);
+      this.starvationTimer = null;
+    }
+  }
+}
+
+// Global rate limiter instance for LLM requests
+let globalRateLimiter: RateLimiter | null = null;
+
+/**
+ * Get the global rate limiter instance, for work that should share one limit across providers.
+ * Creates one if it doesn't exist. LLM requests use the per-provider buckets instead.
+ */
+export function getRateLimiter(options?: RateLimiterOptions): RateLimiter {
+  if (!globalRateLimiter) {
+    globalRateLimiter = new RateLimiter(options);
+  }
+  return globalRateLimiter;
+}
+
+/**
+ * Reset the global rate limiter (useful for testing or configuration changes)
+ */
+export function resetRateLimiter(options?: RateLimiterOptions): RateLimiter {
+  if (globalRateLimiter) {
+    globalRateLimiter.clear();
+  }
+  globalRateLimiter = new RateLimiter(options);
+  return globalRateLimiter;
+}
+
+interface RateLimitBucket {
+  provider: string;
+  model: string;
+  limiter: RateLimiter;
+}
+
+const buckets = new Map<string, RateLimitBucket>();
+// Limits by provider or model name; '' holds the defaults of every bucket
+const configuredLimits = new Map<string, RateLimiterOptions>();
+
+function resolveLimits(provider: string, model: string): RateLimiterOptions {
+  return {
+    ...configuredLimits.get(''),
+    ...configuredLimits.get(provider),
+    ...configuredLimits.get(model),
+  };
+}
+
+/**
+ * Set limits for every model of a provider (e.g. 'claude') or for one model; model limits
+ * win over provider limits, which win over the defaults. Later calls merge.
+ */
+export function setRateLimits(providerOrModel: string, options: RateLimiterOptions): void {
+  configuredLimits.set(providerOrModel, { ...configuredLimits.get(providerOrModel), ...options });
+  for (const bucket of buckets.values()) {
+    if (bucket.provider === providerOrModel || bucket.model === providerOrModel) {
+      bucket.limiter.configure(resolveLimits(bucket.provider, bucket.model));
+    }
+  }
+}
+
+/**
+ * Set the limits every bucket starts from; later calls merge
+ */
+export function setDefaultRateLimits(options: RateLimiterOptions): void {
+  configuredLimits.set('', { ...configuredLimits.get(''), ...options });
+  for (const bucket of buckets.values()) {
+    bucket.limiter.configure(resolveLimits(bucket.provider, bucket.model));
+  }
+}
+
+/**
+ * Rate limiter of a provider, model and API key, created on first use. Keys are only kept
+ * as a hash.
+ */
+export function getRateLimitBucket(provider: string, model: string, apiKey?: string): RateLimiter {
+  const keyHash = apiKey ? createHash('sha256').update(apiKey).digest('hex').slice(0, 16) : '';
+  const id = `${provider}\n${model}\n${keyHash}`;
+  let bucket = buckets.get(id);
+  if (!bucket) {
+    bucket = { provider, model, limiter: new RateLimiter(resolveLimits(provider, model)) };
+    buckets.set(id, bucket);
+  }
+  return bucket.limiter;
+}
+
+export function getRateLimitBucketStatus(): RateLimitBucketStatus[] {
+  return Array.from(buckets.values(), ({ provider, model, limiter }) => {
+    const status = limiter.getStatus();
+    return {
+      provider,
+      model,
+      running: status.running,
+      queued: status.queued,
+      requestsInLastMinute: status.requestsInLastMinute,
+      tokensInLastMinute: status.tokensInLastMinute,
+      maxRequestsPerMinute: status.maxRequestsPerMinute,
+      ...(status.maxTokensPerMinute !== undefined && {
+        maxTokensPerMinute: status.maxTokensPerMinute,
+      }),
+      ...(status.pausedUntil && { pausedUntil: status.pausedUntil }),
+    };
+  });
+}
+
+/**
+ * Drop every bucket and configured limit (useful for testing or configuration changes)
+ */
+export function resetRateLimitBuckets(): void {
+  for (const bucket of buckets.values()) {
+    bucket.limiter.destroy();
+  }
+  buckets.clear();
+  configuredLimits.clear();
+}
+
+type HeaderSource =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | null | undefined>;
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | null | undefined>)[name];
+  return (Array.isArray(value) ? value[0] : value) ?? undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Reset time of a limit: OpenAI sends durations ('1s', '6m0s', '20ms'), Anthropic RFC 3339 dates
+ */
+function parseResetTime(value: string | undefined, now: number): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parts = value.match(/\d+(?:\.\d+)?(?:ms|h|m|s)/g);
+  if (parts && parts.join('') === value.trim()) {
+    const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+    return parts.reduce((time, part) => {
+      const [, amount, unit] = part.match(/^([\d.]+)(ms|h|m|s)$/) ?? [];
+      return time + Number(amount) * units[unit];
+    }, now);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * retry-after-ms, else retry-after in seconds or as an HTTP date
+ */
+function parseRetryAfter(headers: HeaderSource, now: number): number | undefined {
+  const ms = parseNumber(readHeader(headers, 'retry-after-ms'));
+  if (ms !== undefined) {
+    return Math.max(0, ms);
+  }
+  const value = readHeader(headers, 'retry-after');
+  const seconds = parseNumber(value);
+  if (seconds !== undefined) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = value ? Date.parse(value) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Rate limit state from response headers (OpenAI x-ratelimit-*, Anthropic anthropic-ratelimit-*,
+ * retry-after); undefined when the response carries none
+ */
+export function parseRateLimitHeaders(
+  headers: HeaderSource | undefined
+): RateLimitInfo | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const now = Date.now();
+  const header = (openai: string, anthropic: string): string | undefined =>
+    readHeader(headers, `x-ratelimit-${openai}`) ??
+    readHeader(headers, `anthropic-ratelimit-${anthropic}`);
+
+  const info: RateLimitInfo = {
+    requestLimit: parseNumber(header('limit-requests', 'requests-limit')),
+    requestsRemaining: parseNumber(header('remaining-requests', 'requests-remaining')),
+    requestsResetAt: parseResetTime(header('reset-requests', 'requests-reset'), now),
+    tokenLimit: parseNumber(header('limit-tokens', 'tokens-limit')),
+    tokensRemaining: parseNumber(header('remaining-tokens', 'tokens-remaining')),
+    tokensResetAt: parseResetTime(header('reset-tokens', 'tokens-reset'), now),
+    retryAfterMs: parseRetryAfter(headers, now),
+  };
+  const entries = Object.entries(info).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as RateLimitInfo) : undefined;
+}
+
+/**
+ * Rate limit state from the headers of a failed request (SDK errors keep them on `headers`,
+ * possibly under the cause of a provider error)
+ */
+export function getRateLimitInfoFromError(error: unknown): RateLimitInfo | undefined {
+  for (let current = error, depth = 0; current && depth < 4; depth++) {
+    const candidate = current as { headers?: unknown; cause?: unknown };
+    if (candidate.headers && typeof candidate.headers === 'object') {
+      return parseRateLimitHeaders(candidate.headers as HeaderSource);
+    }
+    current = candidate.cause;
+  }
+  return undefined;
+}
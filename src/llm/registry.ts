@@ -0,0 +1,326 @@
+import { LLMUsage } from './types';
+import { ProviderType, getProviderForModel } from './models';
+import {
+  getOpenAICompatibleEndpoint,
+  parseOpenAICompatibleModel,
+} from './providers/openai-compatible';
+
+/**
+ * Model registry: context window, output limit, capabilities and prices of known models.
+ * Lookups match exact names, then Ollama names without their ':tag', then dated variants
+ * (e.g. 'claude-sonnet-4-20250514' uses 'claude-sonnet-4'). Entries registered at runtime
+ * are merged over the built-in ones.
+ */
+
+/**
+ * What a model supports beyond plain chat
+ */
+export interface ModelCapabilities {
+  nativeToolCalling: boolean; // false: tools are rendered into the prompt and parsed from the text
+  tools: boolean; // false: requests with tools are refused
+  vision: boolean;
+  jsonMode: boolean; // Native JSON output; otherwise only the schema instruction is used
+  streaming: boolean;
+}
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelInfo {
+  model: string;
+  provider: ProviderType | null;
+  contextWindow?: number; // Tokens of prompt and completion together
+  maxOutputTokens?: number;
+  pricing?: ModelPricing; // Unknown when missing; cost is then left unset
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Fields of a registry entry; every field is optional and merged over what is known
+ */
+export interface ModelInfoInput {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+const PROVIDER_DEFAULTS: Record<ProviderType, ModelInfoInput> = {
+  openai: {
+    capabilities: { nativeToolCalling: true, tools: true, jsonMode: true, streaming: true },
+  },
+  claude: {
+    capabilities: { nativeToolCalling: true, tools: true, jsonMode: false, streaming: true },
+  },
+  // The Gemini provider does not send tool definitions, so its models use prompt-based calls
+  gemini: {
+    capabilities: { nativeToolCalling: false, tools: true, jsonMode: true, streaming: true },
+  },
+  // Local models cost nothing; native tool calling is set per model below
+  ollama: {
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    capabilities: { nativeToolCalling: false, tools: true, jsonMode: true, streaming: true },
+  },
+  // Mock calls are free unless a scripted reply reports a cost
+  mock: {
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    capabilities: {
+      nativeToolCalling: true,
+      tools: true,
+      vision: true,
+      jsonMode: true,
+      streaming: true,
+    },
+  },
+  // Refined per endpoint from its capability flags
+  'openai-compatible': {
+    capabilities: {
+      nativeToolCalling: false,
+      tools: true,
+      vision: false,
+      jsonMode: false,
+      streaming: true,
+    },
+  },
+};
+
+/**
+ * Capabilities of a model served by an OpenAI-compatible endpoint, from the endpoint's flags
+ */
+function getEndpointCapabilities(model: string): Partial<ModelCapabilities> | undefined {
+  const parsed = parseOpenAICompatibleModel(model);
+  const flags = parsed ? getOpenAICompatibleEndpoint(parsed.endpoint)?.capabilities : undefined;
+  if (!flags) return undefined;
+  return {
+    ...(flags.tools !== undefined && {
+      tools: flags.tools !== false,
+      nativeToolCalling: flags.tools === 'native',
+    }),
+    ...(flags.vision !== undefined && { vision: flags.vision }),
+    ...(flags.jsonMode !== undefined && { jsonMode: flags.jsonMode }),
+  };
+}
+
+const UNKNOWN_PROVIDER_CAPABILITIES: ModelCapabilities = {
+  nativeToolCalling: true,
+  tools: true,
+  vision: false,
+  jsonMode: false,
+  streaming: true,
+};
+
+function entry(
+  contextWindow: number,
+  maxOutputTokens: number,
+  prices: [input: number, output: number] | null = null,
+  capabilities?: Partial<ModelCapabilities>
+): ModelInfoInput {
+  return {
+    contextWindow,
+    maxOutputTokens,
+    ...(prices && { pricing: { inputPerMillion: prices[0], outputPerMillion: prices[1] } }),
+    ...(capabilities && { capabilities }),
+  };
+}
+
+const VISION = { vision: true };
+const NO_TOOLS = { tools: false, nativeToolCalling: false };
+const OLLAMA_NATIVE_TOOLS = { nativeToolCalling: true };
+const EMBEDDING = { tools: false, nativeToolCalling: false, jsonMode: false, streaming: false };
+
+// List prices as published by each provider (standard tier, text tokens)
+const BUILT_IN_MODELS: Record<string, ModelInfoInput> = {
+  // OpenAI
+  'gpt-4.5': entry(128000, 16384, [75, 150], VISION),
+  'gpt-4.1': entry(1047576, 32768, [2, 8], VISION),
+  'gpt-4.1-mini': entry(1047576, 32768, [0.4, 1.6], VISION),
+  'gpt-4.1-nano': entry(1047576, 32768, [0.1, 0.4], VISION),
+  o3: entry(200000, 100000, [2, 8], VISION),
+  'o4-mini': entry(200000, 100000, [1.1, 4.4], VISION),
+  'o4-mini-high': entry(200000, 100000, [1.1, 4.4], VISION),
+  'gpt-4o': entry(128000, 16384, [2.5, 10], VISION),
+  'gpt-4o-mini': entry(128000, 16384, [0.15, 0.6], VISION),
+  'gpt-4-turbo': entry(128000, 4096, [10, 30], VISION),
+  'gpt-4-vision-preview': entry(128000, 4096, [10, 30], { ...VISION, ...NO_TOOLS }),
+  'gpt-4': entry(8192, 8192, [30, 60]),
+  'gpt-3.5-turbo': entry(16385, 4096, [0.5, 1.5]),
+  'gpt-3.5-turbo-16k': entry(16385, 4096, [3, 4]),
+  'gpt-3.5-turbo-instruct': entry(4096, 4096, [1.5, 2], { ...NO_TOOLS, jsonMode: false }),
+  'text-embedding-3-large': entry(8191, 0, [0.13, 0], EMBEDDING),
+  'text-embedding-3-small': entry(8191, 0, [0.02, 0], EMBEDDING),
+  'text-embedding-ada-002': entry(8191, 0, [0.1, 0], EMBEDDING),
+
+  // Claude
+  'claude-opus-4': entry(200000, 32000, [15, 75], VISION),
+  'claude-sonnet-4': entry(200000, 64000, [3, 15], VISION),
+  'claude-3.7-sonnet': entry(200000, 64000, [3, 15], VISION),
+  'claude-3-5-sonnet': entry(200000, 8192, [3, 15], VISION),
+  'claude-3-5-haiku': entry(200000, 8192, [0.8, 4]),
+  'claude-3-opus': entry(200000, 4096, [15, 75], VISION),
+  'claude-3-sonnet': entry(200000, 4096, [3, 15], VISION),
+  'claude-3-haiku': entry(200000, 4096, [0.25, 1.25], VISION),
+
+  // Gemini
+  'gemini-2.5-pro': entry(1048576, 65536, [1.25, 10], VISION),
+  'gemini-2.5-flash': entry(1048576, 65536, [0.3, 2.5], VISION),
+  'gemini-2.5-flash-lite': entry(1048576, 65536, [0.1, 0.4], VISION),
+  'gemini-2.0-flash': entry(1048576, 8192, [0.1, 0.4], VISION),
+  'gemini-2.0-flash-lite': entry(1048576, 8192, [0.075, 0.3], VISION),
+  'gemini-1.5-pro': entry(2097152, 8192, [1.25, 5], VISION),
+  'gemini-1.5-flash': entry(1048576, 8192, [0.075, 0.3], VISION),
+  'gemini-1.5-flash-8b': entry(1048576, 8192, [0.0375, 0.15], VISION),
+  'gemini-pro': entry(32760, 8192, [0.5, 1.5]),
+
+  // Ollama (models with reliable native tool calling are marked)
+  qwen3: entry(40960, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'qwen2.5': entry(32768, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'qwen2.5-coder': entry(32768, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'llama3.1': entry(131072, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'llama3.2': entry(131072, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'llama3.3': entry(131072, 8192, null, OLLAMA_NATIVE_TOOLS),
+  mistral: entry(32768, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'mistral-small': entry(32768, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'mistral-nemo': entry(131072, 8192, null, OLLAMA_NATIVE_TOOLS),
+  'command-r': entry(131072, 4096, null, OLLAMA_NATIVE_TOOLS),
+  'phi4-mini': entry(131072, 8192, null, OLLAMA_NATIVE_TOOLS),
+  phi4: entry(16384, 4096),
+  gemma3: entry(131072, 8192, null, VISION),
+  'deepseek-r1': entry(131072, 8192),
+  codellama: entry(16384, 4096),
+  llava: entry(4096, 2048, null, VISION),
+  'nomic-embed-text': entry(8192, 0, null, EMBEDDING),
+  'mxbai-embed-large': entry(512, 0, null, EMBEDDING),
+};
+
+const registeredModels = new Map<string, ModelInfoInput>();
+
+/**
+ * Key of the entry describing a model: exact name, name without ':tag', or the longest
+ * entry the name extends with '-' (dated and suffixed variants)
+ */
+function resolveKey(model: string, keys: Iterable<string>): string | undefined {
+  const known = new Set(keys);
+  if (known.has(model)) return model;
+
+  const untagged = model.split(':')[0];
+  if (known.has(untagged)) return untagged;
+
+  let best: string | undefined;
+  for (const key of known) {
+    if (untagged.startsWith(`${key}-`) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best;
+}
+
+function mergeInfo(base: ModelInfoInput, update: ModelInfoInput | undefined): ModelInfoInput {
+  if (!update) return base;
+  return {
+    ...base,
+    ...update,
+    capabilities: { ...base.capabilities, ...update.capabilities },
+  };
+}
+
+/**
+ * Everything known about a model: provider defaults, then the built-in entry, then entries
+ * registered at runtime
+ */
+export function getModelInfo(model: string): ModelInfo {
+  const provider = getProviderForModel(model);
+  // Names on OpenAI-compatible endpoints are the server's own; built-in entries do not apply
+  const builtInKey =
+    provider === 'openai-compatible' ? undefined : resolveKey(model, Object.keys(BUILT_IN_MODELS));
+  const registeredKey = resolveKey(model, registeredModels.keys());
+
+  let info: ModelInfoInput = provider ? PROVIDER_DEFAULTS[provider] : {};
+  info = mergeInfo(info, builtInKey ? BUILT_IN_MODELS[builtInKey] : undefined);
+  if (provider === 'openai-compatible') {
+    info = mergeInfo(info, { capabilities: getEndpointCapabilities(model) });
+  }
+  // A registration for the base name applies first, one for the exact name wins
+  if (registeredKey && registeredKey !== model) {
+    info = mergeInfo(info, registeredModels.get(registeredKey));
+  }
+  info = mergeInfo(info, registeredModels.get(model));
+
+  return {
+    model,
+    provider,
+    contextWindow: info.contextWindow,
+    maxOutputTokens: info.maxOutputTokens,
+    pricing: info.pricing,
+    capabilities: { ...UNKNOWN_PROVIDER_CAPABILITIES, ...info.capabilities },
+  };
+}
+
+/**
+ * Add a model or override fields of a known one; later calls merge. The name also covers
+ * its ':tag' and dated variants.
+ */
+export function registerModel(model: string, info: ModelInfoInput): void {
+  registeredModels.set(model, mergeInfo(registeredModels.get(model) ?? {}, info));
+}
+
+/**
+ * Models with a built-in or registered entry
+ */
+export function listRegisteredModels(): ModelInfo[] {
+  const names = new Set([...Object.keys(BUILT_IN_MODELS), ...registeredModels.keys()]);
+  return Array.from(names, (name) => getModelInfo(name));
+}
+
+/**
+ * Remove every entry registered at runtime
+ */
+export function resetModelRegistry(): void {
+  registeredModels.clear();
+}
+
+export function getModelCapabilities(model: string): ModelCapabilities {
+  return getModelInfo(model).capabilities;
+}
+
+/**
+ * Override detected capabilities, e.g. for custom Ollama models; later calls merge
+ */
+export function setModelCapabilities(
+  model: string,
+  capabilities: Partial<ModelCapabilities>
+): void {
+  registerModel(model, { capabilities });
+}
+
+export function clearModelCapabilities(): void {
+  resetModelRegistry();
+}
+
+/**
+ * Cost in USD of a call from its token usage, or undefined when the model has no pricing
+ */
+export function estimateCost(model: string, usage: LLMUsage): number | undefined {
+  const pricing = getModelInfo(model).pricing;
+  if (!pricing) return undefined;
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Tokens an agent's context window may hold: the model's context window minus the room kept
+ * for the completion. Undefined when the context window is unknown.
+ */
+export function getContextBudget(model: string, reservedOutputTokens?: number): number | undefined {
+  const info = getModelInfo(model);
+  if (!info.contextWindow) return undefined;
+  const reserved = reservedOutputTokens ?? info.maxOutputTokens ?? 0;
+  return Math.max(info.contextWindow - reserved, Math.floor(info.contextWindow / 2));
+}
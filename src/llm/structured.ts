@@ -0,0 +1,328 @@
+import {
+  LLMMessage,
+  LLMRequestOptions,
+  LLMResponse,
+  LLMUsage,
+  ResponseSchema,
+  mergeUsage,
+} from './types';
+import { Logger } from '../logger/types';
+import { StructuredOutputError } from '../errors';
+import { DEFAULT_LLM_CONFIG } from './defaults';
+
+// Prevent stack overflow on pathological or self-referencing schemas
+const MAX_SCHEMA_DEPTH = 50;
+
+/**
+ * Minimal LLM surface needed to re-prompt for a corrected response
+ */
+export interface StructuredOutputClient {
+  generateResponse(options: LLMRequestOptions): Promise<LLMResponse>;
+}
+
+export interface StructuredOutputOptions {
+  schema: ResponseSchema;
+  maxRetries?: number; // Re-prompts allowed after the first response fails validation
+  logger?: Logger;
+}
+
+export interface StructuredOutputResult<T = unknown> {
+  data: T;
+  content: string; // Raw text of the accepted response
+  attempts: number; // Number of responses checked, including the first one
+  usage?: LLMUsage; // Usage of the repair calls only
+}
+
+/**
+ * Build the instruction that tells the model to answer with schema-conforming JSON.
+ * Providers without a native JSON mode (Claude) rely on this alone.
+ */
+export function buildSchemaInstruction(schema: ResponseSchema): string {
+  return [
+    'Respond only with a JSON value that conforms to the following JSON Schema.',
+    'Do not wrap the JSON in markdown code fences and do not add any commentary.',
+    JSON.stringify(schema),
+  ].join('\n');
+}
+
+/**
+ * Append the schema instruction to the leading system message (or add one).
+ * Mutates the array so later tool-loop pushes keep the instruction.
+ */
+export function addSchemaInstruction(messages: LLMMessage[], schema: ResponseSchema): void {
+  const instruction = buildSchemaInstruction(schema);
+  const first = messages[0];
+
+  if (first && first.role === 'system' && typeof first.content === 'string') {
+    messages[0] = { ...first, content: `${first.content}\n\n${instruction}` };
+  } else {
+    messages.unshift({ role: 'system', content: instruction });
+  }
+}
+
+/**
+ * Parse a model response as JSON, tolerating markdown fences and surrounding prose.
+ * @throws SyntaxError when no JSON value can be extracted
+ */
+export function parseStructuredContent(content: string): unknown {
+  let text = content.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    // Fall back to the outermost object/array embedded in the text
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(text.slice(start, end + 1));
+    }
+    throw error;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Regex of a schema pattern, or null when the schema's pattern does not compile
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema subset.
+ * @returns Human-readable violations, empty when the value is valid
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: ResponseSchema,
+  path: string = '$',
+  depth: number = 0
+): string[] {
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return [`${path}: schema nesting too deep (max depth: ${MAX_SCHEMA_DEPTH})`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.anyOf && schema.anyOf.length > 0) {
+    const matches = schema.anyOf.filter(
+      (option) => validateAgainstSchema(value, option, path, depth + 1).length === 0
+    );
+    if (matches.length === 0) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+
+  if (schema.oneOf && schema.oneOf.length > 0) {
+    const matches = schema.oneOf.filter(
+      (option) => validateAgainstSchema(value, option, path, depth + 1).length === 0
+    );
+    if (matches.length !== 1) {
+      errors.push(`${path}: must match exactly one schema (matched ${matches.length})`);
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' | ')}, got ${describeValue(value)}`);
+      // Nested checks are meaningless once the type is wrong
+      return errors;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined) {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        errors.push(`${path}: schema pattern ${schema.pattern} is not a valid regular expression`);
+      } else if (!pattern.test(value)) {
+        errors.push(`${path}: must match pattern ${schema.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`, depth + 1));
+      });
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(
+          ...validateAgainstSchema(propertyValue, propertySchema, `${path}.${key}`, depth + 1)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(
+          ...validateAgainstSchema(
+            propertyValue,
+            schema.additionalProperties,
+            `${path}.${key}`,
+            depth + 1
+          )
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+function checkStructuredContent(
+  content: string,
+  schema: ResponseSchema
+): { data?: unknown; errors: string[] } {
+  let data: unknown;
+  try {
+    data = parseStructuredContent(content);
+  } catch (error) {
+    return {
+      errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`],
+    };
+  }
+  return { data, errors: validateAgainstSchema(data, schema) };
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  return [
+    'Your previous response did not match the required JSON Schema:',
+    ...errors.map((error) => `- ${error}`),
+    'Respond again with only the corrected JSON.',
+  ].join('\n');
+}
+
+/**
+ * Validate a response against a schema, re-prompting the model with the
+ * validation errors until it conforms or the retry cap is reached.
+ * @param request - The request that produced `content`; reused for repair calls
+ * @throws StructuredOutputError when every attempt fails validation
+ */
+export async function resolveStructuredOutput<T = unknown>(
+  client: StructuredOutputClient,
+  request: LLMRequestOptions,
+  content: string,
+  options: StructuredOutputOptions
+): Promise<StructuredOutputResult<T>> {
+  const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_LLM_CONFIG.structuredOutputRetries);
+  const messages: LLMMessage[] = [...request.messages];
+  let current = content;
+  let usage: LLMUsage | undefined;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const checked = checkStructuredContent(current, options.schema);
+    errors = checked.errors;
+
+    if (errors.length === 0) {
+      options.logger?.debug('Structured response accepted', { attempt });
+      return { data: checked.data as T, content: current, attempts: attempt, usage };
+    }
+
+    options.logger?.debug('Structured response failed validation', {
+      attempt,
+      errorCount: errors.length,
+      errors: errors.slice(0, 10),
+    });
+
+    if (attempt > maxRetries) {
+      break;
+    }
+
+    messages.push({ role: 'assistant', content: current });
+    messages.push({ role: 'user', content: buildRepairPrompt(errors) });
+
+    const repaired = await client.generateResponse({
+      ...request,
+      messages,
+      stream: false,
+      tools: undefined, // The repair turn only reformats, no further tool use
+      responseFormat: { type: 'json', schema: options.schema },
+    });
+    current = repaired.content;
+    usage = mergeUsage(usage, repaired.usage);
+  }
+
+  throw new StructuredOutputError(
+    `Response did not match the requested schema after ${maxRetries + 1} attempt(s)`,
+    errors,
+    current,
+    maxRetries + 1
+  );
+}
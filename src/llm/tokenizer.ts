@@ -0,0 +1,237 @@
+import { Tiktoken, getEncoding } from 'js-tiktoken';
+import { LLMMessage, LLMMessageContent } from './types';
+import { ProviderType, getProviderForModel } from './models';
+
+/**
+ * Token counting per model: OpenAI models are counted exactly with their BPE encoding, other
+ * providers with estimators calibrated to their tokenizers. Tokenizers registered at runtime
+ * (for a model or a whole provider) take precedence over the built-in ones.
+ */
+
+export interface Tokenizer {
+  name: string;
+  countTokens(text: string): number;
+  messageOverhead?: number; // Tokens the chat format adds per message (role, separators)
+  replyOverhead?: number; // Tokens that prime the reply, counted once per request
+}
+
+/**
+ * Characters per token of each character class, measured on mixed prose and code
+ */
+export interface TokenEstimatorCalibration {
+  charsPerToken: number; // ASCII letters, digits and whitespace
+  symbolsPerToken: number; // ASCII punctuation, usually split into their own tokens
+  nonAsciiPerToken: number; // Accented letters, CJK, emoji, ...
+  messageOverhead?: number;
+  replyOverhead?: number;
+}
+
+export type BpeEncoding = 'o200k_base' | 'cl100k_base';
+
+// Vision inputs are billed by size; without the image, count what OpenAI charges at 1024x1024
+const IMAGE_TOKENS = { low: 85, high: 765 };
+
+const encoders = new Map<BpeEncoding, Tiktoken>();
+
+function getEncoder(encoding: BpeEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Exact counts with a tiktoken encoding; its encoder is built on first use
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  readonly messageOverhead = 3;
+  readonly replyOverhead = 3;
+
+  constructor(private encoding: BpeEncoding) {
+    this.name = encoding;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    // Special token markers in user text are plain text, not control tokens
+    return getEncoder(this.encoding).encode(text, [], []).length;
+  }
+}
+
+/**
+ * Counts from character classes, for providers whose tokenizers are not public
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  readonly messageOverhead: number;
+  readonly replyOverhead: number;
+
+  constructor(
+    readonly name: string,
+    private calibration: TokenEstimatorCalibration
+  ) {
+    this.messageOverhead = calibration.messageOverhead ?? 4;
+    this.replyOverhead = calibration.replyOverhead ?? 3;
+  }
+
+  countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    let plain = 0;
+    let symbols = 0;
+    let nonAscii = 0;
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      if (code > 0x7f) {
+        nonAscii++;
+      } else if (isPlainAscii(code)) {
+        plain++;
+      } else {
+        symbols++;
+      }
+    }
+
+    const { charsPerToken, symbolsPerToken, nonAsciiPerToken } = this.calibration;
+    return Math.ceil(
+      plain / charsPerToken + symbols / symbolsPerToken + nonAscii / nonAsciiPerToken
+    );
+  }
+}
+
+function isPlainAscii(code: number): boolean {
+  return (
+    (code >= 48 && code <= 57) || // 0-9
+    (code >= 65 && code <= 90) || // A-Z
+    (code >= 97 && code <= 122) || // a-z
+    code === 95 || // _
+    code === 32 ||
+    code === 9 ||
+    code === 10 ||
+    code === 13
+  );
+}
+
+const ESTIMATOR_CALIBRATIONS: Record<Exclude<ProviderType, 'openai'>, TokenEstimatorCalibration> = {
+  claude: { charsPerToken: 3.5, symbolsPerToken: 1.2, nonAsciiPerToken: 1.0 },
+  gemini: { charsPerToken: 4.2, symbolsPerToken: 1.5, nonAsciiPerToken: 1.4 },
+  // Llama 3, Qwen and Mistral use 100k+ vocabularies close to OpenAI's
+  ollama: { charsPerToken: 4.0, symbolsPerToken: 1.4, nonAsciiPerToken: 1.1 },
+  'openai-compatible': { charsPerToken: 4.0, symbolsPerToken: 1.4, nonAsciiPerToken: 1.1 },
+  mock: { charsPerToken: 4.0, symbolsPerToken: 4.0, nonAsciiPerToken: 4.0 },
+};
+
+// Unknown models: between the providers above, rounded towards more tokens
+const DEFAULT_CALIBRATION: TokenEstimatorCalibration = {
+  charsPerToken: 3.6,
+  symbolsPerToken: 1.3,
+  nonAsciiPerToken: 1.0,
+};
+
+const builtInTokenizers = new Map<string, Tokenizer>();
+const customTokenizers = new Map<string, Tokenizer>();
+
+function getBuiltInTokenizer(key: string, create: () => Tokenizer): Tokenizer {
+  let tokenizer = builtInTokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = create();
+    builtInTokenizers.set(key, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Encoding of an OpenAI model: cl100k_base up to GPT-4 Turbo, o200k_base from GPT-4o on
+ */
+function getOpenAIEncoding(model: string): BpeEncoding {
+  return /^(gpt-4(?!o|\.)|gpt-3\.5|text-embedding)/i.test(model) ? 'cl100k_base' : 'o200k_base';
+}
+
+/**
+ * Tokenizer of a model: one registered for the model, then for its provider, then the built-in
+ * one. Models of unknown providers get the default estimator.
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  if (model && customTokenizers.has(model)) {
+    return customTokenizers.get(model) as Tokenizer;
+  }
+
+  const provider = model ? getProviderForModel(model) : null;
+  if (provider && customTokenizers.has(provider)) {
+    return customTokenizers.get(provider) as Tokenizer;
+  }
+
+  if (provider === 'openai' && model) {
+    const encoding = getOpenAIEncoding(model);
+    return getBuiltInTokenizer(encoding, () => new BpeTokenizer(encoding));
+  }
+  if (provider && provider !== 'openai') {
+    return getBuiltInTokenizer(
+      provider,
+      () => new EstimatingTokenizer(provider, ESTIMATOR_CALIBRATIONS[provider])
+    );
+  }
+  return getBuiltInTokenizer(
+    'default',
+    () => new EstimatingTokenizer('default', DEFAULT_CALIBRATION)
+  );
+}
+
+/**
+ * Use a tokenizer for a model, or for every model of a provider (e.g. 'claude')
+ */
+export function registerTokenizer(modelOrProvider: string, tokenizer: Tokenizer): void {
+  customTokenizers.set(modelOrProvider, tokenizer);
+}
+
+/**
+ * Remove every registered tokenizer (useful for testing)
+ */
+export function resetTokenizers(): void {
+  customTokenizers.clear();
+}
+
+/**
+ * Tokens of a text for a model
+ */
+export function countTextTokens(text: string, model?: string): number {
+  return getTokenizer(model).countTokens(text);
+}
+
+function countContentTokens(content: LLMMessageContent, tokenizer: Tokenizer): number {
+  if (typeof content === 'string') {
+    return tokenizer.countTokens(content);
+  }
+  return content.reduce((total, part) => {
+    if (part.type === 'image_url') {
+      return total + (part.image_url?.detail === 'low' ? IMAGE_TOKENS.low : IMAGE_TOKENS.high);
+    }
+    return total + tokenizer.countTokens(part.text ?? '');
+  }, 0);
+}
+
+/**
+ * Prompt tokens of a conversation for a model, including the chat format's per-message overhead
+ */
+export function countMessageTokens(messages: LLMMessage[], model?: string): number {
+  if (messages.length === 0) {
+    return 0;
+  }
+
+  const tokenizer = getTokenizer(model);
+  const messageOverhead = tokenizer.messageOverhead ?? 0;
+  const total = messages.reduce((sum, message) => {
+    let tokens = messageOverhead + countContentTokens(message.content ?? '', tokenizer);
+    for (const toolCall of message.tool_calls ?? []) {
+      tokens += tokenizer.countTokens(toolCall.function.name);
+      tokens += tokenizer.countTokens(JSON.stringify(toolCall.function.arguments));
+    }
+    return sum + tokens;
+  }, 0);
+  return total + (tokenizer.replyOverhead ?? 0);
+}
@@ -1,3 +1,6 @@
+import { BudgetTracker } from '../budget';
+import { CacheSetting } from '../cache/types';
+
 export interface LLMMessageContentPart {
   type: 'text' | 'image_url';
   text?: string;
@@ -53,6 +56,46 @@ export interface Tool {
   };
 }
 
+/**
+ * JSON Schema subset used to describe structured responses
+ */
+export interface ResponseSchema {
+  type?:
+    | 'object'
+    | 'array'
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'null'
+    | Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'>;
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  additionalProperties?: boolean | ResponseSchema;
+  items?: ResponseSchema;
+  enum?: Array<string | number | boolean | null>;
+  const?: string | number | boolean | null;
+  anyOf?: ResponseSchema[];
+  oneOf?: ResponseSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Ask the provider to answer in JSON (native JSON mode where available)
+ */
+export interface ResponseFormat {
+  type: 'json';
+  schema?: ResponseSchema;
+  name?: string;
+}
+
 export interface LLMRequestOptions {
   model: string;
   messages: LLMMessage[];
@@ -61,6 +104,11 @@ export interface LLMRequestOptions {
   stream?: boolean;
   systemPrompt?: string;
   tools?: Tool[];
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal; // Aborts the in-flight request and any pending retries
+  budget?: BudgetTracker; // Checked before and charged after the call
+  cache?: CacheSetting; // Response cache for generateResponse() (default: off)
+  fallbackModels?: string[]; // Tried in order when the model fails with a rate limit, 5xx or timeout
 }
 
 export interface LLMUsage {
@@ -75,6 +123,8 @@ export interface LLMResponse {
   model: string;
   toolCalls?: ToolCall[];
   usage?: LLMUsage;
+  metadata?: LLMResponseMetadata; // Set when the request fell back or tripped a circuit breaker
+  rateLimit?: RateLimitInfo; // From the provider's response headers, when it sends them
 }
 
 export interface LLMStreamChunk {
@@ -83,6 +133,53 @@ export interface LLMStreamChunk {
   model: string;
   toolCalls?: ToolCall[];
   usage?: LLMUsage;
+  metadata?: LLMResponseMetadata; // On the first chunk of a stream that fell back
+  rateLimit?: RateLimitInfo; // On the final chunk, from the provider's response headers
+}
+
+/**
+ * A move from a failed (or circuit-broken) model to the next one of fallbackModels
+ */
+export interface LLMFallback {
+  from: string;
+  to: string;
+  provider: string; // Provider of the model that failed
+  reason: string;
+  circuitOpen: boolean; // true when the model was skipped without a request
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * A provider circuit breaker opening after a failed request
+ */
+export interface CircuitTrip {
+  provider: string;
+  failures: number; // Consecutive failures that opened it
+  retryAt: Date; // When it half-opens
+}
+
+export interface LLMResponseMetadata {
+  requestedModel: string;
+  fallbacks: LLMFallback[];
+  circuitTrips: CircuitTrip[];
+}
+
+/**
+ * Circuit breaker configuration, shared by every provider
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive retryable failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time in ms an open circuit rejects requests before letting a probe through (default: 30000) */
+  cooldownMs?: number;
+}
+
+export interface CircuitBreakerStatus {
+  provider: string;
+  state: CircuitState;
+  failures: number;
+  retryAt?: Date; // Set while open
 }
 
 export interface VisionAnalysisOptions {
@@ -137,6 +234,9 @@ export interface LLMProvider {
 export interface LLMConfig {
   apiKey?: string;
   baseUrl?: string | null;
+  embeddingBaseUrl?: string; // Embedding endpoint (and API key) when it is not the provider default
+  visionBaseUrl?: string; // Vision endpoint (and API key) when it is not the provider default
+  headers?: Record<string, string>; // Sent with every request
   defaultModel?: string;
   timeout?: number;
   logger?: import('../logger/types').Logger;
@@ -150,12 +250,43 @@ export interface RateLimiterOptions {
   maxConcurrent?: number;
   /** Maximum requests per minute (default: 60) */
   maxRequestsPerMinute?: number;
+  /** Maximum prompt plus completion tokens per minute (default: unlimited) */
+  maxTokensPerMinute?: number;
   /** Timeout in ms to wait for acquiring a slot (default: 30000) */
   acquireTimeout?: number;
   /** Maximum time in ms a low-priority request can wait before being promoted (default: 10000) */
   maxStarvationTimeMs?: number;
 }
 
+/**
+ * Rate limit state a provider reported in its response headers (retry-after,
+ * x-ratelimit-*, anthropic-ratelimit-*); reset times are epoch milliseconds
+ */
+export interface RateLimitInfo {
+  requestLimit?: number;
+  requestsRemaining?: number;
+  requestsResetAt?: number;
+  tokenLimit?: number;
+  tokensRemaining?: number;
+  tokensResetAt?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Rate limit bucket of one provider, model and API key
+ */
+export interface RateLimitBucketStatus {
+  provider: string;
+  model: string;
+  running: number;
+  queued: number;
+  requestsInLastMinute: number;
+  tokensInLastMinute: number;
+  maxRequestsPerMinute: number;
+  maxTokensPerMinute?: number;
+  pausedUntil?: Date; // Set while the provider asked to wait (retry-after or an exhausted limit)
+}
+
 // Type guard functions
 export function isStringContent(content: LLMMessageContent): content is string {
   return typeof content === 'string';
@@ -179,3 +310,24 @@ export function isImageContentPart(part: LLMMessageContentPart): part is LLMMess
 } {
   return part.type === 'image_url' && !!part.image_url?.url;
 }
+
+// Usage helpers
+/**
+ * Add two usage reports together (either side may be missing)
+ */
+export function mergeUsage(
+  total: LLMUsage | undefined,
+  usage: LLMUsage | undefined
+): LLMUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cost:
+      total.cost !== undefined || usage.cost !== undefined
+        ? (total.cost ?? 0) + (usage.cost ?? 0)
+        : undefined,
+  };
+}
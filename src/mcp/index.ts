@@ -11,7 +11,8 @@ import {
 } from './types';
 import { Logger } from '../logger/types';
 import * as fs from 'fs';
-import { ToolError } from '../errors';
+import { OperationCancelledError, ToolError, throwIfAborted } from '../errors';
+import { getActiveRecorder } from '../recording';
 
 // Default timeout for MCP tool calls (in milliseconds)
 const DEFAULT_TOOL_CALL_TIMEOUT = 30000;
@@ -721,6 +722,19 @@ export class MCP implements IAgentModule {
     }
   }
 
+  /**
+   * Name of the server a tool call resolves to, using the same lookup as callMCPTool()
+   */
+  getToolServer(toolName: string): string | undefined {
+    if (toolName.includes(':')) {
+      return toolName.split(':')[0];
+    }
+    const matchingTools = Array.from(this.tools.keys())
+      .filter((key) => key.endsWith(`:${toolName}`))
+      .sort();
+    return matchingTools.length > 0 ? matchingTools[0].split(':')[0] : undefined;
+  }
+
   getMCPTools(): MCPTool[] {
     const tools = Array.from(this.tools.values());
 
@@ -1046,7 +1060,34 @@ export class MCP implements IAgentModule {
     return null;
   }
 
-  async callMCPTool(toolName: string, args: Record<string, MCPValue>): Promise<MCPToolResult> {
+  /**
+   * Call an MCP tool by name ("tool_name" or "server:tool_name")
+   * @param signal - Aborting sends notifications/cancelled to the server and rejects
+   *   with OperationCancelledError instead of waiting for the response
+   */
+  async callMCPTool(
+    toolName: string,
+    args: Record<string, MCPValue>,
+    signal?: AbortSignal
+  ): Promise<MCPToolResult> {
+    const recorder = getActiveRecorder();
+    if (!recorder) {
+      return this.executeMCPTool(toolName, args, signal);
+    }
+
+    throwIfAborted(signal, `MCP tool '${toolName}'`);
+    return recorder.call('mcp.tool', { toolName, args }, () =>
+      this.executeMCPTool(toolName, args, signal)
+    );
+  }
+
+  private async executeMCPTool(
+    toolName: string,
+    args: Record<string, MCPValue>,
+    signal?: AbortSignal
+  ): Promise<MCPToolResult> {
+    throwIfAborted(signal, `MCP tool '${toolName}'`);
+
     // Handle both formats: "tool_name" and "server:tool_name"
     let serverName: string;
     let actualToolName: string;
@@ -1158,7 +1199,10 @@ export class MCP implements IAgentModule {
       }
     }
 
-    return new Promise((resolve) => {
+    // The server may have been started above; don't send a request for an already cancelled call
+    throwIfAborted(signal, `MCP tool '${actualToolName}'`);
+
+    return new Promise((resolve, reject) => {
       // Use UUID for unique message ID to avoid collisions with concurrent calls
       const id = randomUUID();
       const proc = this.processes.get(serverName);
@@ -1193,6 +1237,7 @@ export class MCP implements IAgentModule {
         if (!resolved) {
           resolved = true;
           stdout.off('data', handler);
+          signal?.removeEventListener('abort', onAbort);
           const pendingCallback = this.pendingCallbacks.get(id);
           if (pendingCallback) {
             clearTimeout(pendingCallback.timeoutId);
@@ -1283,6 +1328,29 @@ export class MCP implements IAgentModule {
       // Store callback for cleanup
       this.pendingCallbacks.set(id, { resolve, timeoutId });
 
+      const onAbort = () => {
+        if (resolved) return;
+        cleanup();
+
+        this.logger.debug('MCP tool call cancelled', {
+          serverName,
+          actualToolName,
+          callId: id,
+        });
+
+        // Let the server stop work on the request; no response is expected
+        this.sendToServer(serverName, {
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: id, reason: 'Request cancelled by client' },
+        });
+
+        reject(
+          new OperationCancelledError(`MCP tool '${actualToolName}' was cancelled`, signal?.reason)
+        );
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       this.logger.debug('Sending MCP tool call request', {
         serverName,
         actualToolName,
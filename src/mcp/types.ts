@@ -34,6 +34,13 @@ export interface MCPTool {
   name: string;
   description: string;
   inputSchema: MCPJsonSchema;
+  annotations?: {
+    title?: string;
+    readOnlyHint?: boolean; // Read-only tools do not prevent response caching
+    destructiveHint?: boolean;
+    idempotentHint?: boolean;
+    openWorldHint?: boolean;
+  };
 }
 
 export interface MCPToolCall {
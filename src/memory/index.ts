@@ -278,7 +278,7 @@ interface MemoryDbRow {
  */
 export type MemoryChangeCallback = (
   event: 'update' | 'delete' | 'clear',
-  data: { memoryId?: string; content?: string; metadata?: MetadataObject }
+  data: { memoryId?: string; content?: string; metadata?: MetadataObject; sessionId?: string }
 ) => void | Promise<void>;
 
 /**
@@ -331,7 +331,7 @@ export class Memory implements IAgentModule {
    */
   private async notifyChange(
     event: 'update' | 'delete' | 'clear',
-    data: { memoryId?: string; content?: string; metadata?: MetadataObject }
+    data: { memoryId?: string; content?: string; metadata?: MetadataObject; sessionId?: string }
   ): Promise<void> {
     if (this.onChangeCallback) {
       try {
@@ -632,7 +632,10 @@ export class Memory implements IAgentModule {
           if (
             decryptedMemory.content &&
             typeof decryptedMemory.content === 'string' &&
-            decryptedMemory.content.toLowerCase().includes(query.toLowerCase())
+            decryptedMemory.content.toLowerCase().includes(query.toLowerCase()) &&
+            (options?.type === undefined ||
+              this.formatMemory(decryptedMemory as unknown as MemoryDbRow).metadata?.type ===
+                options.type)
           ) {
             matchingMemories.push(decryptedMemory);
             if (matchingMemories.length >= limit) break;
@@ -671,7 +674,11 @@ export class Memory implements IAgentModule {
         dbQuery = dbQuery.where('created_at', '<=', options.endDate);
       }
 
-      const memories = await dbQuery;
+      const memories = options?.type
+        ? (await dbQuery).filter(
+            (memory: MemoryDbRow) => this.formatMemory(memory).metadata?.type === options.type
+          )
+        : await dbQuery;
 
       // User-facing result summary
       this.logger.info(
@@ -951,7 +958,7 @@ export class Memory implements IAgentModule {
           const memoryEmbedding = JSON.parse(memory.embedding);
           const similarity = this.cosineSimilarity(queryEmbedding, memoryEmbedding);
 
-          if (similarity >= threshold) {
+          if (similarity >= threshold && (await this.matchesType(memory, options?.type))) {
             memoriesWithSimilarity.push({ memory, similarity });
           }
         } catch {
@@ -1004,6 +1011,24 @@ export class Memory implements IAgentModule {
     return decryptedMemories;
   }
 
+  /**
+   * Whether a row's metadata has the given type; rows always match without a type filter
+   */
+  private async matchesType(memory: MemoryDbRow, type?: string): Promise<boolean> {
+    if (type === undefined) {
+      return true;
+    }
+    try {
+      const { metadata } = await decryptSensitiveFields({ metadata: memory.metadata }, 'memories');
+      return (
+        this.formatMemory({ ...memory, metadata: metadata as string | null }).metadata?.type ===
+        type
+      );
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Calculate cosine similarity between two vectors
    * @throws Error if embedding dimensions do not match
@@ -1140,9 +1165,17 @@ export class Memory implements IAgentModule {
    * Clear all memories
    * @param options - Optional settings for clearing memories
    * @param options.syncWithContext - If true (default), notifies Context to also clear. Set to false to clear only Memory.
+   * @param options.sessionId - Only clear the memories of this conversation session
    */
-  async clearMemories(options?: { syncWithContext?: boolean }): Promise<number> {
-    this.logger.info('Clearing all memories');
+  async clearMemories(options?: {
+    syncWithContext?: boolean;
+    sessionId?: string;
+  }): Promise<number> {
+    this.logger.info(
+      options?.sessionId
+        ? `Clearing memories of session ${options.sessionId}`
+        : 'Clearing all memories'
+    );
 
     await this.ensureDatabase();
     const tableName = 'memories';
@@ -1154,20 +1187,26 @@ export class Memory implements IAgentModule {
     // Acquire write lock for exclusive access during bulk delete
     await this.rwLock.acquireWrite();
     try {
-      const deletedCount = await this.knex(tableName).where({ agentId: this.agent.id }).delete();
+      const deletedCount = await this.knex(tableName)
+        .where({
+          agentId: this.agent.id,
+          ...(options?.sessionId !== undefined && { sessionId: options.sessionId }),
+        })
+        .delete();
 
       this.logger.info(`Cleared ${deletedCount} ${deletedCount === 1 ? 'memory' : 'memories'}`);
 
       this.logger.debug('Clear memories result', {
         deletedCount,
         agentId: this.agent.id,
+        sessionId: options?.sessionId,
         syncWithContext: options?.syncWithContext !== false,
       });
 
       // Notify listeners about the clear operation (for Context synchronization)
       // Default: sync with context. Set syncWithContext: false to skip.
       if (deletedCount > 0 && options?.syncWithContext !== false) {
-        await this.notifyChange('clear', {});
+        await this.notifyChange('clear', { sessionId: options?.sessionId });
       }
 
       return deletedCount;
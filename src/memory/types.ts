@@ -20,6 +20,7 @@ export interface MemorySearchOptions {
   graphId?: string; // UUID - Filter by graph ID
   taskId?: string; // UUID - Filter by task ID
   sessionId?: string; // Filter by session ID
+  type?: string; // Filter by metadata.type (e.g. 'reflection')
   orderBy?: 'createdAt' | 'updatedAt' | 'relevance';
   order?: 'asc' | 'desc';
   startDate?: Date;
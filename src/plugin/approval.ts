@@ -0,0 +1,153 @@
+import {
+  ToolApprovalContext,
+  ToolApprovalDecision,
+  ToolApprovalOutcome,
+  ToolApprovalPolicy,
+  ToolApprovalRequest,
+  ToolApprovalRule,
+  ToolApprovalSettings,
+} from './types';
+import { Logger } from '../logger/types';
+import { isOperationCancelledError } from '../errors';
+
+/**
+ * Combine agent-level and per-call approval settings.
+ * Per-call hooks replace the agent hook; per-call policy entries override matching agent entries.
+ */
+export function mergeToolApprovalSettings(
+  base?: ToolApprovalSettings,
+  override?: ToolApprovalSettings
+): ToolApprovalSettings {
+  const basePolicy = base?.toolApproval;
+  const overridePolicy = override?.toolApproval;
+
+  let toolApproval: ToolApprovalPolicy | undefined;
+  if (basePolicy || overridePolicy) {
+    toolApproval = {
+      tools: { ...basePolicy?.tools, ...overridePolicy?.tools },
+      plugins: { ...basePolicy?.plugins, ...overridePolicy?.plugins },
+      servers: { ...basePolicy?.servers, ...overridePolicy?.servers },
+      default: overridePolicy?.default ?? basePolicy?.default,
+    };
+  }
+
+  return {
+    approveToolCall: override?.approveToolCall ?? base?.approveToolCall,
+    toolApproval,
+  };
+}
+
+/**
+ * Pick the most specific rule for a call: tool name, then plugin/server, then the default
+ */
+function selectRule(
+  request: ToolApprovalRequest,
+  settings: ToolApprovalSettings
+): { rule: ToolApprovalRule; matched: string } {
+  const policy = settings.toolApproval;
+
+  if (request.server) {
+    const qualified = `${request.server}:${request.name}`;
+    const qualifiedRule = policy?.tools?.[qualified];
+    if (qualifiedRule) return { rule: qualifiedRule, matched: `tool:${qualified}` };
+  }
+
+  const toolRule = policy?.tools?.[request.name];
+  if (toolRule) return { rule: toolRule, matched: `tool:${request.name}` };
+
+  if (request.plugin) {
+    const pluginRule = policy?.plugins?.[request.plugin];
+    if (pluginRule) return { rule: pluginRule, matched: `plugin:${request.plugin}` };
+  }
+
+  if (request.server) {
+    const serverRule = policy?.servers?.[request.server];
+    if (serverRule) return { rule: serverRule, matched: `server:${request.server}` };
+  }
+
+  if (policy?.default) return { rule: policy.default, matched: 'default' };
+
+  return { rule: settings.approveToolCall ? 'ask' : 'allow', matched: 'implicit' };
+}
+
+function normalizeDecision(decision: ToolApprovalDecision | boolean): ToolApprovalDecision {
+  if (decision === true) return { action: 'approve' };
+  if (decision === false) return { action: 'deny' };
+  return decision;
+}
+
+/**
+ * Decide whether a tool call may run, applying the policy and the approval hook.
+ * A hook that throws denies the call (fail closed); cancellation is rethrown.
+ */
+export async function resolveToolApproval(
+  request: ToolApprovalRequest,
+  context: ToolApprovalContext,
+  settings: ToolApprovalSettings,
+  logger?: Logger
+): Promise<ToolApprovalOutcome> {
+  const { rule, matched } = selectRule(request, settings);
+
+  if (rule === 'allow') {
+    return { approved: true };
+  }
+
+  if (rule === 'deny') {
+    logger?.debug('Tool call denied by policy', { toolName: request.name, rule: matched });
+    return { approved: false, reason: `Blocked by approval policy (${matched})` };
+  }
+
+  const handler = rule === 'ask' ? settings.approveToolCall : rule;
+  if (!handler) {
+    logger?.debug('Tool call requires approval but no hook is set', {
+      toolName: request.name,
+      rule: matched,
+    });
+    return { approved: false, reason: 'Approval required but no approval hook is configured' };
+  }
+
+  let decision: ToolApprovalDecision;
+  try {
+    decision = normalizeDecision(await handler(request, context));
+  } catch (error) {
+    if (isOperationCancelledError(error)) {
+      throw error;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger?.warn(`Tool approval hook failed for ${request.name}, denying call`);
+    logger?.debug('Tool approval hook error', { toolName: request.name, error: errorMessage });
+    return { approved: false, reason: `Approval check failed: ${errorMessage}` };
+  }
+
+  logger?.debug('Tool approval decision', {
+    toolName: request.name,
+    toolCallId: request.id,
+    rule: matched,
+    action: decision.action,
+  });
+
+  switch (decision.action) {
+    case 'approve':
+      return { approved: true };
+    case 'edit':
+      if (
+        !decision.arguments ||
+        typeof decision.arguments !== 'object' ||
+        Array.isArray(decision.arguments)
+      ) {
+        return { approved: false, reason: 'Approval hook returned invalid edited arguments' };
+      }
+      return { approved: true, arguments: decision.arguments };
+    case 'deny':
+      return { approved: false, reason: decision.reason || 'Denied by approval hook' };
+    default:
+      return { approved: false, reason: 'Approval hook returned an unknown decision' };
+  }
+}
+
+/**
+ * Tool message content reported to the LLM for a denied call
+ */
+export function formatDeniedToolResult(toolName: string, reason: string): string {
+  return `Error: Tool call '${toolName}' was denied: ${reason}`;
+}
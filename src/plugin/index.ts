@@ -12,7 +12,7 @@ import {
 } from './types';
 import { Logger } from '../logger/types';
 import { DEFAULT_PLUGIN_CONFIG } from './defaults';
-import { ToolError } from '../errors';
+import { ToolError, abortable, isBudgetExceededError, isOperationCancelledError } from '../errors';
 
 // Type for LLM function calling tool schema property
 interface LLMToolProperty {
@@ -275,6 +275,18 @@ export class Plugin implements IAgentModule, IPluginManager {
     return tool;
   }
 
+  /**
+   * Name of the registered plugin that provides a tool
+   */
+  getToolPlugin(toolName: string): string | undefined {
+    for (const [pluginName, plugin] of this.plugins) {
+      if (plugin.tools.some((tool) => tool.name === toolName)) {
+        return pluginName;
+      }
+    }
+    return undefined;
+  }
+
   async executeTool(toolCall: ToolCall, context?: ToolContext): Promise<ToolCallResult> {
     const startTime = Date.now();
 
@@ -367,30 +379,28 @@ export class Plugin implements IAgentModule, IPluginManager {
       };
 
       // Execute tool with timeout
+      const toolTimeout = tool.timeout ?? DEFAULT_PLUGIN_CONFIG.defaultTimeout;
       this.logger.debug('Calling tool handler with isolated context', {
         toolName: toolCall.name,
         callId: toolCall.id,
-        timeout: DEFAULT_PLUGIN_CONFIG.defaultTimeout,
+        timeout: toolTimeout,
         executionId: isolatedContext.executionId ?? null,
       });
 
       let timeoutId: NodeJS.Timeout;
       const timeoutPromise = new Promise<never>((_, reject) => {
         timeoutId = setTimeout(() => {
-          reject(
-            new Error(
-              `Tool '${toolCall.name}' execution timed out after ${DEFAULT_PLUGIN_CONFIG.defaultTimeout}ms`
-            )
-          );
-        }, DEFAULT_PLUGIN_CONFIG.defaultTimeout);
+          reject(new Error(`Tool '${toolCall.name}' execution timed out after ${toolTimeout}ms`));
+        }, toolTimeout);
       });
 
       let result;
       try {
-        result = await Promise.race([
-          tool.handler(toolCall.parameters, isolatedContext),
-          timeoutPromise,
-        ]);
+        result = await abortable(
+          Promise.race([tool.handler(toolCall.parameters, isolatedContext), timeoutPromise]),
+          context?.signal,
+          `Tool '${toolCall.name}'`
+        );
         clearTimeout(timeoutId!);
       } catch (raceError) {
         clearTimeout(timeoutId!);
@@ -418,6 +428,11 @@ export class Plugin implements IAgentModule, IPluginManager {
         executionTime,
       };
     } catch (error) {
+      // Cancellation and budget stops end the whole run instead of becoming a tool error for the LLM
+      if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+        throw error;
+      }
+
       const executionTime = Date.now() - startTime;
       const originalError = error instanceof Error ? error : new Error('Unknown error occurred');
 
@@ -1,4 +1,6 @@
 import { MetadataObject } from '../types';
+import { LLMUsage } from '../llm/types';
+import { BudgetTracker } from '../budget';
 
 export interface ToolParameter {
   name: string;
@@ -15,6 +17,8 @@ export interface ToolDefinition {
   description: string;
   parameters: Record<string, ToolParameter>;
   handler: ToolHandler;
+  timeout?: number; // Overrides the plugin default timeout (ms)
+  sideEffects?: boolean; // false for read-only tools; responses after other tool calls are never cached
 }
 
 /**
@@ -63,6 +67,8 @@ export interface ToolContext {
   executionId?: string; // Unique ID for this specific tool call execution
   toolName?: string; // Name of the tool being executed
   callTimestamp?: Date; // Timestamp when tool execution started
+  signal?: AbortSignal; // Aborted when the calling run is cancelled; long-running handlers should observe it
+  budget?: BudgetTracker; // Budget of the calling run; tools that call an LLM should charge it
 }
 
 export interface ToolResult {
@@ -70,6 +76,8 @@ export interface ToolResult {
   data?: ToolParameterValue;
   error?: string;
   metadata?: MetadataObject;
+  usage?: LLMUsage; // LLM usage of the tool itself (e.g. a wrapped agent), added to the caller's usage
+  model?: string; // Model that produced `usage`
 }
 
 export interface ToolCall {
@@ -109,3 +117,56 @@ export interface PluginManager {
   executeTool(toolCall: ToolCall, context?: ToolContext): Promise<ToolCallResult>;
   listPlugins(): Plugin[];
 }
+
+/**
+ * A tool call awaiting approval, with arguments already parsed
+ */
+export interface ToolApprovalRequest {
+  id: string;
+  name: string; // Tool name without the 'plugin_' / 'mcp_' prefix
+  source: 'plugin' | 'mcp';
+  plugin?: string; // Owning plugin, for plugin tools
+  server?: string; // Owning MCP server, for MCP tools
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolApprovalContext {
+  agentId: string; // UUID
+  agentName: string;
+  taskId?: string; // UUID, set when the call comes from a task
+  prompt?: string; // Prompt of the run that requested the call
+}
+
+export type ToolApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string } // The reason is sent back to the LLM
+  | { action: 'edit'; arguments: Record<string, unknown> }; // Execute with these arguments instead
+
+/**
+ * Approval hook - returning `true`/`false` is shorthand for approve/deny
+ */
+export type ToolApprovalHandler = (
+  call: ToolApprovalRequest,
+  context: ToolApprovalContext
+) => ToolApprovalDecision | boolean | Promise<ToolApprovalDecision | boolean>;
+
+/**
+ * 'ask' defers to the approveToolCall hook (denied when there is none)
+ */
+export type ToolApprovalRule = 'allow' | 'deny' | 'ask' | ToolApprovalHandler;
+
+export interface ToolApprovalPolicy {
+  tools?: Record<string, ToolApprovalRule>; // By tool name; MCP tools also match 'server:tool'
+  plugins?: Record<string, ToolApprovalRule>; // By plugin name
+  servers?: Record<string, ToolApprovalRule>; // By MCP server name
+  default?: ToolApprovalRule; // Defaults to 'ask' when a hook is set, 'allow' otherwise
+}
+
+export interface ToolApprovalSettings {
+  approveToolCall?: ToolApprovalHandler;
+  toolApproval?: ToolApprovalPolicy;
+}
+
+export type ToolApprovalOutcome =
+  | { approved: true; arguments?: Record<string, unknown> } // Arguments are set only when edited
+  | { approved: false; reason: string };
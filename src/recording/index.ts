@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RecordedCall,
+  RecordedCallKind,
+  RecordingFixture,
+  RecordingMode,
+  RecordingOptions,
+} from './types';
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import { ConfigurationError, UnrecordedCallError } from '../errors';
+
+/**
+ * JSON with sorted keys so equal requests hash the same regardless of property order.
+ * Functions and undefined values are dropped, matching JSON.stringify.
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined && typeof entry !== 'function')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hash identifying a call in a fixture file
+ */
+export function hashRequest(kind: RecordedCallKind, request: unknown): string {
+  return createHash('sha256')
+    .update(`${kind}\n${stableStringify(request)}`)
+    .digest('hex');
+}
+
+/**
+ * Saves request/response pairs to a fixture file and serves them back by request hash.
+ * Identical requests made several times are replayed in the order they were recorded;
+ * once exhausted, the last recording is repeated.
+ */
+export class Recorder {
+  private calls: Map<string, RecordedCall[]> = new Map();
+  private replayCursors: Map<string, number> = new Map();
+  private rerecordedKeys: Set<string> = new Set();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  constructor(
+    readonly options: RecordingOptions,
+    logger?: Logger
+  ) {
+    this.logger = logger || getLogger();
+  }
+
+  get mode(): RecordingMode {
+    return this.options.mode;
+  }
+
+  isReplaying(): boolean {
+    return this.options.mode === 'replay';
+  }
+
+  /**
+   * Run a request/response call through the recorder
+   * @param live - Performs the real call; not invoked when a recording is replayed
+   */
+  async call<T>(kind: RecordedCallKind, request: unknown, live: () => Promise<T>): Promise<T> {
+    if (this.options.mode === 'off') {
+      return live();
+    }
+
+    await this.load();
+    const key = hashRequest(kind, request);
+
+    if (this.options.mode === 'replay') {
+      const recorded = this.nextRecording(key);
+      if (recorded) {
+        this.logger.debug('Replaying recorded call', { kind, key });
+        // Callers may mutate what they get back; keep the fixture copy pristine
+        return structuredClone(recorded.response) as T;
+      }
+      this.handleMiss(kind, key);
+      return live();
+    }
+
+    const response = await live();
+    this.record(kind, key, request, response);
+    return response;
+  }
+
+  /**
+   * Run a streaming call through the recorder; every chunk is saved and replayed in order
+   */
+  async *stream<T>(
+    kind: RecordedCallKind,
+    request: unknown,
+    live: () => AsyncIterable<T>
+  ): AsyncIterableIterator<T> {
+    if (this.options.mode === 'off') {
+      yield* live();
+      return;
+    }
+
+    await this.load();
+    const key = hashRequest(kind, request);
+
+    if (this.options.mode === 'replay') {
+      const recorded = this.nextRecording(key);
+      if (recorded) {
+        this.logger.debug('Replaying recorded stream', { kind, key });
+        for (const chunk of recorded.response as T[]) {
+          yield structuredClone(chunk);
+        }
+        return;
+      }
+      this.handleMiss(kind, key);
+      yield* live();
+      return;
+    }
+
+    const chunks: T[] = [];
+    for await (const chunk of live()) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    // Only streams that ran to completion are saved
+    this.record(kind, key, request, chunks);
+  }
+
+  /**
+   * Wait for pending fixture writes to finish
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private nextRecording(key: string): RecordedCall | undefined {
+    const recordings = this.calls.get(key);
+    if (!recordings || recordings.length === 0) {
+      return undefined;
+    }
+    const cursor = this.replayCursors.get(key) ?? 0;
+    this.replayCursors.set(key, cursor + 1);
+    return recordings[Math.min(cursor, recordings.length - 1)];
+  }
+
+  private handleMiss(kind: RecordedCallKind, key: string): void {
+    if (this.options.strict) {
+      this.logger.error(`Unrecorded ${kind} call in strict replay mode`);
+      throw new UnrecordedCallError(
+        `No recording for ${kind} call ${key.slice(0, 12)} in ${this.options.fixturePath}`,
+        kind,
+        key,
+        this.options.fixturePath
+      );
+    }
+    this.logger.debug('No recording found, calling live', { kind, key });
+  }
+
+  private record(kind: RecordedCallKind, key: string, request: unknown, response: unknown): void {
+    // The first recording of a key in this session replaces recordings from earlier sessions
+    if (!this.rerecordedKeys.has(key)) {
+      this.rerecordedKeys.add(key);
+      this.calls.set(key, []);
+    }
+    this.calls.get(key)!.push({
+      key,
+      kind,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+
+    this.logger.debug('Recorded call', { kind, key });
+    this.writeQueue = this.writeQueue.then(() => this.save());
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFixture();
+    }
+    return this.loading;
+  }
+
+  private async readFixture(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.options.fixturePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.debug('Fixture file not found, starting empty', {
+          fixturePath: this.options.fixturePath,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    let fixture: RecordingFixture;
+    try {
+      fixture = JSON.parse(raw) as RecordingFixture;
+    } catch (error) {
+      throw new ConfigurationError(
+        `Fixture file ${this.options.fixturePath} is not valid JSON`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (!Array.isArray(fixture?.calls)) {
+      throw new ConfigurationError(`Fixture file ${this.options.fixturePath} has no calls array`);
+    }
+
+    for (const call of fixture.calls) {
+      const recordings = this.calls.get(call.key) ?? [];
+      recordings.push(call);
+      this.calls.set(call.key, recordings);
+    }
+
+    this.logger.info(`Loaded ${fixture.calls.length} recorded calls`);
+    this.logger.debug('Fixture loaded', {
+      fixturePath: this.options.fixturePath,
+      callCount: fixture.calls.length,
+      uniqueRequests: this.calls.size,
+    });
+  }
+
+  private async save(): Promise<void> {
+    const fixture: RecordingFixture = {
+      version: 1,
+      calls: Array.from(this.calls.values()).flat(),
+    };
+    try {
+      await fs.promises.mkdir(path.dirname(this.options.fixturePath), { recursive: true });
+      await fs.promises.writeFile(this.options.fixturePath, JSON.stringify(fixture, null, 2));
+    } catch (error) {
+      // A failed write must not break the run being recorded
+      this.logger.error('Failed to write fixture file');
+      this.logger.debug('Fixture write failed', {
+        fixturePath: this.options.fixturePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+let activeRecorder: Recorder | null = null;
+let recorderConfigured = false;
+
+/**
+ * Build the recorder from ASTREUS_RECORDING (record | replay), ASTREUS_RECORDING_FIXTURE
+ * and ASTREUS_RECORDING_STRICT so CI can switch modes without code changes
+ */
+function recorderFromEnv(): Recorder | null {
+  const mode = process.env.ASTREUS_RECORDING as RecordingMode | undefined;
+  if (!mode || mode === 'off') {
+    return null;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new ConfigurationError(
+      `Invalid ASTREUS_RECORDING value '${mode}'. Expected record, replay or off`
+    );
+  }
+  return new Recorder({
+    mode,
+    fixturePath: process.env.ASTREUS_RECORDING_FIXTURE || './astreus-fixtures.json',
+    strict: process.env.ASTREUS_RECORDING_STRICT === 'true',
+  });
+}
+
+/**
+ * Enable recording or replay for every LLM, embedding and MCP call; pass null to turn it off
+ */
+export function configureRecording(
+  options: RecordingOptions | null,
+  logger?: Logger
+): Recorder | null {
+  activeRecorder = options && options.mode !== 'off' ? new Recorder(options, logger) : null;
+  recorderConfigured = true;
+  return activeRecorder;
+}
+
+/**
+ * The active recorder, configured explicitly or from the environment
+ */
+export function getActiveRecorder(): Recorder | null {
+  if (!recorderConfigured) {
+    activeRecorder = recorderFromEnv();
+    recorderConfigured = true;
+  }
+  return activeRecorder;
+}
+
+export * from './types';
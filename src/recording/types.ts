@@ -0,0 +1,30 @@
+/**
+ * - record: run calls live and save each request/response pair to the fixture file
+ * - replay: serve saved pairs by request hash; unrecorded calls go live unless strict
+ * - off: no recording
+ */
+export type RecordingMode = 'record' | 'replay' | 'off';
+
+export type RecordedCallKind = 'llm.response' | 'llm.stream' | 'embedding' | 'mcp.tool';
+
+export interface RecordingOptions {
+  mode: RecordingMode;
+  fixturePath: string; // JSON fixture file, created on the first recorded call
+  strict?: boolean; // Replay only: throw UnrecordedCallError instead of calling live
+}
+
+/**
+ * One saved call. Streams store every chunk so replay yields the same sequence.
+ */
+export interface RecordedCall {
+  key: string; // Hash of kind + request
+  kind: RecordedCallKind;
+  request: unknown;
+  response: unknown;
+  recordedAt: string;
+}
+
+export interface RecordingFixture {
+  version: 1;
+  calls: RecordedCall[];
+}
@@ -0,0 +1,10 @@
+/**
+ * Default configuration values for self-reflection
+ */
+export const DEFAULT_REFLECTION_CONFIG = {
+  limit: 3,
+  similarityThreshold: 0.75,
+  maxTokens: 500,
+  maxExcerptLength: 2000, // Characters of the prompt and response shown to the reflecting model
+  memoryType: 'reflection', // metadata.type of reflection memories
+} as const;
@@ -0,0 +1,171 @@
+/**
+ * Self-reflection - lessons written after completed runs and recalled for similar ones
+ */
+import { getLLM } from '../llm';
+import { buildSchemaInstruction, resolveStructuredOutput } from '../llm/structured';
+import { LLMRequestOptions, ResponseSchema, ToolCall } from '../llm/types';
+import { Memory } from '../memory/types';
+import { MetadataObject } from '../types';
+import { Logger } from '../logger/types';
+import { BudgetTracker } from '../budget';
+import { DEFAULT_REFLECTION_CONFIG } from './defaults';
+import {
+  Reflection,
+  ReflectionInput,
+  ReflectionSetting,
+  ReflectionToolUse,
+  ResolvedReflectionOptions,
+} from './types';
+
+const REFLECTION_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    worked: { type: 'string', description: 'What worked well' },
+    failed: { type: 'string', description: 'What failed or was wasted effort; empty if nothing' },
+    usefulTools: { type: 'array', items: { type: 'string' } },
+    lesson: { type: 'string', description: 'One or two sentences of advice for a similar task' },
+  },
+  required: ['worked', 'failed', 'usefulTools', 'lesson'],
+  additionalProperties: false,
+};
+
+function excerpt(text: string): string {
+  const max = DEFAULT_REFLECTION_CONFIG.maxExcerptLength;
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+/**
+ * Settings of an agent's reflections, or null when reflection is off
+ */
+export function resolveReflectionOptions(
+  setting?: ReflectionSetting
+): ResolvedReflectionOptions | null {
+  if (!setting) {
+    return null;
+  }
+  const options = setting === true ? {} : setting;
+  return {
+    limit: Math.max(0, options.limit ?? DEFAULT_REFLECTION_CONFIG.limit),
+    similarityThreshold:
+      options.similarityThreshold ?? DEFAULT_REFLECTION_CONFIG.similarityThreshold,
+    model: options.model,
+  };
+}
+
+function isFailedToolResult(content: string): boolean {
+  if (/^\s*error\b/i.test(content)) {
+    return true;
+  }
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return (parsed as { success?: unknown } | null)?.success === false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tools called in a conversation, failed when their result is an error
+ */
+export function collectToolUses(
+  messages: Array<{
+    role: string;
+    content: unknown;
+    tool_call_id?: string;
+    tool_calls?: ToolCall[];
+  }>
+): ReflectionToolUse[] {
+  const names = new Map<string, string>();
+  const uses: ReflectionToolUse[] = [];
+  for (const message of messages) {
+    for (const toolCall of message.tool_calls ?? []) {
+      names.set(toolCall.id, toolCall.function?.name ?? 'unknown');
+    }
+    if (message.role === 'tool') {
+      uses.push({
+        name: (message.tool_call_id && names.get(message.tool_call_id)) || 'unknown',
+        success: typeof message.content === 'string' && !isFailedToolResult(message.content),
+      });
+    }
+  }
+  return uses;
+}
+
+/**
+ * Ask the model what worked, what failed and which tools helped
+ */
+export async function generateReflection(
+  input: ReflectionInput,
+  options: { model?: string; signal?: AbortSignal; budget?: BudgetTracker; logger?: Logger }
+): Promise<Reflection> {
+  const tools =
+    input.tools.length > 0
+      ? input.tools.map((tool) => `- ${tool.name}: ${tool.success ? 'succeeded' : 'failed'}`)
+      : ['- none'];
+  const llm = getLLM(options.logger);
+  const request: LLMRequestOptions = {
+    model: options.model ?? input.model,
+    systemPrompt: [
+      'You review a finished task of an AI agent so it does better next time. Be specific and brief.',
+      buildSchemaInstruction(REFLECTION_SCHEMA),
+    ].join('\n\n'),
+    messages: [
+      {
+        role: 'user',
+        content: [
+          `Task:\n${excerpt(input.prompt)}`,
+          `Tool calls:\n${tools.join('\n')}`,
+          `Final response:\n${excerpt(input.response)}`,
+        ].join('\n\n'),
+      },
+    ],
+    temperature: 0,
+    maxTokens: DEFAULT_REFLECTION_CONFIG.maxTokens,
+    responseFormat: { type: 'json', schema: REFLECTION_SCHEMA },
+    signal: options.signal,
+    budget: options.budget,
+  };
+
+  const response = await llm.generateResponse(request);
+  const structured = await resolveStructuredOutput<Reflection>(llm, request, response.content, {
+    schema: REFLECTION_SCHEMA,
+    logger: options.logger,
+  });
+  return structured.data;
+}
+
+/**
+ * Memory content of a reflection; its embedding starts with the task so similar tasks find it
+ */
+export function formatReflection(input: ReflectionInput, reflection: Reflection): string {
+  return [
+    `Task: ${excerpt(input.prompt)}`,
+    `Worked: ${reflection.worked}`,
+    ...(reflection.failed ? [`Failed: ${reflection.failed}`] : []),
+    ...(reflection.usefulTools.length > 0
+      ? [`Useful tools: ${reflection.usefulTools.join(', ')}`]
+      : []),
+    `Lesson: ${reflection.lesson}`,
+  ].join('\n');
+}
+
+export function reflectionMetadata(input: ReflectionInput, reflection: Reflection): MetadataObject {
+  return {
+    type: DEFAULT_REFLECTION_CONFIG.memoryType,
+    source: input.source,
+    usefulTools: reflection.usefulTools,
+    failedTools: [...new Set(input.tools.filter((tool) => !tool.success).map((tool) => tool.name))],
+    ...(input.taskId !== undefined && { taskId: input.taskId }),
+    ...(input.sessionId !== undefined && { sessionId: input.sessionId }),
+  };
+}
+
+/**
+ * System prompt section with the reflections recalled for a run
+ */
+export function buildReflectionPrompt(reflections: Memory[]): string {
+  return [
+    'Lessons from your earlier, similar tasks:',
+    ...reflections.map((reflection, index) => `${index + 1}. ${reflection.content}`),
+  ].join('\n\n');
+}
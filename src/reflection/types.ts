@@ -0,0 +1,47 @@
+export interface ReflectionOptions {
+  limit?: number; // Reflections injected into the prompt of a similar run (default: 3)
+  similarityThreshold?: number; // Cosine similarity 0-1 a reflection needs to be injected (default: 0.75)
+  model?: string; // Model writing the reflections (default: the run's model)
+}
+
+/**
+ * Reflection setting of an agent: true for the defaults, or options
+ */
+export type ReflectionSetting = boolean | ReflectionOptions;
+
+export interface ResolvedReflectionOptions {
+  limit: number;
+  similarityThreshold: number;
+  model?: string;
+}
+
+/**
+ * A tool called during a run, as seen in its tool results
+ */
+export interface ReflectionToolUse {
+  name: string; // Name as the LLM saw it (e.g. 'plugin_search')
+  success: boolean;
+}
+
+/**
+ * A completed run to reflect on
+ */
+export interface ReflectionInput {
+  source: 'ask' | 'task';
+  prompt: string;
+  response: string;
+  tools: ReflectionToolUse[];
+  model: string;
+  taskId?: string; // UUID
+  sessionId?: string;
+}
+
+/**
+ * What the model concluded about a run
+ */
+export interface Reflection {
+  worked: string;
+  failed: string;
+  usefulTools: string[];
+  lesson: string; // Advice for the next similar task
+}
@@ -0,0 +1,11 @@
+/**
+ * Default configuration values for the HTTP server
+ */
+export const DEFAULT_SERVER_CONFIG = {
+  port: 8080,
+  host: '127.0.0.1', // Loopback only; bind 0.0.0.0 explicitly to expose the server
+  maxBodySize: 1024 * 1024, // 1 MB
+  apiKeysEnv: 'ASTREUS_API_KEYS',
+  ownedBy: 'astreus',
+  maxListLimit: 1000,
+} as const;
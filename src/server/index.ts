@@ -0,0 +1,860 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { AddressInfo } from 'net';
+import {
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionUsage,
+  ModelObject,
+  ServerAddress,
+  ServerConfig,
+} from './types';
+import { DEFAULT_SERVER_CONFIG } from './defaults';
+import { Agent } from '../agent';
+import { AskOptions } from '../agent/types';
+import { Graph } from '../graph';
+import { Task, TaskRequest, TaskSearchOptions, TaskStatus } from '../task/types';
+import { Memory } from '../memory/types';
+import { BudgetLimits } from '../budget/types';
+import { LLMUsage } from '../llm/types';
+import { MetadataObject } from '../types';
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import {
+  ConfigurationError,
+  isBudgetExceededError,
+  isOperationCancelledError,
+  isStructuredOutputError,
+  isGuardrailViolationError,
+} from '../errors';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TASK_STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed', 'failed', 'cancelled'];
+
+/**
+ * Error answered with an OpenAI-style error body
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly type: string = 'invalid_request_error',
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface RouteContext {
+  request: IncomingMessage;
+  response: ServerResponse;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  signal: AbortSignal; // Aborted when the client disconnects
+  client: string; // Identity of the caller's API key, 'anonymous' without one
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (context: RouteContext) => Promise<unknown>;
+}
+
+/**
+ * Usage in OpenAI field names
+ */
+function toChatUsage(usage?: LLMUsage): ChatCompletionUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+  };
+}
+
+function getMessageText(message: ChatCompletionMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+  return message.content
+    .filter((part) => part.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function parseLimit(value: string | null, fallback?: number): number | undefined {
+  if (value === null) return fallback;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new HttpError(400, `Invalid numeric query parameter: ${value}`);
+  }
+  return Math.min(limit, DEFAULT_SERVER_CONFIG.maxListLimit);
+}
+
+function requireObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function toPublicMemory(memory: Memory): Omit<Memory, 'embedding'> {
+  // Embeddings are large and only meaningful to the vector store
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { embedding, ...rest } = memory;
+  return rest;
+}
+
+function hashKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+const BUDGET_LIMITS: (keyof BudgetLimits)[] = [
+  'maxTokens',
+  'maxCost',
+  'maxLLMCalls',
+  'maxWallTime',
+];
+
+function toBudgetLimits(value: unknown): BudgetLimits | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, "'budget' must be an object");
+  }
+  const budget: BudgetLimits = {};
+  for (const [key, limit] of Object.entries(value)) {
+    if (!BUDGET_LIMITS.includes(key as keyof BudgetLimits)) {
+      throw new HttpError(400, `Unknown budget limit '${key}'`);
+    }
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+      throw new HttpError(400, `Budget limit '${key}' must be a non-negative number`);
+    }
+    budget[key as keyof BudgetLimits] = limit;
+  }
+  return budget;
+}
+
+/**
+ * OpenAI-compatible HTTP server in front of Astreus agents.
+ *
+ * Endpoints:
+ * - POST /v1/chat/completions (model = agent name or id; the last user message is the prompt,
+ *   earlier turns come from the agent's own context and memory; each API key gets its own
+ *   session, and `user` selects a session under it)
+ * - GET /v1/models
+ * - GET /v1/agents/:agent/tasks, POST /v1/agents/:agent/tasks, GET /v1/agents/:agent/tasks/:taskId,
+ *   POST /v1/agents/:agent/tasks/:taskId/execute (a key only sees the tasks it created)
+ * - GET /v1/agents/:agent/memories, POST /v1/agents/:agent/memories,
+ *   DELETE /v1/agents/:agent/memories/:memoryId (a key only sees the memories of its own
+ *   sessions; `user` selects a session under it, as for chat completions)
+ * - GET /v1/graphs, POST /v1/graphs/:graphId/runs
+ * - GET /health (no auth)
+ */
+export class AgentServer {
+  private server: Server | null = null;
+  private agents: Map<string, Promise<Agent>> = new Map();
+  private routes: Route[] = [];
+  private apiKeys: Buffer[];
+  private exposedAgents: Set<string> | null;
+  private logger: Logger;
+
+  constructor(private config: ServerConfig = {}) {
+    this.logger = config.logger || getLogger();
+
+    const keys =
+      config.apiKeys ??
+      (process.env[DEFAULT_SERVER_CONFIG.apiKeysEnv] || '')
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean);
+    this.apiKeys = keys.map(hashKey);
+    this.exposedAgents = config.agents ? new Set(config.agents) : null;
+
+    if (this.apiKeys.length === 0 && !config.authenticate && !config.allowUnauthenticated) {
+      throw new ConfigurationError(
+        `No API keys configured. Pass apiKeys, set ${DEFAULT_SERVER_CONFIG.apiKeysEnv}, or set allowUnauthenticated for local use`
+      );
+    }
+
+    this.registerRoutes();
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<ServerAddress> {
+    if (this.server) {
+      throw new Error('Server is already running');
+    }
+
+    const server = createServer((request, response) => {
+      void this.handleRequest(request, response);
+    });
+    const port = this.config.port ?? DEFAULT_SERVER_CONFIG.port;
+    const host = this.config.host ?? DEFAULT_SERVER_CONFIG.host;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    const address = this.getAddress()!;
+    this.logger.info(`Astreus server listening on ${address.url}`);
+    this.logger.debug('Server started', {
+      host: address.host,
+      port: address.port,
+      authenticated: !this.config.allowUnauthenticated || this.apiKeys.length > 0,
+      exposedAgents: this.config.agents ?? null,
+    });
+    return address;
+  }
+
+  /**
+   * Stop accepting connections and wait for open requests to finish
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeIdleConnections();
+    });
+    this.agents.clear();
+    this.logger.info('Astreus server stopped');
+  }
+
+  getAddress(): ServerAddress | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) return null;
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return { host: address.address, port: address.port, url: `http://${host}:${address.port}` };
+  }
+
+  /**
+   * Request listener; can be mounted on an existing http.Server instead of calling start()
+   */
+  handleRequest = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const controller = new AbortController();
+    response.on('close', () => {
+      if (!response.writableEnded) {
+        controller.abort(new Error('Client disconnected'));
+      }
+    });
+
+    const startTime = Date.now();
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    try {
+      if (this.config.corsOrigin) {
+        response.setHeader('Access-Control-Allow-Origin', this.config.corsOrigin);
+        response.setHeader(
+          'Access-Control-Allow-Headers',
+          'Authorization, Content-Type, X-Api-Key'
+        );
+        response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        if (request.method === 'OPTIONS') {
+          response.writeHead(204).end();
+          return;
+        }
+      }
+
+      if (request.method === 'GET' && url.pathname === '/health') {
+        this.sendJson(response, 200, { status: 'ok' });
+        return;
+      }
+
+      const client = await this.authenticate(request);
+
+      const match = this.matchRoute(request.method || 'GET', url.pathname);
+      const result = await match.route.handler({
+        request,
+        response,
+        params: match.params,
+        query: url.searchParams,
+        signal: controller.signal,
+        client,
+      });
+
+      // Streaming handlers write the response themselves
+      if (!response.headersSent) {
+        this.sendJson(response, 200, result ?? {});
+      }
+    } catch (error) {
+      this.sendError(response, error);
+    } finally {
+      this.logger.debug('HTTP request handled', {
+        method: request.method ?? null,
+        path: url.pathname,
+        status: response.statusCode,
+        durationMs: Date.now() - startTime,
+      });
+    }
+  };
+
+  private registerRoutes(): void {
+    this.route('GET', '/v1/models', () => this.listModels());
+    this.route('POST', '/v1/chat/completions', (context) => this.chatCompletions(context));
+
+    this.route('GET', '/v1/agents/:agent/tasks', async ({ params, query, client }) => {
+      const agent = await this.getAgent(params.agent);
+      const status = query.get('status');
+      if (status && !TASK_STATUSES.includes(status as TaskStatus)) {
+        throw new HttpError(400, `Invalid task status: ${status}`);
+      }
+      const options: TaskSearchOptions = {
+        limit: parseLimit(query.get('limit'), 100),
+        offset: parseLimit(query.get('offset')),
+        status: (status as TaskStatus) || undefined,
+        graphId: query.get('graphId') || undefined,
+      };
+      return { object: 'list', data: await this.listClientTasks(agent, client, options) };
+    });
+
+    this.route('POST', '/v1/agents/:agent/tasks', async ({ request, params, signal, client }) => {
+      const agent = await this.getAgent(params.agent);
+      const body = requireObject(await this.readBody(request));
+      const taskRequest = this.toTaskRequest(body);
+      // Set after the client's own metadata so it cannot claim another key's tasks
+      taskRequest.metadata = { ...taskRequest.metadata, client };
+      const task = await agent.createTask(taskRequest);
+      if (body.execute === true) {
+        return agent.executeTask(task.id, { signal });
+      }
+      return task;
+    });
+
+    this.route('GET', '/v1/agents/:agent/tasks/:taskId', async ({ params, client }) => {
+      const agent = await this.getAgent(params.agent);
+      return this.getClientTask(agent, client, params.taskId);
+    });
+
+    this.route(
+      'POST',
+      '/v1/agents/:agent/tasks/:taskId/execute',
+      async ({ params, signal, client }) => {
+        const agent = await this.getAgent(params.agent);
+        const task = await this.getClientTask(agent, client, params.taskId);
+        return agent.executeTask(task.id, { signal });
+      }
+    );
+
+    this.route('GET', '/v1/agents/:agent/memories', async ({ params, query, client }) => {
+      const agent = await this.getMemoryAgent(params.agent);
+      const sessionId = this.sessionFor(client, query.get('user'));
+      const search = query.get('query');
+      const limit = parseLimit(query.get('limit'), 100);
+      const memories = search
+        ? await agent.searchMemories(search, { limit, sessionId })
+        : await agent.listMemories({
+            limit,
+            offset: parseLimit(query.get('offset')),
+            sessionId,
+          });
+      return { object: 'list', data: memories.map(toPublicMemory) };
+    });
+
+    this.route('POST', '/v1/agents/:agent/memories', async ({ request, params, query, client }) => {
+      const agent = await this.getMemoryAgent(params.agent);
+      const body = requireObject(await this.readBody(request));
+      if (typeof body.content !== 'string' || body.content.trim() === '') {
+        throw new HttpError(400, "'content' must be a non-empty string");
+      }
+      const metadata =
+        body.metadata && typeof body.metadata === 'object' && !Array.isArray(body.metadata)
+          ? (body.metadata as MetadataObject)
+          : undefined;
+      const sessionId = this.sessionFor(client, query.get('user'));
+      return toPublicMemory(await agent.addMemory(body.content, { ...metadata, sessionId }));
+    });
+
+    this.route('DELETE', '/v1/agents/:agent/memories/:memoryId', async ({ params, client }) => {
+      const agent = await this.getMemoryAgent(params.agent);
+      const memory = await agent.getMemory(params.memoryId);
+      if (!memory || memory.agentId !== agent.id || !this.ownsSession(client, memory.sessionId)) {
+        throw new HttpError(404, `Memory ${params.memoryId} not found`, 'not_found_error');
+      }
+      return { id: params.memoryId, deleted: await agent.deleteMemory(params.memoryId) };
+    });
+
+    this.route('GET', '/v1/graphs', async () => ({
+      object: 'list',
+      data: await this.listGraphs(),
+    }));
+
+    this.route('POST', '/v1/graphs/:graphId/runs', async ({ request, params, signal }) => {
+      const body = requireObject((await this.readBody(request)) ?? {});
+      const budget = toBudgetLimits(body.budget);
+      const graph = await Graph.findById(params.graphId);
+      try {
+        if (!graph || !(await this.isGraphExposed(graph))) {
+          throw new HttpError(404, `Graph ${params.graphId} not found`, 'not_found_error');
+        }
+        return await graph.run({ signal, budget });
+      } finally {
+        await graph?.destroy();
+      }
+    });
+  }
+
+  private route(
+    method: string,
+    path: string,
+    handler: (context: RouteContext) => Promise<unknown>
+  ): void {
+    const keys: string[] = [];
+    const source = path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private matchRoute(
+    method: string,
+    pathname: string
+  ): { route: Route; params: Record<string, string> } {
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+      pathMatched = true;
+      if (route.method !== method) continue;
+
+      const params: Record<string, string> = {};
+      try {
+        route.keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(match[index + 1]);
+        });
+      } catch (error) {
+        if (error instanceof URIError) {
+          throw new HttpError(400, 'Malformed path');
+        }
+        throw error;
+      }
+      return { route, params };
+    }
+
+    if (pathMatched) {
+      throw new HttpError(405, `Method ${method} not allowed for ${pathname}`);
+    }
+    throw new HttpError(404, `Unknown endpoint ${method} ${pathname}`, 'not_found_error');
+  }
+
+  /**
+   * Check the request's API key and return the caller's identity: a digest of the key, so
+   * conversations of different keys never share a session
+   */
+  private async authenticate(request: IncomingMessage): Promise<string> {
+    const header = request.headers.authorization;
+    const bearer = header?.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : undefined;
+    const apiKeyHeader = request.headers['x-api-key'];
+    const apiKey = bearer || (typeof apiKeyHeader === 'string' ? apiKeyHeader : undefined);
+
+    if (this.config.allowUnauthenticated && !apiKey) {
+      return 'anonymous';
+    }
+    if (!apiKey) {
+      throw new HttpError(401, 'Missing API key', 'authentication_error', 'missing_api_key');
+    }
+
+    const digest = hashKey(apiKey);
+    let valid: boolean;
+    if (this.config.authenticate) {
+      valid = await this.config.authenticate(apiKey, request);
+    } else {
+      // Compare digests so timing does not depend on key length or contents
+      valid = this.apiKeys.some((key) => timingSafeEqual(key, digest));
+    }
+    if (!valid && !this.config.allowUnauthenticated) {
+      throw new HttpError(401, 'Invalid API key', 'authentication_error', 'invalid_api_key');
+    }
+    return `key-${digest.toString('hex').slice(0, 16)}`;
+  }
+
+  private async readBody(request: IncomingMessage): Promise<unknown> {
+    const maxBodySize = this.config.maxBodySize ?? DEFAULT_SERVER_CONFIG.maxBodySize;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of request) {
+      size += (chunk as Buffer).length;
+      if (size > maxBodySize) {
+        throw new HttpError(413, `Request body exceeds ${maxBodySize} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf8');
+    if (raw.trim() === '') {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON');
+    }
+  }
+
+  private isExposed(agent: { id: string; name: string }): boolean {
+    return (
+      !this.exposedAgents || this.exposedAgents.has(agent.id) || this.exposedAgents.has(agent.name)
+    );
+  }
+
+  /**
+   * A graph is exposed when every agent it runs is: its default agent and those of its nodes
+   */
+  private async isGraphExposed(graph: Graph): Promise<boolean> {
+    if (!this.exposedAgents) return true;
+
+    const agentIds = new Set(
+      [graph.getGraph().defaultAgentId, ...graph.getNodes().map((node) => node.agentId)].filter(
+        (agentId): agentId is string => !!agentId
+      )
+    );
+
+    for (const agentId of agentIds) {
+      if (this.exposedAgents.has(agentId)) continue;
+      const agent = await Agent.findById(agentId);
+      if (!agent || !this.isExposed(agent)) return false;
+    }
+    return true;
+  }
+
+  private async listGraphs(): Promise<Awaited<ReturnType<typeof Graph.list>>> {
+    const graphs = await Graph.list();
+    if (!this.exposedAgents) return graphs;
+
+    const exposed: typeof graphs = [];
+    for (const summary of graphs) {
+      const graph = await Graph.findById(summary.id);
+      if (!graph) continue;
+      try {
+        if (await this.isGraphExposed(graph)) exposed.push(summary);
+      } finally {
+        await graph.destroy();
+      }
+    }
+    return exposed;
+  }
+
+  /**
+   * Load an agent by id or name, keeping initialized agents for later requests
+   */
+  private async getAgent(ref: string): Promise<Agent> {
+    let loading = this.agents.get(ref);
+    if (!loading) {
+      loading = (UUID_PATTERN.test(ref) ? Agent.findById(ref) : Agent.findByName(ref)).then(
+        (agent) => {
+          if (!agent || !this.isExposed(agent)) {
+            throw new HttpError(
+              404,
+              `Agent '${ref}' not found`,
+              'not_found_error',
+              'model_not_found'
+            );
+          }
+          return agent;
+        }
+      );
+      this.agents.set(ref, loading);
+      // Failed lookups are retried on the next request
+      loading.catch(() => this.agents.delete(ref));
+    }
+    return loading;
+  }
+
+  private async getMemoryAgent(ref: string): Promise<Agent> {
+    const agent = await this.getAgent(ref);
+    if (!agent.hasMemory()) {
+      throw new HttpError(400, `Memory is not enabled for agent '${agent.name}'`);
+    }
+    return agent;
+  }
+
+  /**
+   * The session a client's requests run in: its own, or one per end user under it
+   */
+  private sessionFor(client: string, user?: string | null): string {
+    return user ? `${client}:${user}` : client;
+  }
+
+  private ownsSession(client: string, sessionId: string | undefined): boolean {
+    return sessionId === client || (sessionId?.startsWith(`${client}:`) ?? false);
+  }
+
+  private async getClientTask(agent: Agent, client: string, taskId: string): Promise<Task> {
+    const task = await agent.getTask(taskId);
+    if (!task || task.agentId !== agent.id || task.metadata?.client !== client) {
+      throw new HttpError(404, `Task ${taskId} not found`, 'not_found_error');
+    }
+    return task;
+  }
+
+  /**
+   * Tasks created by the client, paged over that client's tasks only; the task store has no
+   * owner column, so pages of the agent's tasks are read and filtered until the page is full
+   */
+  private async listClientTasks(
+    agent: Agent,
+    client: string,
+    options: TaskSearchOptions
+  ): Promise<Task[]> {
+    const limit = options.limit ?? 100;
+    let skip = options.offset ?? 0;
+    const tasks: Task[] = [];
+    for (let offset = 0; tasks.length < limit; offset += DEFAULT_SERVER_CONFIG.maxListLimit) {
+      const page = await agent.listTasks({
+        ...options,
+        limit: DEFAULT_SERVER_CONFIG.maxListLimit,
+        offset,
+      });
+      for (const task of page) {
+        if (task.metadata?.client !== client) continue;
+        if (skip > 0) {
+          skip--;
+        } else if (tasks.length < limit) {
+          tasks.push(task);
+        }
+      }
+      if (page.length < DEFAULT_SERVER_CONFIG.maxListLimit) break;
+    }
+    return tasks;
+  }
+
+  /**
+   * Only plain task fields are accepted; MCP servers, plugins and file attachments
+   * would let a client run commands or read files on the server
+   */
+  private toTaskRequest(body: Record<string, unknown>): TaskRequest {
+    if (typeof body.prompt !== 'string' || body.prompt.trim() === '') {
+      throw new HttpError(400, "'prompt' must be a non-empty string");
+    }
+    const request: TaskRequest = { prompt: body.prompt };
+    if (typeof body.useTools === 'boolean') request.useTools = body.useTools;
+    if (typeof body.schedule === 'string') request.schedule = body.schedule;
+    if (typeof body.schemaRetries === 'number') request.schemaRetries = body.schemaRetries;
+    if (body.metadata && typeof body.metadata === 'object' && !Array.isArray(body.metadata)) {
+      request.metadata = body.metadata as MetadataObject;
+    }
+    if (body.responseSchema && typeof body.responseSchema === 'object') {
+      request.responseSchema = body.responseSchema as TaskRequest['responseSchema'];
+    }
+    const budget = toBudgetLimits(body.budget);
+    if (budget) request.budget = budget;
+    return request;
+  }
+
+  private async listModels(): Promise<{ object: 'list'; data: ModelObject[] }> {
+    const agents = await Agent.list({ limit: DEFAULT_SERVER_CONFIG.maxListLimit });
+    return {
+      object: 'list',
+      data: agents
+        .filter((agent) => this.isExposed(agent))
+        .map((agent) => ({
+          id: agent.name,
+          object: 'model',
+          created: Math.floor(new Date(agent.config.createdAt).getTime() / 1000),
+          owned_by: DEFAULT_SERVER_CONFIG.ownedBy,
+        })),
+    };
+  }
+
+  private parseChatRequest(body: unknown): { chat: ChatCompletionRequest; prompt: string } {
+    const chat = requireObject(body) as unknown as ChatCompletionRequest;
+    if (typeof chat.model !== 'string' || chat.model === '') {
+      throw new HttpError(400, "'model' must be the name or id of an agent");
+    }
+    if (!Array.isArray(chat.messages) || chat.messages.length === 0) {
+      throw new HttpError(400, "'messages' must be a non-empty array");
+    }
+
+    const lastUser = [...chat.messages].reverse().find((message) => message?.role === 'user');
+    const prompt = lastUser ? getMessageText(lastUser) : '';
+    if (prompt.trim() === '') {
+      throw new HttpError(400, 'At least one user message with text content is required');
+    }
+    return { chat, prompt };
+  }
+
+  private toAskOptions(chat: ChatCompletionRequest, context: RouteContext): AskOptions {
+    // Clients never share the agent's default conversation; end users get sessions under theirs
+    const user = typeof chat.user === 'string' && chat.user !== '' ? chat.user : undefined;
+    const options: AskOptions = {
+      signal: context.signal,
+      sessionId: this.sessionFor(context.client, user),
+    };
+    if (typeof chat.temperature === 'number') options.temperature = chat.temperature;
+    const maxTokens = chat.max_completion_tokens ?? chat.max_tokens;
+    if (typeof maxTokens === 'number') options.maxTokens = maxTokens;
+    if (chat.response_format?.type === 'json_schema') {
+      options.responseSchema = chat.response_format.json_schema.schema;
+    } else if (chat.response_format?.type === 'json_object') {
+      options.responseSchema = { type: 'object' };
+    }
+    return options;
+  }
+
+  private async chatCompletions(context: RouteContext): Promise<ChatCompletionResponse | void> {
+    const { chat, prompt } = this.parseChatRequest(await this.readBody(context.request));
+    const agent = await this.getAgent(chat.model);
+    const options = this.toAskOptions(chat, context);
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (chat.stream) {
+      await this.streamChatCompletion(context.response, agent, prompt, options, {
+        id,
+        created,
+        model: chat.model,
+        includeUsage: !!chat.stream_options?.include_usage,
+      });
+      return;
+    }
+
+    let usage: LLMUsage | undefined;
+    const result: unknown = await agent.ask(prompt, {
+      ...options,
+      onEvent: (event) => {
+        if (event.type === 'final') usage = event.usage;
+      },
+    });
+
+    return {
+      id,
+      object: 'chat.completion',
+      created,
+      model: chat.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: typeof result === 'string' ? result : JSON.stringify(result),
+          },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: toChatUsage(usage),
+    };
+  }
+
+  private async streamChatCompletion(
+    response: ServerResponse,
+    agent: Agent,
+    prompt: string,
+    options: AskOptions,
+    meta: { id: string; created: number; model: string; includeUsage: boolean }
+  ): Promise<void> {
+    const writeChunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finishReason: 'stop' | null,
+      usage?: ChatCompletionUsage | null
+    ) => {
+      const chunk: ChatCompletionChunk = {
+        id: meta.id,
+        object: 'chat.completion.chunk',
+        created: meta.created,
+        model: meta.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      };
+      if (meta.includeUsage) chunk.usage = usage ?? null;
+      response.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    writeChunk({ role: 'assistant', content: '' }, null);
+
+    try {
+      for await (const event of agent.stream(prompt, options)) {
+        if (event.type === 'text_delta') {
+          writeChunk({ content: event.delta }, null);
+        } else if (event.type === 'final') {
+          writeChunk({}, 'stop', toChatUsage(event.usage));
+        }
+      }
+      response.write('data: [DONE]\n\n');
+    } catch (error) {
+      // Headers are already sent; report the failure in-band like OpenAI does
+      const { body } = this.toErrorResponse(error);
+      if (!response.destroyed) {
+        response.write(`data: ${JSON.stringify(body)}\n\n`);
+      }
+    } finally {
+      response.end();
+    }
+  }
+
+  private toErrorResponse(error: unknown): {
+    status: number;
+    body: { error: { message: string; type: string; code: string | null } };
+  } {
+    let httpError: HttpError;
+    if (error instanceof HttpError) {
+      httpError = error;
+    } else if (isBudgetExceededError(error)) {
+      httpError = new HttpError(429, error.message, 'budget_exceeded', error.limit);
+    } else if (isOperationCancelledError(error)) {
+      httpError = new HttpError(499, error.message, 'cancelled');
+    } else if (isStructuredOutputError(error)) {
+      httpError = new HttpError(422, error.message, 'invalid_response_error');
+    } else if (isGuardrailViolationError(error)) {
+      httpError = new HttpError(400, error.message, 'guardrail_violation', error.guardrail);
+    } else {
+      this.logger.error('HTTP request failed', error instanceof Error ? error : undefined);
+      this.logger.debug('HTTP request error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      httpError = new HttpError(500, 'Internal server error', 'server_error');
+    }
+
+    return {
+      status: httpError.status,
+      body: {
+        error: { message: httpError.message, type: httpError.type, code: httpError.code ?? null },
+      },
+    };
+  }
+
+  private sendError(response: ServerResponse, error: unknown): void {
+    const { status, body } = this.toErrorResponse(error);
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    this.sendJson(response, status, body);
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    response.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+    });
+    response.end(payload);
+  }
+}
+
+/**
+ * Create and start a server
+ */
+export async function startServer(config?: ServerConfig): Promise<AgentServer> {
+  const server = new AgentServer(config);
+  await server.start();
+  return server;
+}
+
+export * from './types';
@@ -0,0 +1,85 @@
+import { IncomingMessage } from 'http';
+import { Logger } from '../logger/types';
+import { ResponseSchema } from '../llm/types';
+
+/**
+ * HTTP server configuration
+ */
+export interface ServerConfig {
+  port?: number; // 0 picks a free port
+  host?: string;
+  apiKeys?: string[]; // Accepted keys; falls back to ASTREUS_API_KEYS (comma separated)
+  authenticate?: (apiKey: string, request: IncomingMessage) => boolean | Promise<boolean>; // Replaces the key list check
+  allowUnauthenticated?: boolean; // Serve without API keys (local development only)
+  agents?: string[]; // Names or ids of the agents to expose; every agent when omitted
+  maxBodySize?: number; // Request body limit in bytes
+  corsOrigin?: string; // Access-Control-Allow-Origin value; no CORS headers when omitted
+  logger?: Logger;
+}
+
+export interface ServerAddress {
+  host: string;
+  port: number;
+  url: string;
+}
+
+// OpenAI wire format (the subset the server reads and writes)
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | 'developer';
+  content: string | Array<{ type: string; text?: string }> | null;
+  name?: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string; // Agent name or id
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  response_format?:
+    | { type: 'text' | 'json_object' }
+    | { type: 'json_schema'; json_schema: { name?: string; schema: ResponseSchema } };
+  user?: string;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: 'chat.completion';
+  created: number; // Unix seconds
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: 'stop';
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: 'assistant'; content?: string };
+    finish_reason: 'stop' | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+export interface ModelObject {
+  id: string; // Agent name
+  object: 'model';
+  created: number;
+  owned_by: string;
+}
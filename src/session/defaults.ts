@@ -0,0 +1,8 @@
+/**
+ * Default configuration values for conversation sessions
+ */
+export const DEFAULT_SESSION_CONFIG = {
+  maxOpenSessions: 100, // Idle sessions beyond this are saved and closed (resumed on next use)
+  listLimit: 100,
+  maxSessionIdLength: 255, // Matches the sessionId columns of memories and contexts
+} as const;
@@ -0,0 +1,164 @@
+import { Knex } from 'knex';
+import crypto from 'crypto';
+import { getDatabase } from '../database';
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import { Session, SessionListOptions } from './types';
+import { DEFAULT_SESSION_CONFIG } from './defaults';
+
+// Database row interface
+interface SessionDbRow {
+  id: string; // UUID
+  agentId: string; // UUID
+  sessionId: string;
+  name: string | null;
+  messageCount: number | string;
+  lastActiveAt: string | Date | null;
+  created_at: string | Date;
+  updated_at: string | Date;
+}
+
+/**
+ * Session records of agents: one row per (agentId, sessionId)
+ * Conversation content lives in the memories and contexts tables under the same sessionId
+ */
+export class SessionStorage {
+  private knexPromise: Promise<Knex> | null = null;
+  private logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger ?? getLogger();
+  }
+
+  /**
+   * Get the knex instance, creating the sessions table on first use
+   */
+  private getKnex(): Promise<Knex> {
+    if (!this.knexPromise) {
+      this.knexPromise = this.initialize().catch((error: unknown) => {
+        // Allow a later call to retry
+        this.knexPromise = null;
+        throw error;
+      });
+    }
+    return this.knexPromise;
+  }
+
+  private async initialize(): Promise<Knex> {
+    const db = await getDatabase();
+    const knex = db.getKnex();
+
+    const hasSessionsTable = await knex.schema.hasTable('sessions');
+    if (!hasSessionsTable) {
+      this.logger.debug('Creating sessions table');
+
+      await knex.schema.createTable('sessions', (table) => {
+        table.string('id', 36).primary(); // UUID generated in application layer
+        table.string('agentId', 36).notNullable();
+        table.string('sessionId', DEFAULT_SESSION_CONFIG.maxSessionIdLength).notNullable();
+        table.string('name').nullable();
+        table.integer('messageCount').defaultTo(0);
+        table.timestamp('lastActiveAt').nullable();
+        table.timestamps(true, true);
+
+        table.foreign('agentId').references('id').inTable('agents').onDelete('CASCADE');
+        table.unique(['agentId', 'sessionId']);
+        table.index(['agentId', 'lastActiveAt']);
+      });
+    }
+
+    return knex;
+  }
+
+  /**
+   * Record messages added to a session, creating the session on first use
+   */
+  async recordActivity(agentId: string, sessionId: string, messages: number = 1): Promise<void> {
+    const knex = await this.getKnex();
+
+    const increment = () =>
+      knex('sessions')
+        .where({ agentId, sessionId })
+        .update({
+          messageCount: knex.raw('?? + ?', ['messageCount', messages]),
+          lastActiveAt: new Date().toISOString(),
+          updated_at: knex.fn.now(),
+        });
+
+    if ((await increment()) === 0) {
+      // Ignore the insert if a concurrent call created the row first, then count on it
+      await knex('sessions')
+        .insert({
+          id: crypto.randomUUID(),
+          agentId,
+          sessionId,
+          messageCount: 0,
+          lastActiveAt: new Date().toISOString(),
+        })
+        .onConflict(['agentId', 'sessionId'])
+        .ignore();
+      await increment();
+
+      this.logger.debug('Session created', { agentId, sessionId });
+    }
+  }
+
+  async getSession(agentId: string, sessionId: string): Promise<Session | null> {
+    const knex = await this.getKnex();
+    const row = await knex('sessions').where({ agentId, sessionId }).first();
+    return row ? this.formatSession(row) : null;
+  }
+
+  /**
+   * List sessions of an agent, most recently active first
+   */
+  async listSessions(agentId: string, options?: SessionListOptions): Promise<Session[]> {
+    const knex = await this.getKnex();
+    const rows: SessionDbRow[] = await knex('sessions')
+      .where({ agentId })
+      .orderBy([
+        { column: 'lastActiveAt', order: 'desc' },
+        { column: 'created_at', order: 'desc' },
+      ])
+      .limit(options?.limit ?? DEFAULT_SESSION_CONFIG.listLimit)
+      .offset(options?.offset ?? 0);
+
+    return rows.map((row) => this.formatSession(row));
+  }
+
+  async renameSession(agentId: string, sessionId: string, name: string): Promise<Session | null> {
+    const knex = await this.getKnex();
+    const updated = await knex('sessions')
+      .where({ agentId, sessionId })
+      .update({ name, updated_at: knex.fn.now() });
+
+    if (updated === 0) {
+      return null;
+    }
+    return this.getSession(agentId, sessionId);
+  }
+
+  async deleteSession(agentId: string, sessionId: string): Promise<boolean> {
+    const knex = await this.getKnex();
+    const deleted = await knex('sessions').where({ agentId, sessionId }).delete();
+    return deleted > 0;
+  }
+
+  /**
+   * Format database row to Session
+   */
+  private formatSession(row: SessionDbRow): Session {
+    return {
+      id: row.sessionId,
+      agentId: row.agentId,
+      name: row.name ?? undefined,
+      messageCount: Number(row.messageCount) || 0,
+      lastActiveAt: new Date(row.lastActiveAt ?? row.updated_at),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
+
+export * from './types';
+export * from './defaults';
@@ -0,0 +1,18 @@
+/**
+ * Conversation session of an agent
+ * The id is the AskOptions.sessionId the session was started with
+ */
+export interface Session {
+  id: string;
+  agentId: string; // UUID
+  name?: string;
+  messageCount: number;
+  lastActiveAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionListOptions {
+  limit?: number;
+  offset?: number;
+}
@@ -10,7 +10,13 @@ import {
 } from './types';
 import { ContextMessage } from '../context/types';
 import { Logger } from '../logger/types';
-import { SubAgentError } from '../errors';
+import {
+  SubAgentError,
+  isBudgetExceededError,
+  isOperationCancelledError,
+  throwIfAborted,
+} from '../errors';
+import { BudgetTracker } from '../budget';
 import { randomUUID } from 'crypto';
 
 /**
@@ -38,13 +44,17 @@ export class SubAgentCoordinator {
    * @param coordination - Coordination strategy (parallel/sequential)
    * @param contextIsolation - Context isolation strategy (isolated/shared/merge)
    * @param parentAgent - Optional parent agent for context merging
+   * @param signal - Cancels running sub-agent asks; contexts are still restored before rejecting
+   * @param budget - Budget of the parent run; every sub-agent ask is charged to it
    */
   async executeSubAgentTasks(
     tasks: SubAgentTask[],
     subAgents: IAgent[],
     coordination: 'parallel' | 'sequential' = 'parallel',
     contextIsolation: ContextIsolationStrategy = 'isolated',
-    parentAgent?: IAgent
+    parentAgent?: IAgent,
+    signal?: AbortSignal,
+    budget?: BudgetTracker
   ): Promise<SubAgentCoordinationResult> {
     const startTime = Date.now();
     const results: SubAgentResult[] = [];
@@ -68,9 +78,9 @@ export class SubAgentCoordinator {
       }
 
       if (coordination === 'parallel') {
-        await this.executeParallel(tasks, subAgents, results, errors);
+        await this.executeParallel(tasks, subAgents, results, errors, signal, budget);
       } else {
-        await this.executeSequential(tasks, subAgents, results, errors);
+        await this.executeSequential(tasks, subAgents, results, errors, signal, budget);
       }
 
       // Handle context isolation AFTER execution
@@ -125,6 +135,15 @@ export class SubAgentCoordinator {
       // Clear snapshots for this execution only
       this.clearExecutionSnapshots(executionId, subAgents);
 
+      if (isOperationCancelledError(error)) {
+        this.logger?.info('Sub-agent coordination cancelled', { executionId });
+        throw error;
+      }
+      if (isBudgetExceededError(error)) {
+        this.logger?.info('Sub-agent coordination stopped by budget', { executionId });
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger?.error('Sub-agent coordination failed', error as Error);
 
@@ -293,14 +312,26 @@ export class SubAgentCoordinator {
     tasks: SubAgentTask[],
     subAgents: IAgent[],
     results: SubAgentResult[],
-    errors: string[]
+    errors: string[],
+    signal?: AbortSignal,
+    budget?: BudgetTracker
   ): Promise<void> {
     this.logger?.debug('Executing sub-agent tasks in parallel', { taskCount: tasks.length });
 
     // Execute all tasks concurrently
-    const taskPromises = tasks.map((task) => this.executeTask(task, subAgents));
+    const taskPromises = tasks.map((task) => this.executeTask(task, subAgents, signal, budget));
 
     const taskResults = await Promise.allSettled(taskPromises);
+    throwIfAborted(signal, 'Sub-agent execution');
+
+    // A shared budget that ran out stops the whole run, not just one task
+    const budgetStop = taskResults.find(
+      (taskResult): taskResult is PromiseRejectedResult =>
+        taskResult.status === 'rejected' && isBudgetExceededError(taskResult.reason)
+    );
+    if (budgetStop) {
+      throw budgetStop.reason;
+    }
 
     for (let i = 0; i < taskResults.length; i++) {
       const taskResult = taskResults[i];
@@ -342,7 +373,9 @@ export class SubAgentCoordinator {
     tasks: SubAgentTask[],
     subAgents: IAgent[],
     results: SubAgentResult[],
-    errors: string[]
+    errors: string[],
+    signal?: AbortSignal,
+    budget?: BudgetTracker
   ): Promise<void> {
     this.logger?.debug('Executing sub-agent tasks sequentially', { taskCount: tasks.length });
 
@@ -353,6 +386,8 @@ export class SubAgentCoordinator {
     const failedTaskIds = new Set<string>();
 
     for (const task of sortedTasks) {
+      throwIfAborted(signal, 'Sub-agent execution');
+
       // Check if any dependency failed - propagate error to dependent tasks
       if (task.dependencies && task.dependencies.length > 0) {
         const failedDependencies = task.dependencies.filter(
@@ -395,7 +430,7 @@ export class SubAgentCoordinator {
       try {
         // Build context from previous results
         const enhancedTask = this.enhanceTaskWithContext(task, results);
-        const result = await this.executeTask(enhancedTask, subAgents);
+        const result = await this.executeTask(enhancedTask, subAgents, signal, budget);
         results.push(result);
 
         // Track failed tasks for dependency propagation
@@ -412,6 +447,10 @@ export class SubAgentCoordinator {
           executionTime: result.executionTime,
         });
       } catch (error) {
+        if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+          throw error;
+        }
+
         const errorMessage = error instanceof Error ? error.message : String(error);
         errors.push(errorMessage);
         this.logger?.error('Sub-agent task failed in sequential execution', error as Error);
@@ -430,7 +469,12 @@ export class SubAgentCoordinator {
   /**
    * Execute a single sub-agent task
    */
-  private async executeTask(task: SubAgentTask, subAgents: IAgent[]): Promise<SubAgentResult> {
+  private async executeTask(
+    task: SubAgentTask,
+    subAgents: IAgent[],
+    signal?: AbortSignal,
+    budget?: BudgetTracker
+  ): Promise<SubAgentResult> {
     const startTime = Date.now();
 
     const agent = subAgents.find((a) => a.id === task.agentId);
@@ -444,7 +488,7 @@ export class SubAgentCoordinator {
         task: task.task.substring(0, 100) + '...',
       });
 
-      const result = await agent.ask(task.task);
+      const result = await agent.ask(task.task, { signal, budget });
       const executionTime = Date.now() - startTime;
 
       return {
@@ -456,6 +500,10 @@ export class SubAgentCoordinator {
         executionTime,
       };
     } catch (error) {
+      if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+        throw error;
+      }
+
       const executionTime = Date.now() - startTime;
       const originalError = error instanceof Error ? error : new Error(String(error));
 
@@ -6,6 +6,8 @@ import { SubAgentTask, DelegationStrategy, SubAgentRunOptions } from './types';
 import { getLLM } from '../llm';
 import { DEFAULT_SUBAGENT_CONFIG } from './defaults';
 import { Logger } from '../logger/types';
+import { isBudgetExceededError, isOperationCancelledError } from '../errors';
+import { BudgetTracker, resolveBudget } from '../budget';
 
 /**
  * Auto delegation strategy - uses LLM to intelligently analyze task and assign to sub-agents
@@ -43,9 +45,18 @@ export class AutoDelegationStrategy implements DelegationStrategy {
 
     try {
       // Use LLM to analyze task and create delegation plan
-      const delegationPlan = await this.createDelegationPlan(prompt, subAgents, model);
+      const delegationPlan = await this.createDelegationPlan(
+        prompt,
+        subAgents,
+        model,
+        options?.signal,
+        resolveBudget(options?.budget)
+      );
       return delegationPlan;
     } catch (error) {
+      if (isOperationCancelledError(error) || isBudgetExceededError(error)) {
+        throw error;
+      }
       this.logger?.warn('LLM-based delegation failed, using fallback', {
         error: error instanceof Error ? error.message : String(error),
       });
@@ -62,7 +73,9 @@ export class AutoDelegationStrategy implements DelegationStrategy {
   private async createDelegationPlan(
     prompt: string,
     subAgents: IAgent[],
-    model?: string
+    model?: string,
+    signal?: AbortSignal,
+    budget?: BudgetTracker
   ): Promise<SubAgentTask[]> {
     const llm = getLLM(this.logger);
 
@@ -123,6 +136,8 @@ Example response:
       messages: [{ role: 'user', content: delegationPrompt }],
       temperature: 0.3, // Low temperature for consistent delegation
       maxTokens: 1000,
+      signal,
+      budget,
     });
 
     this.logger?.debug('LLM delegation response', {
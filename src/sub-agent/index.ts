@@ -8,7 +8,8 @@ import { SubAgentCoordinationResult } from './types';
 import { Logger } from '../logger/types';
 import { getLogger } from '../logger';
 import { DEFAULT_SUBAGENT_CONFIG, calculateSubAgentTimeouts } from './defaults';
-import { SubAgentError } from '../errors';
+import { BudgetExceededError, OperationCancelledError, SubAgentError } from '../errors';
+import { resolveBudget } from '../budget';
 
 // Use centralized timeout configuration from defaults
 const DEFAULT_EXECUTION_TIMEOUT = DEFAULT_SUBAGENT_CONFIG.defaultTimeout;
@@ -41,12 +42,14 @@ interface TimeoutResult<T> {
  * @param promiseFactory - Factory function that creates the promise, receives AbortSignal
  * @param timeoutMs - Timeout in milliseconds
  * @param operation - Operation name for error messages
+ * @param parentSignal - Caller's signal; aborting it cancels the wrapped work as well
  * @returns Promise that resolves with result or rejects with timeout error
  */
 function withTimeoutAbortable<T>(
   promiseFactory: (signal: AbortSignal) => Promise<T>,
   timeoutMs: number,
-  operation: string
+  operation: string,
+  parentSignal?: AbortSignal
 ): TimeoutResult<T> {
   const controller = new AbortController();
   const { signal } = controller;
@@ -57,20 +60,36 @@ function withTimeoutAbortable<T>(
       reject(new SubAgentTimeoutError(timeoutMs, operation));
     }, timeoutMs);
 
+    const onParentAbort = () => {
+      controller.abort(parentSignal?.reason);
+      reject(
+        new OperationCancelledError(`Sub-agent ${operation} was cancelled`, parentSignal?.reason)
+      );
+    };
+
     // Handle abort from external source
     signal.addEventListener('abort', () => {
       clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
     });
 
+    if (parentSignal?.aborted) {
+      onParentAbort();
+      return;
+    }
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
     promiseFactory(signal)
       .then((result) => {
         clearTimeout(timer);
+        parentSignal?.removeEventListener('abort', onParentAbort);
         if (!signal.aborted) {
           resolve(result);
         }
       })
       .catch((error) => {
         clearTimeout(timer);
+        parentSignal?.removeEventListener('abort', onParentAbort);
         if (!signal.aborted) {
           reject(error);
         }
@@ -138,6 +157,8 @@ export class SubAgent implements IAgentModule {
       // Calculate timeout values with minimum guarantees
       // This prevents issues when node timeout is too short (e.g., 1 minute = 24s delegation)
       const { delegateTimeout, executeTimeout } = calculateSubAgentTimeouts(timeoutMs);
+      // Delegation and every sub-agent ask count against the same budget
+      const budget = resolveBudget(options.budget);
 
       this.logger.debug(
         `Sub-agent timeout allocation: delegation=${delegateTimeout}ms, execution=${executeTimeout}ms (total=${timeoutMs}ms)`
@@ -145,9 +166,11 @@ export class SubAgent implements IAgentModule {
 
       // Delegate tasks to sub-agents with proportional timeout
       const { promise: delegatePromise } = withTimeoutAbortable(
-        () => strategy.delegate(prompt, subAgents, options, mainAgentModel),
+        (signal) =>
+          strategy.delegate(prompt, subAgents, { ...options, signal, budget }, mainAgentModel),
         delegateTimeout,
-        'task delegation'
+        'task delegation',
+        options.signal
       );
       const tasks = await delegatePromise;
 
@@ -164,16 +187,19 @@ export class SubAgent implements IAgentModule {
       // Execute tasks with coordination, context isolation, and proportional timeout
       const coordination = options.coordination || 'parallel';
       const { promise: executePromise } = withTimeoutAbortable(
-        () =>
+        (signal) =>
           this.coordinator.executeSubAgentTasks(
             tasks,
             subAgents,
             coordination,
             contextIsolation,
-            parentAgent
+            parentAgent,
+            signal,
+            budget
           ),
         executeTimeout,
-        'sub-agent execution'
+        'sub-agent execution',
+        options.signal
       );
       const result = await executePromise;
 
@@ -191,6 +217,14 @@ export class SubAgent implements IAgentModule {
         this.logger.error(`Sub-agent execution timed out after ${timeoutMs}ms`);
         throw error;
       }
+      if (error instanceof OperationCancelledError) {
+        this.logger.info('Sub-agent execution cancelled');
+        throw error;
+      }
+      if (error instanceof BudgetExceededError) {
+        this.logger.info('Sub-agent execution stopped by budget');
+        throw error;
+      }
       this.logger.error('Sub-agent execution failed', originalError, {
         errorMessage: originalError.message,
       });
@@ -236,6 +270,8 @@ export class SubAgent implements IAgentModule {
       // Calculate timeout values with minimum guarantees
       // This prevents issues when node timeout is too short (e.g., 1 minute = 24s delegation)
       const { delegateTimeout, executeTimeout } = calculateSubAgentTimeouts(timeoutMs);
+      // Delegation and every sub-agent ask count against the same budget
+      const budget = resolveBudget(options.budget);
 
       this.logger.debug(
         `Sub-agent timeout allocation: delegation=${delegateTimeout}ms, execution=${executeTimeout}ms (total=${timeoutMs}ms)`
@@ -243,9 +279,11 @@ export class SubAgent implements IAgentModule {
 
       // Delegate tasks to sub-agents with proportional timeout
       const { promise: delegatePromise } = withTimeoutAbortable(
-        () => strategy.delegate(prompt, subAgents, options, mainAgentModel),
+        (signal) =>
+          strategy.delegate(prompt, subAgents, { ...options, signal, budget }, mainAgentModel),
         delegateTimeout,
-        'task delegation'
+        'task delegation',
+        options.signal
       );
       const tasks = await delegatePromise;
 
@@ -256,9 +294,19 @@ export class SubAgent implements IAgentModule {
       // Execute tasks with coordination and proportional timeout
       const coordination = options.coordination || 'parallel';
       const { promise: executePromise } = withTimeoutAbortable(
-        () => this.coordinator.executeSubAgentTasks(tasks, subAgents, coordination),
+        (signal) =>
+          this.coordinator.executeSubAgentTasks(
+            tasks,
+            subAgents,
+            coordination,
+            undefined,
+            undefined,
+            signal,
+            budget
+          ),
         executeTimeout,
-        'sub-agent execution'
+        'sub-agent execution',
+        options.signal
       );
       return await executePromise;
     } catch (error) {
@@ -267,6 +315,14 @@ export class SubAgent implements IAgentModule {
         this.logger.error(`Detailed sub-agent execution timed out after ${timeoutMs}ms`);
         throw error;
       }
+      if (error instanceof OperationCancelledError) {
+        this.logger.info('Detailed sub-agent execution cancelled');
+        throw error;
+      }
+      if (error instanceof BudgetExceededError) {
+        this.logger.info('Detailed sub-agent execution stopped by budget');
+        throw error;
+      }
       this.logger.error('Detailed sub-agent execution failed', originalError, {
         errorMessage: originalError.message,
       });
@@ -15,10 +15,14 @@ import {
   LLMMessage,
   LLMMessageContent,
   LLMMessageContentPart,
+  LLMRequestOptions,
   Tool,
   ToolCall,
+  addSchemaInstruction,
+  parseStructuredContent,
+  resolveStructuredOutput,
 } from '../llm';
-import { LLMUsage } from '../llm/types';
+import { LLMUsage, ResponseSchema, mergeUsage } from '../llm/types';
 import { Memory } from '../memory';
 import { Memory as MemoryType } from '../memory/types';
 import { Knex } from 'knex';
@@ -29,7 +33,18 @@ import * as path from 'path';
 import { DEFAULT_AGENT_CONFIG } from '../agent/defaults';
 import { DEFAULT_TASK_CONFIG } from './defaults';
 import { convertToolParametersToJsonSchema } from '../plugin';
+import { formatDeniedToolResult } from '../plugin/approval';
+import { ToolApprovalHandler, ToolApprovalOutcome, ToolApprovalPolicy } from '../plugin/types';
 import { MetadataObject } from '../types';
+import {
+  isBudgetExceededError,
+  isGuardrailViolationError,
+  isOperationCancelledError,
+  throwIfAborted,
+} from '../errors';
+import { BudgetLimits, BudgetTracker, attachPartialResult, resolveBudget } from '../budget';
+import { GuardrailStage, GuardrailViolation } from '../guardrail/types';
+import { buildReflectionPrompt, collectToolUses } from '../reflection';
 
 /**
  * Simple async mutex for protecting initialization.
@@ -67,6 +82,7 @@ interface TaskDbRow {
   response: string | null;
   status: TaskStatus;
   metadata: string | null;
+  executionContext?: string | null;
   created_at: string;
   updated_at: string;
   completedAt: string | null;
@@ -193,6 +209,16 @@ export class Task implements IAgentModule {
     if (request.taskAssignment) {
       metadata.taskAssignment = JSON.stringify(request.taskAssignment);
     }
+    // Store structured output options
+    if (request.responseSchema) {
+      metadata.responseSchema = JSON.stringify(request.responseSchema);
+    }
+    if (request.schemaRetries !== undefined) {
+      metadata.schemaRetries = request.schemaRetries;
+    }
+    if (request.budget) {
+      metadata.budget = JSON.stringify(request.budget);
+    }
 
     // Process attachments and enhance prompt
     let enhancedPrompt = request.prompt;
@@ -283,6 +309,11 @@ export class Task implements IAgentModule {
         status: 'start' | 'end',
         result?: string
       ) => void;
+      signal?: AbortSignal; // Cancels LLM and tool calls; the task ends with status 'cancelled'
+      budget?: BudgetLimits | BudgetTracker; // Limits over the task's own, or a parent tracker (e.g. a graph's)
+      // Tool approval overrides for this task (merged over the agent's settings)
+      approveToolCall?: ToolApprovalHandler;
+      toolApproval?: ToolApprovalPolicy;
     }
   ): Promise<TaskResponse> {
     const startTime = Date.now();
@@ -312,13 +343,91 @@ export class Task implements IAgentModule {
     // Update status to in_progress
     await this.updateTaskStatus(taskId, 'in_progress');
 
+    // Record which agent config revision serves this task
+    const executionContext: Record<string, unknown> = { ...task.executionContext };
+    try {
+      const revision = await this.agent.getCurrentRevision?.();
+      if (revision) {
+        executionContext.agentRevision = { id: revision.id, version: revision.version };
+        await this.updateTask(taskId, { executionContext });
+      }
+    } catch (error) {
+      this.logger.debug('Failed to record agent revision on task', {
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Redactions, rewrites and rejections by the agent's guardrails, kept in the execution context
+    const guardrailViolations: GuardrailViolation[] = [];
+
     try {
+      throwIfAborted(options?.signal, `Task ${taskId}`);
+
       // Check if tools should be used for this specific task
       const taskUseTools = task.metadata?.useTools;
       const agentUseTools = this.agent.config.useTools;
       const shouldUseTools = taskUseTools !== undefined ? taskUseTools : agentUseTools !== false;
 
+      // Denied tool calls are reported to the LLM as tool errors, edited ones run with new arguments
+      const reviewToolCall = async (toolCall: ToolCall): Promise<ToolApprovalOutcome> =>
+        this.agent.reviewToolCall
+          ? this.agent.reviewToolCall(toolCall, {
+              approveToolCall: options?.approveToolCall,
+              toolApproval: options?.toolApproval,
+              taskId,
+              prompt,
+            })
+          : { approved: true };
+
       let llmResponse: LLMResponse;
+      let delegated = false;
+      // Conversation of a direct run, with its tool calls and results (for the reflection)
+      let runMessages: LLMMessage[] = [];
+
+      // Structured output schema stored at task creation
+      let responseSchema: ResponseSchema | undefined;
+      if (task.metadata?.responseSchema && typeof task.metadata.responseSchema === 'string') {
+        try {
+          responseSchema = JSON.parse(task.metadata.responseSchema) as ResponseSchema;
+        } catch (error) {
+          this.logger.debug('Failed to parse responseSchema metadata', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      // Request that produced the final content, reused for schema repair calls
+      let structuredRequest: LLMRequestOptions | undefined;
+
+      // Budget stored at task creation, layered over the agent's default budget
+      let taskBudget: BudgetLimits | undefined;
+      if (task.metadata?.budget && typeof task.metadata.budget === 'string') {
+        try {
+          taskBudget = JSON.parse(task.metadata.budget) as BudgetLimits;
+        } catch (error) {
+          this.logger.debug('Failed to parse budget metadata', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      const budget = resolveBudget(options?.budget, {
+        ...this.agent.config.budget,
+        ...taskBudget,
+      });
+
+      const guard = async (content: string, stage: GuardrailStage, toolName?: string) =>
+        this.agent.applyGuardrails
+          ? (
+              await this.agent.applyGuardrails(content, stage, {
+                toolName,
+                taskId,
+                signal: options?.signal,
+                budget,
+                onViolation: (violation) => guardrailViolations.push(violation),
+              })
+            ).content
+          : content;
+      const prompt = await guard(task.prompt, 'input');
 
       // Add memory context if agent has memory enabled
       const agentHasMemory = this.agent.config.memory || false;
@@ -371,6 +480,8 @@ export class Task implements IAgentModule {
         'ask' in this.agent &&
         typeof this.agent.ask === 'function'
       ) {
+        delegated = true;
+
         // Prepare sub-agent options from task metadata
         const delegation = task.metadata?.subAgentDelegation;
         const coordination = task.metadata?.subAgentCoordination;
@@ -408,14 +519,37 @@ export class Task implements IAgentModule {
         if (typeof shouldUseTools === 'boolean') {
           subAgentOptions.useTools = shouldUseTools;
         }
+        subAgentOptions.signal = options?.signal;
+        subAgentOptions.budget = budget;
 
         // Execute task with sub-agent delegation using agent.ask()
-        const response = await this.agent.ask(task.prompt, subAgentOptions);
+        // agent.ask() guards tool results and the output itself; its violations are collected here
+        const response = await this.agent.ask(prompt, {
+          ...subAgentOptions,
+          onEvent: (event) => {
+            if (event.type === 'guardrail') guardrailViolations.push(event.violation);
+          },
+        });
 
         llmResponse = {
           content: response,
           model: options?.model || this.agent.config.model || DEFAULT_AGENT_CONFIG.model,
         };
+
+        if (responseSchema) {
+          structuredRequest = {
+            model: llmResponse.model,
+            messages: [
+              { role: 'user', content: prompt },
+              { role: 'assistant', content: response },
+            ],
+            systemPrompt: this.agent.config.systemPrompt,
+            temperature: this.agent.config.temperature || DEFAULT_AGENT_CONFIG.temperature,
+            maxTokens: this.agent.config.maxTokens || DEFAULT_AGENT_CONFIG.maxTokens,
+            signal: options?.signal,
+            budget,
+          };
+        }
       } else {
         // Direct LLM execution with optional tool support
         const llm = getLLM(this.logger);
@@ -423,9 +557,16 @@ export class Task implements IAgentModule {
         // Prepare messages for LLM (with max context limit)
         const MAX_CONTEXT_MESSAGES = 100;
         const llmMessages: LLMMessage[] = [];
-
-        // Add system prompt
-        const systemPrompt = this.agent.config.systemPrompt;
+        runMessages = llmMessages;
+
+        // Add system prompt, with lessons from similar earlier tasks
+        const reflections = (await this.agent.findReflections?.(prompt)) ?? [];
+        const systemPrompt = [
+          this.agent.config.systemPrompt,
+          reflections.length > 0 ? buildReflectionPrompt(reflections) : undefined,
+        ]
+          .filter(Boolean)
+          .join('\n\n');
         if (systemPrompt) {
           llmMessages.push({ role: 'system', content: systemPrompt });
         }
@@ -451,7 +592,7 @@ export class Task implements IAgentModule {
 
         // Build the prompt with context and memory if needed
         // Skip manual memory loading if task is part of a graph - graph handles context via loadGraphContext
-        let contextualPrompt = task.prompt;
+        let contextualPrompt = prompt;
 
         if (agentHasMemory && !task.graphId) {
           const memory = new Memory(this.agent);
@@ -474,7 +615,7 @@ export class Task implements IAgentModule {
               .filter(Boolean)
               .join('\n');
 
-            contextualPrompt = `Previous conversation:\n${memoryContext}\n\nCurrent request: ${task.prompt}`;
+            contextualPrompt = `Previous conversation:\n${memoryContext}\n\nCurrent request: ${prompt}`;
           }
         }
 
@@ -549,7 +690,7 @@ export class Task implements IAgentModule {
 
               if (isVisionCapable) {
                 // Create multi-modal content
-                const contentParts: LLMMessageContentPart[] = [{ type: 'text', text: task.prompt }];
+                const contentParts: LLMMessageContentPart[] = [{ type: 'text', text: prompt }];
 
                 // Maximum image size limit (10MB) to prevent memory issues
                 const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
@@ -628,13 +769,22 @@ export class Task implements IAgentModule {
           taskId: taskId,
         });
 
-        const llmOptions = {
+        if (responseSchema) {
+          addSchemaInstruction(llmMessages, responseSchema);
+        }
+
+        const llmOptions: LLMRequestOptions = {
           model: modelToUse,
           messages: llmMessages,
           temperature: this.agent.config.temperature || DEFAULT_AGENT_CONFIG.temperature,
           maxTokens: this.agent.config.maxTokens || DEFAULT_AGENT_CONFIG.maxTokens,
           tools: tools.length > 0 ? tools : undefined,
+          responseFormat: responseSchema ? { type: 'json', schema: responseSchema } : undefined,
+          signal: options?.signal,
+          budget,
+          fallbackModels: this.agent.config.fallbackModels,
         };
+        structuredRequest = llmOptions;
 
         if (options?.stream) {
           // Handle streaming with tool support
@@ -701,6 +851,8 @@ export class Task implements IAgentModule {
 
             // Execute each tool call
             for (const toolCall of streamToolCalls) {
+              throwIfAborted(options?.signal, `Task ${taskId}`);
+
               // Define these outside try block for catch access
               const toolName = toolCall.function?.name || 'unknown';
               let toolArgs: Record<string, unknown> = {};
@@ -717,12 +869,29 @@ export class Task implements IAgentModule {
                 toolArgs = {};
               }
 
+              const approval = await reviewToolCall(toolCall);
+              if (approval.approved && approval.arguments) {
+                toolArgs = approval.arguments;
+              }
+
               // Notify tool call start
               if (options?.onToolCall) {
                 const displayName = toolName.replace(/^(mcp_|plugin_)/, '');
                 options.onToolCall(displayName, toolArgs, 'start');
               }
 
+              if (!approval.approved) {
+                const displayName = toolName.replace(/^(mcp_|plugin_)/, '');
+                const deniedResult = formatDeniedToolResult(displayName, approval.reason);
+                options?.onToolCall?.(displayName, toolArgs, 'end', deniedResult);
+                llmMessages.push({
+                  role: 'tool',
+                  content: deniedResult,
+                  tool_call_id: toolCall.id,
+                });
+                continue;
+              }
+
               try {
                 let toolResult: string;
 
@@ -739,7 +908,11 @@ export class Task implements IAgentModule {
                     'callMCPTool' in this.agent &&
                     typeof this.agent.callMCPTool === 'function'
                   ) {
-                    const mcpResult = await this.agent.callMCPTool(mcpToolName, toolArgs);
+                    const mcpResult = await this.agent.callMCPTool(
+                      mcpToolName,
+                      toolArgs,
+                      options?.signal
+                    );
                     toolResult = mcpResult?.content
                       ? mcpResult.content.map((c: { text?: string }) => c.text || '').join('\n')
                       : 'No content returned from MCP tool';
@@ -756,14 +929,21 @@ export class Task implements IAgentModule {
                     'executeTool' in this.agent &&
                     typeof this.agent.executeTool === 'function'
                   ) {
-                    const pluginCallResult = await this.agent.executeTool({
-                      id:
-                        toolCall.id && toolCall.id.trim() !== ''
-                          ? toolCall.id
-                          : `tool-${crypto.randomUUID()}`,
-                      name: pluginToolName,
-                      parameters: toolArgs,
-                    });
+                    const pluginCallResult = await this.agent.executeTool(
+                      {
+                        id:
+                          toolCall.id && toolCall.id.trim() !== ''
+                            ? toolCall.id
+                            : `tool-${crypto.randomUUID()}`,
+                        name: pluginToolName,
+                        parameters: toolArgs,
+                      },
+                      options?.signal,
+                      budget
+                    );
+
+                    // Usage of LLM calls made inside the tool (e.g. an agent tool) counts toward the task
+                    streamUsage = mergeUsage(streamUsage, pluginCallResult?.result?.usage);
 
                     toolResult = pluginCallResult?.result
                       ? pluginCallResult.result.success
@@ -788,10 +968,17 @@ export class Task implements IAgentModule {
                 // Add tool result to messages
                 llmMessages.push({
                   role: 'tool',
-                  content: toolResult,
+                  content: await guard(toolResult, 'tool_result', toolName),
                   tool_call_id: toolCall.id,
                 });
               } catch (error) {
+                if (
+                  isOperationCancelledError(error) ||
+                  isBudgetExceededError(error) ||
+                  isGuardrailViolationError(error)
+                ) {
+                  throw error;
+                }
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 // Notify tool call error
                 if (options?.onToolCall) {
@@ -851,6 +1038,13 @@ export class Task implements IAgentModule {
                 }
               }
             } catch (llmError) {
+              if (isOperationCancelledError(llmError)) {
+                throw llmError;
+              }
+              if (isBudgetExceededError(llmError)) {
+                attachPartialResult(llmError, fullContent);
+                throw llmError;
+              }
               const errorMessage = llmError instanceof Error ? llmError.message : String(llmError);
               const toolErrorResponse = `\n\nError during tool execution: ${errorMessage}`;
               fullContent += toolErrorResponse;
@@ -881,7 +1075,7 @@ export class Task implements IAgentModule {
           let currentResponse = await llm.generateResponse(llmOptions);
           let finalResponse = currentResponse.content;
           const allToolCallsExecuted: ToolCall[] = [];
-          const totalUsage = currentResponse.usage;
+          let totalUsage = currentResponse.usage;
 
           const MAX_TOOL_ITERATIONS = DEFAULT_TASK_CONFIG.maxToolIterations;
           let toolIteration = 0;
@@ -909,6 +1103,22 @@ export class Task implements IAgentModule {
 
             // Execute each tool call
             for (const toolCall of currentToolCalls) {
+              throwIfAborted(options?.signal, `Task ${taskId}`);
+
+              const approval = await reviewToolCall(toolCall);
+              if (!approval.approved) {
+                llmMessages.push({
+                  role: 'tool',
+                  content: formatDeniedToolResult(
+                    (toolCall.function?.name || 'unknown').replace(/^(mcp_|plugin_)/, ''),
+                    approval.reason
+                  ),
+                  tool_call_id: toolCall.id,
+                });
+                continue;
+              }
+              const callArguments = approval.arguments ?? toolCall.function?.arguments;
+
               try {
                 let toolResult: string;
 
@@ -919,7 +1129,7 @@ export class Task implements IAgentModule {
                     toolCall.function.name.length > 4 ? toolCall.function.name.substring(4) : '';
                   let mcpArgs: Record<string, unknown> = {};
                   try {
-                    const argsStr = toolCall.function.arguments;
+                    const argsStr = callArguments;
                     if (argsStr && typeof argsStr === 'string') {
                       mcpArgs = JSON.parse(argsStr);
                     } else if (typeof argsStr === 'object' && argsStr !== null) {
@@ -934,7 +1144,11 @@ export class Task implements IAgentModule {
                     'callMCPTool' in this.agent &&
                     typeof this.agent.callMCPTool === 'function'
                   ) {
-                    const mcpResult = await this.agent.callMCPTool(mcpToolName, mcpArgs);
+                    const mcpResult = await this.agent.callMCPTool(
+                      mcpToolName,
+                      mcpArgs,
+                      options?.signal
+                    );
                     toolResult = mcpResult?.content
                       ? mcpResult.content.map((c: { text?: string }) => c.text || '').join('\n')
                       : 'No content returned from MCP tool';
@@ -946,7 +1160,7 @@ export class Task implements IAgentModule {
                     toolCall.function.name.length > 7 ? toolCall.function.name.substring(7) : '';
                   let pluginArgs: Record<string, unknown> = {};
                   try {
-                    const argsStr = toolCall.function.arguments;
+                    const argsStr = callArguments;
                     if (argsStr && typeof argsStr === 'string') {
                       pluginArgs = JSON.parse(argsStr);
                     } else if (typeof argsStr === 'object' && argsStr !== null) {
@@ -961,14 +1175,21 @@ export class Task implements IAgentModule {
                     'executeTool' in this.agent &&
                     typeof this.agent.executeTool === 'function'
                   ) {
-                    const pluginCallResult = await this.agent.executeTool({
-                      id:
-                        toolCall.id && toolCall.id.trim() !== ''
-                          ? toolCall.id
-                          : `tool-${crypto.randomUUID()}`,
-                      name: pluginToolName,
-                      parameters: pluginArgs,
-                    });
+                    const pluginCallResult = await this.agent.executeTool(
+                      {
+                        id:
+                          toolCall.id && toolCall.id.trim() !== ''
+                            ? toolCall.id
+                            : `tool-${crypto.randomUUID()}`,
+                        name: pluginToolName,
+                        parameters: pluginArgs,
+                      },
+                      options?.signal,
+                      budget
+                    );
+
+                    // Usage of LLM calls made inside the tool (e.g. an agent tool) counts toward the task
+                    totalUsage = mergeUsage(totalUsage, pluginCallResult?.result?.usage);
 
                     toolResult = pluginCallResult?.result
                       ? pluginCallResult.result.success
@@ -986,10 +1207,17 @@ export class Task implements IAgentModule {
 
                 llmMessages.push({
                   role: 'tool',
-                  content: toolResult,
+                  content: await guard(toolResult, 'tool_result', toolCall.function?.name),
                   tool_call_id: toolCall.id,
                 });
               } catch (error) {
+                if (
+                  isOperationCancelledError(error) ||
+                  isBudgetExceededError(error) ||
+                  isGuardrailViolationError(error)
+                ) {
+                  throw error;
+                }
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 llmMessages.push({
                   role: 'tool',
@@ -1015,6 +1243,13 @@ export class Task implements IAgentModule {
                 totalUsage.cost = (totalUsage.cost ?? 0) + (currentResponse.usage.cost ?? 0);
               }
             } catch (llmError) {
+              if (isOperationCancelledError(llmError)) {
+                throw llmError;
+              }
+              if (isBudgetExceededError(llmError)) {
+                attachPartialResult(llmError, finalResponse);
+                throw llmError;
+              }
               const errorMessage = llmError instanceof Error ? llmError.message : String(llmError);
               finalResponse = `Error during tool execution: ${errorMessage}`;
               break;
@@ -1037,11 +1272,55 @@ export class Task implements IAgentModule {
         }
       }
 
+      // Validate structured output, re-prompting with the validation errors if needed
+      let output: unknown;
+      if (responseSchema && structuredRequest) {
+        const schemaRetries = task.metadata?.schemaRetries;
+        const structured = await resolveStructuredOutput(
+          getLLM(this.logger),
+          structuredRequest,
+          llmResponse.content,
+          {
+            schema: responseSchema,
+            maxRetries: typeof schemaRetries === 'number' ? schemaRetries : undefined,
+            logger: this.logger,
+          }
+        ).catch((error: unknown) => {
+          attachPartialResult(error, llmResponse.content);
+          throw error;
+        });
+        output = structured.data;
+        llmResponse = { ...llmResponse, content: structured.content };
+
+        if (structured.usage && llmResponse.usage) {
+          llmResponse.usage.promptTokens += structured.usage.promptTokens;
+          llmResponse.usage.completionTokens += structured.usage.completionTokens;
+          llmResponse.usage.totalTokens += structured.usage.totalTokens;
+          llmResponse.usage.cost = (llmResponse.usage.cost ?? 0) + (structured.usage.cost ?? 0);
+        } else if (structured.usage) {
+          llmResponse.usage = structured.usage;
+        }
+      }
+
+      // Delegated runs were already guarded by agent.ask()
+      if (!delegated) {
+        const guarded = await guard(llmResponse.content, 'output');
+        if (guarded !== llmResponse.content) {
+          llmResponse = { ...llmResponse, content: guarded };
+          if (responseSchema) {
+            output = parseStructuredContent(guarded);
+          }
+        }
+      }
+
       // Update task with response and mark as completed
       const updatedTask = await this.updateTask(taskId, {
         response: llmResponse.content,
         status: 'completed',
         completedAt: new Date(),
+        ...(guardrailViolations.length > 0 && {
+          executionContext: { ...executionContext, guardrailViolations },
+        }),
       });
 
       // User-facing success message
@@ -1062,7 +1341,7 @@ export class Task implements IAgentModule {
         'addMemory' in this.agent &&
         typeof this.agent.addMemory === 'function'
       ) {
-        await this.agent.addMemory(task.prompt, {
+        await this.agent.addMemory(prompt, {
           role: 'user',
           type: 'task_execution',
           taskId: taskId,
@@ -1082,13 +1361,87 @@ export class Task implements IAgentModule {
         throw new Error(`Failed to update task ${taskId} after execution`);
       }
 
+      // Delegated runs reflect in agent.ask()
+      if (!delegated) {
+        await this.agent.reflect?.(
+          {
+            source: 'task',
+            prompt,
+            response: llmResponse.content,
+            tools: collectToolUses(runMessages),
+            model:
+              llmResponse.model ||
+              options?.model ||
+              this.agent.config.model ||
+              DEFAULT_AGENT_CONFIG.model,
+            taskId,
+          },
+          { signal: options?.signal, budget }
+        );
+      }
+
       return {
         task: updatedTask,
         response: llmResponse.content,
+        output,
         model: llmResponse.model,
         usage: llmResponse.usage,
       };
     } catch (error) {
+      if (isOperationCancelledError(error)) {
+        await this.updateTaskStatus(taskId, 'cancelled');
+
+        // User-facing info message
+        this.logger.info(`Task ${taskId} cancelled`);
+
+        this.logger.debug('Task execution cancelled', {
+          taskId,
+          executionTimeMs: Date.now() - startTime,
+          agentId: this.agent.id,
+        });
+
+        throw error;
+      }
+
+      if (isBudgetExceededError(error)) {
+        // Keep whatever the model produced before the budget ran out
+        await this.updateTask(taskId, {
+          status: 'failed',
+          ...(typeof error.partialResult === 'string' && { response: error.partialResult }),
+        });
+
+        // User-facing info message
+        this.logger.info(`Task ${taskId} stopped: ${error.message}`);
+
+        this.logger.debug('Task execution stopped by budget', {
+          taskId,
+          limit: error.limit,
+          usage: { ...error.usage },
+          agentId: this.agent.id,
+        });
+
+        throw error;
+      }
+
+      if (isGuardrailViolationError(error)) {
+        await this.updateTask(taskId, {
+          status: 'failed',
+          executionContext: { ...executionContext, guardrailViolations },
+        });
+
+        // User-facing info message
+        this.logger.info(`Task ${taskId} stopped: ${error.message}`);
+
+        this.logger.debug('Task execution stopped by guardrail', {
+          taskId,
+          guardrail: error.guardrail,
+          stage: error.stage,
+          agentId: this.agent.id,
+        });
+
+        throw error;
+      }
+
       // Mark task as failed
       await this.updateTaskStatus(taskId, 'failed');
 
@@ -1202,6 +1555,8 @@ export class Task implements IAgentModule {
     if (updates.response !== undefined) updateData.response = updates.response;
     if (updates.status !== undefined) updateData.status = updates.status;
     if (updates.metadata !== undefined) updateData.metadata = JSON.stringify(updates.metadata);
+    if (updates.executionContext !== undefined)
+      updateData.executionContext = JSON.stringify(updates.executionContext);
     if (updates.completedAt !== undefined)
       updateData.completedAt =
         updates.completedAt instanceof Date
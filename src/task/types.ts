@@ -1,9 +1,10 @@
-import { LLMUsage } from '../llm/types';
+import { LLMUsage, ResponseSchema } from '../llm/types';
 import { MCPServerDefinition } from '../mcp/types';
 import { Plugin, PluginConfig } from '../plugin/types';
 import { MetadataObject } from '../types';
+import { BudgetLimits } from '../budget/types';
 
-export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
 export interface Task {
   id: string; // UUID
@@ -51,11 +52,18 @@ export interface TaskRequest {
   subAgentDelegation?: 'auto' | 'manual' | 'sequential'; // Delegation strategy
   subAgentCoordination?: 'parallel' | 'sequential'; // How sub-agents coordinate
   taskAssignment?: Record<string, string>; // Manual task assignment (agentId -> task) - uses string keys for JSON serialization compatibility
+
+  // Structured output options
+  responseSchema?: ResponseSchema; // Validate the response as JSON against this schema
+  schemaRetries?: number; // Re-prompts allowed when the response fails validation
+
+  budget?: BudgetLimits; // Limits for each execution, over the agent's budget
 }
 
 export interface TaskResponse {
   task: Task;
   response: string;
+  output?: unknown; // Parsed, schema-validated response when the task has a responseSchema
   model?: string;
   usage?: LLMUsage;
 }
@@ -0,0 +1,4 @@
+export const DEFAULT_TEMPLATE_CONFIG = {
+  maxPartialDepth: 10, // Guards against partials that include themselves
+  maxNameLength: 255,
+};
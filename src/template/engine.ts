@@ -0,0 +1,575 @@
+import { TemplateError } from '../errors';
+import {
+  TemplateCompileOptions,
+  TemplateEscape,
+  TemplateLike,
+  TemplateRenderOptions,
+  TemplateValue,
+  TemplateVariables,
+} from './types';
+import { DEFAULT_TEMPLATE_CONFIG } from './defaults';
+
+/**
+ * Template syntax:
+ * - {{name}}, {{user.name}}: interpolation, escaped per the render `escape` option
+ * - {{{name}}}: interpolation that is never escaped
+ * - {{> partial}}: another template, rendered with the same variables
+ * - {{#if x}}...{{else}}...{{/if}}, {{#unless x}}...{{/unless}}: conditionals
+ * - {{#each items}}...{{else}}...{{/each}}: loops; {{this}}, {{@index}}, {{@key}}, {{@first}}, {{@last}}
+ * - {{! comment }}
+ * - \{{ writes a literal {{
+ * Block tags alone on a line take the line with them, so they leave no blank lines behind.
+ */
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+type BlockType = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | ({ type: 'variable'; path: string; raw: boolean } & Position)
+  | ({ type: 'partial'; name: string } & Position)
+  | ({
+      type: BlockType;
+      path: string;
+      body: TemplateNode[];
+      elseBody: TemplateNode[];
+    } & Position);
+
+type Token =
+  | { type: 'text'; value: string }
+  | ({ type: 'tag'; content: string; raw: boolean } & Position);
+
+interface Frame {
+  item: TemplateValue;
+  key: string | number;
+  first: boolean;
+  last: boolean;
+}
+
+interface RenderState {
+  missingVariables: Set<string>;
+  missingPartials: Set<string>;
+  partials: Record<string, string | TemplateLike>;
+  escape: (value: string) => string;
+  depth: number;
+}
+
+const PATH_PATTERN =
+  /^(?:@index|@key|@first|@last|this(?:\.[\w$-]+)*|[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*)$/;
+const PARTIAL_NAME_PATTERN = /^[\w.\-/]+$/;
+
+function positionAt(source: string, offset: number): Position {
+  const before = source.slice(0, offset);
+  const lastNewline = before.lastIndexOf('\n');
+  return {
+    line: before.split('\n').length,
+    column: offset - lastNewline,
+  };
+}
+
+function isStandaloneTag(content: string, raw: boolean): boolean {
+  return !raw && (/^[#/!]/.test(content) || content === 'else');
+}
+
+/**
+ * Split a template into text and tags
+ */
+function tokenize(source: string, name?: string): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+    if (open === -1) {
+      text += source.slice(index);
+      break;
+    }
+
+    // \{{ is a literal {{
+    if (open > 0 && source[open - 1] === '\\') {
+      text += source.slice(index, open - 1) + '{{';
+      index = open + 2;
+      continue;
+    }
+
+    text += source.slice(index, open);
+    const raw = source.startsWith('{{{', open);
+    const closer = raw ? '}}}' : '}}';
+    const contentStart = open + (raw ? 3 : 2);
+    const close = source.indexOf(closer, contentStart);
+    const position = positionAt(source, open);
+    if (close === -1) {
+      throw syntaxError(`Unclosed tag, expected '${closer}'`, name, position);
+    }
+
+    if (text) {
+      tokens.push({ type: 'text', value: text });
+      text = '';
+    }
+    tokens.push({
+      type: 'tag',
+      content: source.slice(contentStart, close).trim(),
+      raw,
+      ...position,
+    });
+    index = close + closer.length;
+  }
+
+  if (text) {
+    tokens.push({ type: 'text', value: text });
+  }
+
+  stripStandaloneLines(tokens);
+  return tokens;
+}
+
+/**
+ * Remove the indentation and line break around block tags that sit alone on their line
+ */
+function stripStandaloneLines(tokens: Token[]): void {
+  // Text tokens known to begin at the start of a line
+  const lineStarts = new Set<Token>(tokens.slice(0, 1));
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'tag' || !isStandaloneTag(token.content, token.raw)) {
+      return;
+    }
+
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const startsLine =
+      previous === undefined ||
+      (previous.type === 'text' &&
+        (/\n[ \t]*$/.test(previous.value) ||
+          (lineStarts.has(previous) && /^[ \t]*$/.test(previous.value))));
+    const endsLine =
+      next === undefined || (next.type === 'text' && /^[ \t]*(\r?\n|$)/.test(next.value));
+
+    if (startsLine && endsLine) {
+      if (previous?.type === 'text') {
+        previous.value = previous.value.replace(/[ \t]*$/, '');
+      }
+      if (next?.type === 'text') {
+        next.value = next.value.replace(/^[ \t]*(\r?\n)?/, '');
+        lineStarts.add(next);
+      }
+    }
+  });
+}
+
+function syntaxError(message: string, name: string | undefined, position: Position): TemplateError {
+  const where = `${name ? `Template "${name}"` : 'Template'} line ${position.line}, column ${position.column}`;
+  return new TemplateError(
+    `${where}: ${message}`,
+    'syntax',
+    name,
+    [],
+    position.line,
+    position.column
+  );
+}
+
+/**
+ * Build the node tree from tokens, checking that blocks are balanced
+ */
+function parse(tokens: Token[], name?: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: BlockType }>; inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.elseBody : top.node.body;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      if (token.value) current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const { content, raw } = token;
+    const position = { line: token.line, column: token.column };
+
+    if (raw) {
+      if (!PATH_PATTERN.test(content)) {
+        throw syntaxError(`Invalid variable '${content}'`, name, position);
+      }
+      current().push({ type: 'variable', path: content, raw: true, ...position });
+    } else if (content.startsWith('!')) {
+      continue;
+    } else if (content.startsWith('>')) {
+      const partial = content.slice(1).trim();
+      if (!PARTIAL_NAME_PATTERN.test(partial)) {
+        throw syntaxError(`Invalid partial name '${partial}'`, name, position);
+      }
+      current().push({ type: 'partial', name: partial, ...position });
+    } else if (content.startsWith('#')) {
+      const [keyword, ...rest] = content.slice(1).trim().split(/\s+/);
+      const path = rest.join(' ');
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw syntaxError(`Unknown block '#${keyword}'`, name, position);
+      }
+      if (!PATH_PATTERN.test(path)) {
+        throw syntaxError(`Invalid expression '${path}' for #${keyword}`, name, position);
+      }
+      const node: Extract<TemplateNode, { type: BlockType }> = {
+        type: keyword,
+        path,
+        body: [],
+        elseBody: [],
+        ...position,
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (content.startsWith('/')) {
+      const keyword = content.slice(1).trim();
+      const top = stack.pop();
+      if (!top) {
+        throw syntaxError(`Unexpected '{{/${keyword}}}' without an open block`, name, position);
+      }
+      if (top.node.type !== keyword) {
+        throw syntaxError(
+          `Expected '{{/${top.node.type}}}' to close the block opened at line ${top.node.line}, found '{{/${keyword}}}'`,
+          name,
+          position
+        );
+      }
+    } else if (content === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw syntaxError("Unexpected '{{else}}'", name, position);
+      }
+      top.inElse = true;
+    } else {
+      if (!PATH_PATTERN.test(content)) {
+        throw syntaxError(`Invalid variable '${content}'`, name, position);
+      }
+      current().push({ type: 'variable', path: content, raw: false, ...position });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw syntaxError(`Unclosed '{{#${unclosed.node.type}}}' block`, name, unclosed.node);
+  }
+  return root;
+}
+
+function isPlainObject(value: unknown): value is Record<string, TemplateValue> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+  );
+}
+
+function readPath(
+  value: TemplateValue,
+  segments: string[]
+): { found: boolean; value?: TemplateValue } {
+  let current = value;
+  for (const segment of segments) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      return { found: false };
+    }
+    if (current === undefined) {
+      return { found: false };
+    }
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Resolve a path against the loop frames (innermost first), then the variables
+ */
+function lookup(
+  path: string,
+  variables: TemplateVariables,
+  frames: Frame[]
+): { found: boolean; value?: TemplateValue } {
+  const frame = frames[frames.length - 1];
+
+  if (path.startsWith('@')) {
+    if (!frame) return { found: false };
+    switch (path) {
+      case '@index':
+      case '@key':
+        return { found: true, value: frame.key };
+      case '@first':
+        return { found: true, value: frame.first };
+      default:
+        return { found: true, value: frame.last };
+    }
+  }
+
+  const [head, ...rest] = path.split('.');
+  if (head === 'this') {
+    return readPath(frame ? frame.item : variables, rest);
+  }
+
+  for (let i = frames.length - 1; i >= 0; i--) {
+    const item = frames[i].item;
+    if (isPlainObject(item) && Object.prototype.hasOwnProperty.call(item, head)) {
+      return readPath(item, [head, ...rest]);
+    }
+  }
+  return readPath(variables, [head, ...rest]);
+}
+
+function isTruthy(value: TemplateValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function formatValue(value: TemplateValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => formatValue(item)).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function getEscaper(escape: TemplateEscape | undefined): (value: string) => string {
+  if (typeof escape === 'function') return escape;
+  switch (escape) {
+    case 'xml':
+      return (value) =>
+        value
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&apos;');
+    case 'json':
+      return (value) => JSON.stringify(value).slice(1, -1);
+    default:
+      return (value) => value;
+  }
+}
+
+/**
+ * Compiled template. Compiling checks the syntax; rendering checks the variables.
+ */
+export class Template implements TemplateLike {
+  readonly source: string;
+  readonly name?: string;
+  readonly version?: number;
+  readonly variables: string[];
+  readonly partialNames: string[];
+  private nodes: TemplateNode[];
+  private partials: Record<string, string | TemplateLike>;
+  private compiledPartials = new Map<string, TemplateLike>();
+
+  constructor(source: string, options: TemplateCompileOptions = {}) {
+    this.source = source;
+    this.name = options.name;
+    this.version = options.version;
+    this.partials = { ...options.partials };
+    this.nodes = parse(tokenize(source, options.name), options.name);
+
+    const variables = new Set<string>();
+    const partialNames = new Set<string>();
+    const collect = (nodes: TemplateNode[], inLoop: boolean) => {
+      for (const node of nodes) {
+        if (node.type === 'partial') {
+          partialNames.add(node.name);
+          continue;
+        }
+        if (node.type === 'text') continue;
+
+        // Inside a loop a bare name may be a field of the item, so only count top-level reads
+        const head = node.path.split('.')[0];
+        if (!inLoop && head !== 'this' && !head.startsWith('@')) {
+          variables.add(head);
+        }
+        if (node.type !== 'variable') {
+          collect(node.body, inLoop || node.type === 'each');
+          collect(node.elseBody, inLoop);
+        }
+      }
+    };
+    collect(this.nodes, false);
+
+    this.variables = [...variables];
+    this.partialNames = [...partialNames];
+  }
+
+  /**
+   * Render with the given variables
+   * @throws TemplateError listing every missing variable or partial
+   */
+  render(variables: TemplateVariables = {}, options?: TemplateRenderOptions): string {
+    return this.renderWith(variables, [], {
+      missingVariables: new Set(),
+      missingPartials: new Set(),
+      partials: { ...this.partials, ...options?.partials },
+      escape: getEscaper(options?.escape),
+      depth: 0,
+    });
+  }
+
+  /**
+   * Make partials available to {{> name}}; returns this template
+   */
+  addPartials(partials: Record<string, string | TemplateLike>): this {
+    Object.assign(this.partials, partials);
+    return this;
+  }
+
+  private renderWith(variables: TemplateVariables, frames: Frame[], state: RenderState): string {
+    const output = this.renderNodes(this.nodes, variables, frames, state);
+
+    // Only the outermost render reports, so nested partials add to the same lists.
+    // Missing partials come first: their variables are only known once they are found.
+    if (state.depth === 0) {
+      const label = this.name ? `Template "${this.name}"` : 'Template';
+      if (state.missingPartials.size > 0) {
+        const missing = [...state.missingPartials];
+        throw new TemplateError(
+          `${label} references unknown ${missing.length === 1 ? 'partial' : 'partials'}: ${missing.join(', ')}`,
+          'missing_partial',
+          this.name,
+          missing
+        );
+      }
+      if (state.missingVariables.size > 0) {
+        const missing = [...state.missingVariables];
+        throw new TemplateError(
+          `${label} is missing ${missing.length === 1 ? 'variable' : 'variables'}: ${missing.join(', ')}`,
+          'missing_variable',
+          this.name,
+          missing
+        );
+      }
+    }
+    return output;
+  }
+
+  private renderNodes(
+    nodes: TemplateNode[],
+    variables: TemplateVariables,
+    frames: Frame[],
+    state: RenderState
+  ): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'variable': {
+          const { found, value } = lookup(node.path, variables, frames);
+          if (!found) {
+            state.missingVariables.add(node.path);
+            break;
+          }
+          const text = formatValue(value);
+          output += node.raw ? text : state.escape(text);
+          break;
+        }
+
+        case 'partial':
+          output += this.renderPartial(node, variables, frames, state);
+          break;
+
+        case 'if':
+        case 'unless': {
+          const truthy = isTruthy(lookup(node.path, variables, frames).value);
+          const branch = truthy === (node.type === 'if') ? node.body : node.elseBody;
+          output += this.renderNodes(branch, variables, frames, state);
+          break;
+        }
+
+        case 'each': {
+          const { value } = lookup(node.path, variables, frames);
+          const entries: Array<[string | number, TemplateValue]> = Array.isArray(value)
+            ? value.map((item, index) => [index, item])
+            : isPlainObject(value)
+              ? Object.entries(value)
+              : [];
+
+          if (entries.length === 0) {
+            output += this.renderNodes(node.elseBody, variables, frames, state);
+            break;
+          }
+          entries.forEach(([key, item], index) => {
+            const frame = { item, key, first: index === 0, last: index === entries.length - 1 };
+            output += this.renderNodes(node.body, variables, [...frames, frame], state);
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private renderPartial(
+    node: Extract<TemplateNode, { type: 'partial' }>,
+    variables: TemplateVariables,
+    frames: Frame[],
+    state: RenderState
+  ): string {
+    const partial = this.getPartial(node.name, state);
+    if (!partial) {
+      state.missingPartials.add(node.name);
+      return '';
+    }
+    if (state.depth >= DEFAULT_TEMPLATE_CONFIG.maxPartialDepth) {
+      throw syntaxError(
+        `Partials nested more than ${DEFAULT_TEMPLATE_CONFIG.maxPartialDepth} levels deep at '{{> ${node.name}}}' (recursive partial?)`,
+        this.name,
+        node
+      );
+    }
+
+    const nestedState = { ...state, depth: state.depth + 1 };
+    if (partial instanceof Template) {
+      // Partials see the caller's partials as well as their own
+      nestedState.partials = { ...partial.partials, ...state.partials };
+      return partial.renderWith(variables, frames, nestedState);
+    }
+    return partial.render(variables, { partials: state.partials });
+  }
+
+  private getPartial(name: string, state: RenderState): TemplateLike | undefined {
+    const partial = state.partials[name];
+    if (partial === undefined) return undefined;
+    if (typeof partial !== 'string') return partial;
+
+    let compiled = this.compiledPartials.get(name);
+    if (!compiled || compiled.source !== partial) {
+      compiled = new Template(partial, { name });
+      this.compiledPartials.set(name, compiled);
+    }
+    return compiled;
+  }
+}
+
+/**
+ * Compile a template, checking its syntax
+ * @throws TemplateError with line and column on a syntax error
+ */
+export function compileTemplate(source: string, options?: TemplateCompileOptions): Template {
+  return new Template(source, options);
+}
+
+/**
+ * Compile and render in one step
+ */
+export function renderTemplate(
+  source: string,
+  variables?: TemplateVariables,
+  options?: TemplateCompileOptions & TemplateRenderOptions
+): string {
+  return new Template(source, options).render(variables, options);
+}
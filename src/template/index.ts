@@ -0,0 +1,335 @@
+import { Knex } from 'knex';
+import crypto from 'crypto';
+import { getDatabase } from '../database';
+import { encryptSensitiveFields, decryptSensitiveFields } from '../database/utils';
+import { Logger } from '../logger/types';
+import { getLogger } from '../logger';
+import { TemplateError, isTemplateError } from '../errors';
+import { Template } from './engine';
+import {
+  PromptInput,
+  SaveTemplateOptions,
+  StoredTemplate,
+  TemplateLike,
+  TemplateReference,
+  TemplateRenderOptions,
+  TemplateVariables,
+} from './types';
+import { DEFAULT_TEMPLATE_CONFIG } from './defaults';
+
+// Database row interface
+interface TemplateDbRow {
+  id: string; // UUID
+  name: string;
+  version: number;
+  content: string;
+  description: string | null;
+  variables: string | null; // JSON array
+  created_at: string | Date;
+}
+
+/**
+ * Versioned prompt templates stored in the database
+ * Saving changed content under an existing name adds a version; older versions stay loadable.
+ * Partials ({{> name}}) that are not given at render time are loaded from here by name.
+ */
+export class TemplateRegistry {
+  private knexPromise: Promise<Knex> | null = null;
+  private logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger ?? getLogger();
+  }
+
+  /**
+   * Get the knex instance, creating the prompt_templates table on first use
+   */
+  private getKnex(): Promise<Knex> {
+    if (!this.knexPromise) {
+      this.knexPromise = this.initialize().catch((error: unknown) => {
+        // Allow a later call to retry
+        this.knexPromise = null;
+        throw error;
+      });
+    }
+    return this.knexPromise;
+  }
+
+  private async initialize(): Promise<Knex> {
+    const db = await getDatabase();
+    const knex = db.getKnex();
+
+    const hasTemplatesTable = await knex.schema.hasTable('prompt_templates');
+    if (!hasTemplatesTable) {
+      this.logger.debug('Creating prompt_templates table');
+
+      await knex.schema.createTable('prompt_templates', (table) => {
+        table.string('id', 36).primary(); // UUID generated in application layer
+        table.string('name', DEFAULT_TEMPLATE_CONFIG.maxNameLength).notNullable();
+        table.integer('version').notNullable();
+        table.text('content').notNullable();
+        table.text('description').nullable();
+        table.text('variables').nullable();
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+
+        table.unique(['name', 'version']);
+      });
+    }
+
+    return knex;
+  }
+
+  /**
+   * Save a template, adding a version when the content differs from the latest one
+   * @throws TemplateError when the template does not compile
+   */
+  async save(name: string, source: string, options?: SaveTemplateOptions): Promise<StoredTemplate> {
+    this.validateName(name);
+    const template = new Template(source, { name });
+
+    const latest = await this.get(name);
+    if (
+      latest &&
+      latest.content === source &&
+      (options?.description === undefined || options.description === latest.description)
+    ) {
+      this.logger.debug('Template unchanged, keeping version', { name, version: latest.version });
+      return latest;
+    }
+
+    const knex = await this.getKnex();
+    const row = {
+      id: crypto.randomUUID(),
+      name,
+      version: (latest?.version ?? 0) + 1,
+      content: source,
+      description: options?.description ?? latest?.description ?? null,
+      variables: JSON.stringify(template.variables),
+    };
+    await knex('prompt_templates').insert(await encryptSensitiveFields(row, 'prompt_templates'));
+
+    this.logger.info(`Saved template ${name} v${row.version}`);
+    this.logger.debug('Template saved', {
+      name,
+      version: row.version,
+      variables: template.variables,
+      partials: template.partialNames,
+    });
+
+    const saved = await this.get(name, row.version);
+    if (!saved) {
+      throw new Error(`Template ${name} v${row.version} not found after save`);
+    }
+    return saved;
+  }
+
+  /**
+   * Get a stored version, the latest when no version is given
+   */
+  async get(name: string, version?: number): Promise<StoredTemplate | null> {
+    const knex = await this.getKnex();
+    const query = knex('prompt_templates').where({ name });
+    const row: TemplateDbRow | undefined =
+      version === undefined
+        ? await query.orderBy('version', 'desc').first()
+        : await query.andWhere({ version }).first();
+
+    return row ? this.formatTemplate(row) : null;
+  }
+
+  /**
+   * Load and compile a stored version
+   * @throws TemplateError with code 'not_found' when the name or version does not exist
+   */
+  async load(name: string, version?: number): Promise<Template> {
+    const stored = await this.get(name, version);
+    if (!stored) {
+      throw new TemplateError(
+        version === undefined
+          ? `Template "${name}" not found`
+          : `Template "${name}" version ${version} not found`,
+        'not_found',
+        name
+      );
+    }
+    return new Template(stored.content, { name: stored.name, version: stored.version });
+  }
+
+  /**
+   * Latest version of every template, by name
+   */
+  async list(): Promise<StoredTemplate[]> {
+    const knex = await this.getKnex();
+    const rows: TemplateDbRow[] = await knex('prompt_templates')
+      .whereIn(
+        ['name', 'version'],
+        knex('prompt_templates').select('name').max('version').groupBy('name')
+      )
+      .orderBy('name', 'asc');
+
+    return Promise.all(rows.map((row) => this.formatTemplate(row)));
+  }
+
+  /**
+   * All versions of a template, oldest first
+   */
+  async versions(name: string): Promise<StoredTemplate[]> {
+    const knex = await this.getKnex();
+    const rows: TemplateDbRow[] = await knex('prompt_templates')
+      .where({ name })
+      .orderBy('version', 'asc');
+
+    return Promise.all(rows.map((row) => this.formatTemplate(row)));
+  }
+
+  /**
+   * Delete one version, or every version when none is given
+   * @returns Number of versions deleted
+   */
+  async delete(name: string, version?: number): Promise<number> {
+    const knex = await this.getKnex();
+    const query = knex('prompt_templates').where({ name });
+    const deleted = await (version === undefined ? query : query.andWhere({ version })).delete();
+
+    if (deleted > 0) {
+      this.logger.debug('Template deleted', { name, version, deleted });
+    }
+    return deleted;
+  }
+
+  /**
+   * Load a stored template and render it
+   */
+  async render(
+    reference: string | TemplateReference,
+    variables: TemplateVariables = {},
+    options?: TemplateRenderOptions
+  ): Promise<string> {
+    const { name, version } = typeof reference === 'string' ? { name: reference } : reference;
+    return this.renderTemplate(await this.load(name, version), variables, options);
+  }
+
+  /**
+   * Render a compiled template, loading partials it cannot find from the registry
+   */
+  async renderTemplate(
+    template: TemplateLike,
+    variables: TemplateVariables = {},
+    options?: TemplateRenderOptions
+  ): Promise<string> {
+    const partials: Record<string, string | TemplateLike> = { ...options?.partials };
+
+    // Each pass loads the partials the previous one was missing, which may reference more
+    for (let pass = 0; ; pass++) {
+      try {
+        return template.render(variables, { ...options, partials });
+      } catch (error) {
+        if (
+          !isTemplateError(error) ||
+          error.code !== 'missing_partial' ||
+          pass >= DEFAULT_TEMPLATE_CONFIG.maxPartialDepth
+        ) {
+          throw error;
+        }
+
+        const loaded = await Promise.all(error.missing.map((name) => this.get(name)));
+        const found = loaded.filter((stored): stored is StoredTemplate => stored !== null);
+        if (found.length === 0) {
+          throw error;
+        }
+        for (const stored of found) {
+          partials[stored.name] = new Template(stored.content, {
+            name: stored.name,
+            version: stored.version,
+          });
+        }
+      }
+    }
+  }
+
+  private validateName(name: string): void {
+    if (
+      typeof name !== 'string' ||
+      !/^[\w.\-/]+$/.test(name) ||
+      name.length > DEFAULT_TEMPLATE_CONFIG.maxNameLength
+    ) {
+      throw new Error(
+        `Invalid template name "${name}": use letters, digits, '_', '-', '.' or '/' (max ${DEFAULT_TEMPLATE_CONFIG.maxNameLength} characters)`
+      );
+    }
+  }
+
+  /**
+   * Format database row to StoredTemplate
+   */
+  private async formatTemplate(row: TemplateDbRow): Promise<StoredTemplate> {
+    const decrypted = (await decryptSensitiveFields(
+      row as unknown as Record<string, string | number | boolean | null | undefined | Date>,
+      'prompt_templates'
+    )) as unknown as TemplateDbRow;
+
+    let variables: string[] = [];
+    try {
+      variables = decrypted.variables ? (JSON.parse(decrypted.variables) as string[]) : [];
+    } catch {
+      this.logger.warn(`Template ${row.name} v${row.version} has unreadable variables`);
+    }
+
+    return {
+      id: decrypted.id,
+      name: decrypted.name,
+      version: Number(decrypted.version),
+      content: decrypted.content,
+      description: decrypted.description ?? undefined,
+      variables,
+      createdAt: new Date(decrypted.created_at),
+    };
+  }
+}
+
+let registry: TemplateRegistry | null = null;
+
+export function getTemplateRegistry(): TemplateRegistry {
+  if (!registry) {
+    registry = new TemplateRegistry();
+  }
+  return registry;
+}
+
+export function isTemplateLike(value: unknown): value is TemplateLike {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TemplateLike).render === 'function' &&
+    typeof (value as TemplateLike).source === 'string'
+  );
+}
+
+/**
+ * Turn a prompt input into the prompt text
+ * - string without variables: returned unchanged, so existing prompts containing {{ keep working
+ * - string with variables: rendered as a template
+ * - compiled template or registry reference: rendered with the variables (or none)
+ * @throws TemplateError on syntax errors, missing variables or partials, or unknown references
+ */
+export async function resolvePrompt(
+  input: PromptInput,
+  variables?: TemplateVariables,
+  options?: TemplateRenderOptions
+): Promise<string> {
+  if (typeof input === 'string') {
+    if (variables === undefined) {
+      return input;
+    }
+    return getTemplateRegistry().renderTemplate(new Template(input), variables, options);
+  }
+
+  const template = isTemplateLike(input)
+    ? input
+    : await getTemplateRegistry().load(input.name, input.version);
+  return getTemplateRegistry().renderTemplate(template, variables, options);
+}
+
+export { Template, compileTemplate, renderTemplate } from './engine';
+export * from './types';
+export * from './defaults';
@@ -0,0 +1,78 @@
+/**
+ * Value a template variable can hold; objects are read with dotted paths ({{user.name}})
+ */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Date
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+/**
+ * How interpolated values are escaped; {{{triple}}} tags are never escaped
+ * - none: inserted as-is (default, prompts are plain text)
+ * - xml: &, <, >, " and ' become entities, for values placed inside XML-style tags
+ * - json: escaped for use inside a JSON string literal
+ */
+export type TemplateEscape = 'none' | 'xml' | 'json' | ((value: string) => string);
+
+export interface TemplateCompileOptions {
+  name?: string; // Used in error messages
+  version?: number;
+  partials?: Record<string, string | TemplateLike>; // Partials available to {{> name}}
+}
+
+export interface TemplateRenderOptions {
+  partials?: Record<string, string | TemplateLike>; // Extra partials, over the compiled ones
+  escape?: TemplateEscape;
+}
+
+/**
+ * Compiled template as seen by other modules (implemented by Template)
+ */
+export interface TemplateLike {
+  readonly source: string;
+  readonly name?: string;
+  readonly version?: number;
+  readonly variables: string[]; // Top-level variable names the template reads
+  readonly partialNames: string[]; // Partials referenced with {{> name}}
+  render(variables?: TemplateVariables, options?: TemplateRenderOptions): string;
+}
+
+/**
+ * Template in the registry, by name and optionally a fixed version (default: latest)
+ */
+export interface TemplateReference {
+  name: string;
+  version?: number;
+}
+
+/**
+ * Prompt given to agent.ask(): a plain string (a template when variables are passed),
+ * a compiled template, or a registry reference
+ */
+export type PromptInput = string | TemplateLike | TemplateReference;
+
+/**
+ * Stored template version
+ */
+export interface StoredTemplate {
+  id: string; // UUID
+  name: string;
+  version: number;
+  content: string;
+  description?: string;
+  variables: string[];
+  createdAt: Date;
+}
+
+export interface SaveTemplateOptions {
+  description?: string;
+}
+
+export type TemplateErrorCode = 'syntax' | 'missing_variable' | 'missing_partial' | 'not_found';